@@ -5,6 +5,9 @@ import PatientDetail from './components/PatientDetail';
 import AIAssistant from './components/AIAssistant';
 import Clients from './components/Clients';
 import Appointments from './components/Appointments';
+import WaitingRoom from './components/WaitingRoom';
+import Hospital from './components/Hospital';
+import ControlledDrugs from './components/ControlledDrugs';
 import Treatments from './components/Treatments';
 import Inventory from './components/Inventory';
 import POS from './components/POS';
@@ -22,16 +25,20 @@ import MobileNavbar from './components/MobileNavbar';
 import InstallPrompt from './components/InstallPrompt'; 
 import { Auth } from './components/Auth';
 import { LogOut, User as UserIcon, Search, Home } from 'lucide-react';
-import { AuthService, PatientService, OwnerService, InventoryService, AppointmentService, SaleService, ConsultationService, LabService, ExpenseService, PlanService, UserService, BranchService, SettingsService, LogService } from './services/api';
+import { AuthService, PatientService, OwnerService, InventoryService, AppointmentService, SaleService, ConsultationService, LabService, ReminderService, ExpenseService, PlanService, UserService, BranchService, SettingsService, LogService } from './services/api';
 import { getAvatarGradient } from './utils/uiUtils';
 
-import { AppState, ViewType, SaleRecord, InventoryItem, LabResult, ClinicSettings, StaffMember, Tenant, UserProfile, Consultation } from './types';
+import { AppState, ViewType, SaleRecord, InventoryItem, LabResult, ClinicSettings, StaffMember, Tenant, UserProfile, Consultation, Pet, MedicalNote, MedicalChanges, VaccinationRecord, Reminder, AppointmentChanges, AppointmentBooking } from './types';
+
+// SuperAdmin and Support accounts belong to the platform, not a clinic
+const isPlatformUser = (user: UserProfile) => user.roles.some(r => r === 'SuperAdmin' || r === 'Support');
 
 const App: React.FC = () => {
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
   const [currentView, setCurrentView] = useState<ViewType>('dashboard');
   const [selectedPatientId, setSelectedPatientId] = useState<string | null>(null);
+  const [assistantPatient, setAssistantPatient] = useState<Pet | null>(null);
   const [isProfileOpen, setIsProfileOpen] = useState(false);
   
   const [isSpotlightOpen, setIsSpotlightOpen] = useState(false);
@@ -88,8 +95,8 @@ const App: React.FC = () => {
                     tenants: [data.tenant]
                 }));
 
-                // 3. Load Data only if not SuperAdmin
-                if (!data.user.roles.includes('SuperAdmin')) {
+                // 3. Load Data only for clinic staff (platform users have their own dashboard)
+                if (!isPlatformUser(data.user)) {
                     await fetchAllData();
                 }
             }
@@ -106,7 +113,8 @@ const App: React.FC = () => {
 
   const fetchAllData = async () => {
       try {
-          const [pets, owners, inventory, appointments, sales, consultations, labs, expenses, users, branches, logs] = await Promise.all([
+          // Endpoints are role-guarded, so a 403 on one module (e.g. expenses for a receptionist) must not block the rest
+          const results = await Promise.allSettled([
               PatientService.getAll(),
               OwnerService.getAll(),
               InventoryService.getAll(),
@@ -119,20 +127,22 @@ const App: React.FC = () => {
               BranchService.getAll(),
               LogService.getAll()
           ]);
+          const [pets, owners, inventory, appointments, sales, consultations, labs, expenses, users, branches, logs] =
+              results.map(r => (r.status === 'fulfilled' && Array.isArray(r.value.data) ? r.value.data : []));
 
           setAppState(prev => ({
               ...prev,
-              pets: pets.data,
-              owners: owners.data,
-              inventory: inventory.data,
-              appointments: appointments.data,
-              sales: sales.data,
-              consultations: consultations.data,
-              labResults: labs.data,
-              expenses: expenses.data,
-              staff: users.data,
-              branches: branches.data,
-              logs: logs.data
+              pets,
+              owners,
+              inventory,
+              appointments,
+              sales,
+              consultations,
+              labResults: labs,
+              expenses,
+              staff: users,
+              branches,
+              logs
           }));
       } catch (error) {
           console.error("Failed to fetch clinic data", error);
@@ -145,8 +155,9 @@ const App: React.FC = () => {
       try {
           await action();
           if (successMessage) showToast('success', successMessage);
-      } catch (e) {
-          showToast('error', 'Operation failed');
+      } catch (e: any) {
+          // Plan limits come back with an upgrade message from the server; show it instead of a generic failure
+          showToast(e?.planLimit ? 'info' : 'error', e?.planLimit ? e.message : 'Operation failed');
       } finally {
           setIsSaving(false);
       }
@@ -166,7 +177,7 @@ const App: React.FC = () => {
               tenants: [data.tenant]
           }));
           
-          if (data.user.roles.includes('SuperAdmin')) {
+          if (isPlatformUser(data.user)) {
               // Admin logic
           } else {
               await fetchAllData();
@@ -184,15 +195,17 @@ const App: React.FC = () => {
   const handleSignup = async (user: UserProfile, tenant: Tenant, password: string, paymentRef?: string) => {
       await withLoading(async () => {
           try {
-              await AuthService.signup({
+              const { data } = await AuthService.signup({
                   name: user.name,
                   email: user.email,
                   password,
                   clinicName: tenant.name,
                   plan: tenant.plan,
                   billingPeriod: tenant.billingPeriod,
+                  currency: tenant.settings.currency,
                   country: tenant.settings.currency === 'NGN' ? 'Nigeria' : 'USA'
               }, paymentRef);
+              if (data?.token) localStorage.setItem('token', data.token);
               await handleLogin(user.email, password);
           } catch (error) {
               console.error("Signup failed", error);
@@ -215,10 +228,103 @@ const App: React.FC = () => {
       setAppState(prev => ({ ...prev, pets: [...prev.pets, data] }));
   }, 'Patient registered');
 
-  const handleAddAppointment = async (apptData: any) => withLoading(async () => {
-      const { data } = await AppointmentService.create(apptData);
-      setAppState(prev => ({ ...prev, appointments: [...prev.appointments, data] }));
-  }, 'Appointment scheduled');
+  // The server answers every medical record change with the pet's full record
+  const applyMedicalRecord = ({ petId, ...record }: any) => {
+      setAppState(prev => ({ ...prev, pets: prev.pets.map(p => p.id === petId ? { ...p, ...record } : p) }));
+  };
+
+  const handleMedicalChange = async (petId: string, changes: MedicalChanges) => withLoading(async () => {
+      try {
+          const { data } = await PatientService.updateMedical(petId, changes);
+          applyMedicalRecord(data);
+          showToast('success', 'Medical record saved');
+      } catch (e: any) {
+          if (e?.response?.status !== 409) throw e;
+          // Someone else changed the same entry: show their version instead of retrying blindly
+          const { data } = await PatientService.getMedical(petId);
+          applyMedicalRecord(data);
+          showToast('error', e.message);
+      }
+  });
+
+  const handleAddNote = (petId: string, note: MedicalNote) => handleMedicalChange(petId, { create: { notes: [note] } });
+
+  // Bookings are checked against the vet's schedule; a clash comes back with the reason to show
+  const handleAddAppointment = async (apptData: AppointmentBooking): Promise<boolean> => {
+      setIsSaving(true);
+      try {
+          if ((apptData.petIds?.length || 0) > 1 || apptData.recurrence) {
+              const { data } = await AppointmentService.createSeries(apptData);
+              setAppState(prev => ({ ...prev, appointments: [...prev.appointments, ...data.appointments] }));
+              showToast('success', `${data.appointments.length} appointments scheduled`);
+              return true;
+          }
+          const { data } = await AppointmentService.create(apptData);
+          setAppState(prev => ({ ...prev, appointments: [...prev.appointments, data] }));
+          showToast('success', 'Appointment scheduled');
+          return true;
+      } catch (e: any) {
+          showToast('error', e?.message || 'Operation failed');
+          return false;
+      } finally {
+          setIsSaving(false);
+      }
+  };
+
+  // Status changes are validated server-side; a refused move (e.g. someone else checked the visit in) shows why
+  const handleUpdateAppointment = async (id: string, changes: AppointmentChanges): Promise<boolean> => {
+      setIsSaving(true);
+      try {
+          const { data } = await AppointmentService.update(id, changes);
+          if (changes.scope && changes.scope !== 'this') {
+              // The rest of the series changed too
+              const all = await AppointmentService.getAll();
+              setAppState(prev => ({ ...prev, appointments: all.data }));
+          } else {
+              setAppState(prev => ({ ...prev, appointments: prev.appointments.map(a => a.id === id ? data : a) }));
+          }
+          // Check-in may have opened a draft consultation
+          if (data.consultationId && !appState.consultations.some(c => c.id === data.consultationId)) {
+              const consultations = await ConsultationService.getAll();
+              setAppState(prev => ({ ...prev, consultations: consultations.data }));
+          }
+          showToast('success', changes.status ? `Appointment ${changes.status}` : 'Appointment updated');
+          return true;
+      } catch (e: any) {
+          showToast('error', e?.message || 'Operation failed');
+          if (e?.response?.status === 409) {
+              const { data } = await AppointmentService.getAll();
+              setAppState(prev => ({ ...prev, appointments: data }));
+          }
+          return false;
+      } finally {
+          setIsSaving(false);
+      }
+  };
+
+  // The waiting room completes or cancels appointments as patients move through it
+  const refreshAppointments = async () => {
+      try {
+          const { data } = await AppointmentService.getAll();
+          setAppState(prev => ({ ...prev, appointments: data }));
+      } catch { /* the schedule refetches on its next change */ }
+  };
+
+  // Discharging an inpatient bills the stay onto an invoice
+  const refreshSales = async () => {
+      try {
+          const { data } = await SaleService.getAll();
+          setAppState(prev => ({ ...prev, sales: data }));
+      } catch { /* payments refetch on their next change */ }
+  };
+
+  // Flagging a controlled drug changes the item
+  const refreshInventory = async () => {
+      try {
+          const { data } = await InventoryService.getAll();
+          setAppState(prev => ({ ...prev, inventory: data }));
+      } catch { /* inventory refetches on its next change */ }
+  };
 
   const handleSaveSale = async (sale: SaleRecord) => withLoading(async () => {
       const { data } = await SaleService.create(sale);
@@ -246,13 +352,27 @@ const App: React.FC = () => {
   }, 'Record deleted successfully');
 
   const handleAddConsultation = async (consult: Consultation) => withLoading(async () => {
-      const { data } = await ConsultationService.create(consult);
+      // Saving a draft that already exists updates it; the server refuses edits once finalized
+      const isExisting = appState.consultations.some(c => c.id === consult.id);
+      const { data } = isExisting
+          ? await ConsultationService.update(consult.id, consult)
+          : await ConsultationService.create(consult);
        setAppState(prev => {
             const exists = prev.consultations.find(c => c.id === data.id);
             if (exists) return { ...prev, consultations: prev.consultations.map(c => c.id === data.id ? data : c) };
             return { ...prev, consultations: [data, ...prev.consultations] };
        });
-  }, consult.status === 'Draft' ? 'Draft saved' : 'Consultation finalized');
+      // Finalizing raises an invoice and dispenses prescribed stock on the server
+      if (data.status === 'Finalized') {
+          const [sales, inv] = await Promise.all([SaleService.getAll(), InventoryService.getAll()]);
+          setAppState(prev => ({ ...prev, sales: sales.data, inventory: inv.data }));
+      }
+  }, consult.status === 'Draft' ? 'Draft saved' : 'Consultation finalized & invoiced');
+
+  const handleAddAddendum = async (consultationId: string, content: string, section?: string) => withLoading(async () => {
+      const { data } = await ConsultationService.addAddendum(consultationId, content, section);
+      setAppState(prev => ({ ...prev, consultations: prev.consultations.map(c => c.id === data.id ? data : c) }));
+  }, 'Addendum signed');
 
   const handleAddLabRequest = async (result: LabResult) => withLoading(async () => {
       const { data } = await LabService.create(result);
@@ -263,6 +383,24 @@ const App: React.FC = () => {
       const { data } = await LabService.update(result.id, result);
       setAppState(prev => ({ ...prev, labResults: prev.labResults.map(l => l.id === data.id ? data : l) }));
   }, 'Result filed');
+
+  // Analyzer imports complete requests server-side, so the list is reloaded rather than patched
+  const handleRemindersChange = (petId: string, reminders: Reminder[]) => {
+      setAppState(prev => ({ ...prev, pets: prev.pets.map(p => p.id === petId ? { ...p, reminders } : p) }));
+  };
+
+  // The dose came out of stock and scheduled its booster reminder, so both are refreshed alongside the pet
+  const handleVaccinationsChange = async (petId: string, vaccinations: VaccinationRecord[]) => {
+      setAppState(prev => ({ ...prev, pets: prev.pets.map(p => p.id === petId ? { ...p, vaccinations } : p) }));
+      const [inv, reminders] = await Promise.all([InventoryService.getAll(), ReminderService.getAll({ petId })]);
+      const active = (reminders.data as Reminder[]).filter(r => r.status !== 'Completed' && r.status !== 'Cancelled');
+      setAppState(prev => ({ ...prev, inventory: inv.data, pets: prev.pets.map(p => p.id === petId ? { ...p, reminders: active } : p) }));
+  };
+
+  const handleLabsImported = async () => {
+      const { data } = await LabService.getAll();
+      setAppState(prev => ({ ...prev, labResults: data }));
+  };
   
   const handleAddInventory = async (item: InventoryItem) => withLoading(async () => {
       const { data } = await InventoryService.create(item);
@@ -297,8 +435,32 @@ const App: React.FC = () => {
   const handleAddBranch = async (branchData: any) => withLoading(async () => {
       const { data } = await BranchService.create(branchData);
       setAppState(prev => ({ ...prev, branches: [...(prev.branches || []), data] }));
+      // A branch admin created alongside the branch shows up in the staff list
+      if (branchData.email) {
+          const { data: users } = await UserService.getAll();
+          setAppState(prev => ({ ...prev, staff: users }));
+      }
   }, 'Branch created successfully');
 
+  const handleDeleteBranch = async (id: string) => withLoading(async () => {
+      await BranchService.delete(id);
+      setAppState(prev => ({ ...prev, branches: (prev.branches || []).filter(b => b.id !== id) }));
+  }, 'Branch removed');
+
+  const handleTransferStaff = async (staffId: string, branchId: string | null) => withLoading(async () => {
+      const { data } = await BranchService.transferStaff(staffId, branchId);
+      setAppState(prev => ({
+          ...prev,
+          staff: prev.staff.map(s => s.id === data.id ? { ...s, branchId: data.branchId } : s),
+          // Keep the per-branch staff counts on the cards in step
+          branches: (prev.branches || []).map(b => {
+              const before = prev.staff.find(s => s.id === staffId)?.branchId;
+              const delta = (b.id === data.branchId ? 1 : 0) - (b.id === before ? 1 : 0);
+              return delta ? { ...b, staffCount: (b.staffCount || 0) + delta } : b;
+          })
+      }));
+  }, 'Staff member transferred');
+
   const handleUpdateSettings = async (settings: ClinicSettings) => withLoading(async () => {
       await SettingsService.update(settings);
       setAppState(prev => ({
@@ -308,7 +470,6 @@ const App: React.FC = () => {
   }, 'Settings saved');
   
   const handleUpdateTicket = () => {};
-  const handleTransferStaff = () => {};
   const handleUpdateProfile = () => {};
   const handleUpdateSubscriptionPlan = async () => {};
 
@@ -320,12 +481,16 @@ const App: React.FC = () => {
       return <Auth onLogin={handleLogin} onSignup={handleSignup} plans={appState.subscriptionPlans} />;
   }
 
-  if (appState.currentUser.roles.includes('SuperAdmin')) {
+  if (isPlatformUser(appState.currentUser)) {
       return <SuperAdminDashboard appState={appState} onUpdateTenant={()=>{}} onCreateTenant={()=>{}} onUpdatePlan={handleUpdateSubscriptionPlan} onUpdateTicket={handleUpdateTicket} onLogout={handleLogout} />;
   }
 
   const currentTenant = appState.tenants.find(t => t.id === appState.currentTenantId) || appState.tenants[0];
   const currency = currentTenant?.settings?.currency || 'USD';
+  // Mirrors the assistant's own plan gate
+  const canUseAssistant = currentTenant?.plan !== 'Starter';
+  // A fresh object re-opens the panel even when the same pet is chosen again
+  const handleAskAssistant = (pet: Pet) => setAssistantPatient({ ...pet });
 
   return (
     <div className="flex h-[100dvh] w-full overflow-hidden bg-slate-100 font-sans">
@@ -397,17 +562,20 @@ const App: React.FC = () => {
                     {currentView === 'dashboard' && <Dashboard state={appState} onNavigate={setCurrentView} onSelectPatient={handlePatientSelect} />}
                     {currentView === 'patients' && <PatientList pets={appState.pets} owners={appState.owners} onSelectPatient={(id) => { setSelectedPatientId(id); setCurrentView('patients'); }} onAddPatient={handleAddPatient}/>}
                     {currentView === 'patients' && selectedPatientId && (
-                            <PatientDetail pet={appState.pets.find(p => p.id === selectedPatientId)!} onBack={() => setSelectedPatientId(null)} onAddNote={()=>{}} />
+                            <PatientDetail pet={appState.pets.find(p => p.id === selectedPatientId)!} owner={appState.owners.find(o => o.id === appState.pets.find(p => p.id === selectedPatientId)?.ownerId)} settings={currentTenant.settings} inventory={appState.inventory} onVaccinationsChange={handleVaccinationsChange} onRemindersChange={handleRemindersChange} onBack={() => setSelectedPatientId(null)} onAddNote={handleAddNote} onMedicalChange={handleMedicalChange} onAskAssistant={canUseAssistant ? handleAskAssistant : undefined} />
                     )}
                     {currentView === 'clients' && <Clients currency={currency} />}
-                    {currentView === 'appointments' && <Appointments appointments={appState.appointments} pets={appState.pets} owners={appState.owners} onAddAppointment={handleAddAppointment} />}
-                    {currentView === 'treatments' && <Treatments activePatients={appState.pets} appointments={appState.appointments} consultations={appState.consultations} owners={appState.owners} settings={currentTenant.settings} plan={currentTenant.plan} onSelectPatient={(id) => { setSelectedPatientId(id); setCurrentView('patients'); }} onAddConsultation={handleAddConsultation} onAddLabRequest={handleAddLabRequest} onAddPatient={handleAddPatient} />}
+                    {currentView === 'appointments' && <Appointments appointments={appState.appointments} pets={appState.pets} owners={appState.owners} onAddAppointment={handleAddAppointment} onUpdateAppointment={handleUpdateAppointment} currentUser={appState.currentUser!} staff={appState.staff} />}
+                    {currentView === 'queue' && <WaitingRoom pets={appState.pets} owners={appState.owners} onAppointmentsChanged={refreshAppointments} />}
+                    {currentView === 'hospital' && <Hospital pets={appState.pets} owners={appState.owners} inventory={appState.inventory} currency={currency} onSalesChanged={refreshSales} />}
+                    {currentView === 'controlled' && <ControlledDrugs inventory={appState.inventory} pets={appState.pets} owners={appState.owners} currentUser={appState.currentUser!} onInventoryChanged={refreshInventory} />}
+                    {currentView === 'treatments' && <Treatments activePatients={appState.pets} appointments={appState.appointments} consultations={appState.consultations} owners={appState.owners} inventory={appState.inventory} settings={currentTenant.settings} plan={currentTenant.plan} onSelectPatient={(id) => { setSelectedPatientId(id); setCurrentView('patients'); }} onAddConsultation={handleAddConsultation} onAddAddendum={handleAddAddendum} onAddLabRequest={handleAddLabRequest} onAddPatient={handleAddPatient} onAskAssistant={canUseAssistant ? handleAskAssistant : undefined} />}
                     {currentView === 'inventory' && <Inventory items={appState.inventory} currency={currency} onAddItem={handleAddInventory} onUpdateItem={handleUpdateInventory} />}
                     {currentView === 'pos' && <POS sales={appState.sales} owners={appState.owners} settings={currentTenant.settings} inventory={appState.inventory} plan={currentTenant.plan} onSaveSale={handleSaveSale} onDeleteSale={handleDeleteSale} />}
-                    {currentView === 'lab' && <Lab results={appState.labResults} pets={appState.pets} owners={appState.owners} onAddResult={handleAddLabRequest} onUpdateResult={handleUpdateLabResult} />}
+                    {currentView === 'lab' && <Lab results={appState.labResults} pets={appState.pets} owners={appState.owners} onAddResult={handleAddLabRequest} onUpdateResult={handleUpdateLabResult} onResultsImported={handleLabsImported} />}
                     {currentView === 'reports' && <Reports sales={appState.sales} inventory={appState.inventory} pets={appState.pets} consultations={appState.consultations} currency={currency} />}
                     {currentView === 'logs' && <ClinicLogs logs={appState.logs} />}
-                    {currentView === 'settings' && <Settings settings={currentTenant.settings} staff={appState.staff} plan={currentTenant.plan} currentUser={appState.currentUser!} tenants={appState.tenants} branches={appState.branches} onUpdateSettings={handleUpdateSettings} onAddStaff={handleAddStaff} onUpdateStaff={handleUpdateStaff} onDeleteStaff={handleDeleteStaff} onTransferStaff={handleTransferStaff} onUpdateProfile={handleUpdateProfile} onAddBranch={handleAddBranch} />}
+                    {currentView === 'settings' && <Settings settings={currentTenant.settings} staff={appState.staff} plan={currentTenant.plan} currentUser={appState.currentUser!} tenants={appState.tenants} branches={appState.branches} onUpdateSettings={handleUpdateSettings} onAddStaff={handleAddStaff} onUpdateStaff={handleUpdateStaff} onDeleteStaff={handleDeleteStaff} onTransferStaff={handleTransferStaff} onUpdateProfile={handleUpdateProfile} onAddBranch={handleAddBranch} onDeleteBranch={handleDeleteBranch} />}
                     {currentView === 'expenses' && <Expenses expenses={appState.expenses} settings={currentTenant.settings} onAddExpense={handleAddExpense} />}
                 </div>
             </PageTransition>
@@ -418,7 +586,7 @@ const App: React.FC = () => {
             <MobileNavbar currentView={currentView} onNavigate={setCurrentView} onOpenMenu={() => setIsSpotlightOpen(true)} />
         </div>
         
-        <AIAssistant plan={currentTenant?.plan} />
+        <AIAssistant plan={currentTenant?.plan} patient={assistantPatient} onClearPatient={() => setAssistantPatient(null)} />
       </main>
     </div>
   );
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Owner" ADD COLUMN     "isVerified" BOOLEAN NOT NULL DEFAULT false;
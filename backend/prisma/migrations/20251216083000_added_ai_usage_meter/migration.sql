@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Tenant" ADD COLUMN     "aiCallsUsed" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "aiUsagePeriod" TEXT;
@@ -0,0 +1,19 @@
+-- AlterTable
+ALTER TABLE "Consultation" ADD COLUMN     "finalizedAt" TIMESTAMP(3),
+ADD COLUMN     "finalizedBy" TEXT;
+
+-- CreateTable
+CREATE TABLE "ConsultationAddendum" (
+    "id" TEXT NOT NULL,
+    "consultationId" TEXT NOT NULL,
+    "section" TEXT,
+    "content" TEXT NOT NULL,
+    "authorId" TEXT NOT NULL,
+    "authorName" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ConsultationAddendum_pkey" PRIMARY KEY ("id")
+);
+
+-- AddForeignKey
+ALTER TABLE "ConsultationAddendum" ADD CONSTRAINT "ConsultationAddendum_consultationId_fkey" FOREIGN KEY ("consultationId") REFERENCES "Consultation"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE "Pet" ADD COLUMN     "patientNumber" TEXT;
+
+-- CreateTable
+CREATE TABLE "DocumentCounter" (
+    "tenantId" TEXT NOT NULL,
+    "docType" TEXT NOT NULL,
+    "period" TEXT NOT NULL,
+    "value" INTEGER NOT NULL DEFAULT 0,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "DocumentCounter_pkey" PRIMARY KEY ("tenantId","docType","period")
+);
+
+-- AddForeignKey
+ALTER TABLE "DocumentCounter" ADD CONSTRAINT "DocumentCounter_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
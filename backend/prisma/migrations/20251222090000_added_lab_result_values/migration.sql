@@ -0,0 +1,29 @@
+-- AlterTable
+ALTER TABLE "LabResult" ADD COLUMN     "completionDate" TIMESTAMP(3),
+ADD COLUMN     "testCode" TEXT;
+
+-- CreateTable
+CREATE TABLE "LabResultValue" (
+    "id" TEXT NOT NULL,
+    "labResultId" TEXT NOT NULL,
+    "analyte" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "unit" TEXT,
+    "value" DOUBLE PRECISION,
+    "textValue" TEXT,
+    "refLow" DOUBLE PRECISION,
+    "refHigh" DOUBLE PRECISION,
+    "flag" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LabResultValue_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "LabResultValue_labResultId_idx" ON "LabResultValue"("labResultId");
+
+-- CreateIndex
+CREATE INDEX "LabResultValue_analyte_idx" ON "LabResultValue"("analyte");
+
+-- AddForeignKey
+ALTER TABLE "LabResultValue" ADD CONSTRAINT "LabResultValue_labResultId_fkey" FOREIGN KEY ("labResultId") REFERENCES "LabResult"("id") ON DELETE CASCADE ON UPDATE CASCADE;
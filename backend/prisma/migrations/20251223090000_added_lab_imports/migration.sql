@@ -0,0 +1,31 @@
+-- AlterTable
+ALTER TABLE "LabResult" ADD COLUMN     "accessionNumber" TEXT;
+
+-- CreateTable
+CREATE TABLE "LabImport" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "format" TEXT NOT NULL,
+    "fileName" TEXT,
+    "accession" TEXT,
+    "patientRef" TEXT,
+    "patientName" TEXT,
+    "testCode" TEXT,
+    "testName" TEXT,
+    "observedAt" TIMESTAMP(3),
+    "values" TEXT NOT NULL DEFAULT '[]',
+    "status" TEXT NOT NULL DEFAULT 'Unmatched',
+    "labResultId" TEXT,
+    "resolvedBy" TEXT,
+    "resolvedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LabImport_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "LabImport_tenantId_status_idx" ON "LabImport"("tenantId", "status");
+
+-- AddForeignKey
+ALTER TABLE "LabImport" ADD CONSTRAINT "LabImport_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,167 @@
+-- CreateTable
+CREATE TABLE "Vitals" (
+    "id" TEXT NOT NULL,
+    "petId" TEXT NOT NULL,
+    "date" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "weightKg" DOUBLE PRECISION,
+    "temperatureC" DOUBLE PRECISION,
+    "heartRateBpm" DOUBLE PRECISION,
+    "respiratoryRate" DOUBLE PRECISION,
+    "recordedBy" TEXT,
+    "version" INTEGER NOT NULL DEFAULT 1,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Vitals_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "MedicalNote" (
+    "id" TEXT NOT NULL,
+    "petId" TEXT NOT NULL,
+    "date" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "vetName" TEXT NOT NULL,
+    "type" TEXT NOT NULL DEFAULT 'General',
+    "content" TEXT NOT NULL,
+    "version" INTEGER NOT NULL DEFAULT 1,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "MedicalNote_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Allergy" (
+    "id" TEXT NOT NULL,
+    "petId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "severity" TEXT,
+    "reaction" TEXT,
+    "version" INTEGER NOT NULL DEFAULT 1,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Allergy_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Condition" (
+    "id" TEXT NOT NULL,
+    "petId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'Active',
+    "diagnosedAt" TIMESTAMP(3),
+    "notes" TEXT,
+    "version" INTEGER NOT NULL DEFAULT 1,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Condition_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Vitals_petId_date_idx" ON "Vitals"("petId", "date");
+
+-- CreateIndex
+CREATE INDEX "MedicalNote_petId_date_idx" ON "MedicalNote"("petId", "date");
+
+-- CreateIndex
+CREATE INDEX "Allergy_petId_idx" ON "Allergy"("petId");
+
+-- CreateIndex
+CREATE INDEX "Condition_petId_idx" ON "Condition"("petId");
+
+-- AddForeignKey
+ALTER TABLE "Vitals" ADD CONSTRAINT "Vitals_petId_fkey" FOREIGN KEY ("petId") REFERENCES "Pet"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MedicalNote" ADD CONSTRAINT "MedicalNote_petId_fkey" FOREIGN KEY ("petId") REFERENCES "Pet"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Allergy" ADD CONSTRAINT "Allergy_petId_fkey" FOREIGN KEY ("petId") REFERENCES "Pet"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Condition" ADD CONSTRAINT "Condition_petId_fkey" FOREIGN KEY ("petId") REFERENCES "Pet"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Migrate existing JSON history into the new tables.
+-- Only well-formed arrays are read; dates and numbers that don't parse fall back to the pet's
+-- creation date and NULL rather than failing the migration. Ids are derived from the pet id and
+-- array position so the migration is deterministic.
+
+-- Safe casts for the backfill (dropped at the end): a malformed value becomes an empty list or NULL.
+-- A WHERE clause can't guard a cast, because Postgres may evaluate the select list first.
+CREATE FUNCTION "_migration_jsonb_array"(value TEXT) RETURNS JSONB AS $$
+DECLARE parsed JSONB;
+BEGIN
+    parsed := value::jsonb;
+    RETURN CASE WHEN jsonb_typeof(parsed) = 'array' THEN parsed ELSE '[]'::jsonb END;
+EXCEPTION WHEN others THEN
+    RETURN '[]'::jsonb;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+CREATE FUNCTION "_migration_timestamptz"(value TEXT) RETURNS TIMESTAMPTZ AS $$
+BEGIN
+    RETURN value::timestamptz;
+EXCEPTION WHEN others THEN
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Vitals: [{ date, weightKg, temperatureC, heartRateBpm, respiratoryRate }]
+INSERT INTO "Vitals" ("id", "petId", "date", "weightKg", "temperatureC", "heartRateBpm", "respiratoryRate")
+SELECT
+    'VIT-' || p."id" || '-' || e.ord,
+    p."id",
+    COALESCE(CASE WHEN e.item->>'date' ~ '^\d{4}-\d{2}-\d{2}' THEN "_migration_timestamptz"(e.item->>'date') END, p."createdAt"),
+    CASE WHEN e.item->>'weightKg' ~ '^-?\d+(\.\d+)?$' THEN (e.item->>'weightKg')::double precision END,
+    CASE WHEN e.item->>'temperatureC' ~ '^-?\d+(\.\d+)?$' THEN (e.item->>'temperatureC')::double precision END,
+    CASE WHEN e.item->>'heartRateBpm' ~ '^-?\d+(\.\d+)?$' THEN (e.item->>'heartRateBpm')::double precision END,
+    CASE WHEN e.item->>'respiratoryRate' ~ '^-?\d+(\.\d+)?$' THEN (e.item->>'respiratoryRate')::double precision END
+FROM "Pet" p
+CROSS JOIN LATERAL jsonb_array_elements("_migration_jsonb_array"(p."vitalsHistory")) WITH ORDINALITY AS e(item, ord)
+WHERE p."vitalsHistory" ~ '^\s*\[' AND jsonb_typeof(e.item) = 'object';
+
+-- Notes: [{ id, date, vetName, type, content }]
+INSERT INTO "MedicalNote" ("id", "petId", "date", "vetName", "type", "content")
+SELECT
+    'NOTE-' || p."id" || '-' || e.ord,
+    p."id",
+    COALESCE(CASE WHEN e.item->>'date' ~ '^\d{4}-\d{2}-\d{2}' THEN "_migration_timestamptz"(e.item->>'date') END, p."createdAt"),
+    COALESCE(NULLIF(e.item->>'vetName', ''), 'Unknown'),
+    COALESCE(NULLIF(e.item->>'type', ''), 'General'),
+    e.item->>'content'
+FROM "Pet" p
+CROSS JOIN LATERAL jsonb_array_elements("_migration_jsonb_array"(p."notes")) WITH ORDINALITY AS e(item, ord)
+WHERE p."notes" ~ '^\s*\[' AND jsonb_typeof(e.item) = 'object' AND COALESCE(e.item->>'content', '') <> '';
+
+-- Allergies: ["Penicillin"] or [{ name }]
+INSERT INTO "Allergy" ("id", "petId", "name")
+SELECT
+    'ALG-' || p."id" || '-' || e.ord,
+    p."id",
+    trim(CASE WHEN jsonb_typeof(e.item) = 'string' THEN e.item #>> '{}' ELSE e.item->>'name' END)
+FROM "Pet" p
+CROSS JOIN LATERAL jsonb_array_elements("_migration_jsonb_array"(p."allergies")) WITH ORDINALITY AS e(item, ord)
+WHERE p."allergies" ~ '^\s*\['
+  AND trim(COALESCE(CASE WHEN jsonb_typeof(e.item) = 'string' THEN e.item #>> '{}' ELSE e.item->>'name' END, '')) <> '';
+
+-- Conditions: ["Arthritis"] or [{ name }]
+INSERT INTO "Condition" ("id", "petId", "name")
+SELECT
+    'CND-' || p."id" || '-' || e.ord,
+    p."id",
+    trim(CASE WHEN jsonb_typeof(e.item) = 'string' THEN e.item #>> '{}' ELSE e.item->>'name' END)
+FROM "Pet" p
+CROSS JOIN LATERAL jsonb_array_elements("_migration_jsonb_array"(p."medicalConditions")) WITH ORDINALITY AS e(item, ord)
+WHERE p."medicalConditions" ~ '^\s*\['
+  AND trim(COALESCE(CASE WHEN jsonb_typeof(e.item) = 'string' THEN e.item #>> '{}' ELSE e.item->>'name' END, '')) <> '';
+
+DROP FUNCTION "_migration_jsonb_array"(TEXT);
+DROP FUNCTION "_migration_timestamptz"(TEXT);
+
+-- AlterTable
+ALTER TABLE "Pet" DROP COLUMN "allergies",
+DROP COLUMN "medicalConditions",
+DROP COLUMN "notes",
+DROP COLUMN "vitalsHistory";
@@ -0,0 +1,77 @@
+-- CreateTable
+CREATE TABLE "Vaccination" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "petId" TEXT NOT NULL,
+    "branchId" TEXT,
+    "protocolCode" TEXT,
+    "vaccineName" TEXT NOT NULL,
+    "doseNumber" INTEGER NOT NULL DEFAULT 1,
+    "dateAdministered" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "dueDate" TIMESTAMP(3),
+    "inventoryItemId" TEXT,
+    "lotNumber" TEXT,
+    "manufacturer" TEXT,
+    "batchExpiry" TEXT,
+    "route" TEXT,
+    "site" TEXT,
+    "notes" TEXT,
+    "administeredBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Vaccination_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Vaccination_petId_idx" ON "Vaccination"("petId");
+
+-- CreateIndex
+CREATE INDEX "Vaccination_tenantId_dueDate_idx" ON "Vaccination"("tenantId", "dueDate");
+
+-- AddForeignKey
+ALTER TABLE "Vaccination" ADD CONSTRAINT "Vaccination_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Vaccination" ADD CONSTRAINT "Vaccination_petId_fkey" FOREIGN KEY ("petId") REFERENCES "Pet"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Safe casts for the backfill (dropped at the end): a malformed value becomes an empty list or NULL.
+-- A WHERE clause can't guard a cast, because Postgres may evaluate the select list first.
+CREATE FUNCTION "_migration_jsonb_array"(value TEXT) RETURNS JSONB AS $$
+DECLARE parsed JSONB;
+BEGIN
+    parsed := value::jsonb;
+    RETURN CASE WHEN jsonb_typeof(parsed) = 'array' THEN parsed ELSE '[]'::jsonb END;
+EXCEPTION WHEN others THEN
+    RETURN '[]'::jsonb;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+CREATE FUNCTION "_migration_timestamptz"(value TEXT) RETURNS TIMESTAMPTZ AS $$
+BEGIN
+    RETURN value::timestamptz;
+EXCEPTION WHEN others THEN
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Migrate the JSON vaccination list on Pet: [{ id, vaccineName, dateAdministered, dueDate, lotNumber, manufacturer, administeredBy }]
+INSERT INTO "Vaccination" ("id", "tenantId", "petId", "vaccineName", "dateAdministered", "dueDate", "lotNumber", "manufacturer", "administeredBy")
+SELECT
+    'VAC-' || p."id" || '-' || e.ord,
+    p."tenantId",
+    p."id",
+    e.item->>'vaccineName',
+    COALESCE(CASE WHEN e.item->>'dateAdministered' ~ '^\d{4}-\d{2}-\d{2}' THEN "_migration_timestamptz"(e.item->>'dateAdministered') END, p."createdAt"),
+    CASE WHEN e.item->>'dueDate' ~ '^\d{4}-\d{2}-\d{2}' THEN "_migration_timestamptz"(e.item->>'dueDate') END,
+    NULLIF(e.item->>'lotNumber', ''),
+    NULLIF(e.item->>'manufacturer', ''),
+    COALESCE(NULLIF(e.item->>'administeredBy', ''), 'Unknown')
+FROM "Pet" p
+CROSS JOIN LATERAL jsonb_array_elements("_migration_jsonb_array"(p."vaccinations")) WITH ORDINALITY AS e(item, ord)
+WHERE p."vaccinations" ~ '^\s*\[' AND jsonb_typeof(e.item) = 'object' AND COALESCE(e.item->>'vaccineName', '') <> '';
+
+DROP FUNCTION "_migration_jsonb_array"(TEXT);
+DROP FUNCTION "_migration_timestamptz"(TEXT);
+
+-- AlterTable
+ALTER TABLE "Pet" DROP COLUMN "vaccinations";
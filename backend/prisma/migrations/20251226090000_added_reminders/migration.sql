@@ -0,0 +1,120 @@
+-- CreateTable
+CREATE TABLE "Reminder" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "petId" TEXT NOT NULL,
+    "ownerId" TEXT NOT NULL,
+    "consultationId" TEXT,
+    "vaccinationId" TEXT,
+    "type" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "dueDate" TIMESTAMP(3) NOT NULL,
+    "method" TEXT NOT NULL DEFAULT 'SMS',
+    "status" TEXT NOT NULL DEFAULT 'Pending',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "nextAttemptAt" TIMESTAMP(3),
+    "deliveredVia" TEXT,
+    "lastError" TEXT,
+    "sentAt" TIMESTAMP(3),
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Reminder_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Reminder_tenantId_status_dueDate_idx" ON "Reminder"("tenantId", "status", "dueDate");
+
+-- CreateIndex
+CREATE INDEX "Reminder_petId_idx" ON "Reminder"("petId");
+
+-- AddForeignKey
+ALTER TABLE "Reminder" ADD CONSTRAINT "Reminder_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Reminder" ADD CONSTRAINT "Reminder_petId_fkey" FOREIGN KEY ("petId") REFERENCES "Pet"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Reminder" ADD CONSTRAINT "Reminder_ownerId_fkey" FOREIGN KEY ("ownerId") REFERENCES "Owner"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Reminder" ADD CONSTRAINT "Reminder_consultationId_fkey" FOREIGN KEY ("consultationId") REFERENCES "Consultation"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Reminder" ADD CONSTRAINT "Reminder_vaccinationId_fkey" FOREIGN KEY ("vaccinationId") REFERENCES "Vaccination"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Safe casts for the backfill (dropped at the end): malformed JSON or dates become NULL or an empty list and the entry is skipped.
+-- A WHERE clause can't guard a cast, because Postgres may evaluate the select list first.
+CREATE FUNCTION "_migration_jsonb"(value TEXT) RETURNS JSONB AS $$
+BEGIN
+    RETURN value::jsonb;
+EXCEPTION WHEN others THEN
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+CREATE FUNCTION "_migration_jsonb_array"(value TEXT) RETURNS JSONB AS $$
+DECLARE parsed JSONB;
+BEGIN
+    parsed := value::jsonb;
+    RETURN CASE WHEN jsonb_typeof(parsed) = 'array' THEN parsed ELSE '[]'::jsonb END;
+EXCEPTION WHEN others THEN
+    RETURN '[]'::jsonb;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+CREATE FUNCTION "_migration_timestamptz"(value TEXT) RETURNS TIMESTAMPTZ AS $$
+BEGIN
+    RETURN value::timestamptz;
+EXCEPTION WHEN others THEN
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Migrate the reminder object on Consultation: { id, type, description, dueDate, status, method }
+INSERT INTO "Reminder" ("id", "tenantId", "petId", "ownerId", "consultationId", "type", "description", "dueDate", "method", "status")
+SELECT
+    'REM-' || c."id",
+    c."tenantId",
+    c."petId",
+    c."ownerId",
+    c."id",
+    COALESCE(NULLIF(r.item->>'type', ''), 'Other'),
+    COALESCE(NULLIF(r.item->>'description', ''), 'Reminder'),
+    "_migration_timestamptz"(r.item->>'dueDate'),
+    CASE WHEN r.item->>'method' IN ('SMS', 'Email', 'Both') THEN r.item->>'method' ELSE 'SMS' END,
+    CASE WHEN r.item->>'status' IN ('Pending', 'Sent', 'Completed', 'Cancelled') THEN r.item->>'status' ELSE 'Pending' END
+FROM "Consultation" c
+CROSS JOIN LATERAL (SELECT "_migration_jsonb"(c."reminder") AS item) r
+WHERE c."reminder" ~ '^\s*\{' AND r.item->>'dueDate' ~ '^\d{4}-\d{2}-\d{2}'
+  AND "_migration_timestamptz"(r.item->>'dueDate') IS NOT NULL;
+
+-- Migrate the reminder list on Pet, skipping entries already copied from their consultation
+INSERT INTO "Reminder" ("id", "tenantId", "petId", "ownerId", "consultationId", "type", "description", "dueDate", "method", "status")
+SELECT
+    'REM-' || p."id" || '-' || e.ord,
+    p."tenantId",
+    p."id",
+    p."ownerId",
+    (SELECT c."id" FROM "Consultation" c WHERE c."id" = e.item->>'consultationId'),
+    COALESCE(NULLIF(e.item->>'type', ''), 'Other'),
+    COALESCE(NULLIF(e.item->>'description', ''), 'Reminder'),
+    "_migration_timestamptz"(e.item->>'dueDate'),
+    CASE WHEN e.item->>'method' IN ('SMS', 'Email', 'Both') THEN e.item->>'method' ELSE 'SMS' END,
+    CASE WHEN e.item->>'status' IN ('Pending', 'Sent', 'Completed', 'Cancelled') THEN e.item->>'status' ELSE 'Pending' END
+FROM "Pet" p
+CROSS JOIN LATERAL jsonb_array_elements("_migration_jsonb_array"(p."reminders")) WITH ORDINALITY AS e(item, ord)
+WHERE p."reminders" ~ '^\s*\[' AND jsonb_typeof(e.item) = 'object' AND e.item->>'dueDate' ~ '^\d{4}-\d{2}-\d{2}'
+  AND "_migration_timestamptz"(e.item->>'dueDate') IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM "Reminder" r WHERE r."consultationId" = e.item->>'consultationId');
+
+DROP FUNCTION "_migration_jsonb"(TEXT);
+DROP FUNCTION "_migration_jsonb_array"(TEXT);
+DROP FUNCTION "_migration_timestamptz"(TEXT);
+
+-- AlterTable
+ALTER TABLE "Pet" DROP COLUMN "reminders";
+
+-- AlterTable
+ALTER TABLE "Consultation" DROP COLUMN "reminder";
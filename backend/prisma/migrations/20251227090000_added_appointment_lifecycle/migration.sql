@@ -0,0 +1,28 @@
+-- AlterTable
+ALTER TABLE "Appointment" ADD COLUMN "checkedInAt" TIMESTAMP(3),
+ADD COLUMN "cancelReason" TEXT,
+ADD COLUMN "consultationId" TEXT;
+
+-- CreateTable
+CREATE TABLE "AppointmentEvent" (
+    "id" TEXT NOT NULL,
+    "appointmentId" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "fromStatus" TEXT,
+    "toStatus" TEXT,
+    "details" TEXT,
+    "actorId" TEXT NOT NULL,
+    "actorName" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AppointmentEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AppointmentEvent_appointmentId_idx" ON "AppointmentEvent"("appointmentId");
+
+-- AddForeignKey
+ALTER TABLE "Appointment" ADD CONSTRAINT "Appointment_consultationId_fkey" FOREIGN KEY ("consultationId") REFERENCES "Consultation"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AppointmentEvent" ADD CONSTRAINT "AppointmentEvent_appointmentId_fkey" FOREIGN KEY ("appointmentId") REFERENCES "Appointment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,29 @@
+-- AlterTable
+ALTER TABLE "Appointment" ADD COLUMN "seriesId" TEXT,
+ADD COLUMN "occurrence" INTEGER;
+
+-- CreateTable
+CREATE TABLE "AppointmentSeries" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "frequency" TEXT,
+    "interval" INTEGER NOT NULL DEFAULT 1,
+    "until" TIMESTAMP(3),
+    "count" INTEGER,
+    "createdBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AppointmentSeries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Appointment_seriesId_occurrence_idx" ON "Appointment"("seriesId", "occurrence");
+
+-- CreateIndex
+CREATE INDEX "AppointmentSeries_tenantId_idx" ON "AppointmentSeries"("tenantId");
+
+-- AddForeignKey
+ALTER TABLE "Appointment" ADD CONSTRAINT "Appointment_seriesId_fkey" FOREIGN KEY ("seriesId") REFERENCES "AppointmentSeries"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AppointmentSeries" ADD CONSTRAINT "AppointmentSeries_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,53 @@
+-- CreateTable
+CREATE TABLE "QueueEntry" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "branchId" TEXT,
+    "appointmentId" TEXT,
+    "petId" TEXT,
+    "ownerId" TEXT,
+    "walkInName" TEXT,
+    "reason" TEXT NOT NULL,
+    "triageLevel" TEXT NOT NULL DEFAULT 'Routine',
+    "triageNotes" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'Waiting',
+    "doctorId" TEXT,
+    "doctorName" TEXT,
+    "room" TEXT,
+    "outcome" TEXT,
+    "arrivedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "consultStartedAt" TIMESTAMP(3),
+    "consultEndedAt" TIMESTAMP(3),
+    "dischargedAt" TIMESTAMP(3),
+    "createdBy" TEXT NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "QueueEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "QueueEntry_appointmentId_key" ON "QueueEntry"("appointmentId");
+
+-- CreateIndex
+CREATE INDEX "QueueEntry_tenantId_status_idx" ON "QueueEntry"("tenantId", "status");
+
+-- CreateIndex
+CREATE INDEX "QueueEntry_tenantId_arrivedAt_idx" ON "QueueEntry"("tenantId", "arrivedAt");
+
+-- AddForeignKey
+ALTER TABLE "QueueEntry" ADD CONSTRAINT "QueueEntry_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "QueueEntry" ADD CONSTRAINT "QueueEntry_branchId_fkey" FOREIGN KEY ("branchId") REFERENCES "Branch"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "QueueEntry" ADD CONSTRAINT "QueueEntry_appointmentId_fkey" FOREIGN KEY ("appointmentId") REFERENCES "Appointment"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "QueueEntry" ADD CONSTRAINT "QueueEntry_petId_fkey" FOREIGN KEY ("petId") REFERENCES "Pet"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "QueueEntry" ADD CONSTRAINT "QueueEntry_ownerId_fkey" FOREIGN KEY ("ownerId") REFERENCES "Owner"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "QueueEntry" ADD CONSTRAINT "QueueEntry_doctorId_fkey" FOREIGN KEY ("doctorId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,96 @@
+-- AlterTable
+ALTER TABLE "Vitals" ADD COLUMN "admissionId" TEXT;
+
+-- CreateTable
+CREATE TABLE "Admission" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "branchId" TEXT,
+    "petId" TEXT NOT NULL,
+    "ownerId" TEXT NOT NULL,
+    "kennel" TEXT NOT NULL,
+    "reason" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'Admitted',
+    "dailyRate" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "rateItemId" TEXT,
+    "admittedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expectedDischargeAt" TIMESTAMP(3),
+    "dischargedAt" TIMESTAMP(3),
+    "dischargeNotes" TEXT,
+    "admittedBy" TEXT NOT NULL,
+    "dischargedBy" TEXT,
+    "stayDays" INTEGER,
+    "saleId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Admission_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "TreatmentOrder" (
+    "id" TEXT NOT NULL,
+    "admissionId" TEXT NOT NULL,
+    "drug" TEXT NOT NULL,
+    "dose" TEXT NOT NULL,
+    "route" TEXT NOT NULL,
+    "times" TEXT NOT NULL DEFAULT '[]',
+    "notes" TEXT,
+    "startAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "endAt" TIMESTAMP(3),
+    "stoppedAt" TIMESTAMP(3),
+    "prescribedBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TreatmentOrder_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "TreatmentTask" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "dueAt" TIMESTAMP(3) NOT NULL,
+    "status" TEXT NOT NULL,
+    "notes" TEXT,
+    "doneById" TEXT NOT NULL,
+    "doneByName" TEXT NOT NULL,
+    "doneAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TreatmentTask_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Vitals_admissionId_idx" ON "Vitals"("admissionId");
+
+-- CreateIndex
+CREATE INDEX "Admission_tenantId_status_idx" ON "Admission"("tenantId", "status");
+
+-- CreateIndex
+CREATE INDEX "Admission_petId_idx" ON "Admission"("petId");
+
+-- CreateIndex
+CREATE INDEX "TreatmentOrder_admissionId_idx" ON "TreatmentOrder"("admissionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TreatmentTask_orderId_dueAt_key" ON "TreatmentTask"("orderId", "dueAt");
+
+-- AddForeignKey
+ALTER TABLE "Vitals" ADD CONSTRAINT "Vitals_admissionId_fkey" FOREIGN KEY ("admissionId") REFERENCES "Admission"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Admission" ADD CONSTRAINT "Admission_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Admission" ADD CONSTRAINT "Admission_branchId_fkey" FOREIGN KEY ("branchId") REFERENCES "Branch"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Admission" ADD CONSTRAINT "Admission_petId_fkey" FOREIGN KEY ("petId") REFERENCES "Pet"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Admission" ADD CONSTRAINT "Admission_ownerId_fkey" FOREIGN KEY ("ownerId") REFERENCES "Owner"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TreatmentOrder" ADD CONSTRAINT "TreatmentOrder_admissionId_fkey" FOREIGN KEY ("admissionId") REFERENCES "Admission"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TreatmentTask" ADD CONSTRAINT "TreatmentTask_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "TreatmentOrder"("id") ON DELETE CASCADE ON UPDATE CASCADE;
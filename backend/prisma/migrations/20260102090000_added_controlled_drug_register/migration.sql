@@ -0,0 +1,93 @@
+-- AlterTable
+ALTER TABLE "InventoryItem" ADD COLUMN "isControlled" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "controlledSchedule" TEXT;
+
+-- CreateTable
+CREATE TABLE "ControlledDrugEntry" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "branchId" TEXT,
+    "itemId" TEXT NOT NULL,
+    "sequence" INTEGER NOT NULL,
+    "type" TEXT NOT NULL,
+    "quantity" DOUBLE PRECISION NOT NULL,
+    "change" DOUBLE PRECISION NOT NULL,
+    "balance" DOUBLE PRECISION NOT NULL,
+    "petId" TEXT,
+    "petName" TEXT,
+    "ownerName" TEXT,
+    "prescriberId" TEXT,
+    "prescriberName" TEXT,
+    "witnessId" TEXT,
+    "witnessName" TEXT,
+    "batchNumber" TEXT,
+    "reference" TEXT,
+    "notes" TEXT,
+    "recordedById" TEXT NOT NULL,
+    "recordedByName" TEXT NOT NULL,
+    "occurredAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ControlledDrugEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ControlledDrugCount" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "branchId" TEXT,
+    "itemId" TEXT NOT NULL,
+    "countedQuantity" DOUBLE PRECISION NOT NULL,
+    "registerBalance" DOUBLE PRECISION NOT NULL,
+    "discrepancy" DOUBLE PRECISION NOT NULL,
+    "adjustmentId" TEXT,
+    "notes" TEXT,
+    "countedById" TEXT NOT NULL,
+    "countedByName" TEXT NOT NULL,
+    "witnessId" TEXT NOT NULL,
+    "witnessName" TEXT NOT NULL,
+    "countedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ControlledDrugCount_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ControlledDrugEntry_tenantId_itemId_branchId_sequence_idx" ON "ControlledDrugEntry"("tenantId", "itemId", "branchId", "sequence");
+
+-- CreateIndex
+CREATE INDEX "ControlledDrugEntry_petId_idx" ON "ControlledDrugEntry"("petId");
+
+-- CreateIndex
+CREATE INDEX "ControlledDrugCount_tenantId_itemId_branchId_countedAt_idx" ON "ControlledDrugCount"("tenantId", "itemId", "branchId", "countedAt");
+
+-- AddForeignKey
+ALTER TABLE "ControlledDrugEntry" ADD CONSTRAINT "ControlledDrugEntry_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ControlledDrugEntry" ADD CONSTRAINT "ControlledDrugEntry_branchId_fkey" FOREIGN KEY ("branchId") REFERENCES "Branch"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ControlledDrugEntry" ADD CONSTRAINT "ControlledDrugEntry_itemId_fkey" FOREIGN KEY ("itemId") REFERENCES "InventoryItem"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ControlledDrugCount" ADD CONSTRAINT "ControlledDrugCount_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ControlledDrugCount" ADD CONSTRAINT "ControlledDrugCount_branchId_fkey" FOREIGN KEY ("branchId") REFERENCES "Branch"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ControlledDrugCount" ADD CONSTRAINT "ControlledDrugCount_itemId_fkey" FOREIGN KEY ("itemId") REFERENCES "InventoryItem"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- The register is append-only: refuse edits outright, and deletes except when the whole tenant is removed
+CREATE FUNCTION "controlled_drug_entry_append_only"() RETURNS trigger AS $$
+BEGIN
+    IF TG_OP = 'DELETE' AND NOT EXISTS (SELECT 1 FROM "Tenant" WHERE "id" = OLD."tenantId") THEN
+        RETURN OLD;
+    END IF;
+    RAISE EXCEPTION 'The controlled drug register is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "ControlledDrugEntry_append_only"
+BEFORE UPDATE OR DELETE ON "ControlledDrugEntry"
+FOR EACH ROW EXECUTE FUNCTION "controlled_drug_entry_append_only"();
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Tenant" ADD COLUMN "paymentRef" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Tenant_paymentRef_key" ON "Tenant"("paymentRef");
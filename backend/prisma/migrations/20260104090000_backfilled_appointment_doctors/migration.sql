@@ -0,0 +1,13 @@
+-- Backfill: link appointments booked before doctorId existed to the vet named on them.
+-- Only names that match exactly one user in the clinic are linked; the rest stay free text.
+UPDATE "Appointment" a
+SET "doctorId" = u."id"
+FROM "User" u
+WHERE a."doctorId" IS NULL
+  AND a."doctorName" IS NOT NULL
+  AND u."tenantId" = a."tenantId"
+  AND lower(trim(u."name")) = lower(trim(a."doctorName"))
+  AND (
+    SELECT count(*) FROM "User" x
+    WHERE x."tenantId" = a."tenantId" AND lower(trim(x."name")) = lower(trim(a."doctorName"))
+  ) = 1;
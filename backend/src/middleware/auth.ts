@@ -2,6 +2,11 @@ import { FastifyRequest, FastifyReply } from 'fastify';
 import jwt from 'jsonwebtoken';
 import { prisma } from '../lib/prisma';
 
+// --- CONFIGURATION ---
+// No fallback key: a server without its own secret would sign and accept tokens anyone can forge
+if (!process.env.JWT_SECRET) throw new Error('JWT_SECRET is not set; refusing to start');
+export const JWT_SECRET: string = process.env.JWT_SECRET;
+
 // --- UPDATED INTERFACE ---
 export interface AuthUser {
   id: string;
@@ -9,6 +14,7 @@ export interface AuthUser {
   roles: string[];
   name: string;
   type: 'STAFF' | 'CLIENT'; // <--- Added to distinguish context
+  branchId?: string | null; // Staff home branch; new records default to it
 }
 
 export type AuthenticatedRequest = FastifyRequest & {
@@ -24,83 +30,126 @@ interface JwtPayload {
   exp: number;
 }
 
-export const authenticate = async (request: FastifyRequest, reply: FastifyReply) => {
-  const token = request.cookies?.token || request.headers.authorization?.split(' ')[1];
+// --- ROLE GROUPS ---
+// Each route group in routes.ts declares one of these as its required roles.
+
+export const ROLE_GROUPS = {
+  ALL_STAFF: ['Admin', 'Veterinarian', 'Veterinary Assistant', 'Receptionist', 'Accountant', 'Security'],
+  RECORDS: ['Admin', 'Veterinarian', 'Veterinary Assistant', 'Receptionist', 'Accountant'],
+  FRONT_DESK: ['Admin', 'Veterinarian', 'Veterinary Assistant', 'Receptionist'],
+  CLINICAL: ['Admin', 'Veterinarian', 'Veterinary Assistant'],
+  PRESCRIBERS: ['Admin', 'Veterinarian'],
+  SALES: ['Admin', 'Veterinarian', 'Veterinary Assistant', 'Receptionist', 'Accountant'],
+  INVENTORY: ['Admin', 'Veterinarian', 'Veterinary Assistant', 'Accountant'],
+  FINANCE: ['Admin', 'Accountant'],
+  ADMIN: ['Admin'],
+  SUPER_ADMIN: ['SuperAdmin'],
+  PLATFORM: ['SuperAdmin', 'Support']
+};
+
+// Platform staff belong to the system tenant; a clinic can only hand out its own roles
+export const SYSTEM_TENANT_ID = 'system';
+export const CLINIC_ROLES = ROLE_GROUPS.ALL_STAFF;
+
+export const isPlatformUser = (user: AuthUser | undefined, allowedRoles: string[] = ROLE_GROUPS.PLATFORM) =>
+  !!user && user.tenantId === SYSTEM_TENANT_ID && user.roles.some(role => allowedRoles.includes(role));
+
+// Bearer header wins; otherwise fall back to the cookie set for that kind of session
+const extractToken = (request: FastifyRequest, cookieName: 'token' | 'client_token') => {
+  const header = request.headers.authorization;
+  if (header?.startsWith('Bearer ')) return header.slice(7);
+  return request.cookies?.[cookieName];
+};
+
+const isTenantBlocked = (status?: string | null) => status === 'Suspended';
+
+const authenticateAs = (expectedType: 'STAFF' | 'CLIENT') => async (request: FastifyRequest, reply: FastifyReply) => {
+  const token = extractToken(request, expectedType === 'CLIENT' ? 'client_token' : 'token');
 
   if (!token) {
     return reply.status(401).send({ error: 'Unauthorized: No token provided' });
   }
 
+  let decoded: JwtPayload;
   try {
-    if (!process.env.JWT_SECRET) {
-        console.error("JWT_SECRET is missing");
-        return reply.status(500).send({ error: 'Internal Server Error' });
-    }
-
-    const decoded = jwt.verify(token, process.env.JWT_SECRET) as JwtPayload;
-    
-    // Default to STAFF for backward compatibility with existing tokens
-    const userType = decoded.type || 'STAFF'; 
-
-    if (userType === 'CLIENT') {
-        // --- CLIENT (OWNER) AUTHENTICATION ---
-        const owner = await prisma.owner.findUnique({
-            where: { id: decoded.userId },
-            select: { id: true, tenantId: true, name: true, isPortalActive: true }
-        });
-
-        if (!owner) {
-            return reply.status(401).send({ error: 'Client account not found' });
-        }
-
-        if (!owner.isPortalActive) {
-            return reply.status(403).send({ error: 'Client portal access is not active' });
-        }
-
-        (request as AuthenticatedRequest).user = {
-            id: owner.id,
-            tenantId: owner.tenantId,
-            roles: ['CLIENT'], // Virtual role for clients
-            name: owner.name,
-            type: 'CLIENT'
-        };
-
-    } else {
-        // --- STAFF (USER) AUTHENTICATION ---
-        const user = await prisma.user.findUnique({
-            where: { id: decoded.userId },
-            select: { id: true, tenantId: true, roles: true, isSuspended: true, name: true }
-        });
-
-        if (!user) {
-            return reply.status(401).send({ error: 'User not found' });
-        }
-
-        if (user.isSuspended) {
-            return reply.status(403).send({ error: 'Account suspended' });
-        }
-
-        let roles: string[] = [];
-        try {
-            roles = JSON.parse(user.roles as string);
-        } catch (e) {
-            roles = [user.roles as string];
-        }
-
-        (request as AuthenticatedRequest).user = {
-            id: user.id,
-            tenantId: user.tenantId,
-            roles: roles,
-            name: user.name,
-            type: 'STAFF'
-        };
-    }
-
+    decoded = jwt.verify(token, JWT_SECRET) as JwtPayload;
   } catch (err) {
     return reply.status(401).send({ error: 'Invalid or expired token' });
   }
+
+  // Default to STAFF for backward compatibility with existing tokens
+  const userType = decoded.type || 'STAFF';
+  if (userType !== expectedType) {
+    return reply.status(401).send({ error: 'Invalid token type' });
+  }
+
+  if (userType === 'CLIENT') {
+      // --- CLIENT (OWNER) AUTHENTICATION ---
+      const owner = await prisma.owner.findUnique({
+          where: { id: decoded.userId },
+          select: { id: true, tenantId: true, name: true, isPortalActive: true, tenant: { select: { status: true } } }
+      });
+
+      if (!owner) {
+          return reply.status(401).send({ error: 'Client account not found' });
+      }
+
+      if (!owner.isPortalActive) {
+          return reply.status(403).send({ error: 'Client portal access is not active' });
+      }
+
+      if (isTenantBlocked(owner.tenant.status)) {
+          return reply.status(403).send({ error: 'Clinic account suspended' });
+      }
+
+      (request as AuthenticatedRequest).user = {
+          id: owner.id,
+          tenantId: owner.tenantId,
+          roles: ['Client'], // Virtual role for clients
+          name: owner.name,
+          type: 'CLIENT'
+      };
+
+  } else {
+      // --- STAFF (USER) AUTHENTICATION ---
+      const user = await prisma.user.findUnique({
+          where: { id: decoded.userId },
+          select: { id: true, tenantId: true, roles: true, isSuspended: true, name: true, branchId: true, tenant: { select: { status: true } } }
+      });
+
+      if (!user) {
+          return reply.status(401).send({ error: 'User not found' });
+      }
+
+      if (user.isSuspended) {
+          return reply.status(403).send({ error: 'Account suspended' });
+      }
+
+      if (isTenantBlocked(user.tenant.status)) {
+          return reply.status(403).send({ error: 'Clinic account suspended' });
+      }
+
+      let roles: string[] = [];
+      try {
+          roles = JSON.parse(user.roles as string);
+      } catch (e) {
+          roles = [user.roles as string];
+      }
+
+      (request as AuthenticatedRequest).user = {
+          id: user.id,
+          tenantId: user.tenantId,
+          roles: roles,
+          name: user.name,
+          type: 'STAFF',
+          branchId: user.branchId
+      };
+  }
 };
 
+export const authenticate = authenticateAs('STAFF');
+export const authenticatePortal = authenticateAs('CLIENT');
+
 export const requireRole = (allowedRoles: string[]) => {
   return async (request: FastifyRequest, reply: FastifyReply) => {
     const req = request as AuthenticatedRequest;
@@ -109,3 +158,12 @@ export const requireRole = (allowedRoles: string[]) => {
     }
   };
 };
+
+/** Like requireRole, for platform routes: the role only counts on a system-tenant account. */
+export const requirePlatformRole = (allowedRoles: string[]) => {
+  return async (request: FastifyRequest, reply: FastifyReply) => {
+    if (!isPlatformUser((request as AuthenticatedRequest).user, allowedRoles)) {
+      return reply.status(403).send({ error: 'Insufficient permissions' });
+    }
+  };
+};
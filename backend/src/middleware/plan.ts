@@ -0,0 +1,22 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { PlanLimitError, PlanModule, checkLimits, checkModule, consumeAiCall } from '../utils/serverHelpers';
+
+// Runs after `authenticate`, so request.user is always set here.
+// Plan violations become a 403 with a PLAN_LIMIT body the frontend turns into an upgrade prompt.
+
+const planGuard = (check: (tenantId: string) => Promise<unknown>) => {
+  return async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      await check(request.user!.tenantId);
+    } catch (err) {
+      if (err instanceof PlanLimitError) return reply.status(403).send(err.toResponse());
+      throw err;
+    }
+  };
+};
+
+export const requireModule = (module: PlanModule) => planGuard(tenantId => checkModule(tenantId, module));
+
+export const enforceQuota = (resource: 'users' | 'clients') => planGuard(tenantId => checkLimits(tenantId, resource, 1));
+
+export const meterAiCall = planGuard(consumeAiCall);
@@ -1,42 +1,36 @@
-import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { FastifyInstance } from 'fastify';
+import { Prisma } from '@prisma/client';
 import bcrypt from 'bcryptjs';
 import jwt from 'jsonwebtoken';
 import { prisma } from './lib/prisma';
-
-// --- CONFIGURATION ---
-const JWT_SECRET = process.env.JWT_SECRET || 'super-secret-change-me';
-
-// --- TYPES ---
-interface AuthenticatedUser {
-  id: string;
-  tenantId: string;
-  roles: string[];
-  name: string;
-}
-
-declare module 'fastify' {
-  interface FastifyRequest {
-    user?: AuthenticatedUser;
-  }
-}
-
-// --- HELPER: ID Generator ---
-const generateId = (prefix: string) => `${prefix}-${Date.now()}-${Math.floor(Math.random() * 1000)}`;
-
-// --- HELPER: Safe JSON Parser ---
-const safeParse = (data: string | null | undefined, fallback: any = []) => {
-  if (!data) return fallback;
-  try { return JSON.parse(data); } catch { return fallback; }
-};
-
-// --- HELPER: Internal Logger ---
-async function createLog(tenantId: string, user: string, action: string, type: string, details?: string) {
-  try {
-    await prisma.log.create({
-      data: { tenantId, user, action, type, details: details || '' }
-    });
-  } catch (e) { console.error("Log failed:", e); }
-}
+import { CLINIC_ROLES, JWT_SECRET, ROLE_GROUPS, authenticate, authenticatePortal, requireRole } from './middleware/auth';
+import { requireModule, enforceQuota } from './middleware/plan';
+import { PLAN_CURRENCY, isMockPaymentRef, planPrice, verifyPayment, getNextBillingDate, serializePlan, buildClinicSettings, generateId, safeParse, createLog } from './utils/serverHelpers';
+import { adminRoutes } from './routes/admin.routes';
+import { supportRoutes } from './routes/support.routes';
+import { branchRoutes } from './routes/branch.routes';
+import { consultationRoutes } from './routes/consultation.routes';
+import { aiRoutes } from './routes/ai.routes';
+import { labRoutes } from './routes/lab.routes';
+import { medicalRoutes } from './routes/medical.routes';
+import { vaccinationRoutes, serializeVaccination } from './routes/vaccination.routes';
+import { reminderRoutes } from './routes/reminder.routes';
+import { appointmentRoutes } from './routes/appointment.routes';
+import { scheduleRoutes } from './routes/schedule.routes';
+import { calendarRoutes, calendarFeedRoutes } from './routes/calendar.routes';
+import { queueRoutes } from './routes/queue.routes';
+import { admissionRoutes } from './routes/admission.routes';
+import { controlledDrugRoutes } from './routes/controlledDrug.routes';
+import { MAIN_BRANCH, StockError, branchFilter, resolveBranchId } from './utils/branches';
+import { applyStockMovements } from './services/billing.service';
+import { ControlledDrugError } from './services/controlledDrug.service';
+import { applyMedicalChanges, medicalInclude, serializeMedical } from './services/medicalRecord.service';
+import { activeRemindersInclude, serializeReminder } from './services/reminder.service';
+import { recordAppointmentEvent } from './services/appointment.service';
+import { buildOwnerCalendar } from './services/calendar.service';
+import { ScheduleError, assertSlotFree, availabilityFor, durationForReason, resolveDoctor } from './services/schedule.service';
+import { nextDocumentNumber } from './utils/idGenerator';
+import { TOKEN_TYPES, issueToken, consumeToken, sendVerificationEmail, sendPasswordResetEmail } from './utils/verification';
 
 // =================================================================
 // MAIN ROUTES FUNCTION
@@ -48,7 +42,8 @@ export async function appRoutes(app: FastifyInstance) {
   // =================================================================
 
   app.get('/plans', async () => {
-    return prisma.plan.findMany();
+    const plans = await prisma.plan.findMany({ orderBy: { priceMonthly: 'asc' } });
+    return plans.map(serializePlan);
   });
 
   app.post('/auth/login', async (req, reply) => {
@@ -64,7 +59,7 @@ export async function appRoutes(app: FastifyInstance) {
       if (user.isSuspended) return reply.code(403).send({ error: 'Account suspended' });
 
       const roles = safeParse(user.roles, ['Veterinarian']);
-      const token = jwt.sign({ userId: user.id, tenantId: user.tenantId, roles }, JWT_SECRET, { expiresIn: '7d' });
+      const token = jwt.sign({ userId: user.id, tenantId: user.tenantId, roles, type: 'STAFF', name: user.name }, JWT_SECRET, { expiresIn: '7d' });
 
       reply.setCookie('token', token, { 
         path: '/', 
@@ -82,6 +77,85 @@ export async function appRoutes(app: FastifyInstance) {
     } catch (e) { return reply.code(500).send({ error: 'Login failed' }); }
   });
 
+  app.post('/auth/signup', async (req, reply) => {
+    const body = req.body as any;
+    const { name, email, password, clinicName, plan, billingPeriod, currency, paymentRef } = body;
+
+    if (!name || !email || !password || !clinicName) {
+      return reply.code(400).send({ error: 'Name, email, password and clinic name are required' });
+    }
+    const period = billingPeriod === 'Yearly' ? 'Yearly' : 'Monthly';
+
+    try {
+      const selectedPlan = await prisma.plan.findUnique({ where: { id: plan || 'Trial' } });
+      if (!selectedPlan) return reply.code(400).send({ error: 'Unknown plan' });
+
+      const existing = await prisma.user.findUnique({ where: { email } });
+      if (existing) return reply.code(409).send({ error: 'Email already registered' });
+
+      // Every plan is paid, so nothing is activated until Flutterwave confirms the full price was paid.
+      // A gateway transaction pays for one signup only (Tenant.paymentRef is unique); dev/trial codes are reusable and not stored.
+      if (!paymentRef) return reply.code(402).send({ error: 'Payment could not be verified' });
+      const gatewayRef = isMockPaymentRef(String(paymentRef)) ? null : String(paymentRef);
+      if (gatewayRef && await prisma.tenant.findUnique({ where: { paymentRef: gatewayRef }, select: { id: true } })) {
+        return reply.code(409).send({ error: 'This payment has already been used' });
+      }
+      if (!(await verifyPayment(String(paymentRef), { amount: planPrice(selectedPlan, period), currency: PLAN_CURRENCY }))) {
+        return reply.code(402).send({ error: 'Payment could not be verified' });
+      }
+
+      const { tenant, user, verificationToken } = await prisma.$transaction(async (tx) => {
+        const tenant = await tx.tenant.create({
+          data: {
+            name: clinicName,
+            plan: selectedPlan.id,
+            billingPeriod: period,
+            nextBillingDate: getNextBillingDate(period),
+            paymentRef: gatewayRef,
+            status: 'Active',
+            settings: buildClinicSettings(clinicName, email, currency)
+          }
+        });
+
+        const user = await tx.user.create({
+          data: {
+            tenantId: tenant.id,
+            name, email,
+            passwordHash: await bcrypt.hash(password, 10),
+            roles: JSON.stringify(['Admin']),
+            isVerified: false
+          }
+        });
+
+        const verificationToken = await issueToken(email, TOKEN_TYPES.EMAIL_VERIFICATION, tx);
+
+        return { tenant, user, verificationToken };
+      });
+
+      await createLog(tenant.id, user.id, 'Tenant Signup', 'admin', `${selectedPlan.name} (${period}) - Ref: ${paymentRef}`);
+      sendVerificationEmail(user.email, user.name, verificationToken);
+
+      const roles = ['Admin'];
+      const token = jwt.sign({ userId: user.id, tenantId: tenant.id, roles, type: 'STAFF', name: user.name }, JWT_SECRET, { expiresIn: '7d' });
+
+      reply.setCookie('token', token, { 
+        path: '/', 
+        httpOnly: true, 
+        secure: true,
+        sameSite: 'none' 
+      });
+
+      const { passwordHash, ...safeUser } = user;
+      return { success: true, token, user: { ...safeUser, roles }, tenant };
+    } catch (e) {
+      // Two signups racing with the same payment
+      if (e instanceof Prisma.PrismaClientKnownRequestError && e.code === 'P2002' && String(e.meta?.target).includes('paymentRef')) {
+        return reply.code(409).send({ error: 'This payment has already been used' });
+      }
+      return reply.code(500).send({ error: 'Signup failed' });
+    }
+  });
+
   app.post('/auth/logout', async (req, reply) => {
     reply.clearCookie('token', { path: '/', sameSite: 'none', secure: true });
     return { success: true };
@@ -115,19 +189,108 @@ export async function appRoutes(app: FastifyInstance) {
     } catch (e) { return reply.code(500).send({ error: 'Portal login failed' }); }
   });
 
+  // --- EMAIL VERIFICATION & PASSWORD RESET ---
+  // Request endpoints always answer with success so they can't be used to probe which emails exist.
+
+  app.post('/auth/verify-email/request', async (req) => {
+    const { email } = req.body as any;
+    const user = email ? await prisma.user.findUnique({ where: { email } }) : null;
+    if (user && !user.isVerified) {
+      const token = await issueToken(user.email, TOKEN_TYPES.EMAIL_VERIFICATION);
+      await sendVerificationEmail(user.email, user.name, token);
+    }
+    return { success: true };
+  });
+
+  app.post('/auth/verify-email/confirm', async (req, reply) => {
+    const { token } = req.body as any;
+    const email = await consumeToken(token, TOKEN_TYPES.EMAIL_VERIFICATION);
+    if (!email) return reply.code(400).send({ error: 'Verification link is invalid or has expired' });
+
+    const user = await prisma.user.update({ where: { email }, data: { isVerified: true } });
+    await createLog(user.tenantId, user.id, 'Email Verified', 'admin', user.email);
+    return { success: true };
+  });
+
+  app.post('/auth/password/forgot', async (req) => {
+    const { email } = req.body as any;
+    const user = email ? await prisma.user.findUnique({ where: { email } }) : null;
+    if (user && !user.isSuspended) {
+      const token = await issueToken(user.email, TOKEN_TYPES.PASSWORD_RESET);
+      await sendPasswordResetEmail(user.email, user.name, token);
+    }
+    return { success: true };
+  });
+
+  app.post('/auth/password/reset', async (req, reply) => {
+    const { token, password } = req.body as any;
+    if (!password || password.length < 8) return reply.code(400).send({ error: 'Password must be at least 8 characters' });
+
+    const email = await consumeToken(token, TOKEN_TYPES.PASSWORD_RESET);
+    if (!email) return reply.code(400).send({ error: 'Reset link is invalid or has expired' });
+
+    // Following the emailed link also proves ownership of the address
+    const user = await prisma.user.update({
+      where: { email },
+      data: { passwordHash: await bcrypt.hash(password, 10), isVerified: true }
+    });
+    await createLog(user.tenantId, user.id, 'Password Reset', 'admin', user.email);
+    return { success: true };
+  });
+
+  app.post('/portal/verify-email/request', async (req) => {
+    const { email } = req.body as any;
+    const owners = email ? await prisma.owner.findMany({ where: { email, isPortalActive: true, isVerified: false } }) : [];
+    for (const owner of owners) {
+      const token = await issueToken(owner.id, TOKEN_TYPES.PORTAL_EMAIL_VERIFICATION);
+      await sendVerificationEmail(email, owner.name, token, 'CLIENT');
+    }
+    return { success: true };
+  });
+
+  app.post('/portal/verify-email/confirm', async (req, reply) => {
+    const { token } = req.body as any;
+    const ownerId = await consumeToken(token, TOKEN_TYPES.PORTAL_EMAIL_VERIFICATION);
+    if (!ownerId) return reply.code(400).send({ error: 'Verification link is invalid or has expired' });
+
+    const owner = await prisma.owner.update({ where: { id: ownerId }, data: { isVerified: true } });
+    await createLog(owner.tenantId, owner.id, 'Portal Email Verified', 'admin', owner.name);
+    return { success: true };
+  });
+
+  app.post('/portal/password/forgot', async (req) => {
+    const { email } = req.body as any;
+    const owners = email ? await prisma.owner.findMany({ where: { email, isPortalActive: true } }) : [];
+    for (const owner of owners) {
+      const token = await issueToken(owner.id, TOKEN_TYPES.PORTAL_PASSWORD_RESET);
+      await sendPasswordResetEmail(email, owner.name, token, 'CLIENT');
+    }
+    return { success: true };
+  });
+
+  app.post('/portal/password/reset', async (req, reply) => {
+    const { token, password } = req.body as any;
+    if (!password || password.length < 8) return reply.code(400).send({ error: 'Password must be at least 8 characters' });
+
+    const ownerId = await consumeToken(token, TOKEN_TYPES.PORTAL_PASSWORD_RESET);
+    if (!ownerId) return reply.code(400).send({ error: 'Reset link is invalid or has expired' });
+
+    const owner = await prisma.owner.update({
+      where: { id: ownerId },
+      data: { passwordHash: await bcrypt.hash(password, 10), isVerified: true }
+    });
+    await createLog(owner.tenantId, owner.id, 'Portal Password Reset', 'admin', owner.name);
+    return { success: true };
+  });
+
+  // Subscribed calendar feeds (token in the URL, no login)
+  app.register(calendarFeedRoutes);
+
   // =================================================================
   // 2. CLIENT PORTAL ROUTES
   // =================================================================
   app.register(async (portal) => {
-    portal.addHook('preHandler', async (req, reply) => {
-      try {
-        const token = req.cookies.client_token || (req.headers.authorization as string)?.replace('Bearer ', '');
-        if (!token) throw new Error('No token');
-        const decoded: any = jwt.verify(token, JWT_SECRET);
-        if (decoded.type !== 'CLIENT') throw new Error('Invalid token type');
-        req.user = { id: decoded.userId, tenantId: decoded.tenantId, roles: ['Client'], name: decoded.name };
-      } catch (err) { return reply.code(401).send({ error: 'Portal Unauthorized' }); }
-    });
+    portal.addHook('preHandler', authenticatePortal);
 
     portal.get('/portal/dashboard', async (req) => {
       const ownerId = req.user!.id;
@@ -139,22 +302,72 @@ export async function appRoutes(app: FastifyInstance) {
       return { pets, appointments, invoices };
     });
 
-    portal.post('/portal/appointments', async (req) => {
+    portal.get('/portal/appointment-types', async (req) => {
+      return prisma.appointmentType.findMany({ where: { tenantId: req.user!.tenantId }, select: { name: true, durationMinutes: true }, orderBy: { name: 'asc' } });
+    });
+
+    portal.get('/portal/availability', async (req, reply) => {
+      const { date, reason } = req.query as any;
+      try {
+        return await availabilityFor(req.user!.tenantId, { date, reason });
+      } catch (error) {
+        if (error instanceof ScheduleError) return reply.status(400).send({ error: error.message });
+        throw error;
+      }
+    });
+
+    // Clients book one of the offered slots; until the clinic sets up schedules a booking stays a request for the desk to place
+    portal.post('/portal/appointments', async (req, reply) => {
       const body = req.body as any;
-      return prisma.appointment.create({
-        data: {
-          id: generateId('APT'),
-          tenantId: req.user!.tenantId,
-          ownerId: req.user!.id,
-          petId: body.petId,
-          date: new Date(body.date),
-          reason: body.reason,
-          status: 'Scheduled',
-          doctorName: 'Pending'
+      const tenantId = req.user!.tenantId;
+      const date = new Date(body.date);
+      if (isNaN(date.getTime()) || date.getTime() <= Date.now()) return reply.status(400).send({ error: 'Choose a time in the future' });
+      const pet = await prisma.pet.findFirst({ where: { id: body.petId, ownerId: req.user!.id }, select: { id: true } });
+      if (!pet) return reply.status(400).send({ error: 'Unknown pet' });
+
+      try {
+        const durationMinutes = await durationForReason(prisma, tenantId, body.reason);
+        let doctor: { id: string; name: string } | null = null;
+        if (await prisma.staffSchedule.count({ where: { tenantId } })) {
+          if (!body.doctorId) return reply.status(400).send({ error: 'Pick one of the available times' });
+          doctor = await resolveDoctor(prisma, tenantId, body.doctorId);
+          if (!(await prisma.staffSchedule.count({ where: { userId: doctor.id } }))) return reply.status(400).send({ error: `${doctor.name} does not take online bookings` });
         }
-      });
+
+        return await prisma.$transaction(async (tx) => {
+          if (doctor) await assertSlotFree(tx, { tenantId, doctorId: doctor.id, start: date, durationMinutes });
+          const appointment = await tx.appointment.create({
+            data: {
+              id: generateId('APT'),
+              tenantId,
+              ownerId: req.user!.id,
+              petId: pet.id,
+              date,
+              durationMinutes,
+              reason: body.reason,
+              status: 'Scheduled',
+              doctorId: doctor?.id,
+              doctorName: doctor?.name || 'Pending'
+            }
+          });
+          await recordAppointmentEvent(tx, appointment.id, 'Booked', { id: req.user!.id, name: `${req.user!.name} (portal)` }, { toStatus: 'Scheduled' });
+          return appointment;
+        });
+      } catch (error) {
+        if (error instanceof ScheduleError) return reply.status(error.code === 'CONFLICT' ? 409 : 400).send({ error: error.message });
+        throw error;
+      }
     });
     
+    // One-off download of the client's upcoming bookings for their own calendar app
+    portal.get('/portal/appointments.ics', async (req, reply) => {
+      const body = await buildOwnerCalendar(req.user!.tenantId, req.user!.id);
+      return reply
+        .header('Content-Type', 'text/calendar; charset=utf-8')
+        .header('Content-Disposition', 'attachment; filename="appointments.ics"')
+        .send(body);
+    });
+
     portal.get('/portal/pets', async (req) => {
        return prisma.pet.findMany({ where: { ownerId: req.user!.id } });
     });
@@ -164,14 +377,54 @@ export async function appRoutes(app: FastifyInstance) {
   // 3. STAFF PROTECTED ROUTES
   // =================================================================
   app.register(async (api) => {
-    api.addHook('preHandler', async (req, reply) => {
-      try {
-        const token = req.cookies.token || (req.headers.authorization as string)?.replace('Bearer ', '');
-        if (!token) throw new Error('Missing token');
-        const decoded: any = jwt.verify(token, JWT_SECRET);
-        req.user = { id: decoded.userId, tenantId: decoded.tenantId, roles: decoded.roles, name: 'Staff' }; 
-      } catch (err) { return reply.code(401).send({ error: 'Unauthorized' }); }
-    });
+    // Every staff route re-checks the account (suspension, tenant status) on each request;
+    // route groups below then declare which roles may use them.
+    api.addHook('preHandler', authenticate);
+
+    // --- SUPER ADMIN (tenant registry, platform stats, plan editing) ---
+    api.register(adminRoutes);
+
+    // --- SUPPORT TICKETS (clinic side + platform triage) ---
+    api.register(supportRoutes);
+
+    // --- BRANCHES (CRUD, staff transfer, per-branch stock, consolidated summary) ---
+    api.register(branchRoutes);
+
+    // --- CONSULTATIONS (draft, finalize, addenda) ---
+    api.register(consultationRoutes);
+
+    // --- AI ASSISTANT (diagnosis, SOAP notes, chat; metered against the plan's aiLimit) ---
+    api.register(aiRoutes);
+
+    // --- LABS (catalogue, requests, per-analyte results, analyzer import, trends) ---
+    api.register(labRoutes);
+
+    // --- MEDICAL RECORD (vitals, notes, allergies, conditions) ---
+    api.register(medicalRoutes);
+
+    // --- VACCINATIONS (protocols, doses from stock, due list) ---
+    api.register(vaccinationRoutes);
+
+    // --- REMINDERS (scheduled email/SMS to clients) ---
+    api.register(reminderRoutes);
+
+    // --- APPOINTMENTS (booking, reschedule, check-in, complete, cancel, no-show) ---
+    api.register(appointmentRoutes);
+
+    // --- SCHEDULES (working hours, leave, visit length by reason) ---
+    api.register(scheduleRoutes);
+
+    // --- CALENDAR FEEDS (subscribable .ics links per clinic and per vet) ---
+    api.register(calendarRoutes);
+
+    // --- WAITING ROOM (arrivals, triage, rooms, consult and payment hand-off, wait times) ---
+    api.register(queueRoutes);
+
+    // --- HOSPITAL (admissions, kennels, treatment sheets, inpatient vitals, stay billing) ---
+    api.register(admissionRoutes);
+
+    // --- CONTROLLED DRUGS (schedule flags, append-only register, witnessed counts, reconciliation) ---
+    api.register(controlledDrugRoutes);
 
     // --- AUTH & USER ---
     api.get('/auth/me', async (req) => {
@@ -182,20 +435,24 @@ export async function appRoutes(app: FastifyInstance) {
       return { 
           user: {
             ...user,
-            roles: safeParse(user.roles)
+            roles: safeParse(user.roles, [])
           },
           tenant: user.tenant
       };
     });
 
-    api.get('/users', async (req) => {
+    api.get('/users', { preHandler: requireRole(ROLE_GROUPS.ADMIN) }, async (req) => {
         const users = await prisma.user.findMany({ where: { tenantId: req.user!.tenantId } });
-        return users.map(u => ({ ...u, roles: safeParse(u.roles) }));
+        return users.map(u => ({ ...u, roles: safeParse(u.roles, []) }));
     });
 
-    api.post('/users', async (req, reply) => {
+    api.post('/users', { preHandler: [requireRole(ROLE_GROUPS.ADMIN), enforceQuota('users')] }, async (req, reply) => {
         const body = req.body as any;
         const { name, email, password, roles } = body;
+        // Platform roles (SuperAdmin, Support) are never granted from inside a clinic
+        if (roles !== undefined && (!Array.isArray(roles) || !roles.length || roles.some((role: any) => !CLINIC_ROLES.includes(role)))) {
+            return reply.status(400).send({ error: `roles must be chosen from ${CLINIC_ROLES.join(', ')}` });
+        }
         try {
             const newUser = await prisma.user.create({
                 data: {
@@ -211,178 +468,144 @@ export async function appRoutes(app: FastifyInstance) {
         } catch(e) { return reply.code(400).send({ error: "Email exists" }); }
     });
 
+    // --- CLINIC SETTINGS (merged into the tenant's settings JSON) ---
+    api.patch('/settings', { preHandler: requireRole(ROLE_GROUPS.ADMIN) }, async (req, reply) => {
+        const body = (req.body || {}) as any;
+        if (body.reminderLeadDays !== undefined) {
+            const days = Number(body.reminderLeadDays);
+            if (!Number.isInteger(days) || days < 0 || days > 60) return reply.status(400).send({ error: 'Reminder lead time must be 0-60 days' });
+            body.reminderLeadDays = days;
+        }
+        const tenant = await prisma.tenant.findUnique({ where: { id: req.user!.tenantId }, select: { settings: true } });
+        const settings = { ...safeParse(tenant?.settings, {}), ...body };
+        await prisma.tenant.update({ where: { id: req.user!.tenantId }, data: { settings: JSON.stringify(settings) } });
+        await createLog(req.user!.tenantId, req.user!.id, 'Updated Settings', 'admin');
+        return settings;
+    });
+
     // --- DASHBOARD ---
-    api.get('/stats/dashboard', async (req) => {
+    api.get('/stats/dashboard', { preHandler: requireRole(ROLE_GROUPS.ALL_STAFF) }, async (req: any) => {
         const tenantId = req.user!.tenantId;
+        const scope = branchFilter(req.query.branchId);
         const [clients, patients, revenue, appointments] = await Promise.all([
             prisma.owner.count({ where: { tenantId } }),
             prisma.pet.count({ where: { tenantId } }),
-            prisma.saleRecord.aggregate({ where: { tenantId }, _sum: { total: true } }),
-            prisma.appointment.count({ where: { tenantId, date: { gte: new Date() } } })
+            prisma.saleRecord.aggregate({ where: { tenantId, ...scope }, _sum: { total: true } }),
+            prisma.appointment.count({ where: { tenantId, ...scope, date: { gte: new Date() } } })
         ]);
         return { clients, patients, revenue: revenue._sum.total || 0, appointments };
     });
 
     // --- PATIENTS ---
-    api.get('/patients', async (req) => {
+    api.get('/patients', { preHandler: requireRole(ROLE_GROUPS.RECORDS) }, async (req) => {
         const patients = await prisma.pet.findMany({
             where: { tenantId: req.user!.tenantId },
-            include: { owner: { select: { name: true, phone: true } } },
+            include: { owner: { select: { name: true, phone: true } }, ...medicalInclude, vaccinations: { orderBy: { dateAdministered: 'asc' } }, reminders: activeRemindersInclude },
             orderBy: { createdAt: 'desc' },
             take: 100
         });
-        return patients.map(p => ({
+        return patients.map(({ vitals, medicalNotes, allergyRecords, conditions, vaccinations, reminders, ...p }) => ({
             ...p,
-            vitalsHistory: safeParse(p.vitalsHistory),
-            notes: safeParse(p.notes),
-            allergies: safeParse(p.allergies),
-            vaccinations: safeParse(p.vaccinations)
+            ...serializeMedical({ vitals, medicalNotes, allergyRecords, conditions }),
+            vaccinations: vaccinations.map(serializeVaccination),
+            reminders: reminders.map(serializeReminder)
         }));
     });
 
-    api.post('/patients', async (req) => {
+    api.post('/patients', { preHandler: requireRole(ROLE_GROUPS.FRONT_DESK) }, async (req) => {
         const body = req.body as any;
         const { name, species, breed, age, gender, ownerId, color } = body;
-        const pet = await prisma.pet.create({
-            data: {
-                id: generateId('P'),
-                tenantId: req.user!.tenantId,
-                ownerId, name, species, breed, gender, color,
-                age: Number(age) || 0,
-                vitalsHistory: "[]", notes: "[]", allergies: "[]", medicalConditions: "[]", vaccinations: "[]"
-            }
+        const pet = await prisma.$transaction(async (tx) => {
+            const created = await tx.pet.create({
+                data: {
+                    id: generateId('P'),
+                    tenantId: req.user!.tenantId,
+                    patientNumber: await nextDocumentNumber(tx, req.user!.tenantId, 'patient'),
+                    ownerId, name, species, breed, gender, color,
+                    age: Number(age) || 0
+                }
+            });
+            // Allergies, conditions and the intake weight captured on the registration form
+            await applyMedicalChanges(tx, created.id, { id: req.user!.id, name: req.user!.name }, {
+                create: {
+                    allergies: Array.isArray(body.allergies) ? body.allergies : [],
+                    conditions: Array.isArray(body.medicalConditions) ? body.medicalConditions : [],
+                    vitals: Number(body.initialWeight) > 0 ? [{ weightKg: body.initialWeight }] : []
+                }
+            });
+            return tx.pet.findUniqueOrThrow({ where: { id: created.id }, include: medicalInclude });
         });
         await createLog(req.user!.tenantId, req.user!.id, 'Created Patient', 'clinical', pet.name);
-        return pet;
+        const { vitals, medicalNotes, allergyRecords, conditions, ...rest } = pet;
+        return { ...rest, ...serializeMedical(pet), vaccinations: [], reminders: [] };
     });
 
-    api.get('/patients/:id', async (req: any) => {
-        const pet = await prisma.pet.findUnique({
-            where: { id: req.params.id },
-            include: { appointments: true, consultations: true, labResults: true }
+    api.get('/patients/:id', { preHandler: requireRole(ROLE_GROUPS.RECORDS) }, async (req: any) => {
+        const pet = await prisma.pet.findFirst({
+            where: { id: req.params.id, tenantId: req.user!.tenantId },
+            include: { appointments: true, consultations: true, labResults: true, ...medicalInclude, vaccinations: { orderBy: { dateAdministered: 'asc' } }, reminders: activeRemindersInclude }
         });
         if(!pet) return { error: "Not found" };
+        const { vitals, medicalNotes, allergyRecords, conditions, vaccinations, reminders, ...rest } = pet;
         return {
-            ...pet,
-            vitalsHistory: safeParse(pet.vitalsHistory),
-            notes: safeParse(pet.notes),
-            allergies: safeParse(pet.allergies),
-            vaccinations: safeParse(pet.vaccinations)
+            ...rest,
+            ...serializeMedical(pet),
+            vaccinations: vaccinations.map(serializeVaccination),
+            reminders: reminders.map(serializeReminder)
         };
     });
 
     // --- OWNERS ---
-    api.get('/owners', async (req) => {
+    api.get('/owners', { preHandler: requireRole(ROLE_GROUPS.RECORDS) }, async (req) => {
         return prisma.owner.findMany({ where: { tenantId: req.user!.tenantId }, include: { _count: { select: { pets: true } } } });
     });
-    api.post('/owners', async (req) => {
+    api.post('/owners', { preHandler: [requireRole(ROLE_GROUPS.FRONT_DESK), enforceQuota('clients')] }, async (req) => {
         const body = req.body as any;
-        return prisma.owner.create({
+        return prisma.$transaction(async (tx) => tx.owner.create({
             data: { 
                 id: generateId('CL'),
                 tenantId: req.user!.tenantId, 
+                clientNumber: await nextDocumentNumber(tx, req.user!.tenantId, 'client'),
                 name: body.name, 
                 phone: body.phone, 
                 email: body.email, 
                 address: body.address 
             }
-        });
-    });
-    api.patch('/owners/:id/portal', async (req: any) => {
-        const { password, isActive } = req.body;
-        const data: any = { isPortalActive: isActive };
-        if(password) data.passwordHash = await bcrypt.hash(password, 10);
-        return prisma.owner.update({ where: { id: req.params.id }, data });
+        }));
     });
-
-    // --- CLINICAL ---
-    api.get('/appointments', async (req: any) => {
-        const where: any = { tenantId: req.user!.tenantId };
-        if(req.query.date) {
-             const start = new Date(req.query.date);
-             const end = new Date(start); end.setDate(end.getDate() + 1);
-             where.date = { gte: start, lt: end };
+    api.patch('/owners/:id/portal', { preHandler: requireRole(ROLE_GROUPS.FRONT_DESK) }, async (req: any, reply) => {
+        const { password, isActive } = req.body || {};
+        const tenantId = req.user!.tenantId;
+        if (typeof isActive !== 'boolean') return reply.code(400).send({ error: 'isActive must be true or false' });
+        if (password !== undefined && password !== '' && (typeof password !== 'string' || password.length < 8)) {
+            return reply.code(400).send({ error: 'Password must be at least 8 characters' });
         }
-        return prisma.appointment.findMany({ where, include: { pet: true, owner: true }, orderBy: { date: 'asc' } });
-    });
-    api.post('/appointments', async (req) => {
-        const body = req.body as any;
-        return prisma.appointment.create({
-            data: { 
-                id: generateId('APT'),
-                tenantId: req.user!.tenantId, 
-                petId: body.petId, 
-                ownerId: body.ownerId, 
-                date: new Date(body.date), 
-                reason: body.reason, 
-                status: 'Scheduled', 
-                doctorName: body.doctorName 
-            }
-        });
-    });
-    api.get('/consultations', async (req) => {
-         return prisma.consultation.findMany({ where: { tenantId: req.user!.tenantId }, orderBy: { date: 'desc' } });
-    });
-    api.post('/consultations', async (req) => {
-        const body = req.body as any;
-        return prisma.consultation.create({
-            data: {
-                id: generateId('CON'),
-                tenantId: req.user!.tenantId,
-                petId: body.petId,
-                ownerId: body.ownerId,
-                date: new Date(),
-                vetName: req.user!.name || 'Staff',
-                diagnosis: JSON.stringify(body.diagnosis || {}),
-                plan: body.plan,
-                exam: JSON.stringify(body.exam || {}),
-                vitals: JSON.stringify(body.vitals || {})
-            }
-        });
-    });
-
-    // --- LABS ---
-    api.get('/labs', async (req) => {
-        return prisma.labResult.findMany({ where: { tenantId: req.user!.tenantId }, orderBy: { createdAt: 'desc' } });
-    });
-    api.post('/labs', async (req) => {
-        const body = req.body as any;
-        return prisma.labResult.create({
-            data: {
-                id: generateId('LAB'),
-                tenantId: req.user!.tenantId,
-                petId: body.petId,
-                type: body.testType || 'General',
-                result: body.result,
-                status: body.status || 'Pending',
-                date: new Date()
-            }
-        });
-    });
-
-    // --- BRANCHES ---
-    api.get('/branches', async (req) => {
-        return []; 
-    });
-    api.post('/branches', async (req) => {
-        return { id: 'mock-id', name: 'Mock Branch' };
+        const data: any = { isPortalActive: isActive };
+        if (password) data.passwordHash = await bcrypt.hash(password, 10);
+        const { count } = await prisma.owner.updateMany({ where: { id: req.params.id, tenantId }, data });
+        if (count === 0) return reply.code(404).send({ error: 'Client not found' });
+        const { passwordHash, ...owner } = (await prisma.owner.findUnique({ where: { id: req.params.id } }))!;
+        return owner;
     });
 
     // --- LOGS ---
-    api.get('/logs', async (req) => {
+    api.get('/logs', { preHandler: requireRole(ROLE_GROUPS.ADMIN) }, async (req) => {
         return prisma.log.findMany({ where: { tenantId: req.user!.tenantId }, orderBy: { timestamp: 'desc' }, take: 100 });
     });
 
     // --- EXPENSES ---
-    api.get('/expenses', async (req) => {
-        return prisma.expense.findMany({ where: { tenantId: req.user!.tenantId }, orderBy: { date: 'desc' } });
+    api.get('/expenses', { preHandler: requireRole(ROLE_GROUPS.FINANCE) }, async (req: any) => {
+        return prisma.expense.findMany({ where: { tenantId: req.user!.tenantId, ...branchFilter(req.query.branchId) }, orderBy: { date: 'desc' } });
     });
-    api.post('/expenses', async (req) => {
+    api.post('/expenses', { preHandler: requireRole(ROLE_GROUPS.FINANCE) }, async (req, reply) => {
         const body = req.body as any;
+        const branchId = await resolveBranchId(req.user!.tenantId, body.branchId, req.user!.branchId);
+        if (branchId === undefined) return reply.status(400).send({ error: 'Unknown branch' });
         return prisma.expense.create({
             data: {
                 id: generateId('EXP'),
                 tenantId: req.user!.tenantId,
+                branchId,
                 description: body.description,
                 amount: Number(body.amount),
                 category: body.category,
@@ -393,11 +616,25 @@ export async function appRoutes(app: FastifyInstance) {
     });
 
     // --- INVENTORY & SALES ---
-    api.get('/inventory', async (req) => {
-        return prisma.inventoryItem.findMany({ where: { tenantId: req.user!.tenantId } });
+    // Consolidated stock by default (with each branch's share); ?branchId reports that location's level as `stock`
+    api.get('/inventory', { preHandler: requireRole(ROLE_GROUPS.SALES) }, async (req: any) => {
+        const items = await prisma.inventoryItem.findMany({ where: { tenantId: req.user!.tenantId }, include: { branchStock: true } });
+        const { branchId } = req.query;
+        if (!branchId) return items;
+
+        return items.map(item => {
+            const allocated = item.branchStock.reduce((sum, b) => sum + b.quantity, 0);
+            const local = branchId === MAIN_BRANCH
+                ? item.stock - allocated
+                : item.branchStock.find(b => b.branchId === branchId)?.quantity || 0;
+            return { ...item, totalStock: item.stock, stock: local };
+        });
     });
-    api.post('/inventory', async (req) => {
+    api.post('/inventory', { preHandler: requireRole(ROLE_GROUPS.INVENTORY) }, async (req, reply) => {
         const body = req.body as any;
+        const branchId = await resolveBranchId(req.user!.tenantId, body.branchId, req.user!.branchId);
+        if (branchId === undefined) return reply.status(400).send({ error: 'Unknown branch' });
+        const stock = Number(body.stock);
         return prisma.inventoryItem.create({
             data: {
                 id: generateId('INV'),
@@ -405,57 +642,68 @@ export async function appRoutes(app: FastifyInstance) {
                 name: body.name,
                 category: body.category,
                 sku: body.sku,
-                stock: Number(body.stock),
+                stock,
                 retailPrice: Number(body.retailPrice),
-                purchasePrice: Number(body.purchasePrice)
-            }
+                purchasePrice: Number(body.purchasePrice),
+                // Opening stock received at a branch is allocated to it
+                ...(branchId && stock > 0 ? { branchStock: { create: { branchId, quantity: stock } } } : {})
+            },
+            include: { branchStock: true }
         });
     });
-    api.get('/sales', async (req) => {
-        return prisma.saleRecord.findMany({ where: { tenantId: req.user!.tenantId }, orderBy: { date: 'desc' } });
+    api.get('/sales', { preHandler: requireRole(ROLE_GROUPS.SALES) }, async (req: any) => {
+        return prisma.saleRecord.findMany({ where: { tenantId: req.user!.tenantId, ...branchFilter(req.query.branchId) }, orderBy: { date: 'desc' } });
     });
-    api.post('/sales/checkout', async (req) => {
+    api.post('/sales/checkout', { preHandler: [requireRole(ROLE_GROUPS.SALES), requireModule('pos')] }, async (req, reply) => {
         const body = req.body as any;
         const { items, total, ownerId, paymentMethod, discount } = body;
+        const branchId = await resolveBranchId(req.user!.tenantId, body.branchId, req.user!.branchId);
+        if (branchId === undefined) return reply.status(400).send({ error: 'Unknown branch' });
         
-        const sale = await prisma.$transaction(async (tx) => {
-            const newSale = await tx.saleRecord.create({
-                data: {
-                    id: generateId('SLE'),
-                    tenantId: req.user!.tenantId,
-                    ownerId,
-                    total: Number(total),
-                    subtotal: Number(total), 
-                    discount: Number(discount || 0),
-                    status: 'Completed',
-                    items: JSON.stringify(items),
-                    payments: JSON.stringify([{ method: paymentMethod, amount: total, date: new Date() }]),
-                    date: new Date()
-                }
-            });
-
-            if (Array.isArray(items)) {
-                for (const item of items) {
-                    if (item.id) {
-                        await tx.inventoryItem.updateMany({
-                            where: { id: item.id, tenantId: req.user!.tenantId },
-                            data: { stock: { decrement: Number(item.quantity || 1) } }
-                        });
+        // An invoice is left Pending until it is settled; anything else is paid at the till
+        const isPaid = body.status !== 'Pending';
+        let sale;
+        try {
+            sale = await prisma.$transaction(async (tx) => {
+                const newSale = await tx.saleRecord.create({
+                    data: {
+                        id: generateId('SLE'),
+                        tenantId: req.user!.tenantId,
+                        branchId,
+                        ownerId,
+                        total: Number(total),
+                        subtotal: Number(total), 
+                        discount: Number(discount || 0),
+                        status: isPaid ? 'Paid' : 'Pending',
+                        invoiceNumber: await nextDocumentNumber(tx, req.user!.tenantId, 'invoice'),
+                        // An unpaid invoice gets its receipt number when it is settled
+                        receiptNumber: isPaid ? await nextDocumentNumber(tx, req.user!.tenantId, 'receipt') : null,
+                        items: JSON.stringify(items),
+                        payments: JSON.stringify(isPaid ? [{ method: paymentMethod, amount: total, date: new Date() }] : []),
+                        date: new Date()
                     }
+                });
+
+                if (Array.isArray(items)) {
+                    // Controlled drugs go on the register against the patient and prescriber sent with the sale
+                    await applyStockMovements(tx, req.user!.tenantId, branchId, items, {
+                        petId: body.petId,
+                        prescriberId: body.prescriberId,
+                        reference: `Sale ${newSale.invoiceNumber || newSale.id}`,
+                        actor: { id: req.user!.id, name: req.user!.name }
+                    });
                 }
-            }
-            return newSale;
-        });
+                return newSale;
+            });
+        } catch (error) {
+            if (error instanceof StockError) return reply.status(409).send({ error: error.message, itemId: error.itemId });
+            if (error instanceof ControlledDrugError) return reply.status(error.code === 'CONFLICT' ? 409 : 400).send({ error: error.message });
+            throw error;
+        }
 
         await createLog(req.user!.tenantId, req.user!.id, 'New Sale', 'financial', `Total: ${total}`);
         return sale;
     });
 
-    // --- AI ASSISTANT ---
-    api.post('/ai/chat', async (req) => {
-        const body = req.body as any; 
-        return { answer: `AI Logic for "${body.prompt}" is not yet connected in this file.` };
-    });
-
   });
 }
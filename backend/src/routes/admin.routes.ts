@@ -0,0 +1,226 @@
+import { FastifyInstance } from 'fastify';
+import bcrypt from 'bcryptjs';
+import os from 'os';
+import { prisma } from '../lib/prisma';
+import { ROLE_GROUPS, SYSTEM_TENANT_ID, requirePlatformRole } from '../middleware/auth';
+import { buildClinicSettings, createLog, getNextBillingDate, safeParse, serializePlan } from '../utils/serverHelpers';
+
+const TENANT_STATUSES = ['Active', 'Suspended', 'Restricted'];
+
+// A paid-up tenant whose billing date has passed is reported as Expired without touching its stored status
+const isExpired = (tenant: { nextBillingDate: Date | null }) =>
+  !!tenant.nextBillingDate && tenant.nextBillingDate < new Date();
+
+// Registered inside the authenticated staff scope; everything here is platform-level and SuperAdmin only.
+export async function adminRoutes(app: FastifyInstance) {
+  app.addHook('preHandler', requirePlatformRole(ROLE_GROUPS.SUPER_ADMIN));
+
+  // LIST TENANTS WITH USAGE
+  app.get('/admin/tenants', async (request, reply) => {
+    try {
+      const tenants = await prisma.tenant.findMany({
+        where: { id: { not: SYSTEM_TENANT_ID } },
+        orderBy: { joinedDate: 'desc' },
+        include: { _count: { select: { users: true, pets: true, owners: true } } }
+      });
+
+      return tenants.map(({ _count, ...tenant }) => ({
+        ...tenant,
+        settings: safeParse(tenant.settings, {}),
+        status: tenant.status === 'Active' && isExpired(tenant) ? 'Expired' : tenant.status,
+        userCount: _count.users,
+        patientCount: _count.pets,
+        clientCount: _count.owners
+      }));
+    } catch (error) {
+      request.log.error(error);
+      return reply.status(500).send({ error: 'Failed to fetch tenants' });
+    }
+  });
+
+  // ONBOARD CLINIC WITH FIRST ADMIN
+  app.post('/admin/tenants', async (request, reply) => {
+    const { clinicName, name, email, password, plan, billingPeriod, country, currency } = request.body as any;
+
+    if (!clinicName || !name || !email || !password) {
+      return reply.status(400).send({ error: 'Clinic name, admin name, email and password are required' });
+    }
+    const period = billingPeriod === 'Yearly' ? 'Yearly' : 'Monthly';
+
+    try {
+      const selectedPlan = await prisma.plan.findUnique({ where: { id: plan || 'Trial' } });
+      if (!selectedPlan) return reply.status(400).send({ error: 'Unknown plan' });
+
+      const existing = await prisma.user.findUnique({ where: { email } });
+      if (existing) return reply.status(409).send({ error: 'Email already registered' });
+
+      const tenant = await prisma.$transaction(async (tx) => {
+        const tenant = await tx.tenant.create({
+          data: {
+            name: clinicName,
+            plan: selectedPlan.id,
+            billingPeriod: period,
+            nextBillingDate: getNextBillingDate(period),
+            status: 'Active',
+            settings: buildClinicSettings(clinicName, email, currency || (country === 'Nigeria' ? 'NGN' : 'USD'))
+          }
+        });
+
+        // Onboarded by platform staff, so the address is treated as already verified
+        await tx.user.create({
+          data: {
+            tenantId: tenant.id,
+            name, email,
+            passwordHash: await bcrypt.hash(password, 10),
+            roles: JSON.stringify(['Admin']),
+            isVerified: true
+          }
+        });
+        return tenant;
+      });
+
+      createLog(tenant.id, request.user!.id, 'Tenant Onboarded', 'admin', `${selectedPlan.name} (${period}) by ${request.user!.name}`);
+      return reply.send({ ...tenant, settings: safeParse(tenant.settings, {}) });
+    } catch (error) {
+      request.log.error(error);
+      return reply.status(500).send({ error: 'Failed to create tenant' });
+    }
+  });
+
+  // SUSPEND / RESTRICT / REACTIVATE, CHANGE PLAN OR BILLING PERIOD
+  app.patch('/admin/tenants/:id', async (request, reply) => {
+    const { id } = request.params as any;
+    const { status, plan, billingPeriod, nextBillingDate, name } = request.body as any;
+
+    if (id === SYSTEM_TENANT_ID) return reply.status(400).send({ error: 'The system tenant cannot be modified' });
+    if (status && !TENANT_STATUSES.includes(status)) return reply.status(400).send({ error: 'Invalid status' });
+    if (billingPeriod && !['Monthly', 'Yearly'].includes(billingPeriod)) return reply.status(400).send({ error: 'Invalid billing period' });
+
+    try {
+      const tenant = await prisma.tenant.findUnique({ where: { id } });
+      if (!tenant) return reply.status(404).send({ error: 'Tenant not found' });
+
+      if (plan && !(await prisma.plan.findUnique({ where: { id: plan } }))) {
+        return reply.status(400).send({ error: 'Unknown plan' });
+      }
+
+      const data: any = {};
+      const changes: string[] = [];
+      if (name) data.name = name;
+      if (status && status !== tenant.status) {
+        data.status = status;
+        changes.push(`status ${tenant.status} -> ${status}`);
+      }
+      if (plan && plan !== tenant.plan) {
+        data.plan = plan;
+        changes.push(`plan ${tenant.plan} -> ${plan}`);
+      }
+      if (billingPeriod && billingPeriod !== tenant.billingPeriod) {
+        data.billingPeriod = billingPeriod;
+        // A new billing cycle starts from today
+        data.nextBillingDate = getNextBillingDate(billingPeriod);
+        changes.push(`billing ${tenant.billingPeriod} -> ${billingPeriod}`);
+      }
+      if (nextBillingDate) data.nextBillingDate = new Date(nextBillingDate);
+
+      const updated = await prisma.tenant.update({ where: { id }, data });
+      if (changes.length) {
+        createLog(id, request.user!.id, 'Subscription Updated', 'admin', `${changes.join(', ')} by ${request.user!.name}`);
+      }
+      return reply.send({ ...updated, settings: safeParse(updated.settings, {}) });
+    } catch (error) {
+      request.log.error(error);
+      return reply.status(500).send({ error: 'Failed to update tenant' });
+    }
+  });
+
+  // PLATFORM STATS
+  app.get('/admin/stats', async (request, reply) => {
+    try {
+      const [tenants, plans, totalUsers, totalPatients] = await Promise.all([
+        prisma.tenant.findMany({
+          where: { id: { not: SYSTEM_TENANT_ID } },
+          select: { plan: true, billingPeriod: true, status: true, nextBillingDate: true, storageUsed: true }
+        }),
+        prisma.plan.findMany(),
+        prisma.user.count({ where: { tenantId: { not: SYSTEM_TENANT_ID } } }),
+        prisma.pet.count()
+      ]);
+
+      const planById = new Map(plans.map(p => [p.id, p]));
+      const mrrByTier: Record<string, number> = {};
+      const tenantsByTier: Record<string, number> = {};
+      let activeSubscriptions = 0, expiredClinics = 0, suspendedClinics = 0, restrictedClinics = 0;
+
+      for (const tenant of tenants) {
+        tenantsByTier[tenant.plan] = (tenantsByTier[tenant.plan] || 0) + 1;
+
+        if (tenant.status === 'Suspended') { suspendedClinics++; continue; }
+        if (tenant.status === 'Restricted') { restrictedClinics++; continue; }
+        if (isExpired(tenant)) { expiredClinics++; continue; }
+
+        activeSubscriptions++;
+        // Yearly subscriptions contribute a twelfth of their price to MRR
+        const plan = planById.get(tenant.plan);
+        const monthly = plan ? (tenant.billingPeriod === 'Yearly' ? plan.priceYearly / 12 : plan.priceMonthly) : 0;
+        mrrByTier[tenant.plan] = Math.round(((mrrByTier[tenant.plan] || 0) + monthly) * 100) / 100;
+      }
+
+      const monthlyRevenue = Object.values(mrrByTier).reduce((sum, v) => sum + v, 0);
+      const cpuUsage = Math.min(100, (os.loadavg()[0] / os.cpus().length) * 100);
+      const memoryUsage = Math.round((1 - os.freemem() / os.totalmem()) * 100);
+
+      return {
+        totalClinics: tenants.length,
+        activeSubscriptions,
+        expiredClinics,
+        suspendedClinics,
+        restrictedClinics,
+        monthlyRevenue: Math.round(monthlyRevenue * 100) / 100,
+        mrrByTier,
+        tenantsByTier,
+        totalUsers,
+        totalPatients,
+        storageUsedMB: tenants.reduce((sum, t) => sum + t.storageUsed, 0),
+        systemLoad: { cpuUsage, memoryUsage }
+      };
+    } catch (error) {
+      request.log.error(error);
+      return reply.status(500).send({ error: 'Failed to compute stats' });
+    }
+  });
+
+  // EDIT PLAN PRICE, FEATURES AND LIMITS
+  app.patch('/plans/:id', async (request, reply) => {
+    const { id } = request.params as any;
+    const { priceMonthly, priceYearly, features, limits } = request.body as any;
+
+    try {
+      const plan = await prisma.plan.findUnique({ where: { id } });
+      if (!plan) return reply.status(404).send({ error: 'Plan not found' });
+
+      const data: any = {};
+      if (priceMonthly !== undefined) {
+        if (!(Number(priceMonthly) >= 0)) return reply.status(400).send({ error: 'Invalid monthly price' });
+        data.priceMonthly = Number(priceMonthly);
+      }
+      if (priceYearly !== undefined) {
+        if (!(Number(priceYearly) >= 0)) return reply.status(400).send({ error: 'Invalid yearly price' });
+        data.priceYearly = Number(priceYearly);
+      }
+      if (Array.isArray(features)) data.features = JSON.stringify(features.map(String));
+      if (limits && typeof limits === 'object') {
+        // Merge so a partial edit (e.g. only maxUsers) keeps the module switches intact
+        const current = safeParse(plan.limits, {});
+        data.limits = JSON.stringify({ ...current, ...limits, modules: { ...current.modules, ...limits.modules } });
+      }
+
+      const updated = await prisma.plan.update({ where: { id }, data });
+      createLog(SYSTEM_TENANT_ID, request.user!.id, 'Plan Updated', 'admin', `${plan.name} by ${request.user!.name}`);
+      return reply.send(serializePlan(updated));
+    } catch (error) {
+      request.log.error(error);
+      return reply.status(500).send({ error: 'Failed to update plan' });
+    }
+  });
+}
@@ -0,0 +1,310 @@
+import { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { ROLE_GROUPS, requireRole } from '../middleware/auth';
+import { createLog, generateId } from '../utils/serverHelpers';
+import { branchFilter, resolveBranchId } from '../utils/branches';
+import { billAdmission } from '../services/billing.service';
+import { MedicalRecordError, buildVitalsEntry } from '../services/medicalRecord.service';
+import { clinicTimeZone, isDay, localParts } from '../services/schedule.service';
+import {
+  ADMISSION_STATUSES, AdmissionError, TASK_STATUSES, TREATMENT_ROUTES,
+  admissionInclude, assertKennelFree, assertNotAdmitted, isScheduledDose, parseTimes, serializeOrder, stayDays, treatmentSheet
+} from '../services/admission.service';
+
+const STATUS_BY_CODE = { INVALID: 400, NOT_FOUND: 404, CONFLICT: 409 };
+
+const actorOf = (request: FastifyRequest) => ({ id: request.user!.id, name: request.user!.name });
+
+const sendError = (reply: FastifyReply, error: unknown) => {
+  if (error instanceof AdmissionError) return reply.status(STATUS_BY_CODE[error.code]).send({ error: error.message, code: error.code });
+  if (error instanceof MedicalRecordError) return reply.status(400).send({ error: error.message, code: error.code });
+  throw error;
+};
+
+const trimmed = (value: any) => (typeof value === 'string' && value.trim() ? value.trim() : null);
+
+const optionalDate = (value: any, field: string) => {
+  if (value === undefined || value === null || value === '') return null;
+  const date = new Date(value);
+  if (isNaN(date.getTime())) throw new AdmissionError(`Invalid ${field}`, 'INVALID');
+  return date;
+};
+
+const rate = (value: any) => {
+  const amount = Number(value);
+  if (!Number.isFinite(amount) || amount < 0) throw new AdmissionError('dailyRate must be zero or more', 'INVALID');
+  return amount;
+};
+
+const findAdmission = async (tenantId: string, id: string, status?: string) => {
+  const admission = await prisma.admission.findFirst({ where: { id, tenantId } });
+  if (!admission) throw new AdmissionError('Admission not found', 'NOT_FOUND');
+  if (status && admission.status !== status) throw new AdmissionError(`This patient has been ${admission.status.toLowerCase()}`, 'CONFLICT');
+  return admission;
+};
+
+// Registered inside the authenticated staff scope.
+export async function admissionRoutes(app: FastifyInstance) {
+  app.addHook('preHandler', requireRole(ROLE_GROUPS.CLINICAL));
+
+  // ?status=Admitted|Discharged (default Admitted)&branchId=
+  app.get('/admissions', async (request, reply) => {
+    const query = request.query as any;
+    const status = query.status || 'Admitted';
+    if (!ADMISSION_STATUSES.includes(status)) return reply.status(400).send({ error: `status must be one of ${ADMISSION_STATUSES.join(', ')}` });
+    return prisma.admission.findMany({
+      where: { tenantId: request.user!.tenantId, status, ...branchFilter(query.branchId) },
+      include: admissionInclude,
+      orderBy: status === 'Admitted' ? { kennel: 'asc' } : { dischargedAt: 'desc' },
+      take: status === 'Admitted' ? undefined : 100
+    });
+  });
+
+  app.get('/admissions/:id', async (request, reply) => {
+    const { id } = request.params as any;
+    const admission = await prisma.admission.findFirst({
+      where: { id, tenantId: request.user!.tenantId },
+      include: {
+        ...admissionInclude,
+        treatments: { orderBy: { createdAt: 'asc' } },
+        vitals: { orderBy: { date: 'desc' } }
+      }
+    });
+    if (!admission) return reply.status(404).send({ error: 'Admission not found' });
+    return { ...admission, treatments: admission.treatments.map(serializeOrder) };
+  });
+
+  // ADMIT: { petId, kennel, reason, dailyRate?, rateItemId?, expectedDischargeAt?, branchId? }.
+  // A hospitalization service item sets the daily rate unless one is given.
+  app.post('/admissions', async (request, reply) => {
+    const body = request.body as any;
+    const tenantId = request.user!.tenantId;
+    const branchId = await resolveBranchId(tenantId, body.branchId, request.user!.branchId);
+    if (branchId === undefined) return reply.status(400).send({ error: 'Unknown branch' });
+
+    try {
+      const kennel = trimmed(body.kennel);
+      const reason = trimmed(body.reason);
+      if (!kennel || !reason) throw new AdmissionError('kennel and reason are required', 'INVALID');
+      const pet = await prisma.pet.findFirst({ where: { id: body.petId, tenantId }, select: { id: true, ownerId: true, name: true } });
+      if (!pet) throw new AdmissionError('Unknown patient', 'INVALID');
+      const rateItem = body.rateItemId
+        ? await prisma.inventoryItem.findFirst({ where: { id: body.rateItemId, tenantId, type: 'Service' }, select: { id: true, retailPrice: true } })
+        : null;
+      if (body.rateItemId && !rateItem) throw new AdmissionError('rateItemId must be a service item', 'INVALID');
+      const dailyRate = body.dailyRate !== undefined && body.dailyRate !== '' ? rate(body.dailyRate) : rateItem?.retailPrice || 0;
+      const expectedDischargeAt = optionalDate(body.expectedDischargeAt, 'expectedDischargeAt');
+
+      const admission = await prisma.$transaction(async (tx) => {
+        await assertNotAdmitted(tx, { tenantId, pet });
+        await assertKennelFree(tx, { tenantId, branchId, kennel });
+        return tx.admission.create({
+          data: {
+            id: generateId('ADM'),
+            tenantId,
+            branchId,
+            petId: pet.id,
+            ownerId: pet.ownerId,
+            kennel,
+            reason,
+            dailyRate,
+            rateItemId: rateItem?.id,
+            expectedDischargeAt,
+            admittedBy: request.user!.name
+          },
+          include: admissionInclude
+        });
+      });
+      createLog(tenantId, request.user!.id, 'Patient Admitted', 'clinical', `${pet.name} → ${kennel}: ${reason}`);
+      return admission;
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  // Move kennel or adjust the stay: { kennel?, reason?, dailyRate?, expectedDischargeAt? }
+  app.patch('/admissions/:id', async (request, reply) => {
+    const { id } = request.params as any;
+    const body = request.body as any;
+    const tenantId = request.user!.tenantId;
+    try {
+      const current = await findAdmission(tenantId, id, 'Admitted');
+      const data: any = {};
+      if (body.kennel !== undefined) {
+        data.kennel = trimmed(body.kennel);
+        if (!data.kennel) throw new AdmissionError('kennel is required', 'INVALID');
+      }
+      if (body.reason !== undefined) {
+        data.reason = trimmed(body.reason);
+        if (!data.reason) throw new AdmissionError('reason is required', 'INVALID');
+      }
+      if (body.dailyRate !== undefined) data.dailyRate = rate(body.dailyRate);
+      if (body.expectedDischargeAt !== undefined) data.expectedDischargeAt = optionalDate(body.expectedDischargeAt, 'expectedDischargeAt');
+
+      const admission = await prisma.$transaction(async (tx) => {
+        if (data.kennel && data.kennel.toLowerCase() !== current.kennel.toLowerCase()) {
+          await assertKennelFree(tx, { tenantId, branchId: current.branchId, kennel: data.kennel, excludeId: id });
+        }
+        const { count } = await tx.admission.updateMany({ where: { id, tenantId, status: 'Admitted' }, data });
+        if (count === 0) throw new AdmissionError('This patient has been discharged', 'CONFLICT');
+        return tx.admission.findUnique({ where: { id }, include: admissionInclude });
+      });
+      if (data.kennel && data.kennel !== current.kennel) {
+        createLog(tenantId, request.user!.id, 'Patient Moved', 'clinical', `${admission!.pet.name}: ${current.kennel} → ${data.kennel}`);
+      }
+      return admission;
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  // --- TREATMENT SHEET ---
+
+  // { drug, dose, route, times: ['08:00', '20:00'], startAt?, endAt?, notes? }
+  app.post('/admissions/:id/treatments', async (request, reply) => {
+    const { id } = request.params as any;
+    const body = request.body as any;
+    const tenantId = request.user!.tenantId;
+    try {
+      const admission = await findAdmission(tenantId, id, 'Admitted');
+      const drug = trimmed(body.drug);
+      const dose = trimmed(body.dose);
+      if (!drug || !dose) throw new AdmissionError('drug and dose are required', 'INVALID');
+      if (!TREATMENT_ROUTES.includes(body.route)) throw new AdmissionError(`route must be one of ${TREATMENT_ROUTES.join(', ')}`, 'INVALID');
+      const startAt = optionalDate(body.startAt, 'startAt') || new Date();
+      const endAt = optionalDate(body.endAt, 'endAt');
+      if (endAt && endAt <= startAt) throw new AdmissionError('endAt must be after startAt', 'INVALID');
+
+      const order = await prisma.treatmentOrder.create({
+        data: {
+          admissionId: admission.id,
+          drug,
+          dose,
+          route: body.route,
+          times: JSON.stringify(parseTimes(body.times)),
+          notes: trimmed(body.notes),
+          startAt,
+          endAt,
+          prescribedBy: request.user!.name
+        }
+      });
+      createLog(tenantId, request.user!.id, 'Treatment Ordered', 'clinical', `${drug} ${dose} ${body.route} (${id})`);
+      return serializeOrder(order);
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  // Stops an order; doses already given stay on the sheet
+  app.delete('/admissions/:id/treatments/:orderId', async (request, reply) => {
+    const { id, orderId } = request.params as any;
+    const tenantId = request.user!.tenantId;
+    try {
+      await findAdmission(tenantId, id, 'Admitted');
+      const { count } = await prisma.treatmentOrder.updateMany({ where: { id: orderId, admissionId: id, stoppedAt: null }, data: { stoppedAt: new Date() } });
+      if (count === 0) throw new AdmissionError('Treatment not found or already stopped', 'NOT_FOUND');
+      createLog(tenantId, request.user!.id, 'Treatment Stopped', 'clinical', `${orderId} (${id})`);
+      return { success: true };
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  // ?date=YYYY-MM-DD (clinic day, default today)
+  app.get('/admissions/:id/sheet', async (request, reply) => {
+    const { id } = request.params as any;
+    const query = request.query as any;
+    const tenantId = request.user!.tenantId;
+    if (query.date && !isDay(query.date)) return reply.status(400).send({ error: 'date must be YYYY-MM-DD' });
+    const admission = await prisma.admission.findFirst({
+      where: { id, tenantId },
+      include: { treatments: { include: { tasks: true }, orderBy: { createdAt: 'asc' } } }
+    });
+    if (!admission) return reply.status(404).send({ error: 'Admission not found' });
+    const timeZone = await clinicTimeZone(prisma, tenantId);
+    const day = query.date || localParts(new Date(), timeZone).day;
+    return { date: day, rows: treatmentSheet(admission, day, timeZone) };
+  });
+
+  // Tick off one dose: { dueAt, status?: 'Done' | 'Skipped', notes? }. A dose can only be recorded once.
+  app.post('/admissions/:id/treatments/:orderId/tasks', async (request, reply) => {
+    const { id, orderId } = request.params as any;
+    const body = request.body as any;
+    const tenantId = request.user!.tenantId;
+    try {
+      const admission = await findAdmission(tenantId, id);
+      const order = await prisma.treatmentOrder.findFirst({ where: { id: orderId, admissionId: id } });
+      if (!order) throw new AdmissionError('Treatment not found', 'NOT_FOUND');
+      const dueAt = optionalDate(body.dueAt, 'dueAt');
+      if (!dueAt || !isScheduledDose(order, dueAt, admission, await clinicTimeZone(prisma, tenantId))) {
+        throw new AdmissionError('dueAt is not a scheduled dose of this treatment', 'INVALID');
+      }
+      const status = body.status || 'Done';
+      if (!TASK_STATUSES.includes(status)) throw new AdmissionError(`status must be one of ${TASK_STATUSES.join(', ')}`, 'INVALID');
+      if (status === 'Skipped' && !trimmed(body.notes)) throw new AdmissionError('Say why the dose was skipped', 'INVALID');
+
+      const actor = actorOf(request);
+      return await prisma.treatmentTask.create({
+        data: { orderId, dueAt, status, notes: trimmed(body.notes), doneById: actor.id, doneByName: actor.name }
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return reply.status(409).send({ error: 'This dose has already been recorded', code: 'CONFLICT' });
+      }
+      return sendError(reply, error);
+    }
+  });
+
+  // --- VITALS ---
+
+  // { weightKg?, temperatureC?, heartRateBpm?, respiratoryRate?, date? }; also lands in the patient's record
+  app.post('/admissions/:id/vitals', async (request, reply) => {
+    const { id } = request.params as any;
+    const tenantId = request.user!.tenantId;
+    try {
+      const admission = await findAdmission(tenantId, id, 'Admitted');
+      return await prisma.vitals.create({
+        data: { id: generateId('VIT'), petId: admission.petId, admissionId: admission.id, ...buildVitalsEntry(request.body, actorOf(request)) }
+      });
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  // --- DISCHARGE ---
+
+  // { notes? }. Bills the stay days at the daily rate into the owner's open invoice.
+  app.post('/admissions/:id/discharge', async (request, reply) => {
+    const { id } = request.params as any;
+    const body = (request.body || {}) as any;
+    const tenantId = request.user!.tenantId;
+    try {
+      const current = await findAdmission(tenantId, id, 'Admitted');
+      const dischargedAt = new Date();
+      const days = stayDays(current.admittedAt, dischargedAt);
+
+      const result = await prisma.$transaction(async (tx) => {
+        const { count } = await tx.admission.updateMany({
+          where: { id, tenantId, status: 'Admitted' },
+          data: { status: 'Discharged', dischargedAt, dischargedBy: request.user!.name, dischargeNotes: trimmed(body.notes), stayDays: days }
+        });
+        if (count === 0) throw new AdmissionError('This patient has already been discharged', 'CONFLICT');
+
+        let sale = null;
+        if (current.dailyRate > 0) {
+          sale = await billAdmission(tx, current, days);
+          if (!sale) throw new AdmissionError("The owner's open invoice changed while billing. Try again.", 'CONFLICT');
+          await tx.admission.update({ where: { id }, data: { saleId: sale.id } });
+        }
+        const admission = await tx.admission.findUnique({ where: { id }, include: admissionInclude });
+        return { admission, sale };
+      });
+
+      createLog(tenantId, request.user!.id, 'Patient Discharged', 'clinical', `${result.admission!.pet.name} from ${current.kennel} after ${days} day(s)${result.sale ? `, billed to ${result.sale.invoiceNumber}` : ''}`);
+      return result;
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+}
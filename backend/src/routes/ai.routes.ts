@@ -0,0 +1,84 @@
+import { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import { ROLE_GROUPS, requireRole } from '../middleware/auth';
+import { meterAiCall } from '../middleware/plan';
+import { AIServiceError, VeterinaryAI, formatSOAP } from '../services/ai.service';
+import { buildPatientContext } from '../services/patientContext.service';
+
+// Rejects incomplete requests before they are metered, so a typo doesn't spend an AI call
+const requireFields = (...fields: string[]) => async (request: FastifyRequest, reply: FastifyReply) => {
+  const body = (request.body || {}) as any;
+  const missing = fields.filter(field => typeof body[field] !== 'string' || !body[field].trim());
+  if (missing.length) return reply.status(400).send({ error: `Missing ${missing.join(', ')}` });
+};
+
+const sendAIError = (request: FastifyRequest, reply: FastifyReply, error: unknown) => {
+  if (error instanceof AIServiceError) {
+    request.log.warn({ code: error.code }, error.message);
+    return reply.status(error.code === 'TIMEOUT' ? 504 : 502).send({ error: error.message, code: error.code });
+  }
+  throw error;
+};
+
+// Registered inside the authenticated staff scope.
+// Every call that reaches a provider is counted against the plan's monthly aiLimit.
+export async function aiRoutes(app: FastifyInstance) {
+
+  app.post('/ai/diagnose', { preHandler: [requireRole(ROLE_GROUPS.CLINICAL), requireFields('species', 'symptoms'), meterAiCall] }, async (request, reply) => {
+    const { species, age, symptoms, history, locationContext } = request.body as any;
+    try {
+      return await VeterinaryAI.suggestDiagnosis({ species, age, symptoms, history, locationContext });
+    } catch (error) {
+      return sendAIError(request, reply, error);
+    }
+  });
+
+  app.post('/ai/soap', { preHandler: [requireRole(ROLE_GROUPS.CLINICAL), requireFields('observations'), meterAiCall] }, async (request, reply) => {
+    const { observations, petName, species } = request.body as any;
+    try {
+      const soap = await VeterinaryAI.generateSOAP({ observations, petName: petName || 'Patient', species: species || 'Unknown' });
+      return { content: formatSOAP(soap), soap };
+    } catch (error) {
+      return sendAIError(request, reply, error);
+    }
+  });
+
+  app.post('/ai/chat', { preHandler: [requireRole(ROLE_GROUPS.CLINICAL), requireFields('query'), meterAiCall] }, async (request, reply) => {
+    const { query, context } = request.body as any;
+    try {
+      return await VeterinaryAI.chat({ query, context: typeof context === 'string' ? context : undefined });
+    } catch (error) {
+      return sendAIError(request, reply, error);
+    }
+  });
+
+  // PATIENT ASSISTANT: answers from the pet's own record, with citations and an allergy/interaction section
+  app.post('/ai/patient-chat', { preHandler: [requireRole(ROLE_GROUPS.CLINICAL), requireFields('petId', 'query')] }, async (request, reply) => {
+    const { petId, query } = request.body as any;
+
+    const patient = await buildPatientContext(request.user!.tenantId, petId);
+    if (!patient) return reply.status(404).send({ error: 'Patient not found' });
+
+    // Metered only once the patient is known to exist
+    await meterAiCall(request, reply);
+    if (reply.sent) return reply;
+
+    try {
+      const result = await VeterinaryAI.patientChat({ query, patient });
+      const cited = new Set(result.citations);
+      return {
+        answer: result.answer,
+        citations: patient.sources
+          .filter(s => cited.has(s.ref))
+          .map(({ ref, type, recordId, label, date }) => ({ ref, type, recordId, label, date })),
+        warnings: {
+          // Recorded allergies are always listed, whether or not the model mentioned them
+          recordedAllergies: patient.allergies,
+          allergies: result.allergyWarnings,
+          interactions: result.interactionWarnings
+        }
+      };
+    } catch (error) {
+      return sendAIError(request, reply, error);
+    }
+  });
+}
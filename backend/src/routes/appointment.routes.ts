@@ -0,0 +1,354 @@
+import { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import { Appointment } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { ROLE_GROUPS, requireRole } from '../middleware/auth';
+import { createLog, generateId } from '../utils/serverHelpers';
+import { branchFilter, resolveBranchId } from '../utils/branches';
+import {
+  APPOINTMENT_STATUSES, APPOINTMENT_TRANSITIONS, AppointmentError, EDIT_SCOPES, MAX_PETS_PER_BOOKING,
+  canTransition, expandRecurrence, openDraftConsultation, parseRecurrence, recordAppointmentEvent
+} from '../services/appointment.service';
+import {
+  ScheduleError, assertSlotFree, availabilityFor, clinicTimeZone, durationForReason, parseDuration, resolveBookedDoctor, resolveDoctor
+} from '../services/schedule.service';
+import { dequeueCancelledAppointment, enqueueAppointment } from '../services/queue.service';
+
+const STATUS_BY_CODE = { INVALID: 400, NOT_FOUND: 404, CONFLICT: 409, INVALID_TRANSITION: 409 };
+// A year of weekly visits for several pets is a few hundred rows and slot checks
+const SERIES_TRANSACTION_TIMEOUT_MS = 60000;
+
+const withParties = { pet: true, owner: true };
+
+const actorOf = (request: FastifyRequest) => ({ id: request.user!.id, name: request.user!.name });
+
+const sendError = (reply: FastifyReply, error: unknown) => {
+  if (error instanceof AppointmentError || error instanceof ScheduleError) {
+    return reply.status(STATUS_BY_CODE[error.code]).send({ error: error.message, code: error.code });
+  }
+  throw error;
+};
+
+interface ChangePlan {
+  data: any;
+  events: { action: string; fromStatus?: string; toStatus?: string; details?: string }[];
+}
+
+/** Works out the update and audit events for one appointment; throws when the change isn't allowed in its state. */
+const planChange = async (tenantId: string, current: Appointment, body: any): Promise<ChangePlan> => {
+  const data: any = {};
+  const events: ChangePlan['events'] = [];
+  const editable = current.status === 'Scheduled' || current.status === 'Checked In';
+
+  if (body.date !== undefined) {
+    const date = new Date(body.date);
+    if (isNaN(date.getTime())) throw new AppointmentError('Invalid date', 'INVALID');
+    if (current.status !== 'Scheduled') throw new AppointmentError(`A ${current.status} appointment can't be rescheduled`, 'INVALID_TRANSITION');
+    if (date.getTime() !== current.date.getTime()) {
+      data.date = date;
+      events.push({ action: 'Rescheduled', details: `${current.date.toISOString()} → ${date.toISOString()}` });
+    }
+  }
+  if (body.durationMinutes !== undefined) body = { ...body, durationMinutes: parseDuration(body.durationMinutes) };
+  // A booked vet carries their own name; doctorName alone is for unscheduled staff or locums.
+  // A typed name that matches one of the clinic's vets books that vet, so the slot checks see it.
+  if (body.doctorId === undefined && typeof body.doctorName === 'string' && body.doctorName !== current.doctorName) {
+    const named = await resolveBookedDoctor(prisma, tenantId, { doctorName: body.doctorName });
+    body = { ...body, doctorId: named?.id || null };
+  }
+  if (body.doctorId !== undefined && (body.doctorId || null) !== current.doctorId) {
+    if (!editable) throw new AppointmentError(`A ${current.status} appointment can't be reassigned`, 'INVALID_TRANSITION');
+    const doctor = body.doctorId ? await resolveDoctor(prisma, tenantId, body.doctorId) : null;
+    data.doctorId = doctor?.id || null;
+    data.doctorName = doctor?.name || body.doctorName || 'Unassigned';
+    events.push({ action: 'Reassigned', details: `${current.doctorName || 'Unassigned'} → ${data.doctorName}` });
+  }
+  const edited = ['reason', 'durationMinutes', ...(data.doctorId === undefined ? ['doctorName'] : [])]
+    .filter(field => body[field] !== undefined && body[field] !== (current as any)[field]);
+  if (edited.length) {
+    if (!editable) throw new AppointmentError(`A ${current.status} appointment can't be edited`, 'INVALID_TRANSITION');
+    for (const field of edited) data[field] = body[field];
+    events.push({ action: 'Updated', details: edited.map(field => `${field}: ${body[field]}`).join(', ') });
+  }
+
+  const status = body.status;
+  if (status !== undefined && status !== current.status) {
+    if (!APPOINTMENT_STATUSES.includes(status)) throw new AppointmentError(`status must be one of ${APPOINTMENT_STATUSES.join(', ')}`, 'INVALID');
+    if (!canTransition(current.status, status)) {
+      const allowed = APPOINTMENT_TRANSITIONS[current.status] || [];
+      throw new AppointmentError(`Can't move an appointment from ${current.status} to ${status}${allowed.length ? ` (allowed: ${allowed.join(', ')})` : ''}`, 'INVALID_TRANSITION');
+    }
+    data.status = status;
+    if (status === 'Checked In') data.checkedInAt = new Date();
+    if (status === 'Cancelled') data.cancelReason = body.cancelReason ? String(body.cancelReason).trim() : null;
+    events.push({ action: status, fromStatus: current.status, toStatus: status, details: data.cancelReason || undefined });
+  }
+
+  return { data, events };
+};
+
+/**
+ * Applies edits and/or a status change to an appointment and, with `scope`, to the later
+ * ('following') or all ('all') still-scheduled visits of its series. Each write is conditional on the
+ * status read, so two desks can't, say, check in and cancel the same visit at once.
+ * New times, vets or lengths are checked against the vet's schedule once every visit has moved,
+ * so back-to-back pets can shift together.
+ */
+const changeAppointment = async (request: FastifyRequest, reply: FastifyReply, id: string, body: any) => {
+  const tenantId = request.user!.tenantId;
+  const actor = actorOf(request);
+  const current = await prisma.appointment.findFirst({ where: { id, tenantId } });
+  if (!current) return reply.status(404).send({ error: 'Appointment not found' });
+
+  const scope = body.scope || 'this';
+  if (!EDIT_SCOPES.includes(scope)) return reply.status(400).send({ error: `scope must be one of ${EDIT_SCOPES.join(', ')}` });
+  // Check-in, completion and no-shows happen visit by visit
+  if (scope !== 'this' && body.status !== undefined && body.status !== 'Cancelled') {
+    return reply.status(400).send({ error: 'Only cancelling can apply to several visits of a series' });
+  }
+
+  let targets = [current];
+  if (scope !== 'this' && current.seriesId) {
+    const others = await prisma.appointment.findMany({
+      where: {
+        tenantId,
+        seriesId: current.seriesId,
+        status: 'Scheduled',
+        id: { not: current.id },
+        ...(scope === 'following' ? { occurrence: { gte: current.occurrence ?? 0 } } : {})
+      },
+      orderBy: { date: 'asc' }
+    });
+    targets = [current, ...others];
+  }
+  // A new time moves every targeted visit by the same amount
+  const shift = body.date !== undefined ? new Date(body.date).getTime() - current.date.getTime() : 0;
+
+  const changed: { target: Appointment; plan: ChangePlan }[] = [];
+  try {
+    for (const target of targets) {
+      const targetBody = target === current || body.date === undefined ? body : { ...body, date: new Date(target.date.getTime() + shift) };
+      const plan = await planChange(tenantId, target, targetBody);
+      if (plan.events.length) changed.push({ target, plan });
+    }
+    if (!changed.length) return reply.send(await prisma.appointment.findUnique({ where: { id }, include: withParties }));
+
+    await prisma.$transaction(async (tx) => {
+      for (const { target, plan } of changed) {
+        const { count } = await tx.appointment.updateMany({ where: { id: target.id, tenantId, status: target.status }, data: plan.data });
+        if (count === 0) throw new AppointmentError('This appointment was changed by someone else. Reload and try again.', 'CONFLICT');
+      }
+      for (const { target, plan } of changed) {
+        const next = { ...target, ...plan.data };
+        const movesSlot = plan.data.date !== undefined || plan.data.doctorId !== undefined || plan.data.durationMinutes !== undefined;
+        if (movesSlot && next.doctorId && (next.status === 'Scheduled' || next.status === 'Checked In')) {
+          await assertSlotFree(tx, { tenantId, doctorId: next.doctorId, start: next.date, durationMinutes: next.durationMinutes, excludeId: target.id });
+        }
+        for (const event of plan.events) await recordAppointmentEvent(tx, target.id, event.action, actor, event);
+        if (scope === 'this' && plan.data.status === 'Checked In' && body.openConsultation) await openDraftConsultation(tx, next, actor);
+        // Arrival puts the patient in the waiting room; cancelling takes them off it if not yet seen
+        if (plan.data.status === 'Checked In') await enqueueAppointment(tx, next, actor);
+        if (plan.data.status === 'Cancelled' && target.status === 'Checked In') await dequeueCancelledAppointment(tx, target.id);
+      }
+    }, { timeout: SERIES_TRANSACTION_TIMEOUT_MS });
+  } catch (error) {
+    return sendError(reply, error);
+  }
+
+  const actions = [...new Set(changed.flatMap(c => c.plan.events.map(e => e.action)))].join(', ');
+  createLog(tenantId, actor.id, `Appointment ${actions}`, 'clinical', `${current.reason} (${id}${changed.length > 1 ? ` and ${changed.length - 1} more in series` : ''})`);
+  return reply.send(await prisma.appointment.findUnique({ where: { id }, include: withParties }));
+};
+
+// Registered inside the authenticated staff scope.
+export async function appointmentRoutes(app: FastifyInstance) {
+  app.addHook('preHandler', requireRole(ROLE_GROUPS.FRONT_DESK));
+
+  app.get('/appointments', async (request) => {
+    const query = request.query as any;
+    const where: any = { tenantId: request.user!.tenantId, ...branchFilter(query.branchId) };
+    if (query.date) {
+      const start = new Date(query.date);
+      const end = new Date(start); end.setDate(end.getDate() + 1);
+      where.date = { gte: start, lt: end };
+    }
+    return prisma.appointment.findMany({ where, include: withParties, orderBy: { date: 'asc' } });
+  });
+
+  // OPEN SLOTS: ?date=YYYY-MM-DD&reason=&doctorId=&durationMinutes=&excludeId=&pets= — length comes from the reason's
+  // appointment type unless given, times the number of pets seen back to back
+  app.get('/appointments/availability', async (request, reply) => {
+    const query = request.query as any;
+    const tenantId = request.user!.tenantId;
+    try {
+      const pets = Math.min(Math.max(parseInt(query.pets, 10) || 1, 1), MAX_PETS_PER_BOOKING);
+      const durationMinutes = pets > 1
+        ? (query.durationMinutes ? parseDuration(query.durationMinutes) : await durationForReason(prisma, tenantId, query.reason)) * pets
+        : query.durationMinutes;
+      return await availabilityFor(tenantId, { ...query, durationMinutes, branchId: query.branchId || request.user!.branchId || undefined });
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  app.post('/appointments', async (request, reply) => {
+    const body = request.body as any;
+    const tenantId = request.user!.tenantId;
+    const branchId = await resolveBranchId(tenantId, body.branchId, request.user!.branchId);
+    if (branchId === undefined) return reply.status(400).send({ error: 'Unknown branch' });
+    const date = new Date(body.date);
+    if (isNaN(date.getTime())) return reply.status(400).send({ error: 'Invalid date' });
+
+    // Check-in opens a consultation and queue entry from these, so they must be this clinic's and belong together
+    let ownerId: string | null = body.ownerId || null;
+    if (body.petId) {
+      const pet = await prisma.pet.findFirst({ where: { id: body.petId, tenantId }, select: { ownerId: true } });
+      if (!pet) return reply.status(400).send({ error: 'Unknown patient' });
+      if (ownerId && ownerId !== pet.ownerId) return reply.status(400).send({ error: 'The pet must belong to the chosen owner' });
+      ownerId = pet.ownerId;
+    } else if (ownerId) {
+      const owner = await prisma.owner.findFirst({ where: { id: ownerId, tenantId }, select: { id: true } });
+      if (!owner) return reply.status(400).send({ error: 'Unknown owner' });
+    }
+
+    try {
+      const durationMinutes = body.durationMinutes ? parseDuration(body.durationMinutes) : await durationForReason(prisma, tenantId, body.reason);
+      const doctor = await resolveBookedDoctor(prisma, tenantId, body);
+
+      const appointment = await prisma.$transaction(async (tx) => {
+        if (doctor) await assertSlotFree(tx, { tenantId, doctorId: doctor.id, start: date, durationMinutes });
+        const created = await tx.appointment.create({
+          data: {
+            id: generateId('APT'),
+            tenantId,
+            branchId,
+            petId: body.petId || null,
+            ownerId,
+            walkInName: body.walkInName,
+            date,
+            durationMinutes,
+            reason: body.reason,
+            status: 'Scheduled',
+            doctorId: doctor?.id,
+            doctorName: doctor?.name || body.doctorName
+          },
+          include: withParties
+        });
+        await recordAppointmentEvent(tx, created.id, 'Booked', actorOf(request), { toStatus: 'Scheduled' });
+        return created;
+      });
+      return appointment;
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  // SERIES: several pets of one owner seen back to back, optionally repeating.
+  // { ownerId, petIds, date, reason, doctorId?, doctorName?, durationMinutes?, recurrence?: { frequency, interval?, until?, count? } }
+  app.post('/appointments/series', async (request, reply) => {
+    const body = request.body as any;
+    const tenantId = request.user!.tenantId;
+    const actor = actorOf(request);
+    const branchId = await resolveBranchId(tenantId, body.branchId, request.user!.branchId);
+    if (branchId === undefined) return reply.status(400).send({ error: 'Unknown branch' });
+    const date = new Date(body.date);
+    if (isNaN(date.getTime())) return reply.status(400).send({ error: 'Invalid date' });
+
+    const petIds: string[] = Array.isArray(body.petIds) ? [...new Set<string>(body.petIds)] : [];
+    if (!body.ownerId || !petIds.length) return reply.status(400).send({ error: 'ownerId and at least one pet are required' });
+    if (petIds.length > MAX_PETS_PER_BOOKING) return reply.status(400).send({ error: `At most ${MAX_PETS_PER_BOOKING} pets per booking` });
+    const pets = await prisma.pet.findMany({ where: { id: { in: petIds }, ownerId: body.ownerId, tenantId }, select: { id: true, name: true } });
+    if (pets.length !== petIds.length) return reply.status(400).send({ error: 'Every pet must belong to the chosen owner' });
+    const orderedPets = petIds.map(petId => pets.find(p => p.id === petId)!);
+
+    try {
+      const timeZone = await clinicTimeZone(prisma, tenantId);
+      const recurrence = parseRecurrence(body.recurrence, timeZone);
+      if (!recurrence && petIds.length === 1) return reply.status(400).send({ error: 'Use POST /appointments for a single visit' });
+      const starts = expandRecurrence(date, recurrence, timeZone);
+      const durationMinutes = body.durationMinutes ? parseDuration(body.durationMinutes) : await durationForReason(prisma, tenantId, body.reason);
+      const doctor = await resolveBookedDoctor(prisma, tenantId, body);
+
+      const result = await prisma.$transaction(async (tx) => {
+        const series = await tx.appointmentSeries.create({
+          data: {
+            tenantId,
+            frequency: recurrence?.frequency || null,
+            interval: recurrence?.interval || 1,
+            until: recurrence?.until || null,
+            count: recurrence?.count || null,
+            createdBy: actor.name
+          }
+        });
+
+        const created = [];
+        for (const [index, occurrenceStart] of starts.entries()) {
+          for (const [position, pet] of orderedPets.entries()) {
+            const start = new Date(occurrenceStart.getTime() + position * durationMinutes * 60000);
+            if (doctor) {
+              try {
+                await assertSlotFree(tx, { tenantId, doctorId: doctor.id, start, durationMinutes });
+              } catch (error) {
+                // Name the visit that clashed; the whole series is refused so nothing half-books
+                if (error instanceof ScheduleError) throw new ScheduleError(`Visit ${index + 1} (${start.toISOString()}), ${pet.name}: ${error.message}`, error.code);
+                throw error;
+              }
+            }
+            const appointment = await tx.appointment.create({
+              data: {
+                id: generateId('APT'),
+                tenantId,
+                branchId,
+                petId: pet.id,
+                ownerId: body.ownerId,
+                date: start,
+                durationMinutes,
+                reason: body.reason,
+                status: 'Scheduled',
+                doctorId: doctor?.id,
+                doctorName: doctor?.name || body.doctorName,
+                seriesId: series.id,
+                occurrence: index + 1
+              },
+              include: withParties
+            });
+            await recordAppointmentEvent(tx, appointment.id, 'Booked', actor, {
+              toStatus: 'Scheduled',
+              details: recurrence ? `Visit ${index + 1} of ${starts.length}` : `${orderedPets.length} pets`
+            });
+            created.push(appointment);
+          }
+        }
+        return { series, appointments: created };
+      }, { timeout: SERIES_TRANSACTION_TIMEOUT_MS });
+
+      createLog(tenantId, actor.id, 'Appointment Series Booked', 'clinical', `${body.reason}: ${starts.length} visit(s) for ${orderedPets.map(p => p.name).join(', ')}`);
+      return result;
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  // Reschedule, edit, or move through the lifecycle:
+  // { date?, reason?, doctorId?, doctorName?, durationMinutes?, status?, cancelReason?, openConsultation?, scope?: 'this' | 'following' | 'all' }
+  app.patch('/appointments/:id', async (request, reply) => {
+    const { id } = request.params as any;
+    return changeAppointment(request, reply, id, request.body || {});
+  });
+
+  // Cancels rather than deletes, so the booking and its history stay on record. ?reason=&scope=
+  app.delete('/appointments/:id', async (request, reply) => {
+    const { id } = request.params as any;
+    const { reason, scope } = request.query as any;
+    return changeAppointment(request, reply, id, { status: 'Cancelled', cancelReason: reason, scope });
+  });
+
+  app.get('/appointments/:id/history', async (request, reply) => {
+    const { id } = request.params as any;
+    const appointment = await prisma.appointment.findFirst({
+      where: { id, tenantId: request.user!.tenantId },
+      select: { events: { orderBy: { createdAt: 'asc' } } }
+    });
+    if (!appointment) return reply.status(404).send({ error: 'Appointment not found' });
+    return appointment.events;
+  });
+}
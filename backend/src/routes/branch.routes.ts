@@ -0,0 +1,279 @@
+import { FastifyInstance, FastifyRequest } from 'fastify';
+import bcrypt from 'bcryptjs';
+import { prisma } from '../lib/prisma';
+import { ROLE_GROUPS, requireRole } from '../middleware/auth';
+import { requireModule } from '../middleware/plan';
+import { PlanLimitError, checkLimits, createLog } from '../utils/serverHelpers';
+import { MAIN_BRANCH, StockError, adjustBranchStock, getMainStock, resolveBranchId } from '../utils/branches';
+import { ControlledDrugError, appendRegisterEntry, recordTransfer } from '../services/controlledDrug.service';
+
+const MAIN_LOCATION_NAME = 'Main Clinic';
+
+const actorOf = (request: FastifyRequest) => ({ id: request.user!.id, name: request.user!.name });
+
+// Registered inside the authenticated staff scope.
+// Branches live inside one tenant; the tenant itself is the consolidated (parent) view.
+export async function branchRoutes(app: FastifyInstance) {
+
+  // LIST BRANCHES
+  app.get('/branches', { preHandler: requireRole(ROLE_GROUPS.ALL_STAFF) }, async (request) => {
+    const branches = await prisma.branch.findMany({
+      where: { tenantId: request.user!.tenantId },
+      include: { _count: { select: { users: true } } },
+      orderBy: { createdAt: 'asc' }
+    });
+    return branches.map(({ _count, ...branch }) => ({ ...branch, staffCount: _count.users }));
+  });
+
+  // CREATE BRANCH (optionally with its own admin)
+  app.post('/branches', { preHandler: [requireRole(ROLE_GROUPS.ADMIN), requireModule('multiBranch')] }, async (request, reply) => {
+    const { name, address, phone, adminName, email, password } = request.body as any;
+    const tenantId = request.user!.tenantId;
+
+    if (!name) return reply.status(400).send({ error: 'Branch name is required' });
+    const withAdmin = !!(adminName && email && password);
+
+    try {
+      if (withAdmin) {
+        await checkLimits(tenantId, 'users', 1);
+        if (await prisma.user.findUnique({ where: { email } })) {
+          return reply.status(409).send({ error: 'Email already registered' });
+        }
+      }
+
+      const branch = await prisma.$transaction(async (tx) => {
+        const branch = await tx.branch.create({ data: { tenantId, name, address, phone } });
+        if (withAdmin) {
+          await tx.user.create({
+            data: {
+              tenantId,
+              branchId: branch.id,
+              name: adminName, email,
+              passwordHash: await bcrypt.hash(password, 10),
+              roles: JSON.stringify(['Admin']),
+              isVerified: true
+            }
+          });
+        }
+        return branch;
+      });
+
+      createLog(tenantId, request.user!.id, 'Branch Created', 'admin', withAdmin ? `${name} (admin: ${email})` : name);
+      return reply.send({ ...branch, staffCount: withAdmin ? 1 : 0 });
+    } catch (error) {
+      if (error instanceof PlanLimitError) return reply.status(403).send(error.toResponse());
+      request.log.error(error);
+      return reply.status(500).send({ error: 'Failed to create branch' });
+    }
+  });
+
+  // UPDATE BRANCH DETAILS
+  app.patch('/branches/:id', { preHandler: [requireRole(ROLE_GROUPS.ADMIN), requireModule('multiBranch')] }, async (request, reply) => {
+    const { id } = request.params as any;
+    const { name, address, phone } = request.body as any;
+
+    const branch = await prisma.branch.findFirst({ where: { id, tenantId: request.user!.tenantId } });
+    if (!branch) return reply.status(404).send({ error: 'Branch not found' });
+
+    const updated = await prisma.branch.update({
+      where: { id },
+      data: { name: name || branch.name, address, phone }
+    });
+    return reply.send(updated);
+  });
+
+  // DELETE BRANCH
+  // History (appointments, sales, expenses) falls back to the main clinic; staff and stock must be moved first.
+  // Branches with a controlled drug register are kept.
+  app.delete('/branches/:id', { preHandler: requireRole(ROLE_GROUPS.ADMIN) }, async (request, reply) => {
+    const { id } = request.params as any;
+
+    const branch = await prisma.branch.findFirst({
+      where: { id, tenantId: request.user!.tenantId },
+      include: { _count: { select: { users: true } } }
+    });
+    if (!branch) return reply.status(404).send({ error: 'Branch not found' });
+
+    const held = await prisma.branchStock.aggregate({ where: { branchId: id }, _sum: { quantity: true } });
+    if (branch._count.users > 0 || (held._sum.quantity || 0) > 0) {
+      return reply.status(409).send({ error: 'Transfer staff and stock out of this branch before deleting it' });
+    }
+    // Controlled drug registers have to be kept, so a branch that has one stays
+    const [entries, counts] = await Promise.all([
+      prisma.controlledDrugEntry.count({ where: { branchId: id } }),
+      prisma.controlledDrugCount.count({ where: { branchId: id } })
+    ]);
+    if (entries || counts) {
+      return reply.status(409).send({ error: 'This branch has a controlled drug register and cannot be deleted' });
+    }
+
+    await prisma.branch.delete({ where: { id } });
+    createLog(branch.tenantId, request.user!.id, 'Branch Deleted', 'admin', branch.name);
+    return reply.send({ success: true });
+  });
+
+  // STAFF TRANSFER
+  app.patch('/users/:id/branch', { preHandler: [requireRole(ROLE_GROUPS.ADMIN), requireModule('multiBranch')] }, async (request, reply) => {
+    const { id } = request.params as any;
+    const { branchId } = request.body as any;
+    const tenantId = request.user!.tenantId;
+
+    const user = await prisma.user.findFirst({ where: { id, tenantId }, include: { branch: true } });
+    if (!user) return reply.status(404).send({ error: 'Staff member not found' });
+
+    const targetId = await resolveBranchId(tenantId, branchId ?? null);
+    if (targetId === undefined) return reply.status(400).send({ error: 'Unknown branch' });
+
+    const updated = await prisma.user.update({ where: { id }, data: { branchId: targetId }, include: { branch: true } });
+    createLog(tenantId, request.user!.id, 'Staff Transferred', 'admin',
+      `${user.name}: ${user.branch?.name || MAIN_LOCATION_NAME} -> ${updated.branch?.name || MAIN_LOCATION_NAME}`);
+
+    const { passwordHash, branch, ...safe } = updated;
+    return reply.send({ ...safe, roles: JSON.parse(updated.roles) });
+  });
+
+  // MOVE STOCK BETWEEN LOCATIONS (null / 'main' = main clinic). A controlled drug moves between the two registers too.
+  app.post('/inventory/:id/transfer', { preHandler: [requireRole(ROLE_GROUPS.INVENTORY), requireModule('multiBranch')] }, async (request, reply) => {
+    const { id } = request.params as any;
+    const { fromBranchId, toBranchId, quantity } = request.body as any;
+    const tenantId = request.user!.tenantId;
+    const qty = Number(quantity);
+
+    if (!Number.isInteger(qty) || qty <= 0) return reply.status(400).send({ error: 'Quantity must be a positive whole number' });
+
+    const item = await prisma.inventoryItem.findFirst({ where: { id, tenantId } });
+    if (!item) return reply.status(404).send({ error: 'Item not found' });
+
+    const from = await resolveBranchId(tenantId, fromBranchId ?? null);
+    const to = await resolveBranchId(tenantId, toBranchId ?? null);
+    if (from === undefined || to === undefined) return reply.status(400).send({ error: 'Unknown branch' });
+    if (from === to) return reply.status(400).send({ error: 'Source and destination are the same' });
+
+    try {
+      // The clinic-wide total is unchanged; only the allocation moves
+      await prisma.$transaction(async (tx) => {
+        if (from) {
+          await adjustBranchStock(tx, from, id, -qty);
+        } else {
+          // Main-clinic stock is whatever no branch holds; locking the item row holds off other transfers
+          // and sales until this one commits, so two moves can't both pass the check
+          await tx.$queryRaw`SELECT 1 FROM "InventoryItem" WHERE "id" = ${id} FOR UPDATE`;
+          if ((await getMainStock(tx, id)) < qty) throw new StockError('Insufficient stock at the main clinic', id);
+        }
+        if (to) await adjustBranchStock(tx, to, id, qty);
+        if (item.isControlled) await recordTransfer(tx, tenantId, item, { from, to, quantity: qty }, actorOf(request));
+      });
+    } catch (error) {
+      if (error instanceof StockError) return reply.status(409).send({ error: error.message, itemId: error.itemId });
+      if (error instanceof ControlledDrugError) return reply.status(error.code === 'CONFLICT' ? 409 : 400).send({ error: error.message });
+      throw error;
+    }
+
+    createLog(tenantId, request.user!.id, 'Stock Transferred', 'admin', `${qty} x ${item.name}: ${fromBranchId || MAIN_BRANCH} -> ${toBranchId || MAIN_BRANCH}`);
+    return reply.send({ success: true });
+  });
+
+  // STOCK COUNT AT A BRANCH: sets the branch level and adjusts the clinic-wide total by the difference.
+  // { branchId, quantity, witnessId?, notes? }: a controlled drug's difference goes on the register as a witnessed Adjustment.
+  app.put('/inventory/:id/branch-stock', { preHandler: [requireRole(ROLE_GROUPS.INVENTORY), requireModule('multiBranch')] }, async (request, reply) => {
+    const { id } = request.params as any;
+    const { branchId, quantity, witnessId, notes } = request.body as any;
+    const tenantId = request.user!.tenantId;
+    const qty = Number(quantity);
+
+    if (!Number.isInteger(qty) || qty < 0) return reply.status(400).send({ error: 'Quantity must be zero or more' });
+
+    const item = await prisma.inventoryItem.findFirst({ where: { id, tenantId } });
+    if (!item) return reply.status(404).send({ error: 'Item not found' });
+
+    const target = await resolveBranchId(tenantId, branchId ?? null);
+    if (!target) return reply.status(400).send({ error: 'Unknown branch' });
+
+    let updated;
+    try {
+      updated = await prisma.$transaction(async (tx) => {
+        const current = await tx.branchStock.findUnique({ where: { branchId_itemId: { branchId: target, itemId: id } } });
+        const delta = qty - (current?.quantity || 0);
+        if (item.isControlled && delta !== 0) {
+          await appendRegisterEntry(tx, { tenantId, branchId: target, item }, {
+            type: 'Adjustment',
+            quantity: delta,
+            witnessId: witnessId || null,
+            reference: 'Branch stock count',
+            notes: typeof notes === 'string' && notes.trim() ? notes.trim() : null
+          }, actorOf(request));
+        }
+        await tx.branchStock.upsert({
+          where: { branchId_itemId: { branchId: target, itemId: id } },
+          update: { quantity: qty },
+          create: { branchId: target, itemId: id, quantity: qty }
+        });
+        return tx.inventoryItem.update({ where: { id }, data: { stock: { increment: delta } }, include: { branchStock: true } });
+      });
+    } catch (error) {
+      if (error instanceof ControlledDrugError) return reply.status(error.code === 'CONFLICT' ? 409 : 400).send({ error: error.message });
+      throw error;
+    }
+
+    createLog(tenantId, request.user!.id, 'Branch Stock Counted', 'admin', `${item.name}: ${qty}`);
+    return reply.send(updated);
+  });
+
+  // CONSOLIDATED VIEW: one row per location plus clinic-wide totals; ?branchId narrows it to one location
+  app.get('/branches/summary', { preHandler: requireRole(ROLE_GROUPS.FINANCE) }, async (request) => {
+    const tenantId = request.user!.tenantId;
+    const { branchId, from, to } = request.query as any;
+
+    const period: any = {};
+    if (from) period.gte = new Date(from);
+    if (to) period.lte = new Date(to);
+    const dateFilter = Object.keys(period).length ? { date: period } : {};
+
+    const [branches, staff, appointments, sales, expenses, items, allocations] = await Promise.all([
+      prisma.branch.findMany({ where: { tenantId }, orderBy: { createdAt: 'asc' } }),
+      prisma.user.groupBy({ by: ['branchId'], where: { tenantId }, _count: { _all: true } }),
+      prisma.appointment.groupBy({ by: ['branchId'], where: { tenantId, date: { gte: new Date() } }, _count: { _all: true } }),
+      prisma.saleRecord.groupBy({ by: ['branchId'], where: { tenantId, ...dateFilter }, _sum: { total: true }, _count: { _all: true } }),
+      prisma.expense.groupBy({ by: ['branchId'], where: { tenantId, ...dateFilter }, _sum: { amount: true } }),
+      prisma.inventoryItem.findMany({ where: { tenantId, type: 'Product' }, select: { id: true, stock: true, purchasePrice: true } }),
+      prisma.branchStock.findMany({ where: { branch: { tenantId } }, select: { branchId: true, itemId: true, quantity: true } })
+    ]);
+
+    const priceById = new Map(items.map(i => [i.id, i.purchasePrice]));
+    const locations = [{ id: MAIN_BRANCH, name: MAIN_LOCATION_NAME }, ...branches.map(b => ({ id: b.id, name: b.name }))];
+    const keyOf = (id: string | null) => id || MAIN_BRANCH;
+
+    const rows = locations.map(location => {
+      const match = (row: { branchId: string | null }) => keyOf(row.branchId) === location.id;
+      const held = location.id === MAIN_BRANCH
+        // Main clinic holds whatever is not allocated to a branch
+        ? items.map(i => ({ itemId: i.id, quantity: i.stock - allocations.filter(a => a.itemId === i.id).reduce((s, a) => s + a.quantity, 0) }))
+        : allocations.filter(a => a.branchId === location.id);
+      const sale = sales.find(match);
+
+      return {
+        ...location,
+        staff: staff.find(match)?._count._all || 0,
+        upcomingAppointments: appointments.find(match)?._count._all || 0,
+        salesCount: sale?._count._all || 0,
+        revenue: sale?._sum.total || 0,
+        expenses: expenses.find(match)?._sum.amount || 0,
+        stockUnits: held.reduce((s, h) => s + h.quantity, 0),
+        stockValue: Math.round(held.reduce((s, h) => s + h.quantity * (priceById.get(h.itemId) || 0), 0) * 100) / 100
+      };
+    });
+
+    const visible = branchId ? rows.filter(r => r.id === branchId) : rows;
+    const totals = visible.reduce((t, r) => ({
+      staff: t.staff + r.staff,
+      upcomingAppointments: t.upcomingAppointments + r.upcomingAppointments,
+      salesCount: t.salesCount + r.salesCount,
+      revenue: t.revenue + r.revenue,
+      expenses: t.expenses + r.expenses,
+      stockUnits: t.stockUnits + r.stockUnits,
+      stockValue: Math.round((t.stockValue + r.stockValue) * 100) / 100
+    }), { staff: 0, upcomingAppointments: 0, salesCount: 0, revenue: 0, expenses: 0, stockUnits: 0, stockValue: 0 });
+
+    return { branches: visible, totals };
+  });
+}
@@ -0,0 +1,87 @@
+import { FastifyInstance } from 'fastify';
+import { prisma } from '../lib/prisma';
+import { ROLE_GROUPS, requireRole } from '../middleware/auth';
+import { createLog } from '../utils/serverHelpers';
+import { buildFeedCalendar, feedPath, newFeedToken } from '../services/calendar.service';
+
+const isAdmin = (roles: string[] | undefined) => !!roles?.includes('Admin');
+
+const serializeFeed = (feed: any) => ({
+  id: feed.id,
+  userId: feed.userId,
+  userName: feed.user?.name || null,
+  createdBy: feed.createdBy,
+  createdAt: feed.createdAt,
+  lastAccessedAt: feed.lastAccessedAt
+});
+
+// Registered inside the authenticated staff scope.
+export async function calendarRoutes(app: FastifyInstance) {
+  app.addHook('preHandler', requireRole(ROLE_GROUPS.FRONT_DESK));
+
+  // Admins see every feed in the clinic, everyone else their own
+  app.get('/calendar/feeds', async (request) => {
+    const feeds = await prisma.calendarFeed.findMany({
+      where: { tenantId: request.user!.tenantId, ...(isAdmin(request.user!.roles) ? {} : { userId: request.user!.id }) },
+      include: { user: { select: { name: true } } },
+      orderBy: { createdAt: 'desc' }
+    });
+    return feeds.map(serializeFeed);
+  });
+
+  // { clinic: true } (admins) for every appointment, else { userId? } for one vet (default: yourself).
+  // Replaces any existing feed for the same calendar; the returned path is the only time the token is shown.
+  app.post('/calendar/feeds', async (request, reply) => {
+    const body = (request.body || {}) as any;
+    const tenantId = request.user!.tenantId;
+    const admin = isAdmin(request.user!.roles);
+
+    let userId: string | null = request.user!.id;
+    if (body.clinic) {
+      if (!admin) return reply.status(403).send({ error: 'Only admins can publish the whole clinic calendar' });
+      userId = null;
+    } else if (body.userId && body.userId !== request.user!.id) {
+      if (!admin) return reply.status(403).send({ error: 'You can only publish your own calendar' });
+      const user = await prisma.user.findFirst({ where: { id: body.userId, tenantId }, select: { id: true } });
+      if (!user) return reply.status(404).send({ error: 'Staff member not found' });
+      userId = user.id;
+    }
+
+    const { token, tokenHash } = newFeedToken();
+    const feed = await prisma.$transaction(async (tx) => {
+      await tx.calendarFeed.deleteMany({ where: { tenantId, userId } });
+      return tx.calendarFeed.create({
+        data: { tenantId, userId, tokenHash, createdBy: request.user!.name },
+        include: { user: { select: { name: true } } }
+      });
+    });
+
+    createLog(tenantId, request.user!.id, 'Calendar Feed Created', 'admin', feed.user ? feed.user.name : 'Whole clinic');
+    return { ...serializeFeed(feed), path: feedPath(token) };
+  });
+
+  app.delete('/calendar/feeds/:id', async (request, reply) => {
+    const { id } = request.params as any;
+    const { count } = await prisma.calendarFeed.deleteMany({
+      where: { id, tenantId: request.user!.tenantId, ...(isAdmin(request.user!.roles) ? {} : { userId: request.user!.id }) }
+    });
+    if (count === 0) return reply.status(404).send({ error: 'Feed not found' });
+    createLog(request.user!.tenantId, request.user!.id, 'Calendar Feed Revoked', 'admin', id);
+    return { success: true };
+  });
+}
+
+// Public: calendar apps can't log in, so the unguessable token in the URL is the credential.
+export async function calendarFeedRoutes(app: FastifyInstance) {
+  app.get('/calendar/:file', async (request, reply) => {
+    const { file } = request.params as any;
+    const token = String(file).replace(/\.ics$/i, '');
+    const body = /^[a-f0-9]{64}$/.test(token) ? await buildFeedCalendar(token) : null;
+    if (!body) return reply.status(404).send({ error: 'Calendar not found' });
+
+    return reply
+      .header('Content-Type', 'text/calendar; charset=utf-8')
+      .header('Cache-Control', 'private, max-age=300')
+      .send(body);
+  });
+}
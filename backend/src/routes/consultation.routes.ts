@@ -0,0 +1,229 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { ROLE_GROUPS, requireRole } from '../middleware/auth';
+import { createLog, generateId, safeParse } from '../utils/serverHelpers';
+import { StockError } from '../utils/branches';
+import { invoiceConsultation } from '../services/billing.service';
+import { ControlledDrugError } from '../services/controlledDrug.service';
+import { ReminderError, serializeReminder, syncConsultationReminder } from '../services/reminder.service';
+
+// JSON-string columns and the fallback used when a value is missing or unreadable
+const JSON_FIELDS: Record<string, any> = {
+  vitals: {}, exam: {}, diagnosis: {}, labRequests: [], prescription: [], attachments: [], financials: {}
+};
+const TEXT_FIELDS = ['chiefComplaint', 'history', 'previousTreatmentId', 'previousDiagnosis', 'plan'];
+// Written by the server when the invoice is raised; a client can't point a record at another sale
+const SERVER_FINANCIALS = ['invoiceId', 'invoiceNumber', 'receiptId'];
+
+// Only the fields present in the body are written, so a PATCH can send a single section
+const buildConsultationData = (body: any) => {
+  const data: any = {};
+  for (const field of TEXT_FIELDS) {
+    if (body[field] !== undefined) data[field] = body[field];
+  }
+  for (const field of Object.keys(JSON_FIELDS)) {
+    if (body[field] !== undefined) data[field] = JSON.stringify(body[field] ?? JSON_FIELDS[field]);
+  }
+  if (data.financials) {
+    const financials = { ...body.financials };
+    for (const field of SERVER_FINANCIALS) delete financials[field];
+    data.financials = JSON.stringify(financials);
+  }
+  return data;
+};
+
+export const serializeConsultation = (consult: any) => {
+  const { reminders, ...parsed } = consult;
+  for (const [field, fallback] of Object.entries(JSON_FIELDS)) {
+    parsed[field] = safeParse(consult[field], fallback);
+  }
+  // The follow-up reminder lives in its own table (sent by the reminder scheduler)
+  parsed.reminder = reminders?.[0] ? serializeReminder(reminders[0]) : undefined;
+  return parsed;
+};
+
+const finalizeData = (request: FastifyRequest) => ({
+  status: 'Finalized',
+  finalizedAt: new Date(),
+  finalizedBy: request.user!.name
+});
+
+const withAddenda = {
+  addenda: { orderBy: { createdAt: 'asc' as const } },
+  reminders: { where: { status: { not: 'Cancelled' } }, orderBy: { createdAt: 'desc' as const }, take: 1 }
+};
+
+/**
+ * Locks a draft and raises its invoice in one transaction, so a record is never finalized
+ * without its sale and stock movements. Returns false when the record was not a draft.
+ */
+const finalizeDraft = async (tx: Prisma.TransactionClient, request: FastifyRequest, id: string, data: any = {}) => {
+  const { count } = await tx.consultation.updateMany({
+    where: { id, tenantId: request.user!.tenantId, status: 'Draft' },
+    data: { ...data, ...finalizeData(request) }
+  });
+  if (count === 0) return false;
+  await invoiceConsultation(tx, id, request.user!);
+  return true;
+};
+
+const sendStockError = (reply: FastifyReply, error: unknown) => {
+  if (error instanceof StockError) {
+    return reply.status(409).send({ error: `${error.message}; the consultation was not finalized`, itemId: error.itemId });
+  }
+  if (error instanceof ControlledDrugError) {
+    return reply.status(error.code === 'CONFLICT' ? 409 : 400).send({ error: `${error.message}; the consultation was not finalized` });
+  }
+  if (error instanceof ReminderError) return reply.status(400).send({ error: `Reminder: ${error.message}` });
+  throw error;
+};
+
+// Registered inside the authenticated staff scope.
+// Drafts are freely editable; a finalized consultation is immutable and only accepts signed addenda.
+export async function consultationRoutes(app: FastifyInstance) {
+  app.addHook('preHandler', requireRole(ROLE_GROUPS.CLINICAL));
+
+  app.get('/consultations', async (request) => {
+    const { petId } = request.query as any;
+    const consultations = await prisma.consultation.findMany({
+      where: { tenantId: request.user!.tenantId, ...(petId ? { petId } : {}) },
+      include: withAddenda,
+      orderBy: { date: 'desc' }
+    });
+    return consultations.map(serializeConsultation);
+  });
+
+  app.get('/consultations/:id', async (request, reply) => {
+    const { id } = request.params as any;
+    const consult = await prisma.consultation.findFirst({ where: { id, tenantId: request.user!.tenantId }, include: withAddenda });
+    if (!consult) return reply.status(404).send({ error: 'Consultation not found' });
+    return serializeConsultation(consult);
+  });
+
+  // CREATE (as Draft, or finalized straight away)
+  app.post('/consultations', async (request, reply) => {
+    const body = request.body as any;
+    const tenantId = request.user!.tenantId;
+
+    if (!body.petId) return reply.status(400).send({ error: 'Patient is required' });
+    // The owner always comes from the patient record, never from the body
+    const pet = await prisma.pet.findFirst({ where: { id: body.petId, tenantId }, select: { id: true, ownerId: true } });
+    if (!pet) return reply.status(400).send({ error: 'Unknown patient' });
+    if (body.ownerId && body.ownerId !== pet.ownerId) return reply.status(400).send({ error: 'The owner does not match the patient' });
+
+    const finalize = body.status === 'Finalized';
+    let id: string;
+    try {
+      id = await prisma.$transaction(async (tx) => {
+        const consult = await tx.consultation.create({
+          data: {
+            id: generateId('CON'),
+            tenantId,
+            petId: pet.id,
+            ownerId: pet.ownerId,
+            date: new Date(),
+            vetName: request.user!.name || 'Staff',
+            status: 'Draft',
+            ...buildConsultationData(body)
+          }
+        });
+        if (body.reminder !== undefined) await syncConsultationReminder(tx, consult, body.reminder, request.user!.name);
+        if (finalize) await finalizeDraft(tx, request, consult.id);
+        return consult.id;
+      });
+    } catch (error) {
+      return sendStockError(reply, error);
+    }
+
+    if (finalize) createLog(tenantId, request.user!.id, 'Consultation Finalized', 'clinical', id);
+    const consult = await prisma.consultation.findUnique({ where: { id }, include: withAddenda });
+    return reply.send(serializeConsultation(consult));
+  });
+
+  // UPDATE DRAFT (status: 'Finalized' in the body finalizes in the same write)
+  app.patch('/consultations/:id', async (request, reply) => {
+    const { id } = request.params as any;
+    const body = request.body as any;
+    const tenantId = request.user!.tenantId;
+
+    const finalize = body.status === 'Finalized';
+    let updated: boolean;
+    try {
+      // Conditional on Draft so an edit can't land after someone else finalized the record
+      updated = await prisma.$transaction(async (tx) => {
+        const saved = finalize
+          ? await finalizeDraft(tx, request, id, buildConsultationData(body))
+          : (await tx.consultation.updateMany({ where: { id, tenantId, status: 'Draft' }, data: buildConsultationData(body) })).count > 0;
+        if (saved && body.reminder !== undefined) {
+          const consult = await tx.consultation.findUniqueOrThrow({ where: { id }, select: { id: true, tenantId: true, petId: true, ownerId: true } });
+          await syncConsultationReminder(tx, consult, body.reminder, request.user!.name);
+        }
+        return saved;
+      });
+    } catch (error) {
+      return sendStockError(reply, error);
+    }
+
+    if (!updated) {
+      const exists = await prisma.consultation.findFirst({ where: { id, tenantId }, select: { id: true } });
+      if (!exists) return reply.status(404).send({ error: 'Consultation not found' });
+      return reply.status(409).send({ error: 'This consultation is finalized and locked. Add an addendum instead.', code: 'CONSULTATION_LOCKED' });
+    }
+
+    if (finalize) createLog(tenantId, request.user!.id, 'Consultation Finalized', 'clinical', id);
+    const consult = await prisma.consultation.findUnique({ where: { id }, include: withAddenda });
+    return reply.send(serializeConsultation(consult));
+  });
+
+  // FINALIZE
+  app.post('/consultations/:id/finalize', async (request, reply) => {
+    const { id } = request.params as any;
+    const tenantId = request.user!.tenantId;
+
+    let finalized: boolean;
+    try {
+      finalized = await prisma.$transaction(tx => finalizeDraft(tx, request, id));
+    } catch (error) {
+      return sendStockError(reply, error);
+    }
+    if (!finalized) {
+      const exists = await prisma.consultation.findFirst({ where: { id, tenantId }, select: { id: true } });
+      if (!exists) return reply.status(404).send({ error: 'Consultation not found' });
+      return reply.status(409).send({ error: 'Consultation is already finalized', code: 'CONSULTATION_LOCKED' });
+    }
+
+    createLog(tenantId, request.user!.id, 'Consultation Finalized', 'clinical', id);
+    const consult = await prisma.consultation.findUnique({ where: { id }, include: withAddenda });
+    return reply.send(serializeConsultation(consult));
+  });
+
+  // ADDENDUM: the original note is never rewritten; each amendment is appended and signed by its author
+  app.post('/consultations/:id/addenda', async (request, reply) => {
+    const { id } = request.params as any;
+    const { content, section } = request.body as any;
+    const tenantId = request.user!.tenantId;
+
+    if (!content || !String(content).trim()) return reply.status(400).send({ error: 'Addendum text is required' });
+
+    const consult = await prisma.consultation.findFirst({ where: { id, tenantId }, select: { status: true } });
+    if (!consult) return reply.status(404).send({ error: 'Consultation not found' });
+    if (consult.status !== 'Finalized') {
+      return reply.status(409).send({ error: 'Drafts can be edited directly; addenda apply to finalized consultations' });
+    }
+
+    await prisma.consultationAddendum.create({
+      data: {
+        consultationId: id,
+        section: section || null,
+        content: String(content).trim(),
+        authorId: request.user!.id,
+        authorName: request.user!.name
+      }
+    });
+    createLog(tenantId, request.user!.id, 'Consultation Amended', 'clinical', `${id}${section ? ` (${section})` : ''}`);
+
+    const updated = await prisma.consultation.findUnique({ where: { id }, include: withAddenda });
+    return reply.send(serializeConsultation(updated));
+  });
+}
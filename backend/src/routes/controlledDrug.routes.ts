@@ -0,0 +1,251 @@
+import { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import { prisma } from '../lib/prisma';
+import { ROLE_GROUPS, requireRole } from '../middleware/auth';
+import { createLog } from '../utils/serverHelpers';
+import { adjustBranchStock, resolveBranchId } from '../utils/branches';
+import { clinicTime, clinicTimeZone, isDay, localParts } from '../services/schedule.service';
+import {
+  CONTROLLED_SCHEDULES, ControlledDrugError, ENTRY_TYPES,
+  appendRegisterEntry, lockRegister, reconciliationReport, resolveWitness, roundQuantity
+} from '../services/controlledDrug.service';
+
+const STATUS_BY_CODE = { INVALID: 400, NOT_FOUND: 404, CONFLICT: 409 };
+
+const actorOf = (request: FastifyRequest) => ({ id: request.user!.id, name: request.user!.name });
+
+const sendError = (reply: FastifyReply, error: unknown) => {
+  if (error instanceof ControlledDrugError) return reply.status(STATUS_BY_CODE[error.code]).send({ error: error.message, code: error.code });
+  throw error;
+};
+
+const trimmed = (value: any) => (typeof value === 'string' && value.trim() ? value.trim() : null);
+
+const itemSelect = { id: true, name: true, sku: true, unit: true, batchNumber: true, isControlled: true, controlledSchedule: true };
+
+const findControlledItem = async (tenantId: string, id: string) => {
+  const item = await prisma.inventoryItem.findFirst({ where: { id, tenantId }, select: itemSelect });
+  if (!item) throw new ControlledDrugError('Item not found', 'NOT_FOUND');
+  if (!item.isControlled) throw new ControlledDrugError(`${item.name} is not flagged as a controlled drug`, 'INVALID');
+  return item;
+};
+
+// Registers are kept per location: ?branchId= picks one, otherwise the user's home branch (or the main clinic)
+const locationOf = (request: FastifyRequest, requested: any) =>
+  resolveBranchId(request.user!.tenantId, requested, request.user!.branchId);
+
+// Registered inside the authenticated staff scope.
+export async function controlledDrugRoutes(app: FastifyInstance) {
+  app.addHook('preHandler', requireRole(ROLE_GROUPS.CLINICAL));
+
+  // Controlled items with their balance and last physical count at one location
+  app.get('/controlled-drugs', async (request, reply) => {
+    const tenantId = request.user!.tenantId;
+    const branchId = await locationOf(request, (request.query as any).branchId);
+    if (branchId === undefined) return reply.status(400).send({ error: 'Unknown branch' });
+
+    const items = await prisma.inventoryItem.findMany({ where: { tenantId, isControlled: true }, select: itemSelect, orderBy: { name: 'asc' } });
+    return Promise.all(items.map(async item => {
+      const [last, count] = await Promise.all([
+        prisma.controlledDrugEntry.findFirst({ where: { tenantId, branchId, itemId: item.id }, orderBy: { sequence: 'desc' }, select: { balance: true, createdAt: true } }),
+        prisma.controlledDrugCount.findFirst({ where: { tenantId, branchId, itemId: item.id }, orderBy: { countedAt: 'desc' } })
+      ]);
+      return { ...item, balance: last?.balance || 0, lastEntryAt: last?.createdAt || null, lastCount: count };
+    }));
+  });
+
+  // FLAG / UNFLAG: { isControlled, schedule? }. An item can't come off the list while any location still holds it.
+  app.put('/controlled-drugs/items/:id', { preHandler: requireRole(ROLE_GROUPS.PRESCRIBERS) }, async (request, reply) => {
+    const { id } = request.params as any;
+    const body = request.body as any;
+    const tenantId = request.user!.tenantId;
+    try {
+      const item = await prisma.inventoryItem.findFirst({ where: { id, tenantId }, select: { id: true, name: true, type: true, isControlled: true } });
+      if (!item) throw new ControlledDrugError('Item not found', 'NOT_FOUND');
+      if (item.type === 'Service') throw new ControlledDrugError('Services cannot be controlled drugs', 'INVALID');
+
+      const isControlled = body.isControlled !== false;
+      if (isControlled && !CONTROLLED_SCHEDULES.includes(body.schedule)) {
+        throw new ControlledDrugError(`schedule must be one of ${CONTROLLED_SCHEDULES.join(', ')}`, 'INVALID');
+      }
+      if (!isControlled && item.isControlled) {
+        // Latest line of each location's register
+        const registers = await prisma.controlledDrugEntry.findMany({
+          where: { tenantId, itemId: id },
+          orderBy: [{ branchId: 'asc' }, { sequence: 'desc' }],
+          distinct: ['branchId'],
+          select: { balance: true }
+        });
+        if (registers.some(r => r.balance > 0)) {
+          throw new ControlledDrugError(`${item.name} is still held on the register. Record its disposal before removing the flag.`, 'CONFLICT');
+        }
+      }
+
+      const updated = await prisma.inventoryItem.update({
+        where: { id },
+        data: { isControlled, controlledSchedule: isControlled ? body.schedule : null },
+        select: itemSelect
+      });
+      createLog(tenantId, request.user!.id, isControlled ? 'Controlled Drug Flagged' : 'Controlled Drug Unflagged', 'clinical', `${item.name}${isControlled ? ` (${body.schedule})` : ''}`);
+      return updated;
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  // THE REGISTER for one item at one location, in line order. ?from=&to= (YYYY-MM-DD, clinic days) narrow it.
+  app.get('/controlled-drugs/:itemId/register', async (request, reply) => {
+    const { itemId } = request.params as any;
+    const query = request.query as any;
+    const tenantId = request.user!.tenantId;
+    if ((query.from && !isDay(query.from)) || (query.to && !isDay(query.to))) return reply.status(400).send({ error: 'from and to must be YYYY-MM-DD' });
+    const branchId = await locationOf(request, query.branchId);
+    if (branchId === undefined) return reply.status(400).send({ error: 'Unknown branch' });
+
+    const item = await prisma.inventoryItem.findFirst({ where: { id: itemId, tenantId }, select: itemSelect });
+    if (!item) return reply.status(404).send({ error: 'Item not found' });
+
+    const timeZone = await clinicTimeZone(prisma, tenantId);
+    const createdAt: any = {};
+    if (query.from) createdAt.gte = clinicTime(query.from, '00:00', timeZone);
+    if (query.to) createdAt.lt = new Date(clinicTime(query.to, '00:00', timeZone).getTime() + 24 * 3600000);
+
+    const [entries, last] = await Promise.all([
+      prisma.controlledDrugEntry.findMany({
+        where: { tenantId, branchId, itemId, ...(query.from || query.to ? { createdAt } : {}) },
+        orderBy: { sequence: 'asc' }
+      }),
+      prisma.controlledDrugEntry.findFirst({ where: { tenantId, branchId, itemId }, orderBy: { sequence: 'desc' }, select: { balance: true } })
+    ]);
+    return { item, branchId, balance: last?.balance || 0, entries };
+  });
+
+  // APPEND: { type, quantity, petId?, prescriberId?, witnessId?, batchNumber?, reference?, notes?, occurredAt?, addToStock?, branchId? }.
+  // Dispense and Administration need the patient and prescribing vet; Wastage and Adjustment need a witness and a reason.
+  // A Receipt also adds to stock at the location, unless addToStock is false (an opening balance already on the shelf).
+  app.post('/controlled-drugs/:itemId/entries', async (request, reply) => {
+    const { itemId } = request.params as any;
+    const body = request.body as any;
+    const tenantId = request.user!.tenantId;
+    const branchId = await locationOf(request, body.branchId);
+    if (branchId === undefined) return reply.status(400).send({ error: 'Unknown branch' });
+
+    try {
+      // Transfer lines only come from moving stock between locations
+      if (!ENTRY_TYPES.includes(body.type)) throw new ControlledDrugError(`type must be one of ${ENTRY_TYPES.join(', ')}`, 'INVALID');
+      const item = await findControlledItem(tenantId, itemId);
+      const occurredAt = body.occurredAt ? new Date(body.occurredAt) : null;
+      if (occurredAt && (isNaN(occurredAt.getTime()) || occurredAt.getTime() > Date.now() + 60000)) {
+        throw new ControlledDrugError('occurredAt must be a time that has passed', 'INVALID');
+      }
+
+      const addToStock = body.type === 'Receipt' && body.addToStock !== false;
+      if (addToStock && !Number.isInteger(Number(body.quantity))) {
+        throw new ControlledDrugError(`A receipt into stock must be in whole ${item.unit || 'units'}`, 'INVALID');
+      }
+
+      const entry = await prisma.$transaction(async (tx) => {
+        const created = await appendRegisterEntry(tx, { tenantId, branchId, item }, {
+          type: body.type,
+          quantity: Number(body.quantity),
+          petId: body.petId || null,
+          prescriberId: body.prescriberId || null,
+          witnessId: body.witnessId || null,
+          batchNumber: trimmed(body.batchNumber),
+          reference: trimmed(body.reference),
+          notes: trimmed(body.notes),
+          occurredAt
+        }, actorOf(request));
+        if (addToStock) {
+          await tx.inventoryItem.update({ where: { id: item.id }, data: { stock: { increment: created.quantity } } });
+          if (branchId) await adjustBranchStock(tx, branchId, item.id, created.quantity);
+        }
+        return created;
+      });
+
+      createLog(tenantId, request.user!.id, `Controlled Drug ${entry.type}`, 'clinical',
+        `${item.name} ${entry.change > 0 ? '+' : ''}${entry.change}${item.unit ? ` ${item.unit}` : ''} → ${entry.balance}${entry.petName ? ` (${entry.petName})` : ''}`);
+      return entry;
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  // PHYSICAL COUNT: { witnessId, counts: [{ itemId, quantity }], adjust?, notes?, branchId? }.
+  // Each count is stored against the register balance; with adjust, a discrepancy is written off as a witnessed Adjustment.
+  app.post('/controlled-drugs/counts', async (request, reply) => {
+    const body = request.body as any;
+    const tenantId = request.user!.tenantId;
+    const actor = actorOf(request);
+    const branchId = await locationOf(request, body.branchId);
+    if (branchId === undefined) return reply.status(400).send({ error: 'Unknown branch' });
+
+    try {
+      if (!Array.isArray(body.counts) || !body.counts.length) throw new ControlledDrugError('counts must list at least one item', 'INVALID');
+      if (!body.witnessId) throw new ControlledDrugError('Counts must be witnessed', 'INVALID');
+      const notes = trimmed(body.notes);
+      const witness = await resolveWitness(prisma, tenantId, body.witnessId, actor);
+      const counts = await Promise.all(body.counts.map(async (c: any) => {
+        const quantity = Number(c?.quantity);
+        if (!Number.isFinite(quantity) || quantity < 0) throw new ControlledDrugError('Counted quantities must be zero or more', 'INVALID');
+        return { item: await findControlledItem(tenantId, c.itemId), quantity: roundQuantity(quantity) };
+      }));
+
+      const results = await prisma.$transaction(async (tx) => {
+        const saved = [];
+        for (const { item, quantity } of counts) {
+          const last = await lockRegister(tx, tenantId, branchId, item.id);
+          const registerBalance = last?.balance || 0;
+          const discrepancy = roundQuantity(quantity - registerBalance);
+          const adjustment = body.adjust && discrepancy !== 0
+            ? await appendRegisterEntry(tx, { tenantId, branchId, item }, {
+                type: 'Adjustment',
+                quantity: discrepancy,
+                witnessId: witness.id,
+                reference: 'Physical count',
+                notes
+              }, actor)
+            : null;
+          saved.push(await tx.controlledDrugCount.create({
+            data: {
+              tenantId,
+              branchId,
+              itemId: item.id,
+              countedQuantity: quantity,
+              registerBalance,
+              discrepancy,
+              adjustmentId: adjustment?.id,
+              notes,
+              countedById: actor.id,
+              countedByName: actor.name,
+              witnessId: witness.id,
+              witnessName: witness.name
+            }
+          }));
+        }
+        return saved;
+      });
+
+      const off = results.filter(r => r.discrepancy !== 0);
+      createLog(tenantId, actor.id, 'Controlled Drug Count', 'clinical',
+        `${results.length} item(s) counted, witnessed by ${witness.name}${off.length ? `; ${off.length} discrepancy(ies)${body.adjust ? ' adjusted' : ''}` : ''}`);
+      return results;
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  // ?from=&to= (YYYY-MM-DD clinic days; default the last 30 days)&branchId=
+  app.get('/controlled-drugs/reconciliation', async (request, reply) => {
+    const query = request.query as any;
+    const tenantId = request.user!.tenantId;
+    if ((query.from && !isDay(query.from)) || (query.to && !isDay(query.to))) return reply.status(400).send({ error: 'from and to must be YYYY-MM-DD' });
+    const branchId = await locationOf(request, query.branchId);
+    if (branchId === undefined) return reply.status(400).send({ error: 'Unknown branch' });
+
+    const timeZone = await clinicTimeZone(prisma, tenantId);
+    const to = query.to || localParts(new Date(), timeZone).day;
+    const from = query.from || new Date(Date.parse(`${to}T00:00:00Z`) - 29 * 24 * 3600000).toISOString().slice(0, 10);
+    if (from > to) return reply.status(400).send({ error: 'from must not be after to' });
+    return reconciliationReport(tenantId, { branchId, from, to, timeZone });
+  });
+}
@@ -0,0 +1,300 @@
+import { FastifyInstance } from 'fastify';
+import { prisma } from '../lib/prisma';
+import { ROLE_GROUPS, requireRole } from '../middleware/auth';
+import { requireModule } from '../middleware/plan';
+import { createLog, generateId, safeParse } from '../utils/serverHelpers';
+import { LAB_CATALOGUE, buildResultValues, findAnalyte, findLabTest } from '../utils/labCatalogue';
+import { nextDocumentNumber } from '../utils/idGenerator';
+import { LabParseError } from '../utils/labParsers';
+import { applyImportedResults, importLabFile } from '../services/labImport.service';
+
+// Status only moves forward; results can be entered straight from Pending
+const NEXT_STATUSES: Record<string, string[]> = {
+  Pending: ['Processing', 'Completed'],
+  Processing: ['Completed'],
+  Completed: []
+};
+
+const withValues = { values: { orderBy: { createdAt: 'asc' as const } } };
+
+// Shape matches LabResult in the frontend types
+export const serializeLab = (lab: any) => ({
+  id: lab.id,
+  tenantId: lab.tenantId,
+  petId: lab.petId,
+  patientName: lab.patientName,
+  ownerName: lab.ownerName,
+  consultationId: lab.consultationId,
+  testCode: lab.testCode,
+  accessionNumber: lab.accessionNumber,
+  testName: lab.testName || lab.type,
+  requestDate: lab.date,
+  completionDate: lab.completionDate,
+  status: lab.status,
+  result: lab.result,
+  resultUrl: lab.resultUrl,
+  notes: lab.notes,
+  requestedBy: lab.requestedBy,
+  conductedBy: lab.conductedBy,
+  cost: lab.cost,
+  values: lab.values
+});
+
+// Shape matches LabImport in the frontend types
+const serializeImport = (item: any) => ({ ...item, values: safeParse(item.values, []) });
+
+// Registered inside the authenticated staff scope.
+export async function labRoutes(app: FastifyInstance) {
+  app.addHook('preHandler', requireRole(ROLE_GROUPS.CLINICAL));
+  app.addHook('preHandler', requireModule('lab'));
+
+  app.get('/labs/catalogue', async () => LAB_CATALOGUE);
+
+  app.get('/labs', async (request) => {
+    const { petId, status } = request.query as any;
+    const labs = await prisma.labResult.findMany({
+      where: { tenantId: request.user!.tenantId, ...(petId ? { petId } : {}), ...(status ? { status } : {}) },
+      include: withValues,
+      orderBy: { createdAt: 'desc' }
+    });
+    return labs.map(serializeLab);
+  });
+
+  // --- TRENDS ---
+  // Completed results only: a Processing panel may hold half-entered values
+
+  // Analytes with at least one numeric result for the pet, most-measured first
+  app.get('/labs/trends', async (request, reply) => {
+    const { petId } = request.query as any;
+    if (!petId) return reply.status(400).send({ error: 'petId is required' });
+
+    const rows = await prisma.labResultValue.findMany({
+      where: { value: { not: null }, labResult: { tenantId: request.user!.tenantId, petId, status: 'Completed' } },
+      select: { analyte: true, name: true, unit: true, flag: true, labResult: { select: { date: true, completionDate: true } } }
+    });
+
+    const summary = new Map<string, { analyte: string; name: string; unit: string | null; count: number; lastDate: Date; lastFlag: string | null }>();
+    for (const row of rows) {
+      const date = row.labResult.completionDate || row.labResult.date;
+      const entry = summary.get(row.analyte);
+      if (!entry) {
+        summary.set(row.analyte, { analyte: row.analyte, name: row.name, unit: row.unit, count: 1, lastDate: date, lastFlag: row.flag });
+        continue;
+      }
+      entry.count++;
+      if (date > entry.lastDate) Object.assign(entry, { lastDate: date, lastFlag: row.flag });
+    }
+    return Array.from(summary.values()).sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+  });
+
+  // One analyte over time, with the species reference band to draw behind it
+  app.get('/labs/trends/:analyte', async (request, reply) => {
+    const { analyte } = request.params as any;
+    const { petId, from, to } = request.query as any;
+    const tenantId = request.user!.tenantId;
+    if (!petId) return reply.status(400).send({ error: 'petId is required' });
+
+    const pet = await prisma.pet.findFirst({ where: { id: petId, tenantId }, select: { species: true } });
+    if (!pet) return reply.status(404).send({ error: 'Patient not found' });
+
+    const rows = await prisma.labResultValue.findMany({
+      where: { analyte, value: { not: null }, labResult: { tenantId, petId, status: 'Completed' } },
+      include: { labResult: { select: { id: true, testName: true, type: true, date: true, completionDate: true } } }
+    });
+
+    const points = rows
+      .map(row => ({
+        labResultId: row.labResult.id,
+        testName: row.labResult.testName || row.labResult.type,
+        date: row.labResult.completionDate || row.labResult.date,
+        value: row.value as number,
+        flag: row.flag,
+        refLow: row.refLow,
+        refHigh: row.refHigh
+      }))
+      .filter(p => (!from || p.date >= new Date(from)) && (!to || p.date <= new Date(to)))
+      .sort((a, b) => a.date.getTime() - b.date.getTime());
+
+    // The catalogue interval wins; otherwise the newest range an analyzer reported
+    const definition = findAnalyte(analyte);
+    const range = definition?.ranges?.[pet.species];
+    const reported = [...points].reverse().find(p => p.refLow !== null && p.refHigh !== null);
+
+    return {
+      analyte,
+      name: definition?.name || rows[0]?.name || analyte,
+      unit: definition?.unit ?? rows[0]?.unit ?? null,
+      refLow: range ? range[0] : reported?.refLow ?? null,
+      refHigh: range ? range[1] : reported?.refHigh ?? null,
+      critical: definition?.critical || null,
+      points
+    };
+  });
+
+  // REQUEST
+  app.post('/labs', async (request, reply) => {
+    const body = request.body as any;
+    const tenantId = request.user!.tenantId;
+
+    const pet = body.petId
+      ? await prisma.pet.findFirst({ where: { id: body.petId, tenantId }, include: { owner: { select: { name: true } } } })
+      : null;
+    if (!pet) return reply.status(400).send({ error: 'Unknown patient' });
+
+    const test = findLabTest(body.testCode);
+    const testName = test?.name || String(body.testName || body.testType || '').trim();
+    if (!testName) return reply.status(400).send({ error: 'Test name is required' });
+
+    if (body.consultationId) {
+      const consult = await prisma.consultation.findFirst({ where: { id: body.consultationId, tenantId, petId: pet.id }, select: { id: true } });
+      if (!consult) return reply.status(400).send({ error: 'Consultation does not belong to this patient' });
+    }
+
+    const lab = await prisma.$transaction(async (tx) => tx.labResult.create({
+      data: {
+        id: generateId('LAB'),
+        accessionNumber: await nextDocumentNumber(tx, tenantId, 'accession'),
+        tenantId,
+        petId: pet.id,
+        patientName: pet.name,
+        ownerName: pet.owner.name,
+        consultationId: body.consultationId || null,
+        testCode: test?.code || null,
+        testName,
+        type: test?.category || body.testType || 'General',
+        requestedBy: body.requestedBy || request.user!.name,
+        cost: Number(body.cost) || 0,
+        notes: body.notes || null,
+        status: 'Pending',
+        date: new Date()
+      },
+      include: withValues
+    }));
+
+    createLog(tenantId, request.user!.id, 'Lab Requested', 'clinical', `${testName} for ${pet.name}`);
+    return reply.send(serializeLab(lab));
+  });
+
+  // UPDATE: status moves, per-analyte results, summary and notes
+  app.patch('/labs/:id', async (request, reply) => {
+    const { id } = request.params as any;
+    const body = request.body as any;
+    const tenantId = request.user!.tenantId;
+
+    const lab = await prisma.labResult.findFirst({ where: { id, tenantId }, include: { pet: { select: { species: true } } } });
+    if (!lab) return reply.status(404).send({ error: 'Lab result not found' });
+    if (lab.status === 'Completed') {
+      return reply.status(409).send({ error: 'This result is completed and can no longer be edited', code: 'LAB_COMPLETED' });
+    }
+
+    const status = body.status && body.status !== lab.status ? body.status : null;
+    if (status && !NEXT_STATUSES[lab.status]?.includes(status)) {
+      return reply.status(400).send({ error: `Cannot move a ${lab.status} result to ${status}` });
+    }
+
+    const data: any = {};
+    if (body.result !== undefined) data.result = body.result;
+    if (body.resultUrl !== undefined) data.resultUrl = body.resultUrl;
+    if (body.notes !== undefined) data.notes = body.notes;
+    if (body.cost !== undefined) data.cost = Number(body.cost) || 0;
+    if (status) data.status = status;
+    if (status === 'Completed') {
+      data.completionDate = new Date();
+      data.conductedBy = request.user!.name;
+    }
+
+    const values = Array.isArray(body.values) ? buildResultValues(body.values, lab.pet?.species || '') : null;
+
+    const updated = await prisma.$transaction(async (tx) => {
+      // Conditional on the status we read, so two techs can't both complete the same request.
+      // It runs first so a lost race leaves the other tech's values untouched.
+      const { count } = await tx.labResult.updateMany({ where: { id, status: lab.status }, data });
+      if (count === 0) return null;
+      // Values are replaced as a set so a re-save never leaves stale analytes behind
+      if (values) {
+        await tx.labResultValue.deleteMany({ where: { labResultId: id } });
+        if (values.length) await tx.labResultValue.createMany({ data: values.map(v => ({ ...v, labResultId: id })) });
+      }
+      return tx.labResult.findUnique({ where: { id }, include: withValues });
+    });
+    if (!updated) return reply.status(409).send({ error: 'This result was updated by someone else. Reload and try again.' });
+
+    if (status === 'Completed') {
+      const abnormal = updated.values.filter(v => v.flag && v.flag !== 'N').length;
+      createLog(tenantId, request.user!.id, 'Lab Result Filed', 'clinical', `${updated.testName}${abnormal ? ` (${abnormal} abnormal)` : ''}`);
+    }
+    return reply.send(serializeLab(updated));
+  });
+
+  // --- ANALYZER IMPORT (HL7 v2 ORU^R01 / ASTM E1394) ---
+
+  // UPLOAD: the browser reads the file and posts its text
+  app.post('/labs/import', async (request, reply) => {
+    const { content, fileName } = request.body as any;
+    if (typeof content !== 'string' || !content.trim()) return reply.status(400).send({ error: 'File content is required' });
+
+    try {
+      return await importLabFile(request.user!.tenantId, content, {
+        source: 'upload',
+        fileName: typeof fileName === 'string' ? fileName : undefined,
+        actor: { id: request.user!.id, name: request.user!.name }
+      });
+    } catch (error) {
+      if (error instanceof LabParseError) return reply.status(400).send({ error: error.message });
+      throw error;
+    }
+  });
+
+  // RECONCILIATION QUEUE
+  app.get('/labs/imports', async (request) => {
+    const { status } = request.query as any;
+    const items = await prisma.labImport.findMany({
+      where: { tenantId: request.user!.tenantId, status: status || 'Unmatched' },
+      orderBy: { createdAt: 'desc' },
+      take: 200
+    });
+    return items.map(serializeImport);
+  });
+
+  // Assigns a queued result to an open lab request and completes it
+  app.post('/labs/imports/:id/resolve', async (request, reply) => {
+    const { id } = request.params as any;
+    const { labResultId } = request.body as any;
+    const tenantId = request.user!.tenantId;
+
+    const item = await prisma.labImport.findFirst({ where: { id, tenantId } });
+    if (!item) return reply.status(404).send({ error: 'Import not found' });
+    if (item.status !== 'Unmatched') return reply.status(409).send({ error: `This result is already ${item.status.toLowerCase()}` });
+    if (!labResultId) return reply.status(400).send({ error: 'Choose the lab request these results belong to' });
+
+    // Claim the queue item first so two techs can't file it against different requests
+    const { count } = await prisma.labImport.updateMany({
+      where: { id, status: 'Unmatched' },
+      data: { status: 'Matched', labResultId, resolvedBy: request.user!.name, resolvedAt: new Date() }
+    });
+    if (count === 0) return reply.status(409).send({ error: 'This result was reconciled by someone else. Reload and try again.' });
+
+    const lab = await applyImportedResults(tenantId, labResultId, {
+      observations: safeParse(item.values, []),
+      observedAt: item.observedAt || undefined
+    }, request.user!.name);
+
+    if (!lab) {
+      await prisma.labImport.update({ where: { id }, data: { status: 'Unmatched', labResultId: null, resolvedBy: null, resolvedAt: null } });
+      return reply.status(409).send({ error: 'That lab request is not open for results' });
+    }
+
+    createLog(tenantId, request.user!.id, 'Lab Result Imported', 'clinical', `${lab.testName || lab.type} for ${lab.patientName || 'patient'} (reconciled)`);
+    return reply.send(serializeLab(lab));
+  });
+
+  app.post('/labs/imports/:id/discard', async (request, reply) => {
+    const { id } = request.params as any;
+    const { count } = await prisma.labImport.updateMany({
+      where: { id, tenantId: request.user!.tenantId, status: 'Unmatched' },
+      data: { status: 'Discarded', resolvedBy: request.user!.name, resolvedAt: new Date() }
+    });
+    if (count === 0) return reply.status(404).send({ error: 'No unmatched import with that id' });
+    return reply.send({ success: true });
+  });
+}
@@ -0,0 +1,81 @@
+import { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import { prisma } from '../lib/prisma';
+import { ROLE_GROUPS, requireRole } from '../middleware/auth';
+import { createLog } from '../utils/serverHelpers';
+import {
+  MedicalChanges, MedicalKind, MedicalRecordError, applyMedicalChanges, isMedicalKind, medicalInclude, serializeMedical
+} from '../services/medicalRecord.service';
+
+const STATUS_BY_CODE = { INVALID: 400, NOT_FOUND: 404, CONFLICT: 409 };
+
+const loadMedical = async (tenantId: string, petId: string) => {
+  const pet = await prisma.pet.findFirst({ where: { id: petId, tenantId }, select: { id: true, ...medicalInclude } });
+  return pet ? { petId: pet.id, ...serializeMedical(pet) } : null;
+};
+
+// Runs a change set for one pet and answers with the pet's full medical record
+const saveChanges = async (request: FastifyRequest, reply: FastifyReply, petId: string, changes: MedicalChanges) => {
+  const tenantId = request.user!.tenantId;
+  const pet = await prisma.pet.findFirst({ where: { id: petId, tenantId }, select: { id: true, name: true } });
+  if (!pet) return reply.status(404).send({ error: 'Patient not found' });
+
+  try {
+    const actor = { id: request.user!.id, name: request.user!.name };
+    const summary = await prisma.$transaction(tx => applyMedicalChanges(tx, pet.id, actor, changes));
+    if (summary.length) createLog(tenantId, request.user!.id, 'Medical Record Updated', 'clinical', `${pet.name}: ${Array.from(new Set(summary)).join(', ')}`);
+  } catch (error) {
+    if (error instanceof MedicalRecordError) {
+      return reply.status(STATUS_BY_CODE[error.code]).send({ error: error.message, code: error.code, kind: error.kind, recordId: error.recordId, current: error.current });
+    }
+    throw error;
+  }
+  return reply.send(await loadMedical(tenantId, pet.id));
+};
+
+const kindOrReject = (kind: string, reply: FastifyReply): kind is MedicalKind => {
+  if (isMedicalKind(kind)) return true;
+  reply.status(404).send({ error: `Unknown medical record type ${kind}` });
+  return false;
+};
+
+// Registered inside the authenticated staff scope.
+// Vitals, notes, allergies and conditions live in their own tables; every edit carries the
+// row version the client last read (optimistic concurrency).
+export async function medicalRoutes(app: FastifyInstance) {
+
+  app.get('/patients/:id/medical', { preHandler: requireRole(ROLE_GROUPS.RECORDS) }, async (request, reply) => {
+    const { id } = request.params as any;
+    const record = await loadMedical(request.user!.tenantId, id);
+    if (!record) return reply.status(404).send({ error: 'Patient not found' });
+    return record;
+  });
+
+  // BATCH: { create, update, delete } keyed by kind, applied all-or-nothing
+  const batchHandler = async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as any;
+    const { create, update, delete: remove } = (request.body || {}) as any;
+    return saveChanges(request, reply, id, { create, update, delete: remove });
+  };
+  app.patch('/patients/:id/medical', { preHandler: requireRole(ROLE_GROUPS.CLINICAL) }, batchHandler);
+  app.put('/patients/:id/medical', { preHandler: requireRole(ROLE_GROUPS.CLINICAL) }, batchHandler);
+
+  // SINGLE RECORD
+  app.post('/patients/:id/medical/:kind', { preHandler: requireRole(ROLE_GROUPS.CLINICAL) }, async (request, reply) => {
+    const { id, kind } = request.params as any;
+    if (!kindOrReject(kind, reply)) return reply;
+    return saveChanges(request, reply, id, { create: { [kind]: [request.body || {}] } });
+  });
+
+  app.patch('/patients/:id/medical/:kind/:recordId', { preHandler: requireRole(ROLE_GROUPS.CLINICAL) }, async (request, reply) => {
+    const { id, kind, recordId } = request.params as any;
+    if (!kindOrReject(kind, reply)) return reply;
+    return saveChanges(request, reply, id, { update: { [kind]: [{ ...(request.body as any || {}), id: recordId }] } });
+  });
+
+  app.delete('/patients/:id/medical/:kind/:recordId', { preHandler: requireRole(ROLE_GROUPS.CLINICAL) }, async (request, reply) => {
+    const { id, kind, recordId } = request.params as any;
+    const { version } = request.query as any;
+    if (!kindOrReject(kind, reply)) return reply;
+    return saveChanges(request, reply, id, { delete: { [kind]: [{ id: recordId, version: Number(version) }] } });
+  });
+}
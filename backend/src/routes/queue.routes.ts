@@ -0,0 +1,149 @@
+import { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import { prisma } from '../lib/prisma';
+import { ROLE_GROUPS, requireRole } from '../middleware/auth';
+import { createLog } from '../utils/serverHelpers';
+import { branchFilter, resolveBranchId } from '../utils/branches';
+import {
+  QUEUE_STATUSES, QUEUE_TRANSITIONS, QueueError,
+  assertRoomFree, byTriageThenArrival, parseTriageLevel, queueInclude, queueMetrics, syncAppointment, transitionData
+} from '../services/queue.service';
+import { ScheduleError, clinicTimeZone, isDay, resolveDoctor } from '../services/schedule.service';
+
+const STATUS_BY_CODE = { INVALID: 400, NOT_FOUND: 404, CONFLICT: 409, INVALID_TRANSITION: 409 };
+
+const actorOf = (request: FastifyRequest) => ({ id: request.user!.id, name: request.user!.name });
+
+const sendError = (reply: FastifyReply, error: unknown) => {
+  if (error instanceof QueueError || error instanceof ScheduleError) {
+    return reply.status(STATUS_BY_CODE[error.code]).send({ error: error.message, code: error.code });
+  }
+  throw error;
+};
+
+const trimmed = (value: any) => (typeof value === 'string' && value.trim() ? value.trim() : null);
+
+// Registered inside the authenticated staff scope.
+export async function queueRoutes(app: FastifyInstance) {
+  app.addHook('preHandler', requireRole(ROLE_GROUPS.FRONT_DESK));
+
+  // THE BOARD: everyone still in the building, most urgent and longest waiting first,
+  // plus today's discharges. ?branchId= narrows to one branch.
+  app.get('/queue', async (request) => {
+    const query = request.query as any;
+    const tenantId = request.user!.tenantId;
+    const since = new Date(Date.now() - 12 * 3600000);
+    const entries = await prisma.queueEntry.findMany({
+      where: {
+        tenantId,
+        ...branchFilter(query.branchId),
+        OR: [{ status: { not: 'Discharged' } }, { dischargedAt: { gte: since } }]
+      },
+      include: queueInclude
+    });
+    return entries.sort(byTriageThenArrival);
+  });
+
+  // ?date=YYYY-MM-DD (clinic day, default today)&branchId=
+  app.get('/queue/metrics', async (request, reply) => {
+    const query = request.query as any;
+    if (query.date && !isDay(query.date)) return reply.status(400).send({ error: 'date must be YYYY-MM-DD' });
+    const tenantId = request.user!.tenantId;
+    return queueMetrics(tenantId, { day: query.date, timeZone: await clinicTimeZone(prisma, tenantId), branch: branchFilter(query.branchId) });
+  });
+
+  // WALK-IN ARRIVAL: { petId? | walkInName?, reason, triageLevel?, triageNotes?, doctorId?, room?, branchId? }.
+  // Booked patients join the queue when their appointment is checked in.
+  app.post('/queue', async (request, reply) => {
+    const body = request.body as any;
+    const tenantId = request.user!.tenantId;
+    const branchId = await resolveBranchId(tenantId, body.branchId, request.user!.branchId);
+    if (branchId === undefined) return reply.status(400).send({ error: 'Unknown branch' });
+    if (!trimmed(body.reason)) return reply.status(400).send({ error: 'reason is required' });
+
+    try {
+      const pet = body.petId ? await prisma.pet.findFirst({ where: { id: body.petId, tenantId }, select: { id: true, ownerId: true } }) : null;
+      if (body.petId && !pet) throw new QueueError('Unknown patient', 'INVALID');
+      if (!pet && !trimmed(body.walkInName)) throw new QueueError('Choose a patient or enter a name for the walk-in', 'INVALID');
+      const doctor = body.doctorId ? await resolveDoctor(prisma, tenantId, body.doctorId) : null;
+
+      const entry = await prisma.queueEntry.create({
+        data: {
+          tenantId,
+          branchId,
+          petId: pet?.id,
+          ownerId: pet?.ownerId,
+          walkInName: pet ? null : trimmed(body.walkInName),
+          reason: trimmed(body.reason)!,
+          triageLevel: body.triageLevel ? parseTriageLevel(body.triageLevel) : 'Routine',
+          triageNotes: trimmed(body.triageNotes),
+          doctorId: doctor?.id,
+          doctorName: doctor?.name,
+          room: trimmed(body.room),
+          createdBy: request.user!.name
+        },
+        include: queueInclude
+      });
+      createLog(tenantId, request.user!.id, 'Patient Arrived', 'clinical', `${entry.pet?.name || entry.walkInName} (${entry.triageLevel}): ${entry.reason}`);
+      return entry;
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  // { status?, triageLevel?, triageNotes?, doctorId?, room?, outcome? }. Each write is conditional on the status read,
+  // so two screens can't both call the same patient in. Starting a consult defaults the vet to whoever starts it.
+  app.patch('/queue/:id', async (request, reply) => {
+    const { id } = request.params as any;
+    const body = request.body as any;
+    const tenantId = request.user!.tenantId;
+    const actor = actorOf(request);
+    const current = await prisma.queueEntry.findFirst({ where: { id, tenantId }, include: { pet: { select: { name: true } } } });
+    if (!current) return reply.status(404).send({ error: 'Queue entry not found' });
+    const { pet, ...entry } = current;
+
+    try {
+      const data: any = {};
+      if (entry.status === 'Discharged') throw new QueueError('This patient has already been discharged', 'INVALID_TRANSITION');
+      if (body.triageLevel !== undefined) data.triageLevel = parseTriageLevel(body.triageLevel);
+      if (body.triageNotes !== undefined) data.triageNotes = trimmed(body.triageNotes);
+      if (body.room !== undefined) data.room = trimmed(body.room);
+      if (body.doctorId !== undefined) {
+        const doctor = body.doctorId ? await resolveDoctor(prisma, tenantId, body.doctorId) : null;
+        data.doctorId = doctor?.id || null;
+        data.doctorName = doctor?.name || null;
+      }
+
+      const status = body.status;
+      if (status !== undefined && status !== entry.status) {
+        if (!QUEUE_STATUSES.includes(status)) throw new QueueError(`status must be one of ${QUEUE_STATUSES.join(', ')}`, 'INVALID');
+        const allowed = QUEUE_TRANSITIONS[entry.status] || [];
+        if (!allowed.includes(status)) {
+          throw new QueueError(`Can't move a patient from ${entry.status} to ${status}${allowed.length ? ` (allowed: ${allowed.join(', ')})` : ''}`, 'INVALID_TRANSITION');
+        }
+        Object.assign(data, transitionData(entry.status, status));
+        if (status === 'In Consult' && !(data.doctorId ?? entry.doctorId)) {
+          data.doctorId = actor.id;
+          data.doctorName = actor.name;
+        }
+        if (entry.status === 'Waiting' && status === 'Discharged') data.outcome = trimmed(body.outcome) || 'Left before being seen';
+      }
+
+      const next = { ...entry, ...data };
+      await prisma.$transaction(async (tx) => {
+        if (next.status === 'In Consult' && next.room && (data.room !== undefined || data.status)) {
+          await assertRoomFree(tx, { tenantId, branchId: next.branchId, room: next.room, excludeId: id });
+        }
+        const { count } = await tx.queueEntry.updateMany({ where: { id, tenantId, status: entry.status }, data });
+        if (count === 0) throw new QueueError('This patient was moved by someone else. Reload and try again.', 'CONFLICT');
+        if (data.status) await syncAppointment(tx, next, entry.status, data.status, actor);
+      });
+
+      if (data.status) {
+        createLog(tenantId, actor.id, `Queue ${data.status}`, 'clinical', `${pet?.name || entry.walkInName} (${id})${data.outcome ? `: ${data.outcome}` : ''}`);
+      }
+      return prisma.queueEntry.findUnique({ where: { id }, include: queueInclude });
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+}
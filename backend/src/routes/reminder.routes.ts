@@ -0,0 +1,115 @@
+import { FastifyInstance, FastifyReply } from 'fastify';
+import { prisma } from '../lib/prisma';
+import { ROLE_GROUPS, requireRole } from '../middleware/auth';
+import { createLog, generateId } from '../utils/serverHelpers';
+import {
+  REMINDER_STATUSES, ReminderError, buildReminderData, processTenantReminders, sendReminderNow, serializeReminder
+} from '../services/reminder.service';
+
+const STATUS_BY_CODE = { INVALID: 400, NOT_FOUND: 404 };
+
+const sendReminderError = (reply: FastifyReply, error: unknown) => {
+  if (error instanceof ReminderError) return reply.status(STATUS_BY_CODE[error.code]).send({ error: error.message });
+  throw error;
+};
+
+// Registered inside the authenticated staff scope.
+// The scheduler sends Pending reminders on its own; these routes let staff manage and nudge them.
+export async function reminderRoutes(app: FastifyInstance) {
+  app.addHook('preHandler', requireRole(ROLE_GROUPS.FRONT_DESK));
+
+  app.get('/reminders', async (request, reply) => {
+    const { status, petId, from, to } = request.query as any;
+    const dueDate: any = {};
+    if (from) dueDate.gte = new Date(from);
+    if (to) dueDate.lte = new Date(to);
+    if ((from && isNaN(dueDate.gte.getTime())) || (to && isNaN(dueDate.lte.getTime()))) {
+      return reply.status(400).send({ error: 'from and to must be valid dates' });
+    }
+
+    const reminders = await prisma.reminder.findMany({
+      where: {
+        tenantId: request.user!.tenantId,
+        ...(status ? { status } : {}),
+        ...(petId ? { petId } : {}),
+        ...(from || to ? { dueDate } : {})
+      },
+      include: { pet: { select: { name: true } }, owner: { select: { name: true, phone: true, email: true } } },
+      orderBy: { dueDate: 'asc' },
+      take: 500
+    });
+    return reminders.map(r => ({ ...serializeReminder(r), petName: r.pet.name, owner: r.owner }));
+  });
+
+  app.post('/reminders', async (request, reply) => {
+    const body = request.body as any;
+    const tenantId = request.user!.tenantId;
+
+    const pet = await prisma.pet.findFirst({ where: { id: body.petId || body.patientId, tenantId }, select: { id: true, name: true, ownerId: true } });
+    if (!pet) return reply.status(400).send({ error: 'Unknown patient' });
+
+    let data;
+    try {
+      data = buildReminderData(body);
+    } catch (error) {
+      return sendReminderError(reply, error);
+    }
+
+    const reminder = await prisma.reminder.create({
+      data: { id: generateId('REM'), tenantId, petId: pet.id, ownerId: pet.ownerId, createdBy: request.user!.name, ...data }
+    });
+    createLog(tenantId, request.user!.id, 'Reminder Scheduled', 'clinical', `${reminder.type} for ${pet.name} on ${reminder.dueDate.toISOString().split('T')[0]}`);
+    return reply.send(serializeReminder(reminder));
+  });
+
+  // Edit, complete or cancel. Moving a reminder back to Pending (or changing its date) re-arms delivery.
+  app.patch('/reminders/:id', async (request, reply) => {
+    const { id } = request.params as any;
+    const body = request.body as any;
+    const tenantId = request.user!.tenantId;
+
+    const existing = await prisma.reminder.findFirst({ where: { id, tenantId } });
+    if (!existing) return reply.status(404).send({ error: 'Reminder not found' });
+
+    let data: any;
+    try {
+      data = buildReminderData(body, true);
+    } catch (error) {
+      return sendReminderError(reply, error);
+    }
+    if (body.status !== undefined) {
+      if (!REMINDER_STATUSES.includes(body.status) || body.status === 'Sent') {
+        return reply.status(400).send({ error: 'status must be Pending, Completed or Cancelled' });
+      }
+      data.status = body.status;
+    }
+    if (data.status === 'Pending' || (data.dueDate && existing.status === 'Pending')) {
+      Object.assign(data, { status: 'Pending', attempts: 0, nextAttemptAt: null, deliveredVia: null, lastError: null, sentAt: null });
+    }
+
+    const reminder = await prisma.reminder.update({ where: { id }, data });
+    if (data.status && data.status !== existing.status) {
+      createLog(tenantId, request.user!.id, `Reminder ${data.status}`, 'clinical', `${reminder.type}: ${reminder.description}`);
+    }
+    return reply.send(serializeReminder(reminder));
+  });
+
+  app.post('/reminders/:id/send', async (request, reply) => {
+    const { id } = request.params as any;
+    const tenantId = request.user!.tenantId;
+    try {
+      const status = await sendReminderNow(tenantId, id);
+      if (!status) return reply.status(409).send({ error: 'Reminder is already being sent' });
+    } catch (error) {
+      return sendReminderError(reply, error);
+    }
+    const reminder = await prisma.reminder.findUniqueOrThrow({ where: { id } });
+    createLog(tenantId, request.user!.id, 'Reminder Sent Manually', 'clinical', `${reminder.type}: ${reminder.status}`);
+    return reply.send(serializeReminder(reminder));
+  });
+
+  // Runs this clinic's scheduler pass immediately instead of waiting for the next tick
+  app.post('/reminders/run', { preHandler: requireRole(ROLE_GROUPS.ADMIN) }, async (request) => {
+    return processTenantReminders(request.user!.tenantId);
+  });
+}
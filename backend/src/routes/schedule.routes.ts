@@ -0,0 +1,121 @@
+import { FastifyInstance, FastifyReply } from 'fastify';
+import { prisma } from '../lib/prisma';
+import { ROLE_GROUPS, requireRole } from '../middleware/auth';
+import { createLog } from '../utils/serverHelpers';
+import { ScheduleError, clinicTime, clinicTimeZone, isDay, parseDuration, parseWorkingHours } from '../services/schedule.service';
+
+const STATUS_BY_CODE = { INVALID: 400, NOT_FOUND: 404, CONFLICT: 409 };
+
+const sendError = (reply: FastifyReply, error: unknown) => {
+  if (error instanceof ScheduleError) return reply.status(STATUS_BY_CODE[error.code]).send({ error: error.message, code: error.code });
+  throw error;
+};
+
+const hoursSelect = { dayOfWeek: true, startTime: true, endTime: true, breakStart: true, breakEnd: true };
+
+// Registered inside the authenticated staff scope.
+export async function scheduleRoutes(app: FastifyInstance) {
+
+  // Every active staff member with their weekly hours and leave from today on
+  app.get('/schedules', { preHandler: requireRole(ROLE_GROUPS.FRONT_DESK) }, async (request) => {
+    const staff = await prisma.user.findMany({
+      where: { tenantId: request.user!.tenantId, isSuspended: false },
+      select: {
+        id: true,
+        name: true,
+        roles: true,
+        schedules: { select: hoursSelect, orderBy: { dayOfWeek: 'asc' } },
+        leave: { where: { endAt: { gt: new Date() } }, orderBy: { startAt: 'asc' } }
+      },
+      orderBy: { name: 'asc' }
+    });
+    return staff.map(({ id, name, roles, schedules, leave }) => ({
+      userId: id,
+      name,
+      roles: JSON.parse(roles || '[]'),
+      hours: schedules,
+      leave: leave.map(l => ({ id: l.id, userId: l.userId, startAt: l.startAt, endAt: l.endAt, reason: l.reason, createdBy: l.createdBy }))
+    }));
+  });
+
+  // Replaces a staff member's week: { hours: [{ dayOfWeek, startTime, endTime, breakStart?, breakEnd? }] }. An empty list makes them unbookable.
+  app.put('/schedules/:userId', { preHandler: requireRole(ROLE_GROUPS.ADMIN) }, async (request, reply) => {
+    const { userId } = request.params as any;
+    const tenantId = request.user!.tenantId;
+    const user = await prisma.user.findFirst({ where: { id: userId, tenantId }, select: { id: true, name: true } });
+    if (!user) return reply.status(404).send({ error: 'Staff member not found' });
+
+    let hours;
+    try { hours = parseWorkingHours((request.body as any)?.hours); } catch (error) { return sendError(reply, error); }
+
+    await prisma.$transaction([
+      prisma.staffSchedule.deleteMany({ where: { userId: user.id } }),
+      prisma.staffSchedule.createMany({ data: hours.map(h => ({ ...h, tenantId, userId: user.id })) })
+    ]);
+
+    createLog(tenantId, request.user!.id, 'Schedule Updated', 'admin', `${user.name}: ${hours.length} working day(s)`);
+    return prisma.staffSchedule.findMany({ where: { userId: user.id }, select: hoursSelect, orderBy: { dayOfWeek: 'asc' } });
+  });
+
+  // LEAVE: { from: YYYY-MM-DD, to: YYYY-MM-DD, reason? } covers whole clinic days, both inclusive.
+  // Bookings already in that window are not moved; the count tells the desk how many to rebook.
+  app.post('/schedules/:userId/leave', { preHandler: requireRole(ROLE_GROUPS.ADMIN) }, async (request, reply) => {
+    const { userId } = request.params as any;
+    const body = request.body as any;
+    const tenantId = request.user!.tenantId;
+    const user = await prisma.user.findFirst({ where: { id: userId, tenantId }, select: { id: true, name: true } });
+    if (!user) return reply.status(404).send({ error: 'Staff member not found' });
+    if (!isDay(body.from) || !isDay(body.to) || body.to < body.from) return reply.status(400).send({ error: 'from and to must be YYYY-MM-DD, with to on or after from' });
+
+    const timeZone = await clinicTimeZone(prisma, tenantId);
+    const startAt = clinicTime(body.from, '00:00', timeZone);
+    const endAt = new Date(clinicTime(body.to, '00:00', timeZone).getTime() + 24 * 3600000);
+
+    const leave = await prisma.staffLeave.create({
+      data: { tenantId, userId: user.id, startAt, endAt, reason: body.reason ? String(body.reason).trim() : null, createdBy: request.user!.name }
+    });
+    const affectedAppointments = await prisma.appointment.count({
+      where: { doctorId: user.id, status: { in: ['Scheduled', 'Checked In'] }, date: { gte: startAt, lt: endAt } }
+    });
+
+    createLog(tenantId, request.user!.id, 'Leave Added', 'admin', `${user.name}: ${body.from} to ${body.to}`);
+    return { id: leave.id, userId: leave.userId, startAt, endAt, reason: leave.reason, createdBy: leave.createdBy, affectedAppointments };
+  });
+
+  app.delete('/schedules/leave/:id', { preHandler: requireRole(ROLE_GROUPS.ADMIN) }, async (request, reply) => {
+    const { id } = request.params as any;
+    const { count } = await prisma.staffLeave.deleteMany({ where: { id, tenantId: request.user!.tenantId } });
+    if (count === 0) return reply.status(404).send({ error: 'Leave not found' });
+    return { success: true };
+  });
+
+  // --- APPOINTMENT TYPES (visit length by reason) ---
+
+  app.get('/appointment-types', { preHandler: requireRole(ROLE_GROUPS.FRONT_DESK) }, async (request) => {
+    return prisma.appointmentType.findMany({ where: { tenantId: request.user!.tenantId }, orderBy: { name: 'asc' } });
+  });
+
+  // Creates or updates by name: { name, durationMinutes }
+  app.post('/appointment-types', { preHandler: requireRole(ROLE_GROUPS.ADMIN) }, async (request, reply) => {
+    const body = request.body as any;
+    const tenantId = request.user!.tenantId;
+    const name = String(body.name || '').trim();
+    if (!name) return reply.status(400).send({ error: 'Name is required' });
+
+    let durationMinutes;
+    try { durationMinutes = parseDuration(body.durationMinutes); } catch (error) { return sendError(reply, error); }
+
+    return prisma.appointmentType.upsert({
+      where: { tenantId_name: { tenantId, name } },
+      create: { tenantId, name, durationMinutes },
+      update: { durationMinutes }
+    });
+  });
+
+  app.delete('/appointment-types/:id', { preHandler: requireRole(ROLE_GROUPS.ADMIN) }, async (request, reply) => {
+    const { id } = request.params as any;
+    const { count } = await prisma.appointmentType.deleteMany({ where: { id, tenantId: request.user!.tenantId } });
+    if (count === 0) return reply.status(404).send({ error: 'Appointment type not found' });
+    return { success: true };
+  });
+}
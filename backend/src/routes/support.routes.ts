@@ -0,0 +1,187 @@
+import { FastifyInstance, FastifyRequest } from 'fastify';
+import { prisma } from '../lib/prisma';
+import { ROLE_GROUPS, SYSTEM_TENANT_ID, isPlatformUser, requirePlatformRole, requireRole } from '../middleware/auth';
+import { createLog } from '../utils/serverHelpers';
+
+const STATUSES = ['Open', 'In Progress', 'Resolved'];
+const PRIORITIES = ['Low', 'Medium', 'High'];
+
+const isPlatformStaff = (request: FastifyRequest) => isPlatformUser(request.user);
+
+// Active platform accounts tickets can be assigned to
+const platformStaff = async () => {
+  const users = await prisma.user.findMany({ where: { tenantId: SYSTEM_TENANT_ID, isSuspended: false }, select: { id: true, name: true, roles: true } });
+  return users
+    .map(u => ({ id: u.id, name: u.name, roles: JSON.parse(u.roles) as string[] }))
+    .filter(u => u.roles.some(role => ROLE_GROUPS.PLATFORM.includes(role)));
+};
+
+// Shape matches SupportTicket in the frontend types
+const serializeTicket = (ticket: any) => ({
+  id: ticket.id,
+  tenantId: ticket.tenantId,
+  tenantName: ticket.tenant?.name,
+  subject: ticket.subject,
+  message: ticket.messages?.[0]?.content,
+  status: ticket.status,
+  priority: ticket.priority,
+  assignedTo: ticket.assignedTo,
+  createdBy: ticket.createdBy,
+  date: ticket.createdAt,
+  updatedAt: ticket.updatedAt,
+  messages: ticket.messages
+});
+
+const ticketInclude = {
+  tenant: { select: { name: true } },
+  messages: { orderBy: { createdAt: 'asc' as const } }
+};
+
+// Registered inside the authenticated staff scope.
+// Clinics work with their own tickets; SuperAdmin/Support triage everyone's.
+export async function supportRoutes(app: FastifyInstance) {
+
+  // --- CLINIC SIDE ---
+
+  app.get('/support/tickets', { preHandler: requireRole(ROLE_GROUPS.ALL_STAFF) }, async (request, reply) => {
+    try {
+      const tickets = await prisma.supportTicket.findMany({
+        where: { tenantId: request.user!.tenantId },
+        include: ticketInclude,
+        orderBy: { updatedAt: 'desc' }
+      });
+      return tickets.map(serializeTicket);
+    } catch (error) {
+      request.log.error(error);
+      return reply.status(500).send({ error: 'Failed to fetch tickets' });
+    }
+  });
+
+  app.post('/support/tickets', { preHandler: requireRole(ROLE_GROUPS.ALL_STAFF) }, async (request, reply) => {
+    const { subject, message, priority } = request.body as any;
+    if (!subject || !message) return reply.status(400).send({ error: 'Subject and message are required' });
+
+    try {
+      const ticket = await prisma.supportTicket.create({
+        data: {
+          tenantId: request.user!.tenantId,
+          subject,
+          priority: PRIORITIES.includes(priority) ? priority : 'Medium',
+          createdBy: request.user!.id,
+          messages: {
+            create: { authorId: request.user!.id, authorName: request.user!.name, authorType: 'Clinic', content: message }
+          }
+        },
+        include: ticketInclude
+      });
+      createLog(ticket.tenantId, request.user!.id, 'Support Ticket Opened', 'system', subject);
+      return reply.send(serializeTicket(ticket));
+    } catch (error) {
+      request.log.error(error);
+      return reply.status(500).send({ error: 'Failed to open ticket' });
+    }
+  });
+
+  app.get('/support/tickets/:id', async (request, reply) => {
+    const { id } = request.params as any;
+    const ticket = await prisma.supportTicket.findUnique({ where: { id }, include: ticketInclude });
+    if (!ticket || (!isPlatformStaff(request) && ticket.tenantId !== request.user!.tenantId)) {
+      return reply.status(404).send({ error: 'Ticket not found' });
+    }
+    return serializeTicket(ticket);
+  });
+
+  app.post('/support/tickets/:id/messages', async (request, reply) => {
+    const { id } = request.params as any;
+    const { content } = request.body as any;
+    if (!content) return reply.status(400).send({ error: 'Message cannot be empty' });
+
+    try {
+      const platform = isPlatformStaff(request);
+      const ticket = await prisma.supportTicket.findUnique({ where: { id } });
+      if (!ticket || (!platform && ticket.tenantId !== request.user!.tenantId)) {
+        return reply.status(404).send({ error: 'Ticket not found' });
+      }
+
+      await prisma.ticketMessage.create({
+        data: { ticketId: id, authorId: request.user!.id, authorName: request.user!.name, authorType: platform ? 'Platform' : 'Clinic', content }
+      });
+
+      // A clinic reply on a resolved ticket reopens it
+      const reopen = !platform && ticket.status === 'Resolved';
+      const updated = await prisma.supportTicket.update({
+        where: { id },
+        data: reopen ? { status: 'Open' } : { updatedAt: new Date() },
+        include: ticketInclude
+      });
+      if (reopen) {
+        createLog(ticket.tenantId, request.user!.id, 'Ticket Status Changed', 'system', `${ticket.subject}: Resolved -> Open (clinic reply)`);
+      }
+      return reply.send(serializeTicket(updated));
+    } catch (error) {
+      request.log.error(error);
+      return reply.status(500).send({ error: 'Failed to post message' });
+    }
+  });
+
+  // --- PLATFORM SIDE ---
+
+  app.get('/admin/tickets', { preHandler: requirePlatformRole(ROLE_GROUPS.PLATFORM) }, async (request, reply) => {
+    const { status } = request.query as any;
+    try {
+      const tickets = await prisma.supportTicket.findMany({
+        where: status && STATUSES.includes(status) ? { status } : {},
+        include: ticketInclude,
+        orderBy: { updatedAt: 'desc' }
+      });
+      return tickets.map(serializeTicket);
+    } catch (error) {
+      request.log.error(error);
+      return reply.status(500).send({ error: 'Failed to fetch tickets' });
+    }
+  });
+
+  // Candidates for assignment
+  app.get('/admin/support-staff', { preHandler: requirePlatformRole(ROLE_GROUPS.PLATFORM) }, async () => platformStaff());
+
+  app.patch('/admin/tickets/:id', { preHandler: requirePlatformRole(ROLE_GROUPS.PLATFORM) }, async (request, reply) => {
+    const { id } = request.params as any;
+    const { status, priority, assignedTo } = request.body as any;
+
+    if (status && !STATUSES.includes(status)) return reply.status(400).send({ error: 'Invalid status' });
+    if (priority && !PRIORITIES.includes(priority)) return reply.status(400).send({ error: 'Invalid priority' });
+    // Tickets are assigned by name to someone on the support staff list
+    if (assignedTo && !(await platformStaff()).some(u => u.name === assignedTo)) {
+      return reply.status(400).send({ error: 'Tickets can only be assigned to platform support staff' });
+    }
+
+    try {
+      const ticket = await prisma.supportTicket.findUnique({ where: { id } });
+      if (!ticket) return reply.status(404).send({ error: 'Ticket not found' });
+
+      const data: any = {};
+      const changes: string[] = [];
+      if (status && status !== ticket.status) {
+        data.status = status;
+        changes.push(`status ${ticket.status} -> ${status}`);
+      }
+      if (priority && priority !== ticket.priority) {
+        data.priority = priority;
+        changes.push(`priority ${ticket.priority} -> ${priority}`);
+      }
+      if (assignedTo !== undefined && assignedTo !== ticket.assignedTo) {
+        data.assignedTo = assignedTo || null;
+        changes.push(assignedTo ? `assigned to ${assignedTo}` : 'unassigned');
+      }
+
+      const updated = await prisma.supportTicket.update({ where: { id }, data, include: ticketInclude });
+      if (changes.length) {
+        createLog(ticket.tenantId, request.user!.id, data.status ? 'Ticket Status Changed' : 'Ticket Updated', 'system', `${ticket.subject}: ${changes.join(', ')} by ${request.user!.name}`);
+      }
+      return reply.send(serializeTicket(updated));
+    } catch (error) {
+      request.log.error(error);
+      return reply.status(500).send({ error: 'Failed to update ticket' });
+    }
+  });
+}
@@ -0,0 +1,212 @@
+import { FastifyInstance } from 'fastify';
+import { prisma } from '../lib/prisma';
+import { ROLE_GROUPS, requireRole } from '../middleware/auth';
+import { createLog, generateId } from '../utils/serverHelpers';
+import { StockError, resolveBranchId } from '../utils/branches';
+import { applyStockMovements } from '../services/billing.service';
+import { ControlledDrugError } from '../services/controlledDrug.service';
+import { VACCINE_PROTOCOLS, findProtocol, matchProtocol, protocolsForSpecies, scheduleNextDose } from '../utils/vaccineProtocols';
+
+const ROUTES = ['SC', 'IM', 'IN', 'Oral'];
+
+// Shape matches VaccinationRecord in the frontend types
+export const serializeVaccination = (vac: any) => ({
+  id: vac.id,
+  tenantId: vac.tenantId,
+  petId: vac.petId,
+  protocolCode: vac.protocolCode,
+  vaccineName: vac.vaccineName,
+  doseNumber: vac.doseNumber,
+  dateAdministered: vac.dateAdministered,
+  dueDate: vac.dueDate,
+  inventoryItemId: vac.inventoryItemId,
+  lotNumber: vac.lotNumber,
+  manufacturer: vac.manufacturer,
+  batchExpiry: vac.batchExpiry,
+  route: vac.route,
+  site: vac.site,
+  notes: vac.notes,
+  administeredBy: vac.administeredBy
+});
+
+// Registered inside the authenticated staff scope.
+export async function vaccinationRoutes(app: FastifyInstance) {
+
+  app.get('/vaccinations/protocols', { preHandler: requireRole(ROLE_GROUPS.RECORDS) }, async (request) => {
+    const { species } = request.query as any;
+    return species ? protocolsForSpecies(species) : VACCINE_PROTOCOLS;
+  });
+
+  // DUE LIST: doses falling due within `days` (default 30), overdue ones included, latest dose per protocol only
+  app.get('/vaccinations/due', { preHandler: requireRole(ROLE_GROUPS.FRONT_DESK) }, async (request) => {
+    const { days } = request.query as any;
+    const until = new Date();
+    until.setDate(until.getDate() + (Number(days) || 30));
+
+    const due = await prisma.vaccination.findMany({
+      where: { tenantId: request.user!.tenantId, dueDate: { lte: until } },
+      include: { pet: { select: { id: true, name: true, species: true, owner: { select: { id: true, name: true, phone: true, email: true } } } } },
+      orderBy: { dueDate: 'asc' }
+    });
+
+    // A dose is only due if no later dose of the same vaccine has been given since
+    const latest = await prisma.vaccination.groupBy({
+      by: ['petId', 'vaccineName'],
+      where: { tenantId: request.user!.tenantId, petId: { in: due.map(v => v.petId) } },
+      _max: { dateAdministered: true }
+    });
+    const latestByKey = new Map(latest.map(l => [`${l.petId}|${l.vaccineName}`, l._max.dateAdministered?.getTime()]));
+
+    return due
+      .filter(v => latestByKey.get(`${v.petId}|${v.vaccineName}`) === v.dateAdministered.getTime())
+      .map(v => ({ ...serializeVaccination(v), pet: v.pet }));
+  });
+
+  app.get('/patients/:id/vaccinations', { preHandler: requireRole(ROLE_GROUPS.RECORDS) }, async (request, reply) => {
+    const { id } = request.params as any;
+    const pet = await prisma.pet.findFirst({ where: { id, tenantId: request.user!.tenantId }, select: { id: true } });
+    if (!pet) return reply.status(404).send({ error: 'Patient not found' });
+
+    const vaccinations = await prisma.vaccination.findMany({ where: { petId: pet.id }, orderBy: { dateAdministered: 'asc' } });
+    return vaccinations.map(serializeVaccination);
+  });
+
+  // RECORD A DOSE: draws one unit from the chosen vaccine batch, schedules the next dose and its client reminder
+  app.post('/patients/:id/vaccinations', { preHandler: requireRole(ROLE_GROUPS.CLINICAL) }, async (request, reply) => {
+    const { id } = request.params as any;
+    const body = request.body as any;
+    const tenantId = request.user!.tenantId;
+
+    const pet = await prisma.pet.findFirst({ where: { id, tenantId }, select: { id: true, name: true, species: true, ownerId: true, owner: { select: { email: true } } } });
+    if (!pet) return reply.status(404).send({ error: 'Patient not found' });
+
+    const batch = body.inventoryItemId
+      ? await prisma.inventoryItem.findFirst({ where: { id: body.inventoryItemId, tenantId } })
+      : null;
+    if (body.inventoryItemId && !batch) return reply.status(400).send({ error: 'Unknown vaccine batch' });
+
+    const administeredAt = body.dateAdministered ? new Date(body.dateAdministered) : new Date();
+    if (isNaN(administeredAt.getTime())) return reply.status(400).send({ error: 'Invalid administration date' });
+    if (batch?.expiryDate && new Date(batch.expiryDate) < administeredAt) {
+      return reply.status(400).send({ error: `Batch ${batch.batchNumber || batch.name} expired on ${batch.expiryDate}`, code: 'BATCH_EXPIRED' });
+    }
+    if (body.route && !ROUTES.includes(body.route)) return reply.status(400).send({ error: `route must be one of ${ROUTES.join(', ')}` });
+
+    // An explicit protocol wins; otherwise it is recognised from the product name
+    const protocol = body.protocolCode ? findProtocol(body.protocolCode) : batch ? matchProtocol(batch.name, pet.species) : undefined;
+    if (body.protocolCode && !protocol) return reply.status(400).send({ error: `Unknown protocol ${body.protocolCode}` });
+    if (protocol && !protocol.species.includes(pet.species)) {
+      return reply.status(400).send({ error: `${protocol.name} is not a ${pet.species} protocol` });
+    }
+
+    const vaccineName = String(body.vaccineName || protocol?.name || batch?.name || '').trim();
+    if (!vaccineName) return reply.status(400).send({ error: 'Vaccine name is required' });
+
+    const branchId = batch ? (await resolveBranchId(tenantId, body.branchId, request.user!.branchId || null)) : null;
+    if (branchId === undefined) return reply.status(400).send({ error: 'Unknown branch' });
+
+    let vaccination;
+    try {
+      vaccination = await prisma.$transaction(async (tx) => {
+        let doseNumber = 1;
+        let dueDate: Date | null = null;
+        if (protocol) {
+          const previousDoses = await tx.vaccination.count({ where: { petId: pet.id, protocolCode: protocol.code, dateAdministered: { lt: administeredAt } } });
+          ({ doseNumber, dueDate } = scheduleNextDose(protocol, previousDoses, administeredAt));
+        }
+        // A vet may override the computed date (or set one for a vaccine without a protocol)
+        if (body.dueDate) dueDate = new Date(body.dueDate);
+
+        if (batch) {
+          // A controlled batch also goes on the register as a dose given to this patient by the vet recording it
+          await applyStockMovements(tx, tenantId, branchId, [{ inventoryItemId: batch.id, quantity: 1, type: batch.type }], {
+            type: 'Administration',
+            petId: pet.id,
+            prescriberId: request.user!.id,
+            reference: `Vaccination: ${vaccineName}`,
+            actor: { id: request.user!.id, name: request.user!.name }
+          });
+          // The decrement holds the row until commit, so a concurrent draw of the last vial sees this one
+          const left = await tx.inventoryItem.findUnique({ where: { id: batch.id }, select: { stock: true } });
+          if (!left || left.stock < 0) throw new StockError(`${batch.name} is out of stock`, batch.id);
+        }
+
+        const created = await tx.vaccination.create({
+          data: {
+            id: generateId('VAC'),
+            tenantId,
+            petId: pet.id,
+            branchId,
+            protocolCode: protocol?.code || null,
+            vaccineName,
+            doseNumber,
+            dateAdministered: administeredAt,
+            dueDate: dueDate && !isNaN(dueDate.getTime()) ? dueDate : null,
+            inventoryItemId: batch?.id || null,
+            lotNumber: body.lotNumber || batch?.batchNumber || null,
+            manufacturer: body.manufacturer || batch?.supplier || null,
+            batchExpiry: batch?.expiryDate || null,
+            route: body.route || null,
+            site: body.site || null,
+            notes: body.notes || null,
+            administeredBy: request.user!.name
+          }
+        });
+
+        // The new dose answers any reminder still waiting on an earlier one; it then gets its own
+        await tx.reminder.updateMany({
+          where: { petId: pet.id, status: 'Pending', vaccination: { vaccineName } },
+          data: { status: 'Completed' }
+        });
+        if (created.dueDate) {
+          await tx.reminder.create({
+            data: {
+              id: generateId('REM'),
+              tenantId,
+              petId: pet.id,
+              ownerId: pet.ownerId,
+              vaccinationId: created.id,
+              type: 'Vaccination',
+              description: `${vaccineName} vaccination`,
+              dueDate: created.dueDate,
+              method: pet.owner.email ? 'Both' : 'SMS',
+              createdBy: request.user!.name
+            }
+          });
+        }
+        return created;
+      });
+    } catch (error) {
+      if (error instanceof StockError) return reply.status(409).send({ error: error.message, itemId: error.itemId });
+      if (error instanceof ControlledDrugError) return reply.status(error.code === 'CONFLICT' ? 409 : 400).send({ error: error.message });
+      throw error;
+    }
+
+    createLog(tenantId, request.user!.id, 'Vaccination Recorded', 'clinical', `${vaccineName} (dose ${vaccination.doseNumber}) for ${pet.name}`);
+    return reply.send(serializeVaccination(vaccination));
+  });
+
+  // Entered in error: removes the record and returns the dose to the batch it came from
+  app.delete('/vaccinations/:id', { preHandler: requireRole(ROLE_GROUPS.CLINICAL) }, async (request, reply) => {
+    const { id } = request.params as any;
+    const tenantId = request.user!.tenantId;
+
+    const vaccination = await prisma.vaccination.findFirst({ where: { id, tenantId } });
+    if (!vaccination) return reply.status(404).send({ error: 'Vaccination not found' });
+
+    await prisma.$transaction(async (tx) => {
+      const { count } = await tx.vaccination.deleteMany({ where: { id } });
+      if (count === 0 || !vaccination.inventoryItemId) return;
+      const batch = await tx.inventoryItem.findFirst({ where: { id: vaccination.inventoryItemId, tenantId }, select: { type: true } });
+      if (!batch) return;
+      // A controlled batch gets the dose back on its register as a return
+      await applyStockMovements(tx, tenantId, vaccination.branchId, [{ inventoryItemId: vaccination.inventoryItemId, quantity: -1, type: batch.type }], {
+        reference: `Vaccination ${vaccination.id} entered in error`,
+        actor: { id: request.user!.id, name: request.user!.name }
+      });
+    });
+
+    createLog(tenantId, request.user!.id, 'Vaccination Removed', 'clinical', `${vaccination.vaccineName} given ${vaccination.dateAdministered.toISOString().split('T')[0]}`);
+    return reply.send({ success: true });
+  });
+}
@@ -6,6 +6,8 @@ import bcrypt from 'bcryptjs';
 import { prisma } from './lib/prisma';
 import { DEFAULT_PLANS } from './utils/serverHelpers';
 import { appRoutes } from './routes'; 
+import { startLabImportWatcher } from './services/labImport.service';
+import { startReminderScheduler } from './services/reminder.service';
 
 const app: FastifyInstance = Fastify({ 
   logger: { level: 'info' },
@@ -55,9 +57,9 @@ const start = async () => {
     await prisma.$connect();
     app.log.info("✅ Connected to Database");
 
-    // Seed Plans
+    // Seed Plans (create only, so prices and limits edited from the SuperAdmin dashboard survive restarts)
     if (DEFAULT_PLANS) {
-      for (const p of DEFAULT_PLANS) await prisma.plan.upsert({ where: { id: p.id }, update: p, create: p });
+      for (const p of DEFAULT_PLANS) await prisma.plan.upsert({ where: { id: p.id }, update: {}, create: p });
     }
 
     // Seed System
@@ -78,6 +80,9 @@ const start = async () => {
     await app.listen({ port: PORT, host: '0.0.0.0' });
     app.log.info(`🚀 Server running on port ${PORT}`);
 
+    startLabImportWatcher(app.log);
+    startReminderScheduler(app.log);
+
   } catch (err) { 
     app.log.error(err);
     process.exit(1); 
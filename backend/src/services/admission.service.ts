@@ -0,0 +1,113 @@
+import { Prisma } from '@prisma/client';
+import { safeParse } from '../utils/serverHelpers';
+import { clinicTime, isTime, localParts } from './schedule.service';
+
+export const ADMISSION_STATUSES = ['Admitted', 'Discharged'];
+export const TREATMENT_ROUTES = ['PO', 'IV', 'IM', 'SC', 'Topical', 'Inhaled', 'Other'];
+export const TASK_STATUSES = ['Done', 'Skipped'];
+const MAX_DOSES_PER_DAY = 24;
+
+export class AdmissionError extends Error {
+    constructor(message: string, public code: 'INVALID' | 'NOT_FOUND' | 'CONFLICT') {
+        super(message);
+        this.name = 'AdmissionError';
+    }
+}
+
+export const admissionInclude = {
+    pet: { select: { name: true, species: true, breed: true, patientNumber: true } },
+    owner: { select: { name: true, phone: true } }
+};
+
+export const serializeOrder = (order: any) => ({ ...order, times: safeParse(order.times, []) });
+
+/** Dose times as a sorted, de-duplicated list of HH:MM. */
+export const parseTimes = (input: any): string[] => {
+    if (!Array.isArray(input) || !input.length) throw new AdmissionError('times must list at least one HH:MM', 'INVALID');
+    const invalid = input.find(time => !isTime(time));
+    if (invalid !== undefined) throw new AdmissionError(`Invalid time ${invalid}; use HH:MM`, 'INVALID');
+    const times = [...new Set<string>(input)].sort();
+    if (times.length > MAX_DOSES_PER_DAY) throw new AdmissionError(`At most ${MAX_DOSES_PER_DAY} doses a day`, 'INVALID');
+    return times;
+};
+
+/** Days billed for a stay: every started 24 hours counts, and a same-day discharge is one day. */
+export const stayDays = (admittedAt: Date, dischargedAt: Date) =>
+    Math.max(1, Math.ceil((dischargedAt.getTime() - admittedAt.getTime()) / (24 * 3600000)));
+
+/**
+ * Serializes admissions to one kennel (per branch) and refuses a kennel that is already occupied.
+ * Must run inside the transaction that writes the admission.
+ */
+export const assertKennelFree = async (
+    tx: Prisma.TransactionClient,
+    options: { tenantId: string; branchId: string | null; kennel: string; excludeId?: string }
+) => {
+    const { tenantId, branchId, kennel, excludeId } = options;
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`${tenantId}:${branchId || 'main'}:${kennel.toLowerCase()}`}))`;
+    const occupant = await tx.admission.findFirst({
+        where: {
+            tenantId,
+            branchId,
+            status: 'Admitted',
+            kennel: { equals: kennel, mode: 'insensitive' },
+            ...(excludeId ? { id: { not: excludeId } } : {})
+        },
+        include: { pet: { select: { name: true } } }
+    });
+    if (occupant) throw new AdmissionError(`${kennel} is occupied by ${occupant.pet.name}`, 'CONFLICT');
+};
+
+/**
+ * Serializes admissions of one patient and refuses a patient who is already in a kennel.
+ * Must run inside the transaction that writes the admission.
+ */
+export const assertNotAdmitted = async (tx: Prisma.TransactionClient, options: { tenantId: string; pet: { id: string; name: string } }) => {
+    const { tenantId, pet } = options;
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`admission:${tenantId}:${pet.id}`}))`;
+    const current = await tx.admission.findFirst({ where: { tenantId, petId: pet.id, status: 'Admitted' }, select: { kennel: true } });
+    if (current) throw new AdmissionError(`${pet.name} is already admitted (${current.kennel})`, 'CONFLICT');
+};
+
+// --- TREATMENT SHEET ---
+
+interface SheetOrder {
+    times: string;
+    startAt: Date;
+    endAt: Date | null;
+    stoppedAt: Date | null;
+}
+
+// A dose is due while the order runs and the pet is in
+const isDueWithin = (order: SheetOrder, dueAt: Date, admission: { admittedAt: Date; dischargedAt: Date | null }) =>
+    dueAt >= order.startAt && dueAt >= admission.admittedAt &&
+    (!order.endAt || dueAt <= order.endAt) &&
+    (!order.stoppedAt || dueAt < order.stoppedAt) &&
+    (!admission.dischargedAt || dueAt <= admission.dischargedAt);
+
+/** Whether `dueAt` is one of the order's scheduled doses, so only real doses can be ticked off. */
+export const isScheduledDose = (order: SheetOrder, dueAt: Date, admission: { admittedAt: Date; dischargedAt: Date | null }, timeZone: string) => {
+    const local = localParts(dueAt, timeZone);
+    const time = `${String(Math.floor(local.minutes / 60)).padStart(2, '0')}:${String(local.minutes % 60).padStart(2, '0')}`;
+    return dueAt.getSeconds() === 0 && dueAt.getMilliseconds() === 0 &&
+        safeParse(order.times, []).includes(time) && isDueWithin(order, dueAt, admission);
+};
+
+/**
+ * One clinic day of the treatment sheet: every order that runs that day with its doses in time order,
+ * each with the task recorded against it (who ticked it off and when) or null if still outstanding.
+ */
+export const treatmentSheet = (
+    admission: { admittedAt: Date; dischargedAt: Date | null; treatments: (SheetOrder & { id: string; tasks: any[] })[] },
+    day: string,
+    timeZone: string
+) => admission.treatments
+    .map(order => {
+        const doses = (safeParse(order.times, []) as string[])
+            .map(time => clinicTime(day, time, timeZone))
+            .filter(dueAt => isDueWithin(order, dueAt, admission))
+            .map(dueAt => ({ dueAt, task: order.tasks.find(t => t.dueAt.getTime() === dueAt.getTime()) || null }));
+        const { tasks, ...rest } = order;
+        return { order: serializeOrder(rest), doses };
+    })
+    .filter(row => row.doses.length);
@@ -1,64 +1,252 @@
 import { GoogleGenerativeAI } from "@google/generative-ai";
-
-const apiKey = process.env.GEMINI_API_KEY;
-const genAI = new GoogleGenerativeAI(apiKey || "");
+import { PatientContext } from './patientContext.service';
 
 // Use a stable model name
-const MODEL_NAME = "gemini-1.5-flash"; 
+const MODEL_NAME = "gemini-1.5-flash";
+const TIMEOUT_MS = parseInt(process.env.AI_TIMEOUT_MS || '20000');
 
-export const VeterinaryAI = {
-    async suggestDiagnosis(data: any) {
-        if (!apiKey) throw new Error("GEMINI_API_KEY not found in backend .env");
+// --- RESPONSE SHAPES ---
+
+export interface DiagnosisInput { species: string; age?: string | number; symptoms: string; history?: string; locationContext?: string; }
+export interface SoapInput { petName: string; species: string; observations: string; }
+export interface ChatInput { query: string; context?: string; }
+export interface PatientChatInput { query: string; patient: PatientContext; }
+
+export interface DiagnosisResult { tentative: string; differentials: string[]; tests: string; }
+export interface SoapResult { subjective: string; objective: string; assessment: string; plan: string; }
+export interface ChatResult { answer: string; }
+export interface PatientChatResult { answer: string; citations: string[]; allergyWarnings: string[]; interactionWarnings: string[]; }
+
+export class AIServiceError extends Error {
+    constructor(message: string, public code: 'TIMEOUT' | 'INVALID_RESPONSE' | 'PROVIDER_ERROR') {
+        super(message);
+        this.name = 'AIServiceError';
+    }
+}
+
+// --- SCHEMA VALIDATION ---
+// Model output is untrusted: every field is checked before it reaches a route.
+
+// 'string[]?' is a list the model may leave out when it has nothing to report
+type FieldType = 'string' | 'string[]' | 'string[]?';
+
+const validate = <T>(raw: unknown, schema: Record<string, FieldType>): T => {
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+        throw new AIServiceError('AI response was not a JSON object', 'INVALID_RESPONSE');
+    }
+    const result: any = {};
+    for (const [field, type] of Object.entries(schema)) {
+        const value = (raw as any)[field] ?? (type === 'string[]?' ? [] : undefined);
+        if (type !== 'string') {
+            if (!Array.isArray(value) || value.some(v => typeof v !== 'string')) {
+                throw new AIServiceError(`AI response field "${field}" must be a list of strings`, 'INVALID_RESPONSE');
+            }
+            result[field] = value.map((v: string) => v.trim()).filter(Boolean);
+        } else {
+            // Models occasionally return a list where prose was asked for; join it rather than fail
+            const text = Array.isArray(value) ? value.join(', ') : value;
+            if (typeof text !== 'string' || !text.trim()) {
+                throw new AIServiceError(`AI response field "${field}" is missing`, 'INVALID_RESPONSE');
+            }
+            result[field] = text.trim();
+        }
+    }
+    return result;
+};
+
+const DIAGNOSIS_SCHEMA: Record<keyof DiagnosisResult, FieldType> = { tentative: 'string', differentials: 'string[]', tests: 'string' };
+const SOAP_SCHEMA: Record<keyof SoapResult, FieldType> = { subjective: 'string', objective: 'string', assessment: 'string', plan: 'string' };
+const CHAT_SCHEMA: Record<keyof ChatResult, FieldType> = { answer: 'string' };
+const PATIENT_CHAT_SCHEMA: Record<keyof PatientChatResult, FieldType> = {
+    answer: 'string', citations: 'string[]?', allergyWarnings: 'string[]?', interactionWarnings: 'string[]?'
+};
+
+const parseJson = (text: string) => {
+    const cleaned = text.replace(/```json/g, '').replace(/```/g, '').trim();
+    try { return JSON.parse(cleaned); } catch {
+        throw new AIServiceError('AI response was not valid JSON', 'INVALID_RESPONSE');
+    }
+};
+
+const withTimeout = <T>(promise: Promise<T>, ms: number): Promise<T> => {
+    let timer: NodeJS.Timeout;
+    const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new AIServiceError(`AI provider did not respond within ${ms / 1000}s`, 'TIMEOUT')), ms);
+    });
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+};
 
-        const model = genAI.getGenerativeModel({ model: MODEL_NAME });
-        const prompt = `
-            You are a highly experienced senior veterinarian practicing in ${data.locationContext}.
-            Patient: ${data.species}, Age: ${data.age}
+// --- PROVIDERS ---
+// A provider returns raw objects; validation and timeouts are applied once, in VeterinaryAI.
+
+export interface AIProvider {
+    name: string;
+    suggestDiagnosis(data: DiagnosisInput): Promise<unknown>;
+    generateSOAP(data: SoapInput): Promise<unknown>;
+    chat(data: ChatInput): Promise<unknown>;
+    patientChat(data: PatientChatInput): Promise<unknown>;
+}
+
+const createGeminiProvider = (apiKey: string): AIProvider => {
+    const model = new GoogleGenerativeAI(apiKey).getGenerativeModel({ model: MODEL_NAME });
+
+    const generateJson = async (prompt: string) => {
+        let text: string;
+        try {
+            const result = await model.generateContent(prompt);
+            text = result.response.text();
+        } catch (err: any) {
+            throw new AIServiceError(err?.message || 'Gemini request failed', 'PROVIDER_ERROR');
+        }
+        return parseJson(text);
+    };
+
+    return {
+        name: 'gemini',
+
+        suggestDiagnosis: (data) => generateJson(`
+            You are a highly experienced senior veterinarian practicing in ${data.locationContext || 'West Africa/Nigeria'}.
+            Patient: ${data.species}, Age: ${data.age ?? 'Unknown'}
             Symptoms: ${data.symptoms}
-            History: ${data.history}
-            
+            History: ${data.history || 'None'}
+
             Based on the clinical signs and endemic diseases in this region:
             1. A primary tentative diagnosis.
             2. A list of 2-3 differential diagnoses.
             3. Suggested confirmatory tests.
-            
+
             Return strictly valid JSON: { "tentative": "...", "differentials": ["..."], "tests": "..." }
             Do not use Markdown code blocks.
-        `;
+        `),
 
-        const result = await model.generateContent(prompt);
-        const text = result.response.text().replace(/```json/g, '').replace(/```/g, '').trim();
-        return JSON.parse(text);
-    },
-
-    async generateSOAP(data: any) {
-        if (!apiKey) throw new Error("GEMINI_API_KEY not found in backend .env");
-
-        const model = genAI.getGenerativeModel({ model: MODEL_NAME });
-        const prompt = `
+        generateSOAP: (data) => generateJson(`
             You are an expert veterinary assistant.
             Create a professional SOAP note.
             Patient: ${data.petName} (${data.species})
             Raw Observations: "${data.observations}"
-            
-            Format as a clean Markdown string with bold headers for S, O, A, P.
-        `;
-
-        const result = await model.generateContent(prompt);
-        return result.response.text();
-    },
 
-    async chat(data: any) {
-        if (!apiKey) throw new Error("GEMINI_API_KEY not found in backend .env");
+            Return strictly valid JSON: { "subjective": "...", "objective": "...", "assessment": "...", "plan": "..." }
+            Do not use Markdown code blocks.
+        `),
 
-        const model = genAI.getGenerativeModel({ model: MODEL_NAME });
-        const prompt = `
+        chat: (data) => generateJson(`
             Context: ${data.context || 'None'}
             Question: ${data.query}
             Answer as a senior veterinary consultant. Be concise.
-        `;
 
-        const result = await model.generateContent(prompt);
-        return result.response.text();
+            Return strictly valid JSON: { "answer": "..." }
+            Do not use Markdown code blocks.
+        `),
+
+        patientChat: (data) => generateJson(`
+            You are a senior veterinary consultant answering a question about one patient.
+            Use only the numbered medical record below. Cite every record you rely on by its reference, e.g. [R2].
+            If the record does not contain the answer, say so rather than guessing.
+
+            Medical record for ${data.patient.petName} (${data.patient.species}):
+            ${data.patient.text}
+
+            Question: ${data.query}
+
+            Always check any drug you mention against the recorded allergies, current prescriptions and conditions.
+            Return strictly valid JSON:
+            { "answer": "...", "citations": ["R1"], "allergyWarnings": ["..."], "interactionWarnings": ["..."] }
+            Use empty lists when there is nothing to warn about. Do not use Markdown code blocks.
+        `)
+    };
+};
+
+// Keyword rules for the offline stub; the first match wins
+const STUB_RULES: { keywords: string[]; tentative: string; differentials: string[]; tests: string }[] = [
+    { keywords: ['vomit', 'diarrh', 'stool'], tentative: 'Acute gastroenteritis', differentials: ['Parvoviral enteritis', 'Dietary indiscretion', 'Intestinal parasitism'], tests: 'Faecal flotation, parvovirus antigen test, CBC' },
+    { keywords: ['cough', 'sneez', 'nasal', 'breath'], tentative: 'Infectious tracheobronchitis', differentials: ['Pneumonia', 'Heartworm disease', 'Collapsing trachea'], tests: 'Thoracic radiographs, CBC, heartworm antigen test' },
+    { keywords: ['itch', 'scratch', 'skin', 'hair loss', 'alopecia'], tentative: 'Allergic dermatitis', differentials: ['Sarcoptic mange', 'Dermatophytosis', 'Flea allergy dermatitis'], tests: 'Skin scraping, trichogram, fungal culture' },
+    { keywords: ['fever', 'letharg', 'anorex', 'tick'], tentative: 'Tick-borne haemoparasitism', differentials: ['Babesiosis', 'Ehrlichiosis', 'Trypanosomiasis'], tests: 'Blood smear, PCV, CBC with platelet count' },
+    { keywords: ['limp', 'lame', 'swelling', 'joint'], tentative: 'Soft tissue injury', differentials: ['Fracture', 'Cruciate ligament rupture', 'Septic arthritis'], tests: 'Orthopaedic examination, limb radiographs' }
+];
+
+// Deterministic provider for development, tests and clinics without an API key
+const stubProvider: AIProvider = {
+    name: 'stub',
+
+    async suggestDiagnosis(data) {
+        const text = `${data.symptoms} ${data.history || ''}`.toLowerCase();
+        const rule = STUB_RULES.find(r => r.keywords.some(k => text.includes(k)));
+        if (rule) return { tentative: rule.tentative, differentials: rule.differentials, tests: rule.tests };
+        return { tentative: 'Non-specific illness', differentials: ['Systemic infection', 'Metabolic disease'], tests: 'Full physical examination, CBC, serum biochemistry' };
+    },
+
+    async generateSOAP(data) {
+        return {
+            subjective: `${data.petName} (${data.species}) presented by the owner.`,
+            objective: data.observations.trim(),
+            assessment: 'To be determined by the attending veterinarian.',
+            plan: 'Review findings, confirm diagnosis and record treatment.'
+        };
+    },
+
+    async chat(data) {
+        return { answer: `The AI assistant is running offline, so no model was consulted for: "${data.query.trim()}". Configure an AI provider to get clinical answers.` };
+    },
+
+    // Cites the records that share a word with the question, and flags allergies the question names
+    async patientChat(data) {
+        const words = data.query.toLowerCase().split(/\W+/).filter(w => w.length > 3);
+        const matches = data.patient.sources.filter(s => words.some(w => s.text.toLowerCase().includes(w)));
+        const cited = matches.length ? matches : data.patient.sources.slice(0, 1);
+        const named = data.patient.allergies.filter(a => words.some(w => a.toLowerCase().includes(w)));
+        return {
+            answer: `The AI assistant is running offline. Records on file for ${data.patient.petName} that relate to your question: `
+                + cited.map(s => `${s.label}${s.date ? ` (${s.date})` : ''}: ${s.text} [${s.ref}]`).join('; '),
+            citations: cited.map(s => s.ref),
+            allergyWarnings: named.map(a => `The question mentions a recorded allergy: ${a}`),
+            interactionWarnings: []
+        };
+    }
+};
+
+/** AI_PROVIDER picks the provider explicitly; otherwise Gemini is used when a key is configured. */
+const resolveProvider = (): AIProvider => {
+    const choice = (process.env.AI_PROVIDER || '').toLowerCase();
+    const apiKey = process.env.GEMINI_API_KEY;
+    if (choice === 'stub') return stubProvider;
+    if (choice === 'gemini' || (!choice && apiKey)) {
+        if (!apiKey) throw new AIServiceError('GEMINI_API_KEY not found in backend .env', 'PROVIDER_ERROR');
+        return createGeminiProvider(apiKey);
     }
-};
\ No newline at end of file
+    return stubProvider;
+};
+
+let provider: AIProvider | null = null;
+const getProvider = () => (provider ??= resolveProvider());
+
+// --- PUBLIC API ---
+
+export const VeterinaryAI = {
+    async suggestDiagnosis(data: DiagnosisInput): Promise<DiagnosisResult> {
+        return validate(await withTimeout(getProvider().suggestDiagnosis(data), TIMEOUT_MS), DIAGNOSIS_SCHEMA);
+    },
+
+    async generateSOAP(data: SoapInput): Promise<SoapResult> {
+        return validate(await withTimeout(getProvider().generateSOAP(data), TIMEOUT_MS), SOAP_SCHEMA);
+    },
+
+    async chat(data: ChatInput): Promise<ChatResult> {
+        return validate(await withTimeout(getProvider().chat(data), TIMEOUT_MS), CHAT_SCHEMA);
+    },
+
+    async patientChat(data: PatientChatInput): Promise<PatientChatResult> {
+        const result = validate<PatientChatResult>(await withTimeout(getProvider().patientChat(data), TIMEOUT_MS), PATIENT_CHAT_SCHEMA);
+        // Only keep citations that point at a record we actually supplied
+        const refs = new Set(data.patient.sources.map(s => s.ref));
+        return { ...result, citations: [...new Set(result.citations.map(c => c.replace(/[\[\]]/g, '')))].filter(c => refs.has(c)) };
+    },
+
+    get providerName() {
+        return getProvider().name;
+    }
+};
+
+/** Renders a validated SOAP note as the Markdown the patient notes panel displays. */
+export const formatSOAP = (soap: SoapResult) =>
+    `**S (Subjective):** ${soap.subjective}\n\n**O (Objective):** ${soap.objective}\n\n**A (Assessment):** ${soap.assessment}\n\n**P (Plan):** ${soap.plan}`;
@@ -0,0 +1,129 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { generateId } from '../utils/serverHelpers';
+import { clinicTime, isDay, localParts } from './schedule.service';
+
+type Db = Prisma.TransactionClient | typeof prisma;
+
+export const APPOINTMENT_STATUSES = ['Scheduled', 'Checked In', 'Completed', 'Cancelled', 'No-Show'];
+
+// Allowed status moves. Completed, Cancelled and No-Show are final; a missed visit is rebooked as a new one.
+export const APPOINTMENT_TRANSITIONS: Record<string, string[]> = {
+    'Scheduled': ['Checked In', 'Cancelled', 'No-Show'],
+    'Checked In': ['Completed', 'Cancelled'],
+    'Completed': [],
+    'Cancelled': [],
+    'No-Show': []
+};
+
+export const RECURRENCE_FREQUENCIES = ['Weekly', 'Monthly'];
+// How far a change to one appointment of a series reaches
+export const EDIT_SCOPES = ['this', 'following', 'all'];
+export const MAX_OCCURRENCES = 52;
+export const MAX_PETS_PER_BOOKING = 10;
+
+export interface RecurrenceRule {
+    frequency: string;
+    interval: number;
+    until: Date | null;
+    count: number | null;
+}
+
+export interface AppointmentActor {
+    id: string;
+    name: string;
+}
+
+export class AppointmentError extends Error {
+    constructor(message: string, public code: 'INVALID' | 'NOT_FOUND' | 'CONFLICT' | 'INVALID_TRANSITION') {
+        super(message);
+        this.name = 'AppointmentError';
+    }
+}
+
+export const canTransition = (from: string, to: string) => (APPOINTMENT_TRANSITIONS[from] || []).includes(to);
+
+/** { frequency, interval?, until?: YYYY-MM-DD, count? } → rule; `until` includes that whole clinic day. */
+export const parseRecurrence = (input: any, timeZone: string): RecurrenceRule | null => {
+    if (!input) return null;
+    if (!RECURRENCE_FREQUENCIES.includes(input.frequency)) {
+        throw new AppointmentError(`recurrence.frequency must be one of ${RECURRENCE_FREQUENCIES.join(', ')}`, 'INVALID');
+    }
+    const interval = input.interval === undefined || input.interval === null || input.interval === '' ? 1 : Number(input.interval);
+    if (!Number.isInteger(interval) || interval < 1 || interval > 12) throw new AppointmentError('recurrence.interval must be 1 to 12', 'INVALID');
+
+    const count = input.count === undefined || input.count === null || input.count === '' ? null : Number(input.count);
+    if (count !== null && (!Number.isInteger(count) || count < 1 || count > MAX_OCCURRENCES)) {
+        throw new AppointmentError(`recurrence.count must be 1 to ${MAX_OCCURRENCES}`, 'INVALID');
+    }
+    if (input.until && !isDay(input.until)) throw new AppointmentError('recurrence.until must be YYYY-MM-DD', 'INVALID');
+    const until = input.until ? new Date(clinicTime(input.until, '00:00', timeZone).getTime() + 24 * 3600000) : null;
+    if (!until && count === null) throw new AppointmentError('A repeating booking needs an end date or a number of visits', 'INVALID');
+
+    return { frequency: input.frequency, interval, until, count };
+};
+
+/**
+ * Start of every visit in a series. Visits keep the first one's clinic wall-clock time across DST;
+ * a monthly visit on the 31st lands on the last day of shorter months.
+ */
+export const expandRecurrence = (start: Date, rule: RecurrenceRule | null, timeZone: string): Date[] => {
+    if (!rule) return [start];
+    const local = localParts(start, timeZone);
+    const time = `${String(Math.floor(local.minutes / 60)).padStart(2, '0')}:${String(local.minutes % 60).padStart(2, '0')}`;
+    const [year, month, day] = local.day.split('-').map(Number);
+    const limit = rule.count ?? MAX_OCCURRENCES + 1;
+
+    const starts: Date[] = [];
+    for (let k = 0; starts.length < limit; k++) {
+        let date: Date;
+        if (rule.frequency === 'Weekly') {
+            date = new Date(Date.UTC(year, month - 1, day + 7 * rule.interval * k));
+        } else {
+            const monthIndex = month - 1 + rule.interval * k;
+            const lastDay = new Date(Date.UTC(year, monthIndex + 1, 0)).getUTCDate();
+            date = new Date(Date.UTC(year, monthIndex, Math.min(day, lastDay)));
+        }
+        const at = k === 0 ? start : clinicTime(date.toISOString().slice(0, 10), time, timeZone);
+        if (rule.until && at >= rule.until) break;
+        starts.push(at);
+    }
+    if (starts.length > MAX_OCCURRENCES) throw new AppointmentError(`A series can have at most ${MAX_OCCURRENCES} visits; choose an earlier end date`, 'INVALID');
+    return starts;
+};
+
+export const recordAppointmentEvent = (
+    db: Db,
+    appointmentId: string,
+    action: string,
+    actor: AppointmentActor,
+    extra: { fromStatus?: string; toStatus?: string; details?: string } = {}
+) => db.appointmentEvent.create({
+    data: { appointmentId, action, actorId: actor.id, actorName: actor.name, ...extra }
+});
+
+/**
+ * Opens a Draft consultation for a checked-in appointment, prefilled with its pet, owner and
+ * reason, and links it back. Reuses the draft if one was opened already.
+ */
+export const openDraftConsultation = async (tx: Prisma.TransactionClient, appointment: any, actor: AppointmentActor) => {
+    if (appointment.consultationId) return appointment.consultationId as string;
+    if (!appointment.petId || !appointment.ownerId) {
+        throw new AppointmentError('A consultation needs a registered patient; register the walk-in first', 'INVALID');
+    }
+
+    const consult = await tx.consultation.create({
+        data: {
+            id: generateId('CON'),
+            tenantId: appointment.tenantId,
+            petId: appointment.petId,
+            ownerId: appointment.ownerId,
+            date: new Date(),
+            vetName: appointment.doctorName && !['Unassigned', 'Pending'].includes(appointment.doctorName) ? appointment.doctorName : actor.name,
+            status: 'Draft',
+            chiefComplaint: appointment.reason
+        }
+    });
+    await tx.appointment.update({ where: { id: appointment.id }, data: { consultationId: consult.id } });
+    return consult.id;
+};
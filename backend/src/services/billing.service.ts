@@ -0,0 +1,271 @@
+import { Prisma } from '@prisma/client';
+import { AuthUser } from '../middleware/auth';
+import { generateId, safeParse } from '../utils/serverHelpers';
+import { nextDocumentNumber } from '../utils/idGenerator';
+import { StockError, adjustBranchStock, resolveBranchId } from '../utils/branches';
+import { RegisterActor, appendRegisterEntry } from './controlledDrug.service';
+
+type Tx = Prisma.TransactionClient;
+
+// Matches SaleItem in the frontend types
+export interface SaleLine {
+    inventoryItemId: string | null;
+    name: string;
+    sku: string;
+    type: string;
+    quantity: number;
+    unitPrice: number;
+    total: number;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// --- STOCK MOVEMENTS ---
+
+/** Who controlled drugs in a sale go to and who prescribed them, for the register line each one writes. */
+export interface DispenseContext {
+    type?: 'Dispense' | 'Administration'; // Dispense unless the dose is given in the clinic
+    petId?: string | null;
+    prescriberId?: string | null;
+    reference: string;
+    actor: RegisterActor;
+}
+
+/**
+ * Decrements stock for sold lines (negative quantities put stock back).
+ * Shared by POS checkout, consultation invoicing and vaccinations so they all move stock the same way;
+ * a branch sale also draws down that branch's share and fails on insufficient branch stock.
+ * A controlled drug only moves with a register line, so it needs the patient and prescriber.
+ */
+export const applyStockMovements = async (
+    tx: Tx,
+    tenantId: string,
+    branchId: string | null,
+    lines: { inventoryItemId?: string | null; id?: string; quantity?: number; type?: string }[],
+    dispense?: DispenseContext
+) => {
+    for (const line of lines) {
+        const itemId = line.inventoryItemId || line.id;
+        const quantity = Number(line.quantity ?? 1);
+        if (!itemId || !quantity) continue;
+
+        const item = await tx.inventoryItem.findFirst({ where: { id: itemId, tenantId }, select: { id: true, name: true, isControlled: true } });
+        if (item?.isControlled) {
+            if (!dispense) throw new StockError(`${item.name} is a controlled drug and must be dispensed through the register`, item.id);
+            await appendRegisterEntry(tx, { tenantId, branchId, item }, quantity > 0
+                ? { type: dispense.type || 'Dispense', quantity, petId: dispense.petId, prescriberId: dispense.prescriberId, reference: dispense.reference }
+                : { type: 'Receipt', quantity: -quantity, reference: `Returned: ${dispense.reference}` },
+            dispense.actor);
+        }
+
+        await tx.inventoryItem.updateMany({
+            where: { id: itemId, tenantId },
+            data: { stock: { decrement: quantity } }
+        });
+        if (branchId && line.type !== 'Service') {
+            await adjustBranchStock(tx, branchId, itemId, -quantity);
+        }
+    }
+};
+
+// --- CONSULTATION INVOICING ---
+
+/** Service fee plus every dispensed prescription item that matches a stocked product. */
+const buildConsultationLines = async (tx: Tx, tenantId: string, financials: any, prescription: any[]) => {
+    const lines: SaleLine[] = [];
+
+    const fee = Number(financials.serviceFee) || 0;
+    if (fee > 0) {
+        lines.push({ inventoryItemId: null, name: 'Consultation & Services', sku: 'SERVICE', type: 'Service', quantity: 1, unitPrice: fee, total: fee });
+    }
+
+    for (const rx of prescription) {
+        // Only items with a dispensed quantity leave the shelf; the rest are written prescriptions
+        const quantity = Number(rx.quantity) || 0;
+        if (quantity <= 0) continue;
+
+        const item = rx.inventoryItemId
+            ? await tx.inventoryItem.findFirst({ where: { id: rx.inventoryItemId, tenantId } })
+            : await tx.inventoryItem.findFirst({ where: { tenantId, type: 'Product', name: { equals: String(rx.name || '').trim(), mode: 'insensitive' } } });
+        if (!item) continue;
+
+        lines.push({
+            inventoryItemId: item.id, name: item.name, sku: item.sku, type: item.type,
+            quantity, unitPrice: item.retailPrice, total: round(quantity * item.retailPrice)
+        });
+    }
+    return lines;
+};
+
+// Net quantity change per item between an invoice's previous and new lines
+const diffLines = (previous: SaleLine[], next: SaleLine[]) => {
+    const delta = new Map<string, { quantity: number; type: string }>();
+    for (const line of previous) {
+        if (!line.inventoryItemId) continue;
+        const entry = delta.get(line.inventoryItemId) || { quantity: 0, type: line.type };
+        entry.quantity -= line.quantity;
+        delta.set(line.inventoryItemId, entry);
+    }
+    for (const line of next) {
+        if (!line.inventoryItemId) continue;
+        const entry = delta.get(line.inventoryItemId) || { quantity: 0, type: line.type };
+        entry.quantity += line.quantity;
+        delta.set(line.inventoryItemId, entry);
+    }
+    return [...delta.entries()].map(([inventoryItemId, { quantity, type }]) => ({ inventoryItemId, quantity, type }));
+};
+
+/**
+ * Creates (or updates) the SaleRecord for a finalized consultation, moves stock for dispensed items,
+ * and links the sale back through financials.invoiceId. Must run inside the finalizing transaction.
+ */
+export const invoiceConsultation = async (tx: Tx, consultationId: string, actor: AuthUser) => {
+    const consult = await tx.consultation.findUnique({ where: { id: consultationId }, include: { owner: true } });
+    if (!consult) throw new Error('Consultation not found');
+
+    const tenantId = consult.tenantId;
+    const financials = safeParse(consult.financials, {});
+    const lines = await buildConsultationLines(tx, tenantId, financials, safeParse(consult.prescription, []));
+
+    const subtotal = round(lines.reduce((sum, l) => sum + l.total, 0));
+    const discount = Math.min(subtotal, Number(financials.discount) || 0);
+    const total = round(subtotal - discount);
+    const amountPaid = Number(financials.amountPaid) || 0;
+    const isPaid = amountPaid >= total - 0.01;
+    const payments = amountPaid > 0
+        ? [{ id: generateId('PAY'), method: financials.paymentMethod || 'Cash', amount: amountPaid, date: new Date() }]
+        : [];
+
+    const branchId = (await resolveBranchId(tenantId, undefined, actor.branchId || null)) || null;
+    // Controlled drugs on the prescription are dispensed to this patient by whoever signs the consultation off
+    const dispense: DispenseContext = {
+        petId: consult.petId,
+        prescriberId: actor.id,
+        reference: `Consultation ${consult.id}`,
+        actor: { id: actor.id, name: actor.name }
+    };
+
+    const saleData = {
+        ownerId: consult.ownerId,
+        clientId: consult.ownerId,
+        clientName: consult.owner.name,
+        clientAddress: consult.owner.address,
+        clientEmail: consult.owner.email,
+        clientPhone: consult.owner.phone,
+        items: JSON.stringify(lines),
+        payments: JSON.stringify(payments),
+        subtotal, discount, total,
+        status: isPaid ? 'Paid' : 'Pending',
+        notes: `Consultation ${consult.id}`
+    };
+
+    // Only a sale this consultation raised itself can be re-invoiced
+    const existing = financials.invoiceId
+        ? await tx.saleRecord.findFirst({ where: { id: financials.invoiceId, tenantId, ownerId: consult.ownerId, notes: `Consultation ${consult.id}` } })
+        : null;
+
+    let sale;
+    if (existing) {
+        // Re-invoicing only moves the difference in stock
+        await applyStockMovements(tx, tenantId, existing.branchId, diffLines(safeParse(existing.items, []), lines), dispense);
+        sale = await tx.saleRecord.update({
+            where: { id: existing.id },
+            data: {
+                ...saleData,
+                receiptNumber: isPaid ? (existing.receiptNumber || await nextDocumentNumber(tx, tenantId, 'receipt')) : existing.receiptNumber
+            }
+        });
+    } else {
+        await applyStockMovements(tx, tenantId, branchId, lines, dispense);
+        sale = await tx.saleRecord.create({
+            data: {
+                id: generateId('SLE'),
+                tenantId,
+                branchId,
+                date: new Date(),
+                ...saleData,
+                invoiceNumber: await nextDocumentNumber(tx, tenantId, 'invoice'),
+                receiptNumber: isPaid ? await nextDocumentNumber(tx, tenantId, 'receipt') : null
+            }
+        });
+    }
+
+    await tx.consultation.update({
+        where: { id: consultationId },
+        data: {
+            financials: JSON.stringify({
+                ...financials,
+                total,
+                paymentStatus: isPaid ? 'Paid' : amountPaid > 0 ? 'Partially Paid' : 'Pending',
+                invoiceId: sale.id,
+                invoiceNumber: sale.invoiceNumber,
+                receiptId: sale.receiptNumber || undefined
+            })
+        }
+    });
+    return sale;
+};
+
+// --- HOSPITAL STAYS ---
+
+/**
+ * Adds the stay days of a discharged admission to the owner's open (Pending) invoice, or opens a new
+ * invoice if they have none. Stay lines are services and don't move stock. Returns null if the open
+ * invoice changed (e.g. was paid) while this ran, so the caller can retry.
+ */
+export const billAdmission = async (
+    tx: Tx,
+    admission: { id: string; tenantId: string; branchId: string | null; ownerId: string; kennel: string; dailyRate: number; rateItemId: string | null },
+    days: number
+) => {
+    const { tenantId, ownerId } = admission;
+    const rateItem = admission.rateItemId
+        ? await tx.inventoryItem.findFirst({ where: { id: admission.rateItemId, tenantId } })
+        : null;
+    const line: SaleLine = {
+        inventoryItemId: rateItem?.id || null,
+        name: `${rateItem?.name || 'Hospitalization'} – ${admission.kennel}`,
+        sku: rateItem?.sku || 'HOSPITAL',
+        type: 'Service',
+        quantity: days,
+        unitPrice: admission.dailyRate,
+        total: round(days * admission.dailyRate)
+    };
+
+    // Only a bill open at the admitting branch, so the stay is charged where the patient was kept
+    const open = await tx.saleRecord.findFirst({ where: { tenantId, ownerId, branchId: admission.branchId, status: 'Pending' }, orderBy: { date: 'desc' } });
+    if (open) {
+        const { count } = await tx.saleRecord.updateMany({
+            where: { id: open.id, status: 'Pending', updatedAt: open.updatedAt },
+            data: {
+                items: JSON.stringify([...safeParse(open.items, []), line]),
+                subtotal: round(open.subtotal + line.total),
+                total: round(open.total + line.total)
+            }
+        });
+        return count ? tx.saleRecord.findUnique({ where: { id: open.id } }) : null;
+    }
+
+    const owner = await tx.owner.findUnique({ where: { id: ownerId } });
+    return tx.saleRecord.create({
+        data: {
+            id: generateId('SLE'),
+            tenantId,
+            branchId: admission.branchId,
+            ownerId,
+            clientId: ownerId,
+            clientName: owner?.name,
+            clientAddress: owner?.address,
+            clientEmail: owner?.email,
+            clientPhone: owner?.phone,
+            date: new Date(),
+            items: JSON.stringify([line]),
+            payments: '[]',
+            subtotal: line.total,
+            total: line.total,
+            status: 'Pending',
+            invoiceNumber: await nextDocumentNumber(tx, tenantId, 'invoice'),
+            notes: `Hospital stay ${admission.id}`
+        }
+    });
+};
@@ -0,0 +1,135 @@
+import crypto from 'crypto';
+import { prisma } from '../lib/prisma';
+import { CalendarEvent, buildCalendar } from '../utils/ical';
+
+// Feeds cover recent history (so just-finished visits stay visible) and the coming year
+const FEED_PAST_DAYS = 30;
+const FEED_FUTURE_DAYS = 365;
+
+// Cancelled and missed visits stay in the feed as CANCELLED so subscribed calendars drop them
+const EVENT_STATUS: Record<string, CalendarEvent['status']> = {
+    'Scheduled': 'CONFIRMED',
+    'Checked In': 'CONFIRMED',
+    'Completed': 'CONFIRMED',
+    'Cancelled': 'CANCELLED',
+    'No-Show': 'CANCELLED'
+};
+
+// --- TOKENS ---
+// Only the hash is stored, as with verification tokens; the feed URL is shown once when created
+
+export const hashFeedToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+export const newFeedToken = () => {
+    const token = crypto.randomBytes(32).toString('hex');
+    return { token, tokenHash: hashFeedToken(token) };
+};
+
+export const feedPath = (token: string) => `/calendar/${token}.ics`;
+
+// --- EVENTS ---
+
+interface Clinic {
+    name: string;
+    address: string;
+    phone: string;
+}
+
+const clinicOf = (tenant: { name: string; settings: string | null }): Clinic => {
+    let settings: any = {};
+    try { settings = JSON.parse(tenant.settings || '{}'); } catch { /* fall back to the tenant name */ }
+    return { name: settings.name || tenant.name, address: settings.address || '', phone: settings.phone || '' };
+};
+
+const appointmentInclude = {
+    pet: { select: { name: true, species: true } },
+    owner: { select: { name: true, phone: true } }
+};
+
+type FeedAppointment = {
+    id: string;
+    date: Date;
+    durationMinutes: number;
+    reason: string;
+    status: string;
+    doctorName: string | null;
+    walkInName: string | null;
+    updatedAt: Date;
+    pet: { name: string; species: string } | null;
+    owner: { name: string; phone: string } | null;
+};
+
+/** Staff see who is coming and how to reach them; clients see their own visit and the clinic's details. */
+const toEvent = (apt: FeedAppointment, clinic: Clinic, audience: 'staff' | 'client'): CalendarEvent => {
+    const petName = apt.pet?.name || apt.walkInName || 'Walk-in';
+    const vet = apt.doctorName && apt.doctorName !== 'Pending' ? apt.doctorName : null;
+    const lines = audience === 'staff'
+        ? [
+            `Pet: ${petName}${apt.pet ? ` (${apt.pet.species})` : ''}`,
+            `Owner: ${apt.owner ? `${apt.owner.name}${apt.owner.phone ? `, ${apt.owner.phone}` : ''}` : apt.walkInName || 'Walk-in'}`,
+            `Reason: ${apt.reason}`,
+            vet ? `Vet: ${vet}` : null,
+            `Status: ${apt.status}`
+        ]
+        : [
+            `Pet: ${petName}`,
+            `Reason: ${apt.reason}`,
+            vet ? `Vet: ${vet}` : null,
+            clinic.phone ? `${clinic.name}: ${clinic.phone}` : clinic.name
+        ];
+
+    return {
+        uid: `${apt.id}@vetnexuspro`,
+        start: apt.date,
+        end: new Date(apt.date.getTime() + apt.durationMinutes * 60000),
+        summary: audience === 'staff' ? `${petName} – ${apt.reason}` : `${clinic.name}: ${apt.reason} for ${petName}`,
+        description: lines.filter(Boolean).join('\n'),
+        location: clinic.address || undefined,
+        // Portal requests nobody has placed yet show as tentative
+        status: apt.status === 'Scheduled' && apt.doctorName === 'Pending' ? 'TENTATIVE' : EVENT_STATUS[apt.status],
+        lastModified: apt.updatedAt
+    };
+};
+
+/**
+ * The .ics body for a feed token, or null if the token is unknown or the clinic or vet can no longer use it.
+ * A vet's feed also picks up older bookings that only carry their name.
+ */
+export const buildFeedCalendar = async (token: string) => {
+    const feed = await prisma.calendarFeed.findUnique({
+        where: { tokenHash: hashFeedToken(token) },
+        include: { tenant: { select: { name: true, settings: true, status: true } }, user: { select: { id: true, name: true, isSuspended: true } } }
+    });
+    if (!feed || feed.tenant.status === 'Suspended' || feed.user?.isSuspended) return null;
+
+    const now = Date.now();
+    const appointments = await prisma.appointment.findMany({
+        where: {
+            tenantId: feed.tenantId,
+            date: { gte: new Date(now - FEED_PAST_DAYS * 86400000), lte: new Date(now + FEED_FUTURE_DAYS * 86400000) },
+            ...(feed.user ? { OR: [{ doctorId: feed.user.id }, { doctorId: null, doctorName: feed.user.name }] } : {})
+        },
+        include: appointmentInclude,
+        orderBy: { date: 'asc' }
+    });
+
+    // Fire-and-forget, like logging: a failed timestamp must not break the feed
+    prisma.calendarFeed.update({ where: { id: feed.id }, data: { lastAccessedAt: new Date() } }).catch(() => {});
+
+    const clinic = clinicOf(feed.tenant);
+    return buildCalendar(feed.user ? `${clinic.name} – ${feed.user.name}` : clinic.name, appointments.map(a => toEvent(a, clinic, 'staff')));
+};
+
+/** A client's upcoming, still-active bookings as a one-off download. */
+export const buildOwnerCalendar = async (tenantId: string, ownerId: string) => {
+    const [tenant, appointments] = await Promise.all([
+        prisma.tenant.findUnique({ where: { id: tenantId }, select: { name: true, settings: true } }),
+        prisma.appointment.findMany({
+            where: { tenantId, ownerId, status: { in: ['Scheduled', 'Checked In'] }, date: { gte: new Date() } },
+            include: appointmentInclude,
+            orderBy: { date: 'asc' }
+        })
+    ]);
+    const clinic = clinicOf(tenant || { name: 'Clinic', settings: null });
+    return buildCalendar(`${clinic.name} appointments`, appointments.map(a => toEvent(a, clinic, 'client')));
+};
@@ -0,0 +1,228 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { clinicTime } from './schedule.service';
+
+export const CONTROLLED_SCHEDULES = ['Schedule I', 'Schedule II', 'Schedule III', 'Schedule IV', 'Schedule V'];
+
+// Receipts add to the balance; dispensing, administration and wastage take from it; adjustments go either way
+export const ENTRY_TYPES = ['Receipt', 'Dispense', 'Administration', 'Wastage', 'Adjustment'];
+// Written when stock moves between locations, never entered by hand
+export const TRANSFER_TYPES = ['Transfer Out', 'Transfer In'];
+const INCOMING_TYPES = ['Receipt', 'Adjustment', 'Transfer In'];
+const PATIENT_TYPES = ['Dispense', 'Administration'];
+const WITNESSED_TYPES = ['Wastage', 'Adjustment'];
+
+export class ControlledDrugError extends Error {
+    constructor(message: string, public code: 'INVALID' | 'NOT_FOUND' | 'CONFLICT') {
+        super(message);
+        this.name = 'ControlledDrugError';
+    }
+}
+
+export interface RegisterActor {
+    id: string;
+    name: string;
+}
+
+export interface RegisterEntryInput {
+    type: string;
+    quantity: number;
+    petId?: string | null;
+    prescriberId?: string | null;
+    witnessId?: string | null;
+    batchNumber?: string | null;
+    reference?: string | null;
+    notes?: string | null;
+    occurredAt?: Date | null;
+}
+
+// Balances are kept to 3 decimal places so repeated 0.1 mL draws don't drift
+export const roundQuantity = (value: number) => Math.round(value * 1000) / 1000;
+
+const staffMember = async (db: Prisma.TransactionClient, tenantId: string, id: string, role: string) => {
+    const user = await db.user.findFirst({ where: { id, tenantId }, select: { id: true, name: true, roles: true, isSuspended: true } });
+    if (!user || user.isSuspended) throw new ControlledDrugError(`Unknown ${role}`, 'INVALID');
+    return user;
+};
+
+/** A prescriber must be a vet (or an admin, who in small clinics is often the vet). */
+export const resolvePrescriber = async (db: Prisma.TransactionClient, tenantId: string, id: string) => {
+    const user = await staffMember(db, tenantId, id, 'prescribing vet');
+    const roles: string[] = JSON.parse(user.roles || '[]');
+    if (!roles.some(role => ['Veterinarian', 'Admin'].includes(role))) {
+        throw new ControlledDrugError(`${user.name} is not a vet and can't prescribe controlled drugs`, 'INVALID');
+    }
+    return user;
+};
+
+/** A witness is a second member of staff; nobody witnesses their own entry. */
+export const resolveWitness = async (db: Prisma.TransactionClient, tenantId: string, id: string, actor: RegisterActor) => {
+    if (id === actor.id) throw new ControlledDrugError('The witness must be someone other than you', 'INVALID');
+    return staffMember(db, tenantId, id, 'witness');
+};
+
+/**
+ * Locks one register (item at a location) for the rest of the transaction and returns its last line,
+ * so sequence numbers and running balances are written one at a time.
+ */
+export const lockRegister = async (tx: Prisma.TransactionClient, tenantId: string, branchId: string | null, itemId: string) => {
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`controlled:${tenantId}:${branchId || 'main'}:${itemId}`}))`;
+    return tx.controlledDrugEntry.findFirst({
+        where: { tenantId, branchId, itemId },
+        orderBy: { sequence: 'desc' },
+        select: { sequence: true, balance: true }
+    });
+};
+
+/**
+ * Appends one line to a register. Checks who is involved for the entry type, refuses to take the
+ * balance below zero, and stores the running balance. Must run inside a transaction.
+ */
+export const appendRegisterEntry = async (
+    tx: Prisma.TransactionClient,
+    register: { tenantId: string; branchId: string | null; item: { id: string; name: string } },
+    input: RegisterEntryInput,
+    actor: RegisterActor
+) => {
+    const { tenantId, branchId, item } = register;
+    if (![...ENTRY_TYPES, ...TRANSFER_TYPES].includes(input.type)) throw new ControlledDrugError(`type must be one of ${ENTRY_TYPES.join(', ')}`, 'INVALID');
+    if (!Number.isFinite(input.quantity) || input.quantity === 0) throw new ControlledDrugError('quantity must be a non-zero number', 'INVALID');
+    if (input.type !== 'Adjustment' && input.quantity < 0) throw new ControlledDrugError('quantity must be positive', 'INVALID');
+
+    let pet: { id: string; name: string; owner: { name: string } | null } | null = null;
+    if (PATIENT_TYPES.includes(input.type)) {
+        if (!input.petId) throw new ControlledDrugError(`A ${input.type.toLowerCase()} must name the patient`, 'INVALID');
+        pet = await tx.pet.findFirst({ where: { id: input.petId, tenantId }, select: { id: true, name: true, owner: { select: { name: true } } } });
+        if (!pet) throw new ControlledDrugError('Unknown patient', 'INVALID');
+        if (!input.prescriberId) throw new ControlledDrugError(`A ${input.type.toLowerCase()} must name the prescribing vet`, 'INVALID');
+    }
+    const prescriber = input.prescriberId ? await resolvePrescriber(tx, tenantId, input.prescriberId) : null;
+
+    if (WITNESSED_TYPES.includes(input.type)) {
+        if (!input.witnessId) throw new ControlledDrugError(`${input.type} must be witnessed`, 'INVALID');
+        if (!input.notes) throw new ControlledDrugError(`Say why this ${input.type.toLowerCase()} was needed`, 'INVALID');
+    }
+    const witness = input.witnessId ? await resolveWitness(tx, tenantId, input.witnessId, actor) : null;
+
+    const last = await lockRegister(tx, tenantId, branchId, item.id);
+    const change = INCOMING_TYPES.includes(input.type) ? input.quantity : -input.quantity;
+    const balance = roundQuantity((last?.balance || 0) + change);
+    if (balance < 0) {
+        throw new ControlledDrugError(`Only ${last?.balance || 0} of ${item.name} is on the register here`, 'CONFLICT');
+    }
+
+    return tx.controlledDrugEntry.create({
+        data: {
+            tenantId,
+            branchId,
+            itemId: item.id,
+            sequence: (last?.sequence || 0) + 1,
+            type: input.type,
+            quantity: roundQuantity(Math.abs(input.quantity)),
+            change: roundQuantity(change),
+            balance,
+            petId: pet?.id,
+            petName: pet?.name,
+            ownerName: pet?.owner?.name,
+            prescriberId: prescriber?.id,
+            prescriberName: prescriber?.name,
+            witnessId: witness?.id,
+            witnessName: witness?.name,
+            batchNumber: input.batchNumber,
+            reference: input.reference,
+            notes: input.notes,
+            recordedById: actor.id,
+            recordedByName: actor.name,
+            occurredAt: input.occurredAt || undefined
+        }
+    });
+};
+
+/**
+ * Moves a controlled drug between two locations' registers: a Transfer Out at one and a Transfer In
+ * at the other, in the same transaction as the stock move. Both registers are locked in a fixed
+ * order so opposite transfers can't deadlock.
+ */
+export const recordTransfer = async (
+    tx: Prisma.TransactionClient,
+    tenantId: string,
+    item: { id: string; name: string },
+    move: { from: string | null; to: string | null; quantity: number },
+    actor: RegisterActor
+) => {
+    for (const branchId of [move.from, move.to].sort((a, b) => (a || '').localeCompare(b || ''))) {
+        await lockRegister(tx, tenantId, branchId, item.id);
+    }
+    const branches = await tx.branch.findMany({ where: { tenantId, id: { in: [move.from, move.to].filter((id): id is string => !!id) } }, select: { id: true, name: true } });
+    const nameOf = (branchId: string | null) => branches.find(b => b.id === branchId)?.name || 'Main Clinic';
+
+    await appendRegisterEntry(tx, { tenantId, branchId: move.from, item }, { type: 'Transfer Out', quantity: move.quantity, reference: `To ${nameOf(move.to)}` }, actor);
+    await appendRegisterEntry(tx, { tenantId, branchId: move.to, item }, { type: 'Transfer In', quantity: move.quantity, reference: `From ${nameOf(move.from)}` }, actor);
+};
+
+// --- RECONCILIATION ---
+
+const sumOf = (entries: { type: string; quantity: number; change: number }[], type: string) =>
+    roundQuantity(entries.filter(e => e.type === type).reduce((sum, e) => sum + (type === 'Adjustment' ? e.change : e.quantity), 0));
+
+/**
+ * Register movements for each controlled item at one location over a period of clinic days, with the
+ * physical counts taken in it. `consistent` is false when a line is missing (a gap in the sequence)
+ * or a balance doesn't follow from the line before it.
+ */
+export const reconciliationReport = async (
+    tenantId: string,
+    options: { branchId: string | null; from: string; to: string; timeZone: string }
+) => {
+    const start = clinicTime(options.from, '00:00', options.timeZone);
+    const end = new Date(clinicTime(options.to, '00:00', options.timeZone).getTime() + 24 * 3600000);
+    const where = { tenantId, branchId: options.branchId };
+
+    const [items, entries, counts] = await Promise.all([
+        prisma.inventoryItem.findMany({
+            // Items taken off the list still report while they have register history
+            where: { tenantId, OR: [{ isControlled: true }, { controlledEntries: { some: {} } }] },
+            select: { id: true, name: true, unit: true, controlledSchedule: true },
+            orderBy: { name: 'asc' }
+        }),
+        prisma.controlledDrugEntry.findMany({
+            where: { ...where, createdAt: { lt: end } },
+            select: { itemId: true, sequence: true, type: true, quantity: true, change: true, balance: true, createdAt: true },
+            orderBy: [{ itemId: 'asc' }, { sequence: 'asc' }]
+        }),
+        prisma.controlledDrugCount.findMany({
+            where: { ...where, countedAt: { gte: start, lt: end } },
+            orderBy: { countedAt: 'asc' }
+        })
+    ]);
+
+    return {
+        from: options.from,
+        to: options.to,
+        branchId: options.branchId,
+        items: items.map(item => {
+            const lines = entries.filter(e => e.itemId === item.id);
+            const before = lines.filter(e => e.createdAt < start);
+            const during = lines.filter(e => e.createdAt >= start);
+            const consistent = lines.every((line, i) =>
+                line.sequence === i + 1 && line.balance === roundQuantity((i ? lines[i - 1].balance : 0) + line.change));
+            const itemCounts = counts.filter(c => c.itemId === item.id);
+            return {
+                item,
+                openingBalance: before.length ? before[before.length - 1].balance : 0,
+                received: sumOf(during, 'Receipt'),
+                dispensed: sumOf(during, 'Dispense'),
+                administered: sumOf(during, 'Administration'),
+                wasted: sumOf(during, 'Wastage'),
+                adjusted: sumOf(during, 'Adjustment'),
+                transferredIn: sumOf(during, 'Transfer In'),
+                transferredOut: sumOf(during, 'Transfer Out'),
+                closingBalance: lines.length ? lines[lines.length - 1].balance : 0,
+                entries: during.length,
+                consistent,
+                counts: itemCounts,
+                discrepancies: itemCounts.filter(c => c.discrepancy !== 0).length
+            };
+        })
+    };
+};
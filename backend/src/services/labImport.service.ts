@@ -0,0 +1,198 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { FastifyBaseLogger } from 'fastify';
+import { prisma } from '../lib/prisma';
+import { createLog } from '../utils/serverHelpers';
+import { buildResultValues } from '../utils/labCatalogue';
+import { ParsedLabGroup, ParsedObservation, parseLabFile } from '../utils/labParsers';
+
+export type ImportSource = 'upload' | 'folder';
+
+export interface ImportSummary {
+    groups: number;
+    matched: { labResultId: string; testName: string; patientName: string | null }[];
+    queued: number;
+}
+
+const ANALYZER = 'Analyzer import';
+const OPEN_STATUSES = ['Pending', 'Processing'];
+
+// "3.5-5.8" / "3.5 - 5.8" as sent in OBX-7 and ASTM R.6
+const parseRange = (range?: string) => {
+    const match = (range || '').match(/^\s*(-?\d+(?:\.\d+)?)\s*-\s*(-?\d+(?:\.\d+)?)\s*$/);
+    return match ? { refLow: Number(match[1]), refHigh: Number(match[2]) } : {};
+};
+
+const toEntries = (observations: ParsedObservation[]) =>
+    observations.map(o => ({ analyte: o.code, name: o.name, value: o.value, unit: o.unit, flag: o.flag, ...parseRange(o.refRange) }));
+
+/**
+ * Finds the open lab request a group of results answers: by accession number (or our own lab id)
+ * first, then by the patient's id or patient number. A patient match needs the test code to agree,
+ * or the patient to have exactly one open request, so results are never filed against a guess.
+ */
+const findOpenLab = async (tenantId: string, group: ParsedLabGroup) => {
+    if (group.accession) {
+        const lab = await prisma.labResult.findFirst({
+            where: { tenantId, status: { in: OPEN_STATUSES }, OR: [{ accessionNumber: group.accession }, { id: group.accession }] }
+        });
+        if (lab) return lab;
+    }
+    if (!group.patientId) return null;
+
+    const pet = await prisma.pet.findFirst({
+        where: { tenantId, OR: [{ id: group.patientId }, { patientNumber: group.patientId }] },
+        select: { id: true }
+    });
+    if (!pet) return null;
+
+    const open = await prisma.labResult.findMany({
+        where: { tenantId, petId: pet.id, status: { in: OPEN_STATUSES } },
+        orderBy: { date: 'desc' }
+    });
+    if (group.testCode) {
+        const code = group.testCode.toUpperCase();
+        const sameTest = open.find(lab => lab.testCode === code);
+        if (sameTest) return sameTest;
+    }
+    return open.length === 1 ? open[0] : null;
+};
+
+/**
+ * Files analyzer results against a lab request and completes it. Returns null when the request
+ * was completed by someone else in the meantime.
+ */
+export const applyImportedResults = async (
+    tenantId: string,
+    labResultId: string,
+    group: Pick<ParsedLabGroup, 'observations' | 'observedAt'>,
+    conductedBy: string
+) => {
+    const lab = await prisma.labResult.findFirst({ where: { id: labResultId, tenantId }, include: { pet: { select: { species: true } } } });
+    if (!lab || !OPEN_STATUSES.includes(lab.status)) return null;
+
+    const values = buildResultValues(toEntries(group.observations), lab.pet?.species || '');
+
+    return prisma.$transaction(async (tx) => {
+        // Conditional on the status we read, same as a manual completion
+        const { count } = await tx.labResult.updateMany({
+            where: { id: lab.id, status: lab.status },
+            data: { status: 'Completed', completionDate: group.observedAt || new Date(), conductedBy }
+        });
+        if (count === 0) return null;
+        await tx.labResultValue.deleteMany({ where: { labResultId: lab.id } });
+        if (values.length) await tx.labResultValue.createMany({ data: values.map(v => ({ ...v, labResultId: lab.id })) });
+        return tx.labResult.findUnique({ where: { id: lab.id }, include: { values: { orderBy: { createdAt: 'asc' } } } });
+    });
+};
+
+/**
+ * Parses an HL7 / ASTM file and files every result group it can match. Anything that can't be
+ * matched goes to the reconciliation queue (LabImport) for a tech to assign by hand.
+ * Throws LabParseError when the file is not a message we understand.
+ */
+export const importLabFile = async (
+    tenantId: string,
+    content: string,
+    options: { source: ImportSource; fileName?: string; actor?: { id: string; name: string } }
+): Promise<ImportSummary> => {
+    const groups = parseLabFile(content);
+    const summary: ImportSummary = { groups: groups.length, matched: [], queued: 0 };
+    const conductedBy = options.actor ? `${options.actor.name} (${ANALYZER.toLowerCase()})` : ANALYZER;
+
+    for (const group of groups) {
+        const lab = await findOpenLab(tenantId, group);
+        const filed = lab ? await applyImportedResults(tenantId, lab.id, group, conductedBy) : null;
+
+        if (filed) {
+            summary.matched.push({ labResultId: filed.id, testName: filed.testName || filed.type, patientName: filed.patientName });
+            createLog(tenantId, options.actor?.id || ANALYZER, 'Lab Result Imported', 'clinical', `${filed.testName || filed.type} for ${filed.patientName || 'patient'} (${group.format})`);
+            continue;
+        }
+
+        await prisma.labImport.create({
+            data: {
+                tenantId,
+                source: options.source,
+                format: group.format,
+                fileName: options.fileName || null,
+                accession: group.accession || null,
+                patientRef: group.patientId || null,
+                patientName: group.patientName || null,
+                testCode: group.testCode || null,
+                testName: group.testName || null,
+                observedAt: group.observedAt || null,
+                values: JSON.stringify(group.observations)
+            }
+        });
+        summary.queued++;
+    }
+
+    if (summary.queued) {
+        createLog(tenantId, options.actor?.id || ANALYZER, 'Lab Import Unmatched', 'clinical', `${summary.queued} result group(s) from ${options.fileName || 'upload'} need reconciling`);
+    }
+    return summary;
+};
+
+// --- WATCHED FOLDER ---
+// LAB_IMPORT_DIR/<tenantId>/ is polled for files the analyzer software drops. Each file is imported
+// once, then moved to processed/ (or failed/ when it can't be parsed) next to it.
+
+const IMPORT_EXTENSIONS = ['.hl7', '.oru', '.astm', '.txt', '.msg'];
+
+const moveTo = async (dir: string, file: string, folder: 'processed' | 'failed') => {
+    await fs.mkdir(path.join(dir, folder), { recursive: true });
+    const target = path.join(dir, folder, `${Date.now()}-${file}`);
+    await fs.rename(path.join(dir, file), target);
+};
+
+const scanImportFolder = async (root: string, log: FastifyBaseLogger) => {
+    const entries = await fs.readdir(root, { withFileTypes: true });
+    for (const entry of entries) {
+        if (!entry.isDirectory()) continue;
+        const tenantId = entry.name;
+        const tenant = await prisma.tenant.findUnique({ where: { id: tenantId }, select: { id: true } });
+        if (!tenant) continue;
+
+        const dir = path.join(root, tenantId);
+        const files = (await fs.readdir(dir, { withFileTypes: true }))
+            .filter(f => f.isFile() && IMPORT_EXTENSIONS.includes(path.extname(f.name).toLowerCase()))
+            .map(f => f.name);
+
+        for (const file of files) {
+            try {
+                const content = await fs.readFile(path.join(dir, file), 'utf8');
+                const summary = await importLabFile(tenantId, content, { source: 'folder', fileName: file });
+                await moveTo(dir, file, 'processed');
+                log.info({ tenantId, file, matched: summary.matched.length, queued: summary.queued }, 'Lab file imported');
+            } catch (error: any) {
+                log.warn({ tenantId, file, err: error.message }, 'Lab file import failed');
+                await moveTo(dir, file, 'failed').catch(() => undefined);
+            }
+        }
+    }
+};
+
+/** Starts polling LAB_IMPORT_DIR. Does nothing when the variable is unset. */
+export const startLabImportWatcher = (log: FastifyBaseLogger) => {
+    const root = process.env.LAB_IMPORT_DIR;
+    if (!root) return;
+
+    const interval = parseInt(process.env.LAB_IMPORT_INTERVAL_MS || '30000');
+    let running = false;
+    const tick = async () => {
+        // A slow scan must not overlap the next one, or a file could be imported twice
+        if (running) return;
+        running = true;
+        try {
+            await scanImportFolder(root, log);
+        } catch (error: any) {
+            log.error({ err: error.message }, 'Lab import folder scan failed');
+        } finally {
+            running = false;
+        }
+    };
+
+    setInterval(tick, interval).unref();
+    log.info(`🧪 Watching ${root} for analyzer files every ${interval / 1000}s`);
+};
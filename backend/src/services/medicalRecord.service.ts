@@ -0,0 +1,208 @@
+import { Prisma } from '@prisma/client';
+import { generateId } from '../utils/serverHelpers';
+
+type Tx = Prisma.TransactionClient;
+
+export type MedicalKind = 'vitals' | 'notes' | 'allergies' | 'conditions';
+
+export interface MedicalActor {
+    id: string;
+    name: string;
+}
+
+// Each kind maps to a list of entries; updates and deletes carry the version the client last saw
+export interface MedicalChanges {
+    create?: Partial<Record<MedicalKind, any[]>>;
+    update?: Partial<Record<MedicalKind, any[]>>;
+    delete?: Partial<Record<MedicalKind, { id: string; version: number }[]>>;
+}
+
+export class MedicalRecordError extends Error {
+    constructor(
+        message: string,
+        public code: 'INVALID' | 'NOT_FOUND' | 'CONFLICT',
+        public kind?: MedicalKind,
+        public recordId?: string,
+        public current?: any
+    ) {
+        super(message);
+        this.name = 'MedicalRecordError';
+    }
+}
+
+const NOTE_TYPES = ['SOAP', 'General', 'Prescription'];
+const SEVERITIES = ['Mild', 'Moderate', 'Severe'];
+const CONDITION_STATUSES = ['Active', 'Resolved'];
+
+const has = (input: any, field: string) => input[field] !== undefined;
+
+const toNumber = (value: any) => {
+    if (value === null || value === undefined || value === '') return null;
+    const number = Number(value);
+    return isNaN(number) ? null : number;
+};
+
+const toDate = (value: any) => {
+    const date = value ? new Date(value) : null;
+    return date && !isNaN(date.getTime()) ? date : null;
+};
+
+const text = (value: any) => {
+    const trimmed = String(value ?? '').trim();
+    return trimmed || null;
+};
+
+const oneOf = (value: any, allowed: string[], field: string, kind: MedicalKind) => {
+    if (value === null || value === undefined || value === '') return null;
+    if (!allowed.includes(value)) throw new MedicalRecordError(`${field} must be one of ${allowed.join(', ')}`, 'INVALID', kind);
+    return value;
+};
+
+// Field builders: `partial` is true for updates, where only the fields sent are written
+const BUILDERS: Record<MedicalKind, (input: any, actor: MedicalActor, partial: boolean) => any> = {
+    vitals: (input, actor, partial) => {
+        const data: any = {};
+        for (const field of ['weightKg', 'temperatureC', 'heartRateBpm', 'respiratoryRate']) {
+            if (!partial || has(input, field)) data[field] = toNumber(input[field]);
+        }
+        if (!partial || has(input, 'date')) data.date = toDate(input.date) || new Date();
+        if (!partial) {
+            if (['weightKg', 'temperatureC', 'heartRateBpm', 'respiratoryRate'].every(f => data[f] === null)) {
+                throw new MedicalRecordError('Record at least one measurement', 'INVALID', 'vitals');
+            }
+            data.recordedBy = actor.name;
+        }
+        return data;
+    },
+    notes: (input, actor, partial) => {
+        const data: any = {};
+        if (!partial || has(input, 'content')) {
+            data.content = text(input.content);
+            if (!data.content) throw new MedicalRecordError('Note content is required', 'INVALID', 'notes');
+        }
+        if (!partial || has(input, 'type')) data.type = oneOf(input.type, NOTE_TYPES, 'type', 'notes') || 'General';
+        if (!partial || has(input, 'date')) data.date = toDate(input.date) || new Date();
+        // The author is whoever is signed in, not what the client claims
+        if (!partial) data.vetName = actor.name;
+        return data;
+    },
+    allergies: (input, _actor, partial) => {
+        const data: any = {};
+        if (!partial || has(input, 'name')) {
+            data.name = text(typeof input === 'string' ? input : input.name);
+            if (!data.name) throw new MedicalRecordError('Allergy name is required', 'INVALID', 'allergies');
+        }
+        if (!partial || has(input, 'severity')) data.severity = oneOf(input.severity, SEVERITIES, 'severity', 'allergies');
+        if (!partial || has(input, 'reaction')) data.reaction = text(input.reaction);
+        return data;
+    },
+    conditions: (input, _actor, partial) => {
+        const data: any = {};
+        if (!partial || has(input, 'name')) {
+            data.name = text(typeof input === 'string' ? input : input.name);
+            if (!data.name) throw new MedicalRecordError('Condition name is required', 'INVALID', 'conditions');
+        }
+        if (!partial || has(input, 'status')) data.status = oneOf(input.status, CONDITION_STATUSES, 'status', 'conditions') || 'Active';
+        if (!partial || has(input, 'diagnosedAt')) data.diagnosedAt = toDate(input.diagnosedAt);
+        if (!partial || has(input, 'notes')) data.notes = text(input.notes);
+        return data;
+    }
+};
+
+const MODELS: Record<MedicalKind, { delegate: (tx: Tx) => any; prefix: string; label: string }> = {
+    vitals: { delegate: tx => tx.vitals, prefix: 'VIT', label: 'Vitals entry' },
+    notes: { delegate: tx => tx.medicalNote, prefix: 'NOTE', label: 'Note' },
+    allergies: { delegate: tx => tx.allergy, prefix: 'ALG', label: 'Allergy' },
+    conditions: { delegate: tx => tx.condition, prefix: 'CND', label: 'Condition' }
+};
+
+export const MEDICAL_KINDS = Object.keys(MODELS) as MedicalKind[];
+
+/** Validated fields for a new vitals row, for callers that write vitals outside a record edit (e.g. inpatient checks). */
+export const buildVitalsEntry = (input: any, actor: MedicalActor) => BUILDERS.vitals(input ?? {}, actor, false);
+
+export const isMedicalKind = (kind: string): kind is MedicalKind => MEDICAL_KINDS.includes(kind as MedicalKind);
+
+// Relations to include whenever a pet is returned with its medical record
+export const medicalInclude = {
+    vitals: { orderBy: { date: 'asc' as const } },
+    medicalNotes: { orderBy: { date: 'asc' as const } },
+    allergyRecords: { orderBy: { createdAt: 'asc' as const } },
+    conditions: { orderBy: { createdAt: 'asc' as const } }
+};
+
+/**
+ * Shapes the child tables into the Pet fields the frontend reads. `allergies` and
+ * `medicalConditions` stay plain name lists (active conditions only); the full rows, with
+ * the ids and versions needed to edit them, come alongside.
+ */
+export const serializeMedical = (pet: any) => ({
+    vitalsHistory: (pet.vitals || []).map((v: any) => ({
+        id: v.id, version: v.version, date: v.date, recordedBy: v.recordedBy,
+        weightKg: v.weightKg, temperatureC: v.temperatureC, heartRateBpm: v.heartRateBpm, respiratoryRate: v.respiratoryRate
+    })),
+    notes: (pet.medicalNotes || []).map((n: any) => ({ id: n.id, version: n.version, date: n.date, vetName: n.vetName, type: n.type, content: n.content })),
+    allergies: (pet.allergyRecords || []).map((a: any) => a.name),
+    allergyRecords: (pet.allergyRecords || []).map((a: any) => ({ id: a.id, version: a.version, name: a.name, severity: a.severity, reaction: a.reaction })),
+    medicalConditions: (pet.conditions || []).filter((c: any) => c.status === 'Active').map((c: any) => c.name),
+    conditionRecords: (pet.conditions || []).map((c: any) => ({ id: c.id, version: c.version, name: c.name, status: c.status, diagnosedAt: c.diagnosedAt, notes: c.notes }))
+});
+
+/**
+ * Applies a set of medical record changes inside the caller's transaction. Updates and deletes
+ * only match the version the client last read, so a stale edit fails with CONFLICT (and the
+ * current row) instead of overwriting someone else's change. Any error aborts the whole set.
+ * Returns a short summary for the activity log.
+ */
+export const applyMedicalChanges = async (tx: Tx, petId: string, actor: MedicalActor, changes: MedicalChanges) => {
+    const summary: string[] = [];
+
+    for (const kind of MEDICAL_KINDS) {
+        const { delegate, prefix, label } = MODELS[kind];
+        const model = delegate(tx);
+
+        for (const input of changes.create?.[kind] || []) {
+            const data = BUILDERS[kind](input ?? {}, actor, false);
+            // Allergies and conditions are lists of names; adding one that exists is a no-op
+            if (kind === 'allergies' || kind === 'conditions') {
+                const existing = await model.findFirst({ where: { petId, name: { equals: data.name, mode: 'insensitive' } } });
+                if (existing) continue;
+            }
+            await model.create({ data: { id: generateId(prefix), petId, ...data } });
+            summary.push(`added ${label.toLowerCase()}`);
+        }
+
+        for (const input of changes.update?.[kind] || []) {
+            if (!input?.id) throw new MedicalRecordError(`${label} id is required`, 'INVALID', kind);
+            const version = versionOf(input, kind, label);
+            const data = BUILDERS[kind](input, actor, true);
+            const { count } = await model.updateMany({
+                where: { id: input.id, petId, version },
+                data: { ...data, version: { increment: 1 } }
+            });
+            if (count === 0) await throwStale(model, kind, label, petId, input.id);
+            summary.push(`updated ${label.toLowerCase()}`);
+        }
+
+        for (const input of changes.delete?.[kind] || []) {
+            if (!input?.id) throw new MedicalRecordError(`${label} id is required`, 'INVALID', kind);
+            const { count } = await model.deleteMany({ where: { id: input.id, petId, version: versionOf(input, kind, label) } });
+            if (count === 0) await throwStale(model, kind, label, petId, input.id);
+            summary.push(`removed ${label.toLowerCase()}`);
+        }
+    }
+    return summary;
+};
+
+// Edits and removals must say which version of the row the client read
+const versionOf = (input: any, kind: MedicalKind, label: string): number => {
+    if (!Number.isInteger(input.version)) throw new MedicalRecordError(`${label} version must be a whole number`, 'INVALID', kind, input.id);
+    return input.version;
+};
+
+// Tells a missing row apart from one that changed since the client read it
+const throwStale = async (model: any, kind: MedicalKind, label: string, petId: string, id: string): Promise<never> => {
+    const current = await model.findFirst({ where: { id, petId } });
+    if (!current) throw new MedicalRecordError(`${label} not found`, 'NOT_FOUND', kind, id);
+    throw new MedicalRecordError(`${label} was changed by someone else. Reload and try again.`, 'CONFLICT', kind, id, current);
+};
@@ -0,0 +1,144 @@
+import { prisma } from '../lib/prisma';
+import { safeParse } from '../utils/serverHelpers';
+
+// How much of a record the assistant sees. Keeps prompts (and provider cost) bounded
+// however long a patient's history grows; the newest records win.
+const LIMITS = { vitals: 5, notes: 5, vaccinations: 10, consultations: 5, labs: 5 };
+const MAX_FIELD_CHARS = 300;
+const MAX_CONTEXT_CHARS = 8000;
+
+export type ContextSourceType = 'patient' | 'vitals' | 'allergy' | 'condition' | 'note' | 'vaccination' | 'consultation' | 'lab';
+
+// One citable record. `ref` is what the model quotes back, e.g. [R3].
+export interface ContextSource {
+    ref: string;
+    type: ContextSourceType;
+    recordId?: string;
+    label: string;
+    date?: string;
+    text: string;
+}
+
+export interface PatientContext {
+    petId: string;
+    petName: string;
+    species: string;
+    allergies: string[];
+    sources: ContextSource[];
+    text: string;
+}
+
+const clip = (value: unknown) => {
+    const text = String(value ?? '').replace(/\s+/g, ' ').trim();
+    return text.length > MAX_FIELD_CHARS ? `${text.slice(0, MAX_FIELD_CHARS)}…` : text;
+};
+
+const day = (value: unknown) => {
+    const date = value ? new Date(value as any) : null;
+    return date && !isNaN(date.getTime()) ? date.toISOString().split('T')[0] : undefined;
+};
+
+const formatSource = (source: ContextSource) =>
+    `[${source.ref}] ${source.label}${source.date ? ` (${source.date})` : ''}: ${source.text}`;
+
+/**
+ * Collects a patient's record into numbered sources the assistant can cite.
+ * Returns null when the pet does not belong to the tenant.
+ */
+export const buildPatientContext = async (tenantId: string, petId: string): Promise<PatientContext | null> => {
+    const pet = await prisma.pet.findFirst({
+        where: { id: petId, tenantId },
+        include: {
+            consultations: { orderBy: { date: 'desc' }, take: LIMITS.consultations },
+            vitals: { orderBy: { date: 'desc' }, take: LIMITS.vitals },
+            medicalNotes: { orderBy: { date: 'desc' }, take: LIMITS.notes },
+            vaccinations: { orderBy: { dateAdministered: 'desc' }, take: LIMITS.vaccinations },
+            allergyRecords: { orderBy: { createdAt: 'asc' } },
+            conditions: { where: { status: 'Active' }, orderBy: { createdAt: 'asc' } },
+            labResults: { orderBy: { date: 'desc' }, take: LIMITS.labs, include: { values: true } }
+        }
+    });
+    if (!pet) return null;
+
+    const drafts: Omit<ContextSource, 'ref'>[] = [];
+
+    drafts.push({
+        type: 'patient', recordId: pet.id, label: 'Patient profile',
+        text: clip(`${pet.name}, ${pet.species}${pet.breed ? ` (${pet.breed})` : ''}, ${pet.gender}, ${pet.age} years`)
+    });
+
+    const allergies: string[] = pet.allergyRecords.map(a => clip(a.name)).filter(Boolean);
+    for (const allergy of pet.allergyRecords) {
+        drafts.push({
+            type: 'allergy', recordId: allergy.id, label: 'Allergy',
+            text: clip([allergy.name, allergy.severity, allergy.reaction && `reaction: ${allergy.reaction}`].filter(Boolean).join(', '))
+        });
+    }
+
+    for (const condition of pet.conditions) {
+        drafts.push({ type: 'condition', recordId: condition.id, label: 'Medical condition', date: day(condition.diagnosedAt), text: clip(condition.name) });
+    }
+
+    for (const v of pet.vitals) {
+        drafts.push({
+            type: 'vitals', recordId: v.id, label: 'Vitals', date: day(v.date),
+            text: clip(`Weight ${v.weightKg ?? '?'} kg, temp ${v.temperatureC ?? '?'} °C, HR ${v.heartRateBpm ?? '?'} bpm${v.respiratoryRate ? `, RR ${v.respiratoryRate}` : ''}`)
+        });
+    }
+
+    for (const note of pet.medicalNotes) {
+        drafts.push({ type: 'note', recordId: note.id, label: `${note.type} note by ${clip(note.vetName)}`, date: day(note.date), text: clip(note.content) });
+    }
+
+    for (const vac of pet.vaccinations) {
+        drafts.push({
+            type: 'vaccination', recordId: vac.id, label: `Vaccination: ${clip(vac.vaccineName)}`, date: day(vac.dateAdministered),
+            text: clip(`${vac.vaccineName} dose ${vac.doseNumber} given ${day(vac.dateAdministered)}${vac.lotNumber ? ` (lot ${vac.lotNumber})` : ''}${vac.dueDate ? `, next due ${day(vac.dueDate)}` : ''}`)
+        });
+    }
+
+    for (const consult of pet.consultations) {
+        const diagnosis = safeParse(consult.diagnosis, {});
+        const prescription = safeParse(consult.prescription, []);
+        const drugs = prescription.map((rx: any) => [rx.name, rx.dosage, rx.frequency].filter(Boolean).join(' ')).join('; ');
+        drafts.push({
+            type: 'consultation', recordId: consult.id, label: 'Consultation', date: day(consult.date),
+            text: clip([
+                consult.chiefComplaint && `Complaint: ${consult.chiefComplaint}`,
+                diagnosis.tentative && `Diagnosis: ${diagnosis.tentative}`,
+                drugs && `Prescribed: ${drugs}`,
+                consult.plan && `Plan: ${consult.plan}`
+            ].filter(Boolean).join('. '))
+        });
+    }
+
+    for (const lab of pet.labResults) {
+        const values = lab.values
+            .map(v => `${v.analyte} ${v.value ?? v.textValue}${v.unit ? ` ${v.unit}` : ''}${v.flag && v.flag !== 'N' ? ` (${v.flag})` : ''}`)
+            .join(', ');
+        drafts.push({
+            type: 'lab', recordId: lab.id, label: `Lab: ${clip(lab.testName || lab.type)}`, date: day(lab.date),
+            text: clip(`${lab.testName || lab.type} (${lab.status})${values ? `: ${values}` : ''}${lab.result ? `. ${lab.result}` : ''}${lab.notes ? `. Notes: ${lab.notes}` : ''}`)
+        });
+    }
+
+    // Number the sources and stop once the character budget is spent
+    const sources: ContextSource[] = [];
+    let length = 0;
+    for (const draft of drafts) {
+        const source = { ...draft, ref: `R${sources.length + 1}` };
+        const line = formatSource(source);
+        if (length + line.length > MAX_CONTEXT_CHARS) break;
+        sources.push(source);
+        length += line.length + 1;
+    }
+
+    return {
+        petId: pet.id,
+        petName: pet.name,
+        species: pet.species,
+        allergies,
+        sources,
+        text: sources.map(formatSource).join('\n')
+    };
+};
@@ -0,0 +1,175 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { AppointmentActor, recordAppointmentEvent } from './appointment.service';
+import { clinicTime, localParts } from './schedule.service';
+
+export const QUEUE_STATUSES = ['Waiting', 'In Consult', 'Awaiting Payment', 'Discharged'];
+export const ACTIVE_QUEUE_STATUSES = ['Waiting', 'In Consult', 'Awaiting Payment'];
+
+// Most urgent first; the board and "next patient" order by this, then by arrival
+export const TRIAGE_LEVELS = ['Emergency', 'Urgent', 'Standard', 'Routine'];
+
+// Waiting → Discharged is a patient who left before being seen; In Consult → Discharged is a visit with nothing to pay
+export const QUEUE_TRANSITIONS: Record<string, string[]> = {
+    'Waiting': ['In Consult', 'Discharged'],
+    'In Consult': ['Awaiting Payment', 'Discharged'],
+    'Awaiting Payment': ['Discharged'],
+    'Discharged': []
+};
+
+export class QueueError extends Error {
+    constructor(message: string, public code: 'INVALID' | 'NOT_FOUND' | 'CONFLICT' | 'INVALID_TRANSITION') {
+        super(message);
+        this.name = 'QueueError';
+    }
+}
+
+export const queueInclude = {
+    pet: { select: { name: true, species: true, breed: true } },
+    owner: { select: { name: true, phone: true } }
+};
+
+export const parseTriageLevel = (value: any) => {
+    if (!TRIAGE_LEVELS.includes(value)) throw new QueueError(`triageLevel must be one of ${TRIAGE_LEVELS.join(', ')}`, 'INVALID');
+    return value as string;
+};
+
+export const byTriageThenArrival = (a: { triageLevel: string; arrivedAt: Date }, b: { triageLevel: string; arrivedAt: Date }) =>
+    TRIAGE_LEVELS.indexOf(a.triageLevel) - TRIAGE_LEVELS.indexOf(b.triageLevel) || a.arrivedAt.getTime() - b.arrivedAt.getTime();
+
+/** Timestamps for a status move; consult start/end are what the wait and consult times are measured from. */
+export const transitionData = (from: string, to: string, now = new Date()) => {
+    const data: any = { status: to };
+    if (to === 'In Consult') data.consultStartedAt = now;
+    if (from === 'In Consult') data.consultEndedAt = now;
+    if (to === 'Discharged') data.dischargedAt = now;
+    return data;
+};
+
+/**
+ * Serializes moves into one consult room (per branch) and refuses a room another patient is being seen in.
+ * Must run inside the transaction that writes the queue entry.
+ */
+export const assertRoomFree = async (
+    tx: Prisma.TransactionClient,
+    options: { tenantId: string; branchId: string | null; room: string; excludeId: string }
+) => {
+    const { tenantId, branchId, room, excludeId } = options;
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`room:${tenantId}:${branchId || 'main'}:${room.toLowerCase()}`}))`;
+    const occupied = await tx.queueEntry.findFirst({
+        where: { tenantId, branchId, status: 'In Consult', room: { equals: room, mode: 'insensitive' }, id: { not: excludeId } },
+        include: { pet: { select: { name: true } } }
+    });
+    if (occupied) throw new QueueError(`${room} is in use by ${occupied.pet?.name || occupied.walkInName}`, 'CONFLICT');
+};
+
+// --- APPOINTMENT LINK ---
+
+/** Puts a checked-in appointment in the waiting room. Does nothing if it is already queued. */
+export const enqueueAppointment = async (tx: Prisma.TransactionClient, appointment: any, actor: AppointmentActor) => {
+    const existing = await tx.queueEntry.findUnique({ where: { appointmentId: appointment.id }, select: { id: true } });
+    if (existing) return existing.id;
+
+    const assigned = appointment.doctorName && !['Unassigned', 'Pending'].includes(appointment.doctorName);
+    const entry = await tx.queueEntry.create({
+        data: {
+            tenantId: appointment.tenantId,
+            branchId: appointment.branchId,
+            appointmentId: appointment.id,
+            petId: appointment.petId,
+            ownerId: appointment.ownerId,
+            walkInName: appointment.walkInName,
+            reason: appointment.reason,
+            doctorId: appointment.doctorId,
+            doctorName: assigned ? appointment.doctorName : null,
+            arrivedAt: appointment.checkedInAt || new Date(),
+            createdBy: actor.name
+        }
+    });
+    return entry.id;
+};
+
+/** A cancelled appointment takes its patient off the board if they have not been seen yet. */
+export const dequeueCancelledAppointment = (tx: Prisma.TransactionClient, appointmentId: string) =>
+    tx.queueEntry.updateMany({
+        where: { appointmentId, status: 'Waiting' },
+        data: { status: 'Discharged', dischargedAt: new Date(), outcome: 'Appointment cancelled' }
+    });
+
+/**
+ * Keeps the linked appointment in step with the board: finishing the consult completes it,
+ * leaving before being seen cancels it.
+ */
+export const syncAppointment = async (tx: Prisma.TransactionClient, entry: { appointmentId: string | null; outcome?: string | null }, from: string, to: string, actor: AppointmentActor) => {
+    if (!entry.appointmentId) return;
+    const status = from === 'In Consult' ? 'Completed' : from === 'Waiting' && to === 'Discharged' ? 'Cancelled' : null;
+    if (!status) return;
+
+    const data: any = { status };
+    if (status === 'Cancelled') data.cancelReason = entry.outcome || 'Left before being seen';
+    const { count } = await tx.appointment.updateMany({ where: { id: entry.appointmentId, status: 'Checked In' }, data });
+    if (count) await recordAppointmentEvent(tx, entry.appointmentId, status, actor, { fromStatus: 'Checked In', toStatus: status, details: data.cancelReason });
+};
+
+// --- METRICS ---
+
+const minutesBetween = (from: Date, to: Date) => (to.getTime() - from.getTime()) / 60000;
+
+const average = (values: number[]) => values.length ? Math.round(values.reduce((sum, v) => sum + v, 0) / values.length) : null;
+
+const dayRange = (day: string, timeZone: string) => {
+    const start = clinicTime(day, '00:00', timeZone);
+    return { start, end: new Date(start.getTime() + 24 * 3600000) };
+};
+
+const previousDay = (day: string) => new Date(Date.parse(`${day}T00:00:00Z`) - 24 * 3600000).toISOString().slice(0, 10);
+
+/**
+ * Wait (arrival → consult) and consult times for one clinic day, plus the live state of the board.
+ * Averages are whole minutes, or null when nobody has been seen yet.
+ */
+export const queueMetrics = async (tenantId: string, options: { day?: string; timeZone: string; branch: { branchId?: string | null } }) => {
+    const now = new Date();
+    const day = options.day || localParts(now, options.timeZone).day;
+    const today = dayRange(day, options.timeZone);
+    const yesterday = dayRange(previousDay(day), options.timeZone);
+
+    const [entries, previous, active] = await Promise.all([
+        prisma.queueEntry.findMany({
+            where: { tenantId, ...options.branch, arrivedAt: { gte: today.start, lt: today.end } },
+            select: { triageLevel: true, status: true, outcome: true, arrivedAt: true, consultStartedAt: true, consultEndedAt: true }
+        }),
+        prisma.queueEntry.findMany({
+            where: { tenantId, ...options.branch, arrivedAt: { gte: yesterday.start, lt: yesterday.end }, consultStartedAt: { not: null } },
+            select: { arrivedAt: true, consultStartedAt: true }
+        }),
+        prisma.queueEntry.findMany({
+            where: { tenantId, ...options.branch, status: { in: ACTIVE_QUEUE_STATUSES } },
+            select: { status: true, arrivedAt: true }
+        })
+    ]);
+
+    const seen = entries.filter(e => e.consultStartedAt);
+    const waitOf = (e: { arrivedAt: Date; consultStartedAt: Date | null }) => minutesBetween(e.arrivedAt, e.consultStartedAt!);
+    const waiting = active.filter(e => e.status === 'Waiting');
+
+    return {
+        date: day,
+        arrivals: entries.length,
+        seen: seen.length,
+        leftUnseen: entries.filter(e => e.status === 'Discharged' && !e.consultStartedAt).length,
+        averageWaitMinutes: average(seen.map(waitOf)),
+        previousAverageWaitMinutes: average(previous.map(waitOf)),
+        averageConsultMinutes: average(seen.filter(e => e.consultEndedAt).map(e => minutesBetween(e.consultStartedAt!, e.consultEndedAt!))),
+        byTriage: TRIAGE_LEVELS.map(level => {
+            const group = seen.filter(e => e.triageLevel === level);
+            return { triageLevel: level, seen: group.length, averageWaitMinutes: average(group.map(waitOf)) };
+        }),
+        now: {
+            waiting: waiting.length,
+            inConsult: active.filter(e => e.status === 'In Consult').length,
+            awaitingPayment: active.filter(e => e.status === 'Awaiting Payment').length,
+            longestWaitMinutes: waiting.length ? Math.round(Math.max(...waiting.map(e => minutesBetween(e.arrivedAt, now)))) : null
+        }
+    };
+};
@@ -0,0 +1,293 @@
+import { FastifyBaseLogger } from 'fastify';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { generateId } from '../utils/serverHelpers';
+import { escapeHtml, sendEmail } from '../utils/email';
+import { sendSms } from '../utils/sms';
+
+type Tx = Prisma.TransactionClient;
+
+export const REMINDER_TYPES = ['Vaccination', 'Follow-up', 'Deworming', 'Lab Work', 'Other'];
+export const REMINDER_METHODS = ['SMS', 'Email', 'Both'];
+export const REMINDER_STATUSES = ['Pending', 'Sent', 'Failed', 'Completed', 'Cancelled'];
+
+// Minutes to wait after each failed attempt; one more failure after the last marks it Failed
+const RETRY_DELAYS_MINUTES = [5, 30, 120, 720];
+const MAX_ATTEMPTS = RETRY_DELAYS_MINUTES.length + 1;
+// Pending reminders further overdue than this are left for staff instead of being sent late
+const STALE_AFTER_DAYS = 30;
+const BATCH_SIZE = 50;
+
+export class ReminderError extends Error {
+    constructor(message: string, public code: 'INVALID' | 'NOT_FOUND') {
+        super(message);
+        this.name = 'ReminderError';
+    }
+}
+
+// --- TEMPLATES ---
+// Clinics can override these in settings; {placeholders} are filled per reminder.
+
+export const DEFAULT_TEMPLATES = {
+    sms: 'Hi {owner}, {pet} is due for {description} on {date}. Call {clinic} on {phone} to book.',
+    emailSubject: '{pet}: {type} reminder from {clinic}',
+    email: 'Dear {owner},\n\nThis is a reminder that {pet} is due for {description} on {date}.\n\nPlease contact us on {phone} to book an appointment.\n\n{clinic}'
+};
+const DEFAULT_LEAD_DAYS = 3;
+
+export const renderTemplate = (template: string, vars: Record<string, string>) =>
+    template.replace(/\{(\w+)\}/g, (match, key) => vars[key] ?? match);
+
+const formatDate = (date: Date, timeZone?: string) => {
+    const options: Intl.DateTimeFormatOptions = { day: 'numeric', month: 'short', year: 'numeric' };
+    try {
+        return date.toLocaleDateString('en-GB', { ...options, timeZone: timeZone || 'UTC' });
+    } catch {
+        return date.toLocaleDateString('en-GB', { ...options, timeZone: 'UTC' });
+    }
+};
+
+const readSettings = (raw: string | null | undefined) => {
+    try { return JSON.parse(raw || '{}'); } catch { return {}; }
+};
+
+// --- INPUT ---
+
+const toDate = (value: any) => {
+    const date = value ? new Date(value) : null;
+    return date && !isNaN(date.getTime()) ? date : null;
+};
+
+/** Validates reminder fields; `partial` is true for updates, where only the fields sent are written. */
+export const buildReminderData = (input: any, partial = false) => {
+    const data: any = {};
+    if (!partial || input.type !== undefined) {
+        data.type = input.type || 'Other';
+        if (!REMINDER_TYPES.includes(data.type)) throw new ReminderError(`type must be one of ${REMINDER_TYPES.join(', ')}`, 'INVALID');
+    }
+    if (!partial || input.description !== undefined) {
+        data.description = String(input.description ?? '').trim();
+        if (!data.description) throw new ReminderError('Description is required', 'INVALID');
+    }
+    if (!partial || input.dueDate !== undefined) {
+        data.dueDate = toDate(input.dueDate);
+        if (!data.dueDate) throw new ReminderError('A valid due date is required', 'INVALID');
+    }
+    if (!partial || input.method !== undefined) {
+        data.method = input.method || 'SMS';
+        if (!REMINDER_METHODS.includes(data.method)) throw new ReminderError(`method must be one of ${REMINDER_METHODS.join(', ')}`, 'INVALID');
+    }
+    return data;
+};
+
+// Shape matches Reminder in the frontend types
+export const serializeReminder = (reminder: any) => ({
+    id: reminder.id,
+    tenantId: reminder.tenantId,
+    patientId: reminder.petId,
+    ownerId: reminder.ownerId,
+    consultationId: reminder.consultationId,
+    vaccinationId: reminder.vaccinationId,
+    type: reminder.type,
+    description: reminder.description,
+    dueDate: reminder.dueDate,
+    method: reminder.method,
+    status: reminder.status,
+    attempts: reminder.attempts,
+    nextAttemptAt: reminder.nextAttemptAt,
+    lastError: reminder.lastError,
+    sentAt: reminder.sentAt
+});
+
+// Reminders shown with a patient: everything still relevant to the client
+export const activeRemindersInclude = {
+    where: { status: { in: ['Pending', 'Sent', 'Failed'] } },
+    orderBy: { dueDate: 'asc' as const }
+};
+
+/**
+ * Replaces the unsent reminder of a consultation (drafts can be edited several times) with
+ * the one in the note, if any. Runs inside the caller's transaction.
+ */
+export const syncConsultationReminder = async (
+    tx: Tx,
+    consult: { id: string; tenantId: string; petId: string; ownerId: string },
+    input: any,
+    createdBy: string
+) => {
+    await tx.reminder.deleteMany({ where: { consultationId: consult.id, status: 'Pending' } });
+    if (!input?.dueDate) return;
+    await tx.reminder.create({
+        data: {
+            id: generateId('REM'),
+            tenantId: consult.tenantId,
+            petId: consult.petId,
+            ownerId: consult.ownerId,
+            consultationId: consult.id,
+            createdBy,
+            ...buildReminderData({ ...input, description: input.description || `${input.type || 'Follow-up'} due` })
+        }
+    });
+};
+
+// --- DELIVERY ---
+
+type DueReminder = Prisma.ReminderGetPayload<{ include: { pet: { select: { name: true } }; owner: { select: { name: true; email: true; phone: true } } } }>;
+
+const channelsFor = (method: string) => (method === 'Both' ? ['Email', 'SMS'] : [method]);
+
+/**
+ * Sends one claimed reminder over every channel it still needs. Channels that went out are
+ * recorded straight away, so a retry after a partial failure only repeats the failed one.
+ */
+const deliver = async (reminder: DueReminder, settings: any) => {
+    const clinic = settings.name || settings.clinicName || 'your vet';
+    const vars = {
+        owner: reminder.owner.name,
+        pet: reminder.pet.name,
+        type: reminder.type,
+        description: reminder.description,
+        date: formatDate(reminder.dueDate, settings.timezone),
+        clinic,
+        phone: settings.phone || ''
+    };
+
+    const delivered = new Set((reminder.deliveredVia || '').split(',').filter(Boolean));
+    const errors: string[] = [];
+    let permanent = true;
+
+    for (const channel of channelsFor(reminder.method)) {
+        if (delivered.has(channel)) continue;
+        if (channel === 'Email') {
+            if (!reminder.owner.email) { errors.push('Client has no email address'); continue; }
+            permanent = false;
+            const htmlVars = Object.fromEntries(Object.entries(vars).map(([key, value]) => [key, escapeHtml(value)]));
+            const body = renderTemplate(settings.reminderEmailTemplate || DEFAULT_TEMPLATES.email, htmlVars).replace(/\n/g, '<br>');
+            const subject = renderTemplate(settings.reminderEmailSubject || DEFAULT_TEMPLATES.emailSubject, vars);
+            if (await sendEmail(reminder.owner.email, subject, body)) delivered.add(channel);
+            else errors.push('Email could not be sent');
+        } else {
+            if (!reminder.owner.phone) { errors.push('Client has no phone number'); continue; }
+            permanent = false;
+            try {
+                await sendSms(reminder.owner.phone, renderTemplate(settings.reminderSmsTemplate || DEFAULT_TEMPLATES.sms, vars));
+                delivered.add(channel);
+            } catch (error: any) {
+                errors.push(`SMS failed: ${error.message}`);
+            }
+        }
+    }
+
+    return { delivered: Array.from(delivered), errors, permanent: permanent && delivered.size === 0 };
+};
+
+/**
+ * Claims a reminder and sends it. The claim bumps `attempts` and pushes `nextAttemptAt` out by
+ * the backoff delay, conditional on the attempt count read, so two schedulers never send the
+ * same reminder and a crash mid-send is retried later rather than lost.
+ * Returns the reminder's new status, or null if someone else had already claimed it.
+ */
+export const sendReminder = async (reminder: DueReminder, settings: any, now = new Date()) => {
+    const attempt = reminder.attempts + 1;
+    const delay = RETRY_DELAYS_MINUTES[Math.min(reminder.attempts, RETRY_DELAYS_MINUTES.length - 1)];
+    const { count } = await prisma.reminder.updateMany({
+        where: { id: reminder.id, status: 'Pending', attempts: reminder.attempts },
+        data: { attempts: attempt, nextAttemptAt: new Date(now.getTime() + delay * 60000) }
+    });
+    if (count === 0) return null;
+
+    const { delivered, errors, permanent } = await deliver(reminder, settings);
+    const done = channelsFor(reminder.method).every(channel => delivered.includes(channel));
+    // Sent once any channel reached the client and the rest can't (no address on file)
+    const sent = done || (delivered.length > 0 && errors.every(e => e.startsWith('Client has no')));
+    const status = sent ? 'Sent' : (permanent || attempt >= MAX_ATTEMPTS) ? 'Failed' : 'Pending';
+
+    await prisma.reminder.update({
+        where: { id: reminder.id },
+        data: {
+            status,
+            deliveredVia: delivered.join(',') || null,
+            lastError: errors.join('; ') || null,
+            sentAt: sent ? new Date() : null,
+            nextAttemptAt: status === 'Pending' ? undefined : null
+        }
+    });
+    return status;
+};
+
+const dueInclude = { pet: { select: { name: true } }, owner: { select: { name: true, email: true, phone: true } } };
+
+/** Sends every reminder of one tenant that falls within the clinic's lead time. */
+export const processTenantReminders = async (tenantId: string, now = new Date()) => {
+    const tenant = await prisma.tenant.findUnique({ where: { id: tenantId }, select: { settings: true } });
+    const settings = readSettings(tenant?.settings);
+    const leadDays = Number.isFinite(Number(settings.reminderLeadDays)) && settings.reminderLeadDays !== ''
+        ? Number(settings.reminderLeadDays)
+        : DEFAULT_LEAD_DAYS;
+
+    const horizon = new Date(now.getTime() + leadDays * 86400000);
+    const staleBefore = new Date(now.getTime() - STALE_AFTER_DAYS * 86400000);
+    const due = await prisma.reminder.findMany({
+        where: {
+            tenantId,
+            status: 'Pending',
+            dueDate: { lte: horizon, gte: staleBefore },
+            OR: [{ nextAttemptAt: null }, { nextAttemptAt: { lte: now } }]
+        },
+        include: dueInclude,
+        orderBy: { dueDate: 'asc' },
+        take: BATCH_SIZE
+    });
+
+    const result = { sent: 0, failed: 0, retrying: 0 };
+    for (const reminder of due) {
+        const status = await sendReminder(reminder, settings, now);
+        if (status === 'Sent') result.sent++;
+        else if (status === 'Failed') result.failed++;
+        else if (status === 'Pending') result.retrying++;
+    }
+    return result;
+};
+
+/** Sends a single reminder now, regardless of lead time or backoff (staff "Send now"). */
+export const sendReminderNow = async (tenantId: string, id: string) => {
+    const reminder = await prisma.reminder.findFirst({ where: { id, tenantId }, include: dueInclude });
+    if (!reminder) throw new ReminderError('Reminder not found', 'NOT_FOUND');
+    if (reminder.status !== 'Pending') throw new ReminderError(`Reminder is ${reminder.status}`, 'INVALID');
+    const tenant = await prisma.tenant.findUnique({ where: { id: tenantId }, select: { settings: true } });
+    return sendReminder(reminder, readSettings(tenant?.settings));
+};
+
+export const startReminderScheduler = (log: FastifyBaseLogger) => {
+    if (process.env.REMINDERS_DISABLED === 'true') return;
+
+    const interval = parseInt(process.env.REMINDER_INTERVAL_MS || '300000');
+    let running = false;
+    const tick = async () => {
+        // A slow run must not overlap the next one
+        if (running) return;
+        running = true;
+        try {
+            // Only tenants with something pending; suspended clinics don't message their clients
+            const tenants = await prisma.tenant.findMany({
+                where: { status: { in: ['Active', 'Restricted'] }, reminders: { some: { status: 'Pending' } } },
+                select: { id: true }
+            });
+            for (const tenant of tenants) {
+                try {
+                    const result = await processTenantReminders(tenant.id);
+                    if (result.sent || result.failed || result.retrying) log.info({ tenantId: tenant.id, ...result }, 'Reminders processed');
+                } catch (error: any) {
+                    log.error({ tenantId: tenant.id, err: error.message }, 'Reminder run failed');
+                }
+            }
+        } catch (error: any) {
+            log.error({ err: error.message }, 'Reminder scheduler failed');
+        } finally {
+            running = false;
+        }
+    };
+
+    setInterval(tick, interval).unref();
+    log.info(`🔔 Sending due reminders every ${interval / 1000}s`);
+};
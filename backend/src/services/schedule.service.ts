@@ -0,0 +1,261 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+
+type Db = Prisma.TransactionClient | typeof prisma;
+
+export const DEFAULT_DURATION_MINUTES = 30;
+const SLOT_STEP_MINUTES = 15;
+// Longest visit we look back for when checking overlaps (a day covers surgeries and boarding drop-offs)
+const MAX_DURATION_MINUTES = 24 * 60;
+// Cancelled and missed visits free their slot
+const INACTIVE_STATUSES = ['Cancelled', 'No-Show'];
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export interface WorkingHours {
+    dayOfWeek: number;
+    startTime: string;
+    endTime: string;
+    breakStart?: string | null;
+    breakEnd?: string | null;
+}
+
+export class ScheduleError extends Error {
+    constructor(message: string, public code: 'INVALID' | 'NOT_FOUND' | 'CONFLICT') {
+        super(message);
+        this.name = 'ScheduleError';
+    }
+}
+
+// --- CLINIC TIME ---
+// Working hours are wall-clock times in the clinic's timezone (settings.timezone, default UTC)
+
+const toMinutes = (time: string) => Number(time.slice(0, 2)) * 60 + Number(time.slice(3, 5));
+
+/** Day (YYYY-MM-DD), minutes past midnight and weekday of an instant on the clinic's clock. */
+export const localParts = (instant: Date, timeZone: string) => {
+    let parts: Intl.DateTimeFormatPart[];
+    const options: Intl.DateTimeFormatOptions = {
+        hourCycle: 'h23', year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', second: '2-digit'
+    };
+    try {
+        parts = new Intl.DateTimeFormat('en-US', { ...options, timeZone }).formatToParts(instant);
+    } catch {
+        parts = new Intl.DateTimeFormat('en-US', { ...options, timeZone: 'UTC' }).formatToParts(instant);
+    }
+    const get = (type: string) => Number(parts.find(p => p.type === type)!.value);
+    const day = `${get('year')}-${String(get('month')).padStart(2, '0')}-${String(get('day')).padStart(2, '0')}`;
+    return {
+        day,
+        minutes: get('hour') * 60 + get('minute'),
+        dayOfWeek: new Date(`${day}T12:00:00Z`).getUTCDay(),
+        offsetMinutes: (Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second')) - instant.getTime()) / 60000
+    };
+};
+
+/** The instant at which the clinic's clock shows `time` on `day` (YYYY-MM-DD). */
+export const clinicTime = (day: string, time: string, timeZone: string) => {
+    const naive = new Date(`${day}T${time}:00Z`);
+    const guess = new Date(naive.getTime() - localParts(naive, timeZone).offsetMinutes * 60000);
+    // Second pass settles days where the offset changes (DST)
+    return new Date(naive.getTime() - localParts(guess, timeZone).offsetMinutes * 60000);
+};
+
+export const clinicTimeZone = async (db: Db, tenantId: string) => {
+    const tenant = await db.tenant.findUnique({ where: { id: tenantId }, select: { settings: true } });
+    try { return JSON.parse(tenant?.settings || '{}').timezone || 'UTC'; } catch { return 'UTC'; }
+};
+
+// --- INPUT ---
+
+export const isDay = (value: any): value is string => typeof value === 'string' && DAY_PATTERN.test(value);
+export const isTime = (value: any): value is string => typeof value === 'string' && TIME_PATTERN.test(value);
+
+/** Validates a week of working hours; returns the rows to store, at most one per weekday. */
+export const parseWorkingHours = (input: any): WorkingHours[] => {
+    if (!Array.isArray(input)) throw new ScheduleError('hours must be a list of { dayOfWeek, startTime, endTime }', 'INVALID');
+    const seen = new Set<number>();
+    return input.map((row: any) => {
+        const dayOfWeek = Number(row?.dayOfWeek);
+        if (!Number.isInteger(dayOfWeek) || dayOfWeek < 0 || dayOfWeek > 6) throw new ScheduleError('dayOfWeek must be 0 (Sunday) to 6', 'INVALID');
+        if (seen.has(dayOfWeek)) throw new ScheduleError('Each weekday may appear only once', 'INVALID');
+        seen.add(dayOfWeek);
+
+        const { startTime, endTime } = row;
+        const breakStart = row.breakStart || null;
+        const breakEnd = row.breakEnd || null;
+        for (const time of [startTime, endTime, breakStart, breakEnd]) {
+            if (time !== null && !TIME_PATTERN.test(time)) throw new ScheduleError(`Invalid time ${time}; use HH:MM`, 'INVALID');
+        }
+        if (toMinutes(startTime) >= toMinutes(endTime)) throw new ScheduleError('startTime must be before endTime', 'INVALID');
+        if (!!breakStart !== !!breakEnd) throw new ScheduleError('A break needs both a start and an end', 'INVALID');
+        if (breakStart && (toMinutes(breakStart) >= toMinutes(breakEnd!) || toMinutes(breakStart) < toMinutes(startTime) || toMinutes(breakEnd!) > toMinutes(endTime))) {
+            throw new ScheduleError('The break must fall inside working hours', 'INVALID');
+        }
+        return { dayOfWeek, startTime, endTime, breakStart, breakEnd };
+    });
+};
+
+export const parseDuration = (value: any) => {
+    const minutes = Number(value);
+    if (!Number.isInteger(minutes) || minutes < 5 || minutes > MAX_DURATION_MINUTES) {
+        throw new ScheduleError(`durationMinutes must be a whole number from 5 to ${MAX_DURATION_MINUTES}`, 'INVALID');
+    }
+    return minutes;
+};
+
+/** Minutes a visit of this reason takes; reasons are matched to appointment types case-insensitively. */
+export const durationForReason = async (db: Db, tenantId: string, reason?: string | null) => {
+    if (!reason) return DEFAULT_DURATION_MINUTES;
+    const type = await db.appointmentType.findFirst({
+        where: { tenantId, name: { equals: reason.trim(), mode: 'insensitive' } },
+        select: { durationMinutes: true }
+    });
+    return type?.durationMinutes || DEFAULT_DURATION_MINUTES;
+};
+
+// --- AVAILABILITY ---
+
+const overlaps = (startA: number, endA: number, startB: number, endB: number) => startA < endB && startB < endA;
+
+const bookedWindows = async (db: Db, doctorIds: string[], from: Date, to: Date, excludeId?: string) => {
+    const appointments = await db.appointment.findMany({
+        where: {
+            doctorId: { in: doctorIds },
+            status: { notIn: INACTIVE_STATUSES },
+            date: { gt: new Date(from.getTime() - MAX_DURATION_MINUTES * 60000), lt: to },
+            ...(excludeId ? { id: { not: excludeId } } : {})
+        },
+        select: { id: true, doctorId: true, date: true, durationMinutes: true }
+    });
+    return appointments.map(a => ({ ...a, start: a.date.getTime(), end: a.date.getTime() + a.durationMinutes * 60000 }));
+};
+
+/**
+ * Open slots on one clinic day for every scheduled staff member (or just `doctorId`).
+ * `excludeId` leaves an appointment's own booking out, for rescheduling it.
+ * A slot fits inside working hours, misses the break, leave and other bookings, and starts in the future.
+ */
+export const findAvailability = async (tenantId: string, options: { day: string; durationMinutes: number; doctorId?: string; branchId?: string; excludeId?: string }) => {
+    const timeZone = await clinicTimeZone(prisma, tenantId);
+    const dayOfWeek = new Date(`${options.day}T12:00:00Z`).getUTCDay();
+    const dayStart = clinicTime(options.day, '00:00', timeZone);
+    const dayEnd = new Date(dayStart.getTime() + 24 * 3600000);
+
+    const schedules = await prisma.staffSchedule.findMany({
+        where: {
+            tenantId,
+            dayOfWeek,
+            ...(options.doctorId ? { userId: options.doctorId } : {}),
+            user: { isSuspended: false, ...(options.branchId ? { OR: [{ branchId: options.branchId }, { branchId: null }] } : {}) }
+        },
+        include: { user: { select: { id: true, name: true } } },
+        orderBy: { user: { name: 'asc' } }
+    });
+    if (!schedules.length) return [];
+
+    const doctorIds = schedules.map(s => s.userId);
+    const [leave, booked] = await Promise.all([
+        prisma.staffLeave.findMany({ where: { userId: { in: doctorIds }, startAt: { lt: dayEnd }, endAt: { gt: dayStart } } }),
+        bookedWindows(prisma, doctorIds, dayStart, dayEnd, options.excludeId)
+    ]);
+
+    const now = Date.now();
+    const length = options.durationMinutes * 60000;
+    return schedules.map(schedule => {
+        const busy = [
+            ...leave.filter(l => l.userId === schedule.userId).map(l => ({ start: l.startAt.getTime(), end: l.endAt.getTime() })),
+            ...booked.filter(b => b.doctorId === schedule.userId)
+        ];
+        if (schedule.breakStart && schedule.breakEnd) {
+            busy.push({ start: clinicTime(options.day, schedule.breakStart, timeZone).getTime(), end: clinicTime(options.day, schedule.breakEnd, timeZone).getTime() });
+        }
+
+        const open = clinicTime(options.day, schedule.startTime, timeZone).getTime();
+        const close = clinicTime(options.day, schedule.endTime, timeZone).getTime();
+        const slots: { start: string; end: string }[] = [];
+        for (let start = open; start + length <= close; start += SLOT_STEP_MINUTES * 60000) {
+            if (start <= now) continue;
+            if (busy.some(b => overlaps(start, start + length, b.start, b.end))) continue;
+            slots.push({ start: new Date(start).toISOString(), end: new Date(start + length).toISOString() });
+        }
+        return { doctorId: schedule.userId, doctorName: schedule.user.name, durationMinutes: options.durationMinutes, slots };
+    });
+};
+
+/** Availability for the booking screens; `schedulesConfigured` tells them whether to fall back to a free time entry. */
+export const availabilityFor = async (tenantId: string, query: { date?: string; reason?: string; doctorId?: string; branchId?: string; durationMinutes?: any; excludeId?: string }) => {
+    if (!isDay(query.date)) throw new ScheduleError('date must be YYYY-MM-DD', 'INVALID');
+    const durationMinutes = query.durationMinutes ? parseDuration(query.durationMinutes) : await durationForReason(prisma, tenantId, query.reason);
+    const [doctors, configured] = await Promise.all([
+        findAvailability(tenantId, { day: query.date, durationMinutes, doctorId: query.doctorId, branchId: query.branchId, excludeId: query.excludeId }),
+        prisma.staffSchedule.count({ where: { tenantId } })
+    ]);
+    return { date: query.date, durationMinutes, schedulesConfigured: configured > 0, doctors };
+};
+
+/**
+ * Refuses a booking that falls outside the vet's hours, on leave or across another of their visits.
+ * Takes a per-vet advisory lock, so call it inside the transaction that writes the appointment:
+ * two desks booking the same vet then queue here instead of both seeing the slot free.
+ */
+export const assertSlotFree = async (
+    tx: Prisma.TransactionClient,
+    booking: { tenantId: string; doctorId: string; start: Date; durationMinutes: number; excludeId?: string }
+) => {
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${booking.doctorId}))`;
+
+    const start = booking.start.getTime();
+    const end = start + booking.durationMinutes * 60000;
+    const timeZone = await clinicTimeZone(tx, booking.tenantId);
+
+    // Hours only bind staff who have a schedule; the rest can still be booked by hand, without overlaps
+    const schedules = await tx.staffSchedule.findMany({ where: { userId: booking.doctorId } });
+    if (schedules.length) {
+        const local = localParts(booking.start, timeZone);
+        const hours = schedules.find(s => s.dayOfWeek === local.dayOfWeek);
+        const finish = local.minutes + booking.durationMinutes;
+        if (!hours || local.minutes < toMinutes(hours.startTime) || finish > toMinutes(hours.endTime)) {
+            throw new ScheduleError('That time is outside the vet\'s working hours', 'CONFLICT');
+        }
+        if (hours.breakStart && hours.breakEnd && overlaps(local.minutes, finish, toMinutes(hours.breakStart), toMinutes(hours.breakEnd))) {
+            throw new ScheduleError('That time falls in the vet\'s break', 'CONFLICT');
+        }
+    }
+
+    const onLeave = await tx.staffLeave.findFirst({ where: { userId: booking.doctorId, startAt: { lt: new Date(end) }, endAt: { gt: booking.start } } });
+    if (onLeave) throw new ScheduleError(`The vet is on leave${onLeave.reason ? ` (${onLeave.reason})` : ''}`, 'CONFLICT');
+
+    const clash = (await bookedWindows(tx, [booking.doctorId], booking.start, new Date(end), booking.excludeId))
+        .find(b => overlaps(start, end, b.start, b.end));
+    if (clash) {
+        const at = localParts(clash.date, timeZone);
+        const time = `${String(Math.floor(at.minutes / 60)).padStart(2, '0')}:${String(at.minutes % 60).padStart(2, '0')}`;
+        throw new ScheduleError(`The vet already has a ${clash.durationMinutes} min appointment at ${time} on ${at.day}`, 'CONFLICT');
+    }
+};
+
+/** Checks the doctor belongs to the tenant and can take bookings; returns their display name. */
+export const resolveDoctor = async (db: Db, tenantId: string, doctorId: string) => {
+    const doctor = await db.user.findFirst({ where: { id: doctorId, tenantId }, select: { id: true, name: true, isSuspended: true } });
+    if (!doctor) throw new ScheduleError('Unknown vet', 'INVALID');
+    if (doctor.isSuspended) throw new ScheduleError(`${doctor.name} is not taking bookings`, 'INVALID');
+    return doctor;
+};
+
+/**
+ * The vet a booking is for: by id when one is given, otherwise by the typed name when exactly one
+ * active user in the clinic has it. Returns null for free-text names nobody matches.
+ */
+export const resolveBookedDoctor = async (db: Db, tenantId: string, booking: { doctorId?: string | null; doctorName?: string | null }) => {
+    if (booking.doctorId) return resolveDoctor(db, tenantId, booking.doctorId);
+    const name = typeof booking.doctorName === 'string' ? booking.doctorName.trim() : '';
+    if (!name) return null;
+    const matches = await db.user.findMany({
+        where: { tenantId, isSuspended: false, name: { equals: name, mode: 'insensitive' } },
+        select: { id: true, name: true, isSuspended: true },
+        take: 2
+    });
+    return matches.length === 1 ? matches[0] : null;
+};
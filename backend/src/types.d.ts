@@ -1,12 +1,8 @@
 import { FastifyRequest } from 'fastify';
+import { AuthUser } from './middleware/auth';
 
 declare module 'fastify' {
   interface FastifyRequest {
-    user?: {
-      id: string;
-      tenantId: string;
-      roles: string[];
-      name?: string;
-    };
+    user?: AuthUser;
   }
 }
\ No newline at end of file
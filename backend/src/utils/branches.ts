@@ -0,0 +1,73 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+
+// --- BRANCH SCOPE ---
+// Records without a branchId belong to the main clinic. List endpoints take ?branchId=<id>
+// to narrow the consolidated view, or ?branchId=main for the main clinic only.
+
+export const MAIN_BRANCH = 'main';
+
+export const branchFilter = (branchId?: string): { branchId?: string | null } => {
+    if (!branchId) return {};
+    return { branchId: branchId === MAIN_BRANCH ? null : branchId };
+};
+
+/**
+ * Resolves the branch a new record is written to: the requested one, else the user's home branch.
+ * Returns undefined when the requested branch does not belong to the tenant.
+ */
+export const resolveBranchId = async (
+    tenantId: string,
+    requested: string | null | undefined,
+    fallback: string | null = null
+): Promise<string | null | undefined> => {
+    const branchId = requested === undefined ? fallback : requested;
+    if (!branchId || branchId === MAIN_BRANCH) return null;
+
+    const branch = await prisma.branch.findFirst({ where: { id: branchId, tenantId }, select: { id: true } });
+    return branch ? branch.id : undefined;
+};
+
+// --- PER-BRANCH STOCK ---
+// InventoryItem.stock is the clinic-wide total; BranchStock rows are each branch's share.
+// Whatever is not allocated to a branch is held at the main clinic.
+
+export class StockError extends Error {
+    constructor(message: string, public itemId: string) {
+        super(message);
+        this.name = 'StockError';
+    }
+}
+
+/** Adds (or with a negative delta, removes) units at a branch. Refuses to go below zero. */
+export const adjustBranchStock = async (
+    tx: Prisma.TransactionClient,
+    branchId: string,
+    itemId: string,
+    delta: number
+) => {
+    if (delta >= 0) {
+        await tx.branchStock.upsert({
+            where: { branchId_itemId: { branchId, itemId } },
+            update: { quantity: { increment: delta } },
+            create: { branchId, itemId, quantity: delta }
+        });
+        return;
+    }
+
+    // Conditional decrement so two concurrent sales can't oversell the same branch
+    const { count } = await tx.branchStock.updateMany({
+        where: { branchId, itemId, quantity: { gte: -delta } },
+        data: { quantity: { decrement: -delta } }
+    });
+    if (count === 0) throw new StockError('Insufficient stock at this branch', itemId);
+};
+
+/** Units of an item not allocated to any branch, i.e. held at the main clinic. */
+export const getMainStock = async (db: Prisma.TransactionClient, itemId: string) => {
+    const [item, allocated] = await Promise.all([
+        db.inventoryItem.findUnique({ where: { id: itemId }, select: { stock: true } }),
+        db.branchStock.aggregate({ where: { itemId }, _sum: { quantity: true } })
+    ]);
+    return (item?.stock || 0) - (allocated._sum.quantity || 0);
+};
@@ -1,17 +1,45 @@
 import nodemailer from 'nodemailer';
 
-// Configure this in your .env file
-const transporter = nodemailer.createTransport({
-  host: process.env.SMTP_HOST || 'smtp.gmail.com',
-  port: parseInt(process.env.SMTP_PORT || '587'),
-  secure: false, 
-  auth: {
-    user: process.env.SMTP_USER,
-    pass: process.env.SMTP_PASS,
-  },
-});
+// Configure this in your .env file.
+// Without SMTP credentials outside production (local dev / tests) messages are captured in memory instead of sent.
+// Production never falls back to capture: sending fails until SMTP is configured.
+const isProduction = process.env.NODE_ENV === 'production';
+const smtpConfigured = !!process.env.SMTP_USER;
+const useCapture = !smtpConfigured && !isProduction;
+
+const MAX_CAPTURED = 50;
+
+/** Messages captured instead of sent, newest last. Only filled outside production without SMTP. */
+export const capturedEmails: { to: string; subject: string; html: string }[] = [];
+
+const transporter = smtpConfigured
+  ? nodemailer.createTransport({
+      host: process.env.SMTP_HOST || 'smtp.gmail.com',
+      port: parseInt(process.env.SMTP_PORT || '587'),
+      secure: false,
+      auth: {
+        user: process.env.SMTP_USER,
+        pass: process.env.SMTP_PASS,
+      },
+    })
+  : null;
+
+/** For user-supplied text (names, notes) placed in an email body. */
+export const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
 
 export const sendEmail = async (to: string, subject: string, html: string) => {
+  if (useCapture) {
+    capturedEmails.push({ to, subject, html });
+    if (capturedEmails.length > MAX_CAPTURED) capturedEmails.shift();
+    // Bodies carry sign-in and reset links, so only the envelope is logged
+    console.log(`[EMAIL CAPTURE] To: ${to} | ${subject}`);
+    return true;
+  }
+  if (!transporter) {
+    console.error(`Email sending failed: SMTP is not configured (To: ${to} | ${subject})`);
+    return false;
+  }
   try {
     await transporter.sendMail({
       from: '"Vet Nexus Pro" <noreply@vetnexuspro.com>',
@@ -24,4 +52,4 @@ export const sendEmail = async (to: string, subject: string, html: string) => {
     console.error('Email sending failed:', error);
     return false;
   }
-};
\ No newline at end of file
+};
@@ -0,0 +1,75 @@
+// Minimal iCalendar (RFC 5545) writer for read-only appointment feeds.
+// All times are written in UTC, so no VTIMEZONE block is needed.
+
+export interface CalendarEvent {
+    uid: string;
+    start: Date;
+    end: Date;
+    summary: string;
+    description?: string;
+    location?: string;
+    status?: 'CONFIRMED' | 'TENTATIVE' | 'CANCELLED';
+    lastModified?: Date;
+}
+
+const CRLF = '\r\n';
+const MAX_LINE_OCTETS = 75;
+
+const formatUtc = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// TEXT values escape backslash, semicolon, comma and line breaks (3.3.11)
+export const escapeText = (value: string) =>
+    value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Lines longer than 75 octets continue on the next line after a single space (3.1); multi-byte characters are never split
+const foldLine = (line: string) => {
+    const parts: string[] = [];
+    let current = '';
+    let octets = 0;
+    for (const char of line) {
+        const size = Buffer.byteLength(char, 'utf8');
+        // Continuation lines start with a space, which counts towards their length
+        if (octets + size > MAX_LINE_OCTETS - (parts.length ? 1 : 0)) {
+            parts.push(current);
+            current = '';
+            octets = 0;
+        }
+        current += char;
+        octets += size;
+    }
+    parts.push(current);
+    return parts.join(`${CRLF} `);
+};
+
+export const buildCalendar = (name: string, events: CalendarEvent[], now = new Date()) => {
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'PRODID:-//Vet Nexus Pro//Appointments//EN',
+        'CALSCALE:GREGORIAN',
+        'METHOD:PUBLISH',
+        `X-WR-CALNAME:${escapeText(name)}`,
+        // Hint for subscribing clients; most poll on their own schedule anyway
+        'REFRESH-INTERVAL;VALUE=DURATION:PT15M',
+        'X-PUBLISHED-TTL:PT15M'
+    ];
+
+    for (const event of events) {
+        lines.push(
+            'BEGIN:VEVENT',
+            `UID:${event.uid}`,
+            `DTSTAMP:${formatUtc(now)}`,
+            `DTSTART:${formatUtc(event.start)}`,
+            `DTEND:${formatUtc(event.end)}`,
+            `SUMMARY:${escapeText(event.summary)}`
+        );
+        if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+        if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+        if (event.status) lines.push(`STATUS:${event.status}`);
+        if (event.lastModified) lines.push(`LAST-MODIFIED:${formatUtc(event.lastModified)}`);
+        lines.push('END:VEVENT');
+    }
+
+    lines.push('END:VCALENDAR');
+    return lines.map(foldLine).join(CRLF) + CRLF;
+};
@@ -1,3 +1,5 @@
+import { Prisma } from '@prisma/client';
+
 /**
  * Generates a formatted ID based on a pattern and a sequence number.
  * Pattern Examples: "HH/000/year" -> "HH/001/2025"
@@ -7,29 +9,65 @@ export const generateNextId = (pattern: string | null | undefined, sequenceNumbe
     if (!pattern) return sequenceNumber.toString();
 
     const currentYear = new Date().getFullYear().toString();
-    
-    // 2. Replace 'year' first (case insensitive)
-    // We do this first so that if the year is "2000", it doesn't interfere with the 000 padding later
-    let formatted = pattern.replace(/year/gi, currentYear);
 
-    // 3. Find the sequence of zeros to determine padding
-    // e.g. "HH/000/2025" matches "000"
-    const zeroMatch = formatted.match(/(0+)/);
+    // 2. Find the sequence of zeros to determine padding
+    // We look in the raw pattern so the zeros in a year like "2025" are never mistaken for the sequence
+    // e.g. "HH/000/year" matches "000"
+    const zeroMatch = pattern.match(/(0+)/);
 
     if (zeroMatch) {
         const placeholder = zeroMatch[1]; // "000"
         const paddingLength = placeholder.length; // 3
-        
+
         // Convert sequence to string with padding
         // 1 -> "001", 10 -> "010", 100 -> "100"
         const paddedNumber = sequenceNumber.toString().padStart(paddingLength, '0');
-        
-        // Replace ONLY the first occurrence of the zeros with the padded number
-        formatted = formatted.replace(placeholder, paddedNumber);
-    } else {
-        // If no zeros found in pattern (e.g. "INV-"), just append the number
-        formatted = `${formatted}${sequenceNumber}`;
+
+        // 3. Replace ONLY the first occurrence of the zeros, then 'year' (case insensitive) around it
+        const start = zeroMatch.index!;
+        const end = start + placeholder.length;
+        return pattern.slice(0, start).replace(/year/gi, currentYear)
+            + paddedNumber
+            + pattern.slice(end).replace(/year/gi, currentYear);
     }
 
-    return formatted;
-};
\ No newline at end of file
+    // If no zeros found in pattern (e.g. "INV-"), just append the number
+    return `${pattern.replace(/year/gi, currentYear)}${sequenceNumber}`;
+};
+
+// --- TENANT DOCUMENT NUMBERING ---
+
+export type DocumentType = 'client' | 'patient' | 'invoice' | 'receipt' | 'accession';
+
+// Clinic settings key holding each document's pattern, and the fallback when it is unset
+const PATTERNS: Record<DocumentType, { setting: string; fallback: string }> = {
+    client: { setting: 'clientPrefix', fallback: 'CL-' },
+    patient: { setting: 'patientPrefix', fallback: 'P-' },
+    invoice: { setting: 'invoicePrefix', fallback: 'INV-' },
+    receipt: { setting: 'receiptPrefix', fallback: 'REC-' },
+    accession: { setting: 'accessionPrefix', fallback: 'LAB-year-00000' }
+};
+
+/**
+ * Allocates the next number for a tenant's document type and formats it with the clinic's pattern.
+ * The counter is bumped with a single INSERT .. ON CONFLICT statement, so concurrent requests never
+ * receive the same value. Patterns containing "year" count per calendar year and restart at 1.
+ * Pass the surrounding transaction so a rolled-back write does not burn a number.
+ */
+export const nextDocumentNumber = async (db: Prisma.TransactionClient, tenantId: string, docType: DocumentType) => {
+    const tenant = await db.tenant.findUnique({ where: { id: tenantId }, select: { settings: true } });
+    let settings: any = {};
+    try { settings = JSON.parse(tenant?.settings || '{}'); } catch { /* fall back to defaults */ }
+
+    const pattern: string = settings[PATTERNS[docType].setting] || PATTERNS[docType].fallback;
+    const period = /year/i.test(pattern) ? new Date().getFullYear().toString() : 'all';
+
+    const [{ value }] = await db.$queryRaw<{ value: number }[]>`
+        INSERT INTO "DocumentCounter" ("tenantId", "docType", "period", "value", "updatedAt")
+        VALUES (${tenantId}, ${docType}, ${period}, 1, NOW())
+        ON CONFLICT ("tenantId", "docType", "period")
+        DO UPDATE SET "value" = "DocumentCounter"."value" + 1, "updatedAt" = NOW()
+        RETURNING "value"`;
+
+    return generateNextId(pattern, value);
+};
@@ -0,0 +1,153 @@
+// --- LAB TEST CATALOGUE ---
+// Built-in panels with per-species reference intervals. Species without a published interval
+// are stored unflagged rather than judged against another species' range.
+
+export type LabFlag = 'N' | 'L' | 'H' | 'LL' | 'HH' | 'A';
+
+const VALID_FLAGS: string[] = ['N', 'L', 'H', 'LL', 'HH', 'A'];
+
+export interface AnalyteDefinition {
+    code: string;
+    name: string;
+    unit?: string;
+    // Numeric analytes: [low, high] per species; critical limits apply to every species
+    ranges?: Record<string, [number, number]>;
+    critical?: [number | null, number | null];
+    // Qualitative analytes: accepted answers and the ones that are normal
+    options?: string[];
+    normal?: string[];
+}
+
+export interface LabTestDefinition {
+    code: string;
+    name: string;
+    category: 'Haematology' | 'Biochemistry' | 'Parasitology' | 'Urinalysis';
+    analytes: AnalyteDefinition[];
+}
+
+export const LAB_CATALOGUE: LabTestDefinition[] = [
+    {
+        code: 'CBC', name: 'Complete Blood Count', category: 'Haematology',
+        analytes: [
+            { code: 'WBC', name: 'White blood cells', unit: '10^9/L', ranges: { Dog: [6.0, 17.0], Cat: [5.5, 19.5] }, critical: [2.0, 50.0] },
+            { code: 'RBC', name: 'Red blood cells', unit: '10^12/L', ranges: { Dog: [5.5, 8.5], Cat: [5.0, 10.0] } },
+            { code: 'HGB', name: 'Haemoglobin', unit: 'g/dL', ranges: { Dog: [12.0, 18.0], Cat: [8.0, 15.0] }, critical: [5.0, null] },
+            { code: 'HCT', name: 'Haematocrit', unit: '%', ranges: { Dog: [37, 55], Cat: [30, 45] }, critical: [15, 70] },
+            { code: 'PLT', name: 'Platelets', unit: '10^9/L', ranges: { Dog: [200, 500], Cat: [300, 800] }, critical: [50, null] },
+            { code: 'NEU', name: 'Neutrophils', unit: '10^9/L', ranges: { Dog: [3.0, 11.5], Cat: [2.5, 12.5] }, critical: [0.5, null] },
+            { code: 'LYM', name: 'Lymphocytes', unit: '10^9/L', ranges: { Dog: [1.0, 4.8], Cat: [1.5, 7.0] } },
+            { code: 'EOS', name: 'Eosinophils', unit: '10^9/L', ranges: { Dog: [0.1, 1.25], Cat: [0.0, 1.5] } }
+        ]
+    },
+    {
+        code: 'CHEM', name: 'Chemistry Panel', category: 'Biochemistry',
+        analytes: [
+            { code: 'GLU', name: 'Glucose', unit: 'mg/dL', ranges: { Dog: [74, 143], Cat: [71, 159] }, critical: [40, 600] },
+            { code: 'BUN', name: 'Urea nitrogen', unit: 'mg/dL', ranges: { Dog: [7, 27], Cat: [16, 36] }, critical: [null, 120] },
+            { code: 'CREA', name: 'Creatinine', unit: 'mg/dL', ranges: { Dog: [0.5, 1.8], Cat: [0.8, 2.4] }, critical: [null, 8.0] },
+            { code: 'ALT', name: 'Alanine aminotransferase', unit: 'U/L', ranges: { Dog: [10, 125], Cat: [12, 130] } },
+            { code: 'ALP', name: 'Alkaline phosphatase', unit: 'U/L', ranges: { Dog: [23, 212], Cat: [14, 111] } },
+            { code: 'TP', name: 'Total protein', unit: 'g/dL', ranges: { Dog: [5.2, 8.2], Cat: [5.7, 8.9] } },
+            { code: 'ALB', name: 'Albumin', unit: 'g/dL', ranges: { Dog: [2.3, 4.0], Cat: [2.2, 4.0] }, critical: [1.5, null] },
+            { code: 'NA', name: 'Sodium', unit: 'mmol/L', ranges: { Dog: [144, 160], Cat: [150, 165] }, critical: [120, 180] },
+            { code: 'K', name: 'Potassium', unit: 'mmol/L', ranges: { Dog: [3.5, 5.8], Cat: [3.5, 5.8] }, critical: [2.5, 7.5] }
+        ]
+    },
+    {
+        code: 'PCV', name: 'PCV / Total Solids', category: 'Haematology',
+        analytes: [
+            { code: 'PCV', name: 'Packed cell volume', unit: '%', ranges: { Dog: [37, 55], Cat: [30, 45], Horse: [32, 52], Cow: [24, 46] }, critical: [15, 70] },
+            { code: 'TS', name: 'Total solids', unit: 'g/dL', ranges: { Dog: [6.0, 8.0], Cat: [6.0, 8.0], Horse: [6.0, 8.5], Cow: [6.0, 8.5] } }
+        ]
+    },
+    {
+        code: 'FEC', name: 'Faecal Parasitology', category: 'Parasitology',
+        analytes: [
+            { code: 'FLOAT', name: 'Faecal flotation', options: ['Negative', 'Positive'], normal: ['Negative'] },
+            { code: 'OVA', name: 'Ova identified', options: ['None seen', 'Ancylostoma', 'Toxocara', 'Trichuris', 'Isospora', 'Giardia', 'Other'], normal: ['None seen'] }
+        ]
+    },
+    {
+        code: 'BPS', name: 'Blood Parasite Smear', category: 'Parasitology',
+        analytes: [
+            { code: 'BABESIA', name: 'Babesia spp.', options: ['Not seen', 'Seen'], normal: ['Not seen'] },
+            { code: 'EHRLICHIA', name: 'Ehrlichia morulae', options: ['Not seen', 'Seen'], normal: ['Not seen'] },
+            { code: 'TRYPANOSOMA', name: 'Trypanosoma spp.', options: ['Not seen', 'Seen'], normal: ['Not seen'] }
+        ]
+    },
+    {
+        code: 'UA', name: 'Urinalysis', category: 'Urinalysis',
+        analytes: [
+            { code: 'USG', name: 'Urine specific gravity', ranges: { Dog: [1.015, 1.045], Cat: [1.035, 1.060] } },
+            { code: 'UPH', name: 'Urine pH', ranges: { Dog: [5.5, 7.5], Cat: [5.5, 7.5] } },
+            { code: 'UPRO', name: 'Protein (dipstick)', options: ['Negative', 'Trace', '1+', '2+', '3+'], normal: ['Negative', 'Trace'] },
+            { code: 'UGLU', name: 'Glucose (dipstick)', options: ['Negative', 'Positive'], normal: ['Negative'] }
+        ]
+    }
+];
+
+export const findLabTest = (code: string | null | undefined) =>
+    LAB_CATALOGUE.find(test => test.code === code);
+
+export const findAnalyte = (code: string) => {
+    for (const test of LAB_CATALOGUE) {
+        const analyte = test.analytes.find(a => a.code === code);
+        if (analyte) return analyte;
+    }
+    return undefined;
+};
+
+/** Flags one result against the species interval. Returns null when there is nothing to judge it by. */
+export const flagResult = (analyte: AnalyteDefinition, species: string, value: number | null, textValue: string | null): LabFlag | null => {
+    if (analyte.options) {
+        if (!textValue) return null;
+        return analyte.normal?.includes(textValue) ? 'N' : 'A';
+    }
+    if (value === null) return null;
+
+    // Critical limits are checked first: they hold regardless of species
+    const [critLow, critHigh] = analyte.critical || [null, null];
+    if (critLow !== null && value < critLow) return 'LL';
+    if (critHigh !== null && value > critHigh) return 'HH';
+
+    const range = analyte.ranges?.[species];
+    if (!range) return null;
+    if (value < range[0]) return 'L';
+    if (value > range[1]) return 'H';
+    return 'N';
+};
+
+/**
+ * Turns submitted { analyte, value } entries into rows ready to store. Catalogue analytes get
+ * their name, unit, reference range and flag filled in; unknown codes are kept as entered, with
+ * only the range and flag the analyzer reported (if any).
+ */
+export const buildResultValues = (entries: any[], species: string) => {
+    const rows = [];
+    for (const entry of entries) {
+        const code = String(entry?.analyte || '').trim();
+        if (!code) continue;
+
+        const definition = findAnalyte(code);
+        const raw = entry.value ?? entry.textValue;
+        if (raw === undefined || raw === null || String(raw).trim() === '') continue;
+
+        const numeric = Number(raw);
+        const isNumeric = !definition?.options && String(raw).trim() !== '' && !isNaN(numeric);
+        const value = isNumeric ? numeric : null;
+        const textValue = isNumeric ? null : String(raw).trim();
+        const range = definition?.ranges?.[species];
+
+        rows.push({
+            analyte: code,
+            name: definition?.name || entry.name || code,
+            unit: definition?.unit ?? entry.unit ?? null,
+            value,
+            textValue,
+            refLow: range ? range[0] : (typeof entry.refLow === 'number' ? entry.refLow : null),
+            refHigh: range ? range[1] : (typeof entry.refHigh === 'number' ? entry.refHigh : null),
+            flag: definition ? flagResult(definition, species, value, textValue) : (VALID_FLAGS.includes(entry.flag) ? entry.flag : null)
+        });
+    }
+    return rows;
+};
@@ -0,0 +1,213 @@
+// --- ANALYZER FILE PARSERS ---
+// HL7 v2 ORU^R01 and ASTM E1394 both come down to: who the sample belongs to, which order it
+// answers, and a list of observations. Each OBR (HL7) or O record (ASTM) becomes one group.
+
+export interface ParsedObservation {
+    code: string;
+    name?: string;
+    value: string;
+    unit?: string;
+    refRange?: string;
+    flag?: string;
+}
+
+export interface ParsedLabGroup {
+    format: 'HL7' | 'ASTM';
+    accession?: string;
+    patientId?: string;
+    patientName?: string;
+    testCode?: string;
+    testName?: string;
+    observedAt?: Date;
+    observations: ParsedObservation[];
+}
+
+export class LabParseError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'LabParseError';
+    }
+}
+
+const clean = (value: string | undefined) => {
+    const text = (value || '').trim();
+    return text || undefined;
+};
+
+// HL7 (YYYYMMDDHHMMSS) and ASTM (YYYYMMDDHHMMSS) share the same timestamp layout
+const parseTimestamp = (value: string | undefined) => {
+    const match = (value || '').match(/^(\d{4})(\d{2})(\d{2})(\d{2})?(\d{2})?(\d{2})?/);
+    if (!match) return undefined;
+    const [, y, mo, d, h = '00', mi = '00', s = '00'] = match;
+    const date = new Date(`${y}-${mo}-${d}T${h}:${mi}:${s}`);
+    return isNaN(date.getTime()) ? undefined : date;
+};
+
+// Analyzer abnormal flags mapped onto our N/L/H/LL/HH/A scale
+const normalizeFlag = (flag: string | undefined) => {
+    const value = (flag || '').trim().toUpperCase();
+    if (!value) return undefined;
+    if (['N', 'L', 'H', 'LL', 'HH', 'A'].includes(value)) return value;
+    if (value === '<') return 'LL';
+    if (value === '>') return 'HH';
+    if (value === 'AA') return 'A';
+    return undefined;
+};
+
+// --- HL7 v2 ---
+
+// Delimiters inside HL7 text are escaped, e.g. a unit of 10^9/L arrives as 10\S\9/L
+const HL7_ESCAPES: Record<string, string> = { F: '|', S: '^', T: '&', R: '~', E: '\\' };
+const unescapeHL7 = (value: string | undefined) =>
+    value?.replace(/\\([FSTRE])\\/g, (_, code: string) => HL7_ESCAPES[code]);
+
+export const parseHL7 = (content: string): ParsedLabGroup[] => {
+    const segments = content.split(/\r\n|\r|\n/).map(s => s.trim()).filter(Boolean);
+    const msh = segments.find(s => s.startsWith('MSH'));
+    if (!msh) throw new LabParseError('No MSH segment found');
+
+    // MSH-1 is the field separator and MSH-2 the encoding characters
+    const fieldSep = msh[3];
+    const componentSep = msh[4] || '^';
+    const component = (field: string | undefined, index: number) => unescapeHL7(clean((field || '').split(componentSep)[index]));
+
+    const groups: ParsedLabGroup[] = [];
+    let patientId: string | undefined;
+    let patientName: string | undefined;
+    let current: ParsedLabGroup | null = null;
+
+    for (const segment of segments) {
+        const fields = segment.split(fieldSep);
+        switch (fields[0]) {
+            case 'MSH': {
+                // MSH-9 sits at index 8 because MSH-1 is the separator itself; R30-R32 variants are accepted too
+                const type = fields[8] || '';
+                if (type && !type.startsWith('ORU')) {
+                    throw new LabParseError(`Unsupported HL7 message type ${type}; expected ORU^R01`);
+                }
+                patientId = patientName = undefined;
+                current = null;
+                break;
+            }
+            case 'PID':
+                // PID-3 patient identifier (first repetition), PID-5 name (family^given)
+                patientId = component(fields[3]?.split('~')[0], 0) || clean(fields[2]);
+                patientName = [component(fields[5], 1), component(fields[5], 0)].filter(Boolean).join(' ') || undefined;
+                break;
+            case 'OBR':
+                current = {
+                    format: 'HL7',
+                    // OBR-2 placer order number (our accession), falling back to OBR-3 filler number
+                    accession: component(fields[2], 0) || component(fields[3], 0),
+                    patientId,
+                    patientName,
+                    testCode: component(fields[4], 0),
+                    testName: component(fields[4], 1),
+                    observedAt: parseTimestamp(fields[7]),
+                    observations: []
+                };
+                groups.push(current);
+                break;
+            case 'OBX': {
+                if (!current) {
+                    // Some analyzers omit OBR; the observations still belong to the patient
+                    current = { format: 'HL7', patientId, patientName, observations: [] };
+                    groups.push(current);
+                }
+                const code = component(fields[3], 0);
+                const value = clean(fields[5]?.split(componentSep)[0]);
+                if (!code || value === undefined) break;
+                current.observations.push({
+                    code: code.toUpperCase(),
+                    name: component(fields[3], 1),
+                    value,
+                    unit: component(fields[6], 0),
+                    refRange: clean(fields[7]),
+                    flag: normalizeFlag(fields[8])
+                });
+                if (!current.observedAt) current.observedAt = parseTimestamp(fields[14]);
+                break;
+            }
+        }
+    }
+    return groups.filter(g => g.observations.length > 0);
+};
+
+// --- ASTM E1394 ---
+
+export const parseASTM = (content: string): ParsedLabGroup[] => {
+    const lines = content
+        .split(/\r\n|\r|\n/)
+        // Strip low-level framing (STX, frame number, ETX/ETB + checksum) if the file was captured raw
+        .map(line => line.replace(/[\x02\x03\x04\x05\x06\x15\x17]/g, '').replace(/^\d(?=[HPOR L]\|)/, '').trim())
+        .filter(Boolean);
+
+    const header = lines.find(l => l.startsWith('H'));
+    if (!header) throw new LabParseError('No ASTM header (H) record found');
+
+    // H|\^& declares field, repeat and component delimiters
+    const fieldSep = header[1];
+    const componentSep = header[3] || '^';
+    const component = (field: string | undefined, index: number) => clean((field || '').split(componentSep)[index]);
+
+    const groups: ParsedLabGroup[] = [];
+    let patientId: string | undefined;
+    let patientName: string | undefined;
+    let current: ParsedLabGroup | null = null;
+
+    for (const line of lines) {
+        const fields = line.split(fieldSep);
+        switch (fields[0]) {
+            case 'P':
+                // P.3 practice-assigned ID, else P.4 laboratory-assigned ID; P.6 name (last^first)
+                patientId = component(fields[2], 0) || component(fields[3], 0);
+                patientName = [component(fields[5], 1), component(fields[5], 0)].filter(Boolean).join(' ') || undefined;
+                current = null;
+                break;
+            case 'O':
+                current = {
+                    format: 'ASTM',
+                    // O.3 specimen ID is the accession printed on the request
+                    accession: component(fields[2], 0) || component(fields[3], 0),
+                    patientId,
+                    patientName,
+                    // O.5 universal test ID: ^^^code^name
+                    testCode: component(fields[4], 3),
+                    testName: component(fields[4], 4),
+                    observedAt: parseTimestamp(fields[6]),
+                    observations: []
+                };
+                groups.push(current);
+                break;
+            case 'R': {
+                if (!current) {
+                    current = { format: 'ASTM', patientId, patientName, observations: [] };
+                    groups.push(current);
+                }
+                // R.3 ^^^code^name, R.4 value, R.5 units, R.6 range, R.7 flag, R.13 completed at
+                const code = component(fields[2], 3) || component(fields[2], 0);
+                const value = clean(fields[3]?.split(componentSep)[0]);
+                if (!code || value === undefined) break;
+                current.observations.push({
+                    code: code.toUpperCase(),
+                    name: component(fields[2], 4),
+                    value,
+                    unit: clean(fields[4]),
+                    refRange: clean(fields[5]),
+                    flag: normalizeFlag(fields[6])
+                });
+                if (!current.observedAt) current.observedAt = parseTimestamp(fields[12]);
+                break;
+            }
+        }
+    }
+    return groups.filter(g => g.observations.length > 0);
+};
+
+/** Detects the format from the first record and parses the file. */
+export const parseLabFile = (content: string): ParsedLabGroup[] => {
+    const start = content.replace(/^[\s\x02\x05\x0b]+/, '').replace(/^\d(?=H\|)/, '');
+    if (start.startsWith('MSH')) return parseHL7(content);
+    if (start.startsWith('H')) return parseASTM(content);
+    throw new LabParseError('Unrecognised file: expected an HL7 v2 (MSH) or ASTM E1394 (H) message');
+};
@@ -1,3 +1,4 @@
+import { addMonths, addYears, format } from 'date-fns';
 import { prisma } from '../lib/prisma';
 
 // --- CONSTANTS ---
@@ -57,6 +58,38 @@ export const DEFAULT_PLANS = [
     }
 ];
 
+// --- PLAN & TENANT SHAPES ---
+
+// Plans are stored with JSON string columns; the frontend expects SubscriptionPlan
+export const serializePlan = (plan: { id: string; name: string; priceMonthly: number; priceYearly: number; features: string; limits: string }) => {
+    const parse = (value: string, fallback: any) => { try { return JSON.parse(value); } catch { return fallback; } };
+    return {
+        ...plan,
+        price: { Monthly: `NGN ${plan.priceMonthly.toLocaleString()}`, Yearly: `NGN ${plan.priceYearly.toLocaleString()}` },
+        features: parse(plan.features, []),
+        limits: parse(plan.limits, {})
+    };
+};
+
+export const buildClinicSettings = (clinicName: string, email: string, currency: string = 'USD') => JSON.stringify({
+    name: clinicName, email, address: '', phone: '', website: '',
+    currency, timezone: 'UTC', taxRate: 7.5, bankDetails: '',
+    clientPrefix: 'CL-', invoicePrefix: 'INV-', receiptPrefix: 'REC-', patientPrefix: 'P-',
+    accessionPrefix: 'LAB-year-00000'
+});
+
+// --- JSON COLUMNS ---
+
+/** Parses a JSON text column, returning the fallback when it is empty or malformed. */
+export const safeParse = (data: string | null | undefined, fallback: any) => {
+    if (!data) return fallback;
+    try { return JSON.parse(data); } catch { return fallback; }
+};
+
+// --- ID GENERATOR ---
+
+export const generateId = (prefix: string) => `${prefix}-${Date.now()}-${Math.floor(Math.random() * 1000)}`;
+
 // --- LOGGING HELPER ---
 
 export const createLog = async (tenantId: string, user: string, action: string, type: string, details: string = '') => {
@@ -66,6 +99,43 @@ export const createLog = async (tenantId: string, user: string, action: string,
     }).catch(e => console.error(`[LOG ERROR] Failed to log ${action}:`, e.message));
 };
 
+// --- PLAN ENFORCEMENT ERRORS ---
+
+export type PlanModule = 'pos' | 'lab' | 'ai' | 'reports' | 'print' | 'multiBranch';
+
+export class PlanLimitError extends Error {
+    constructor(
+        message: string,
+        public reason: 'LIMIT_REACHED' | 'MODULE_DISABLED' | 'ACCOUNT_RESTRICTED',
+        public details: { resource?: string; limit?: number; plan?: string } = {}
+    ) {
+        super(message);
+        this.name = 'PlanLimitError';
+    }
+
+    // Shape the frontend keys its upgrade prompt off
+    toResponse() {
+        return {
+            error: this.message,
+            code: 'PLAN_LIMIT',
+            reason: this.reason,
+            upgradeRequired: this.reason !== 'ACCOUNT_RESTRICTED',
+            ...this.details
+        };
+    }
+}
+
+const assertTenantActive = (tenant: { status: string }) => {
+    if (tenant.status === 'Restricted' || tenant.status === 'Suspended') {
+        throw new PlanLimitError("Account restricted. Please contact support or update payment.", 'ACCOUNT_RESTRICTED');
+    }
+};
+
+const getPlanLimits = async (planId: string) => {
+    const plan = await prisma.plan.findUnique({ where: { id: planId } });
+    return plan ? JSON.parse(plan.limits) : null;
+};
+
 // --- LIMITS & QUOTA CHECKER ---
 
 export const checkLimits = async (
@@ -86,21 +156,18 @@ export const checkLimits = async (
     if (!tenant) throw new Error("Tenant not found");
     
     // Check Status
-    if (tenant.status === 'Restricted' || tenant.status === 'Suspended') {
-        throw new Error("Account restricted. Please contact support or update payment.");
-    }
+    assertTenantActive(tenant);
 
     // Get Plan Limits
-    const plan = await prisma.plan.findUnique({ where: { id: tenant.plan } });
-    if (!plan) return tenant; // Fallback: If no plan found, assume unlimited (or handle error)
+    const limits = await getPlanLimits(tenant.plan);
+    if (!limits) return tenant; // Fallback: If no plan found, assume unlimited (or handle error)
 
-    const limits = JSON.parse(plan.limits);
     const maxStorageMB = (limits.maxStorageGB || 1) * 1024;
 
     // 1. Storage Check
     if (resourceType === 'storage') {
         if (tenant.storageUsed + incrementAmount > maxStorageMB) {
-            throw new Error(`Storage quota exceeded (${limits.maxStorageGB}GB limit).`);
+            throw new PlanLimitError(`Storage quota exceeded (${limits.maxStorageGB}GB limit).`, 'LIMIT_REACHED', { resource: 'storage', limit: limits.maxStorageGB, plan: tenant.plan });
         }
     }
 
@@ -108,7 +175,7 @@ export const checkLimits = async (
     if (resourceType === 'users' && limits.maxUsers !== -1) {
         // Current users + new user
         if ((tenant._count.users + incrementAmount) > limits.maxUsers) {
-            throw new Error(`User limit reached (${limits.maxUsers} users max). Upgrade plan.`);
+            throw new PlanLimitError(`User limit reached (${limits.maxUsers} users max). Upgrade plan.`, 'LIMIT_REACHED', { resource: 'users', limit: limits.maxUsers, plan: tenant.plan });
         }
     }
 
@@ -116,13 +183,58 @@ export const checkLimits = async (
     if (resourceType === 'clients' && limits.maxClients !== -1) {
         // Note: Using owners count as "clients"
         if ((tenant._count.owners + incrementAmount) > limits.maxClients) {
-            throw new Error(`Client limit reached (${limits.maxClients} clients max). Upgrade plan.`);
+            throw new PlanLimitError(`Client limit reached (${limits.maxClients} clients max). Upgrade plan.`, 'LIMIT_REACHED', { resource: 'clients', limit: limits.maxClients, plan: tenant.plan });
         }
     }
 
     return tenant;
 };
 
+// --- MODULE GATE ---
+
+export const checkModule = async (tenantId: string, module: PlanModule) => {
+    const tenant = await prisma.tenant.findUnique({ where: { id: tenantId } });
+    if (!tenant) throw new Error("Tenant not found");
+    assertTenantActive(tenant);
+
+    const limits = await getPlanLimits(tenant.plan);
+    // Modules missing from a plan's config are treated as included
+    if (limits?.modules?.[module] === false) {
+        throw new PlanLimitError(`The ${module.toUpperCase()} module is not included in the ${tenant.plan} plan. Upgrade plan.`, 'MODULE_DISABLED', { resource: module, plan: tenant.plan });
+    }
+    return { tenant, limits };
+};
+
+// --- AI USAGE METER ---
+
+export const consumeAiCall = async (tenantId: string) => {
+    const { tenant, limits } = await checkModule(tenantId, 'ai');
+    const aiLimit: number = limits?.modules?.aiLimit ?? -1;
+    const period = format(new Date(), 'yyyy-MM');
+
+    if (aiLimit === 0) {
+        throw new PlanLimitError(`AI calls are not included in the ${tenant.plan} plan. Upgrade plan.`, 'LIMIT_REACHED', { resource: 'ai', limit: 0, plan: tenant.plan });
+    }
+
+    // First call of a new month restarts the counter
+    const reset = await prisma.tenant.updateMany({
+        where: { id: tenantId, OR: [{ aiUsagePeriod: null }, { aiUsagePeriod: { not: period } }] },
+        data: { aiUsagePeriod: period, aiCallsUsed: 1 }
+    });
+    if (reset.count) return;
+
+    // Conditional increment keeps concurrent calls from overshooting the quota
+    const updated = await prisma.tenant.updateMany({
+        where: aiLimit > 0
+            ? { id: tenantId, aiUsagePeriod: period, aiCallsUsed: { lt: aiLimit } }
+            : { id: tenantId, aiUsagePeriod: period },
+        data: { aiCallsUsed: { increment: 1 } }
+    });
+    if (!updated.count) {
+        throw new PlanLimitError(`Monthly AI limit reached (${aiLimit} calls). Upgrade plan.`, 'LIMIT_REACHED', { resource: 'ai', limit: aiLimit, plan: tenant.plan });
+    }
+};
+
 // --- STORAGE TRACKER ---
 
 export const trackStorage = async (tenantId: string, mbUsed: number) => {
@@ -136,17 +248,29 @@ export const trackStorage = async (tenantId: string, mbUsed: number) => {
     }
 };
 
+// --- BILLING CYCLE ---
+
+export const getNextBillingDate = (billingPeriod: string, from: Date = new Date()): Date => {
+    return billingPeriod === 'Yearly' ? addYears(from, 1) : addMonths(from, 1);
+};
+
 // --- PAYMENT VERIFICATION ---
 
-export const verifyPayment = async (transactionId: string): Promise<boolean> => {
+// Plan prices are set in this currency, and checkout charges in it
+export const PLAN_CURRENCY = 'NGN';
+
+/** The plan price for a billing period, i.e. what a signup payment has to cover. */
+export const planPrice = (plan: { priceMonthly: number; priceYearly: number }, billingPeriod: string) =>
+    billingPeriod === 'Yearly' ? plan.priceYearly : plan.priceMonthly;
+
+/** Confirms with Flutterwave that the transaction succeeded and paid at least `expected.amount` in `expected.currency`. */
+// Development and trial codes that stand in for a payment outside production; they are not gateway transactions
+export const isMockPaymentRef = (transactionId: string) =>
+    process.env.NODE_ENV !== 'production' && (transactionId.startsWith('mock-') || transactionId === 'TRIAL');
+
+export const verifyPayment = async (transactionId: string, expected: { amount: number; currency: string }): Promise<boolean> => {
     try {
-        // Mock verification for Development or special Trial codes
-        if (
-            process.env.NODE_ENV !== 'production' && 
-            (transactionId.startsWith('mock-') || transactionId === 'TRIAL')
-        ) {
-            return true; 
-        }
+        if (isMockPaymentRef(transactionId)) return true;
 
         if (!process.env.FLUTTERWAVE_SECRET_KEY) {
             console.error("Missing FLUTTERWAVE_SECRET_KEY");
@@ -164,7 +288,8 @@ export const verifyPayment = async (transactionId: string): Promise<boolean> =>
         if (!response.ok) return false;
 
         const data = await response.json();
-        return data.status === 'success' && data.data.status === 'successful';
+        return data.status === 'success' && data.data.status === 'successful' &&
+            data.data.currency === expected.currency && Number(data.data.amount) >= expected.amount - 0.01;
     } catch (error) { 
         console.error("Payment verification failed", error);
         return false; 
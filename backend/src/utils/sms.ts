@@ -0,0 +1,36 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// Pluggable SMS delivery. A real provider (Twilio, Termii, Africa's Talking...) implements
+// SmsGateway and is installed with setSmsGateway() at startup. Without one, messages are
+// written to SMS_OUTBOX_FILE when set, otherwise logged to the console.
+export interface SmsGateway {
+  name: string;
+  // Resolves once the provider accepted the message; throws on failure so the caller can retry
+  send: (to: string, body: string) => Promise<void>;
+}
+
+const consoleGateway: SmsGateway = {
+  name: 'console',
+  send: async (to, body) => {
+    console.log(`[SMS CAPTURE] To: ${to}\n${body}`);
+  }
+};
+
+const fileGateway = (file: string): SmsGateway => ({
+  name: 'file',
+  send: async (to, body) => {
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.appendFile(file, JSON.stringify({ to, body, at: new Date().toISOString() }) + '\n');
+  }
+});
+
+let gateway: SmsGateway = process.env.SMS_OUTBOX_FILE ? fileGateway(process.env.SMS_OUTBOX_FILE) : consoleGateway;
+
+export const setSmsGateway = (next: SmsGateway) => {
+  gateway = next;
+};
+
+export const getSmsGateway = () => gateway;
+
+export const sendSms = (to: string, body: string) => gateway.send(to, body);
@@ -0,0 +1,65 @@
+// --- VACCINATION PROTOCOLS ---
+// Core vaccines per species: how many primary doses, how far apart, and the booster interval once
+// the primary course is done. Doses of a protocol are counted per pet to place each new dose.
+
+export interface VaccineProtocol {
+    code: string;
+    name: string;
+    species: string[];
+    // Primary course: number of doses and the gap between them
+    primaryDoses: number;
+    primaryIntervalDays: number;
+    // First booster after the primary course, then the regular booster interval
+    firstBoosterDays: number;
+    boosterDays: number;
+    // Lower-case fragments used to recognise the protocol from an inventory item name
+    keywords: string[];
+}
+
+export const VACCINE_PROTOCOLS: VaccineProtocol[] = [
+    { code: 'DHPP', name: 'DHPP (Distemper, Hepatitis, Parvovirus, Parainfluenza)', species: ['Dog'], primaryDoses: 3, primaryIntervalDays: 21, firstBoosterDays: 365, boosterDays: 1095, keywords: ['dhpp', 'dhlpp', 'da2pp', 'distemper', 'parvo'] },
+    { code: 'RABIES_DOG', name: 'Rabies', species: ['Dog'], primaryDoses: 1, primaryIntervalDays: 0, firstBoosterDays: 365, boosterDays: 365, keywords: ['rabies', 'rabisin', 'nobivac rabies'] },
+    { code: 'LEPTO', name: 'Leptospirosis', species: ['Dog'], primaryDoses: 2, primaryIntervalDays: 28, firstBoosterDays: 365, boosterDays: 365, keywords: ['lepto'] },
+    { code: 'KC', name: 'Kennel Cough (Bordetella)', species: ['Dog'], primaryDoses: 1, primaryIntervalDays: 0, firstBoosterDays: 365, boosterDays: 365, keywords: ['bordetella', 'kennel cough', 'kc'] },
+    { code: 'FVRCP', name: 'FVRCP (Feline Rhinotracheitis, Calicivirus, Panleukopenia)', species: ['Cat'], primaryDoses: 3, primaryIntervalDays: 21, firstBoosterDays: 365, boosterDays: 1095, keywords: ['fvrcp', 'tricat', 'panleuk'] },
+    { code: 'RABIES_CAT', name: 'Rabies', species: ['Cat'], primaryDoses: 1, primaryIntervalDays: 0, firstBoosterDays: 365, boosterDays: 365, keywords: ['rabies', 'rabisin', 'nobivac rabies'] },
+    { code: 'FELV', name: 'Feline Leukaemia (FeLV)', species: ['Cat'], primaryDoses: 2, primaryIntervalDays: 21, firstBoosterDays: 365, boosterDays: 365, keywords: ['felv', 'leukaemia', 'leukemia'] },
+    { code: 'ND', name: 'Newcastle Disease', species: ['Bird'], primaryDoses: 2, primaryIntervalDays: 21, firstBoosterDays: 90, boosterDays: 90, keywords: ['newcastle', 'lasota', 'nd'] },
+    { code: 'TETANUS', name: 'Tetanus', species: ['Horse'], primaryDoses: 2, primaryIntervalDays: 28, firstBoosterDays: 365, boosterDays: 730, keywords: ['tetanus'] },
+    { code: 'ANTHRAX', name: 'Anthrax', species: ['Cow'], primaryDoses: 1, primaryIntervalDays: 0, firstBoosterDays: 365, boosterDays: 365, keywords: ['anthrax'] },
+    { code: 'CBPP', name: 'Contagious Bovine Pleuropneumonia', species: ['Cow'], primaryDoses: 1, primaryIntervalDays: 0, firstBoosterDays: 365, boosterDays: 365, keywords: ['cbpp', 'pleuropneumonia'] }
+];
+
+export const findProtocol = (code: string | null | undefined) =>
+    VACCINE_PROTOCOLS.find(protocol => protocol.code === code);
+
+export const protocolsForSpecies = (species: string) =>
+    VACCINE_PROTOCOLS.filter(protocol => protocol.species.includes(species));
+
+/** Recognises a species' protocol from a product name, e.g. "Nobivac DHPP 1ml" -> DHPP. */
+export const matchProtocol = (productName: string, species: string) => {
+    const words = productName.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+    const text = words.join(' ');
+    return protocolsForSpecies(species).find(protocol =>
+        protocol.keywords.some(keyword => keyword.includes(' ') ? text.includes(keyword) : words.includes(keyword))
+    );
+};
+
+const addDays = (date: Date, days: number) => {
+    const next = new Date(date);
+    next.setDate(next.getDate() + days);
+    return next;
+};
+
+/**
+ * Places a dose in the protocol and works out when the next one is due.
+ * `previousDoses` counts the doses of this protocol the pet already has on record.
+ */
+export const scheduleNextDose = (protocol: VaccineProtocol, previousDoses: number, administeredAt: Date) => {
+    const doseNumber = previousDoses + 1;
+    let intervalDays: number;
+    if (doseNumber < protocol.primaryDoses) intervalDays = protocol.primaryIntervalDays;
+    else if (doseNumber === protocol.primaryDoses) intervalDays = protocol.firstBoosterDays;
+    else intervalDays = protocol.boosterDays;
+    return { doseNumber, dueDate: addDays(administeredAt, intervalDays) };
+};
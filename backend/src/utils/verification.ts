@@ -0,0 +1,85 @@
+import crypto from 'crypto';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { escapeHtml, sendEmail } from './email';
+
+// --- TOKEN TYPES ---
+// Staff tokens are keyed by email (unique across the platform),
+// portal tokens by owner id (the same email can exist in several clinics).
+
+export const TOKEN_TYPES = {
+    EMAIL_VERIFICATION: 'EMAIL_VERIFICATION',
+    PASSWORD_RESET: 'PASSWORD_RESET',
+    PORTAL_EMAIL_VERIFICATION: 'PORTAL_EMAIL_VERIFICATION',
+    PORTAL_PASSWORD_RESET: 'PORTAL_PASSWORD_RESET'
+} as const;
+
+export type TokenType = typeof TOKEN_TYPES[keyof typeof TOKEN_TYPES];
+
+const TOKEN_TTL_MS: Record<TokenType, number> = {
+    EMAIL_VERIFICATION: 24 * 60 * 60 * 1000,
+    PORTAL_EMAIL_VERIFICATION: 24 * 60 * 60 * 1000,
+    PASSWORD_RESET: 60 * 60 * 1000,
+    PORTAL_PASSWORD_RESET: 60 * 60 * 1000
+};
+
+// Only the hash is stored, so a leaked table can't be replayed
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+// --- ISSUE & CONSUME ---
+
+export const issueToken = async (
+    identifier: string,
+    type: TokenType,
+    db: Prisma.TransactionClient = prisma
+): Promise<string> => {
+    const token = crypto.randomBytes(32).toString('hex');
+    const data = { token: hashToken(token), expires: new Date(Date.now() + TOKEN_TTL_MS[type]) };
+
+    // One live token per identifier/type: issuing a new one invalidates the previous link
+    await db.verificationToken.upsert({
+        where: { identifier_type: { identifier, type } },
+        update: data,
+        create: { identifier, type, ...data }
+    });
+    return token;
+};
+
+/** Returns the identifier the token was issued for, or null if it is unknown or expired. Tokens are single-use. */
+export const consumeToken = async (token: string, type: TokenType): Promise<string | null> => {
+    if (!token) return null;
+    const record = await prisma.verificationToken.findFirst({ where: { token: hashToken(token), type } });
+    if (!record) return null;
+
+    // Whoever deletes the row owns the token; a concurrent request using the same link gets nothing
+    const { count } = await prisma.verificationToken.deleteMany({ where: { id: record.id, token: record.token } });
+    if (!count || record.expires < new Date()) return null;
+    return record.identifier;
+};
+
+// --- EMAILS ---
+
+const buildLink = (mode: 'verify' | 'reset', token: string, account: 'STAFF' | 'CLIENT') => {
+    const baseUrl = (process.env.CLIENT_URL || 'http://localhost:5173').replace(/\/$/, '');
+    return `${baseUrl}/?mode=${mode}&account=${account}&token=${token}`;
+};
+
+export const sendVerificationEmail = (to: string, name: string, token: string, account: 'STAFF' | 'CLIENT' = 'STAFF') => {
+    const link = buildLink('verify', token, account);
+    return sendEmail(to, 'Verify your email address', `
+        <p>Hello ${escapeHtml(name)},</p>
+        <p>Please confirm your email address for Vet Nexus Pro by clicking the link below. The link expires in 24 hours.</p>
+        <p><a href="${link}">Verify Email</a></p>
+        <p>If you did not create this account, you can ignore this message.</p>
+    `);
+};
+
+export const sendPasswordResetEmail = (to: string, name: string, token: string, account: 'STAFF' | 'CLIENT' = 'STAFF') => {
+    const link = buildLink('reset', token, account);
+    return sendEmail(to, 'Reset your password', `
+        <p>Hello ${escapeHtml(name)},</p>
+        <p>We received a request to reset your Vet Nexus Pro password. The link below expires in 1 hour and can only be used once.</p>
+        <p><a href="${link}">Choose a new password</a></p>
+        <p>If you did not request this, no action is needed.</p>
+    `);
+};
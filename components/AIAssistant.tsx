@@ -1,19 +1,25 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import { MessageSquare, Send, X, Bot, User } from 'lucide-react';
-import { askVetAssistant } from '../services/geminiService';
+import { MessageSquare, Send, X, Bot, User, AlertTriangle, PawPrint } from 'lucide-react';
+import { askVetAssistant, askAboutPatient } from '../services/geminiService';
+import { Pet, AssistantCitation, PatientAssistantAnswer } from '../types';
 
 interface Message {
   id: string;
   sender: 'user' | 'ai';
   text: string;
+  citations?: AssistantCitation[];
+  warnings?: PatientAssistantAnswer['warnings'];
 }
 
 interface AIAssistantProps {
     plan?: string;
+    // When set, questions are answered from this pet's medical record
+    patient?: Pet | null;
+    onClearPatient?: () => void;
 }
 
-const AIAssistant: React.FC<AIAssistantProps> = ({ plan }) => {
+const AIAssistant: React.FC<AIAssistantProps> = ({ plan, patient, onClearPatient }) => {
   const [isOpen, setIsOpen] = useState(false);
   const [messages, setMessages] = useState<Message[]>([
     { id: '1', sender: 'ai', text: 'Hello! I am your veterinary clinical assistant. How can I help you today? (Note: My outputs are for decision support only.)' }
@@ -28,6 +34,16 @@ const AIAssistant: React.FC<AIAssistantProps> = ({ plan }) => {
     }
   }, [messages, isOpen]);
 
+  // Opening the assistant for a new patient starts a fresh, record-grounded conversation
+  const lastPatientId = useRef<string | null>(null);
+  useEffect(() => {
+    if (!patient) { lastPatientId.current = null; return; }
+    setIsOpen(true);
+    if (lastPatientId.current === patient.id) return;
+    lastPatientId.current = patient.id;
+    setMessages([{ id: `ctx-${patient.id}`, sender: 'ai', text: `I have ${patient.name}'s record open: vitals, allergies, conditions, vaccinations, recent consultations and lab results. What would you like to know?` }]);
+  }, [patient]);
+
   // FEATURE GATE: No AI for Starter
   if (plan === 'Starter') {
       return null;
@@ -41,13 +57,23 @@ const AIAssistant: React.FC<AIAssistantProps> = ({ plan }) => {
     setInput('');
     setLoading(true);
 
-    const responseText = await askVetAssistant(input);
-    
-    setMessages(prev => [...prev, {
-      id: (Date.now() + 1).toString(),
-      sender: 'ai',
-      text: responseText
-    }]);
+    if (patient) {
+      const result = await askAboutPatient(patient.id, input);
+      setMessages(prev => [...prev, {
+        id: (Date.now() + 1).toString(),
+        sender: 'ai',
+        text: result.answer,
+        citations: result.citations,
+        warnings: result.warnings
+      }]);
+    } else {
+      const responseText = await askVetAssistant(input);
+      setMessages(prev => [...prev, {
+        id: (Date.now() + 1).toString(),
+        sender: 'ai',
+        text: responseText
+      }]);
+    }
     setLoading(false);
   };
 
@@ -75,6 +101,15 @@ const AIAssistant: React.FC<AIAssistantProps> = ({ plan }) => {
         </button>
       </div>
 
+      {patient && (
+        <div className="px-4 py-2 bg-indigo-50 border-b border-indigo-100 flex items-center justify-between text-xs">
+            <span className="flex items-center font-bold text-indigo-700"><PawPrint className="w-3.5 h-3.5 mr-1.5" /> {patient.name} ({patient.species})</span>
+            {onClearPatient && (
+                <button onClick={() => { onClearPatient(); setMessages(prev => prev.slice(0, 1)); }} className="text-slate-500 hover:text-slate-700 font-medium">General chat</button>
+            )}
+        </div>
+      )}
+
       {/* Messages */}
       <div className="flex-1 overflow-y-auto p-4 space-y-4 bg-slate-50" ref={scrollRef}>
         {messages.map(msg => (
@@ -84,7 +119,22 @@ const AIAssistant: React.FC<AIAssistantProps> = ({ plan }) => {
                     ? 'bg-primary-600 text-white rounded-br-none' 
                     : 'bg-white text-slate-700 border border-slate-100 rounded-bl-none'
                 }`}>
-                    {msg.text}
+                    <p className="whitespace-pre-wrap">{msg.text}</p>
+                    {msg.warnings && (msg.warnings.recordedAllergies.length > 0 || msg.warnings.allergies.length > 0 || msg.warnings.interactions.length > 0) && (
+                        <div className="mt-2 p-2 rounded-lg bg-rose-50 border border-rose-100 text-rose-700 text-xs space-y-1">
+                            <p className="font-bold flex items-center"><AlertTriangle className="w-3.5 h-3.5 mr-1" /> Allergy & interaction check</p>
+                            {msg.warnings.recordedAllergies.length > 0 && <p>Recorded allergies: {msg.warnings.recordedAllergies.join(', ')}</p>}
+                            {[...msg.warnings.allergies, ...msg.warnings.interactions].map((w, i) => <p key={i}>• {w}</p>)}
+                        </div>
+                    )}
+                    {msg.citations && msg.citations.length > 0 && (
+                        <div className="mt-2 pt-2 border-t border-slate-100 text-[11px] text-slate-500 space-y-0.5">
+                            <p className="font-bold uppercase tracking-wide">Sources</p>
+                            {msg.citations.map(c => (
+                                <p key={c.ref}>[{c.ref}] {c.label}{c.date && ` · ${new Date(c.date).toLocaleDateString()}`}</p>
+                            ))}
+                        </div>
+                    )}
                 </div>
             </div>
         ))}
@@ -106,7 +156,7 @@ const AIAssistant: React.FC<AIAssistantProps> = ({ plan }) => {
         <input 
             type="text" 
             className="flex-1 bg-slate-50 border border-slate-200 rounded-full px-4 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
-            placeholder="Ask about doses, differentials..."
+            placeholder={patient ? `Ask about ${patient.name}'s record...` : "Ask about doses, differentials..."}
             value={input}
             onChange={(e) => setInput(e.target.value)}
             onKeyDown={(e) => e.key === 'Enter' && handleSend()}
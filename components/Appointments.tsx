@@ -1,5 +1,5 @@
-import React, { useState } from 'react';
-import { Appointment, AppointmentStatus, Pet, Owner } from '../types';
+import React, { useState, useEffect } from 'react';
+import { Appointment, AppointmentBooking, AppointmentStatus, AppointmentChanges, AppointmentEvent, AppointmentScope, AppointmentType, Availability, Pet, Owner, RecurrenceRule, StaffMember, UserProfile } from '../types';
 import { 
   Calendar as CalendarIcon, 
   Clock, 
@@ -13,19 +13,276 @@ import {
   MapPin,
   PawPrint,
   CheckCircle2,
-  AlertCircle
+  AlertCircle,
+  XCircle,
+  UserX,
+  History,
+  LogIn,
+  Repeat,
+  CalendarClock
 } from 'lucide-react';
 import SegmentedControl from './SegmentedControl';
+import CalendarFeeds from './CalendarFeeds';
+import { format } from 'date-fns';
+import { AppointmentService, ScheduleService } from '../services/api';
 
 interface AppointmentsProps {
   appointments: Appointment[];
   pets: Pet[];
   owners: Owner[];
-  onAddAppointment: (appointment: Omit<Appointment, 'id' | 'tenantId'>) => void;
+  onAddAppointment: (appointment: AppointmentBooking) => Promise<boolean>;
+  onUpdateAppointment: (id: string, changes: AppointmentChanges) => Promise<boolean>;
+  currentUser: UserProfile;
+  staff: StaffMember[];
 }
 
-const Appointments: React.FC<AppointmentsProps> = ({ appointments, pets, owners, onAddAppointment }) => {
+// Mirrors the server's allowed status moves (services/appointment.service)
+const NEXT_STATUSES: Record<AppointmentStatus, AppointmentStatus[]> = {
+  [AppointmentStatus.Scheduled]: [AppointmentStatus.CheckedIn, AppointmentStatus.NoShow, AppointmentStatus.Cancelled],
+  [AppointmentStatus.CheckedIn]: [AppointmentStatus.Completed, AppointmentStatus.Cancelled],
+  [AppointmentStatus.Completed]: [],
+  [AppointmentStatus.Cancelled]: [],
+  [AppointmentStatus.NoShow]: []
+};
+
+interface Slot {
+  start: string;
+  doctorId: string;
+  doctorName: string;
+}
+
+// Open slots for a day from the vets' schedules; refetched as the reason (and so the visit length) changes
+const useAvailability = (date: string, reason: string, options: { durationMinutes?: number; excludeId?: string; pets?: number } = {}) => {
+  const [availability, setAvailability] = useState<Availability | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [version, setVersion] = useState(0);
+  const { durationMinutes, excludeId, pets } = options;
+
+  useEffect(() => {
+    if (!date) return;
+    let cancelled = false;
+    setLoading(true);
+    // Let typing in the reason field settle before asking
+    const timer = setTimeout(() => {
+      AppointmentService.getAvailability({ date, reason: reason || undefined, durationMinutes, excludeId, pets })
+        .then(res => { if (!cancelled) setAvailability(res.data); })
+        .catch(() => { if (!cancelled) setAvailability(null); })
+        .finally(() => { if (!cancelled) setLoading(false); });
+    }, 300);
+    return () => { cancelled = true; clearTimeout(timer); };
+  }, [date, reason, durationMinutes, excludeId, pets, version]);
+
+  return { availability, loading, reload: () => setVersion(v => v + 1) };
+};
+
+// --- SUB-COMPONENT: SLOT GRID (one row of open times per vet) ---
+const SlotGrid: React.FC<{ availability: Availability | null; loading: boolean; value: Slot | null; onChange: (slot: Slot) => void }> = ({ availability, loading, value, onChange }) => {
+  if (loading && !availability) return <p className="text-xs font-medium text-slate-400">Checking availability…</p>;
+  if (!availability?.doctors.length) return <p className="text-xs font-medium text-slate-500 p-3 bg-slate-50 rounded-xl border border-slate-200">No vets are working that day.</p>;
+
+  return (
+    <div className={`space-y-3 ${loading ? 'opacity-60' : ''}`}>
+      {availability.doctors.map(doctor => (
+        <div key={doctor.doctorId}>
+          <p className="text-xs font-bold text-slate-600 mb-1.5 flex items-center"><User className="w-3.5 h-3.5 mr-1.5 text-teal-500" />{doctor.doctorName}</p>
+          {doctor.slots.length ? (
+            <div className="flex flex-wrap gap-1.5">
+              {doctor.slots.map(slot => {
+                const selected = value?.start === slot.start && value?.doctorId === doctor.doctorId;
+                return (
+                  <button
+                    type="button"
+                    key={slot.start}
+                    onClick={() => onChange({ start: slot.start, doctorId: doctor.doctorId, doctorName: doctor.doctorName })}
+                    className={`px-2.5 py-1.5 rounded-lg text-xs font-bold border transition-colors ${selected ? 'bg-teal-600 text-white border-teal-600' : 'bg-slate-50 text-slate-700 border-slate-200 hover:border-teal-400'}`}
+                  >
+                    {new Date(slot.start).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                  </button>
+                );
+              })}
+            </div>
+          ) : (
+            <p className="text-xs text-slate-400">Fully booked</p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const SCOPE_OPTIONS: { label: string; scope: AppointmentScope }[] = [
+  { label: 'This visit', scope: 'this' },
+  { label: 'This & following', scope: 'following' },
+  { label: 'Whole series', scope: 'all' }
+];
+
+// --- SUB-COMPONENT: APPOINTMENT DETAIL (status actions, reschedule, history) ---
+const AppointmentDetail: React.FC<{
+  appointment: Appointment;
+  title: string;
+  subtitle: string;
+  canOpenConsultation: boolean;
+  onClose: () => void;
+  onUpdate: (changes: AppointmentChanges) => Promise<boolean>;
+}> = ({ appointment, title, subtitle, canOpenConsultation, onClose, onUpdate }) => {
+  const current = new Date(appointment.date);
+  const [history, setHistory] = useState<AppointmentEvent[]>([]);
+  const [openConsultation, setOpenConsultation] = useState(canOpenConsultation);
+  const [cancelReason, setCancelReason] = useState('');
+  const [isCancelling, setIsCancelling] = useState(false);
+  const [reschedule, setReschedule] = useState({ date: format(current, 'yyyy-MM-dd'), time: current.toTimeString().slice(0, 5) });
+  const [rescheduleSlot, setRescheduleSlot] = useState<Slot | null>(null);
+  // Cancelling or moving a series visit can carry on to the later ones
+  const [scope, setScope] = useState<AppointmentScope>('this');
+  const [isBusy, setIsBusy] = useState(false);
+  const { availability, loading, reload } = useAvailability(
+    appointment.status === AppointmentStatus.Scheduled ? reschedule.date : '',
+    appointment.reason,
+    { durationMinutes: appointment.durationMinutes, excludeId: appointment.id }
+  );
+
+  useEffect(() => {
+    AppointmentService.getHistory(appointment.id).then(res => setHistory(res.data)).catch(() => setHistory([]));
+  }, [appointment.id, appointment.status, appointment.date]);
+
+  const run = async (changes: AppointmentChanges) => {
+    setIsBusy(true);
+    const ok = await onUpdate(changes);
+    setIsBusy(false);
+    if (ok) setIsCancelling(false);
+    setRescheduleSlot(null);
+    reload();
+  };
+
+  const nextStatuses = NEXT_STATUSES[appointment.status] || [];
+  const rescheduledDate = new Date(`${reschedule.date}T${reschedule.time}`);
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/40 backdrop-blur-md z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-lg max-h-[90vh] overflow-y-auto animate-[scaleUp_0.3s_ease-out_forwards]">
+        <div className="px-6 py-5 bg-gradient-to-r from-teal-700 via-teal-600 to-amber-500 flex justify-between items-center text-white">
+          <div>
+            <h3 className="text-lg font-bold">{title}</h3>
+            <p className="text-teal-50 text-xs font-medium mt-1 opacity-90">{subtitle} · {current.toLocaleString(undefined, { weekday: 'short', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}</p>
+          </div>
+          <button onClick={onClose} className="w-8 h-8 rounded-full bg-white/20 hover:bg-white/30 flex items-center justify-center text-white">✕</button>
+        </div>
+
+        <div className="p-6 space-y-5">
+          <div className="flex items-center justify-between text-sm">
+            <span className="flex items-center font-semibold text-slate-700"><Stethoscope className="w-4 h-4 mr-2 text-teal-500" />{appointment.reason}</span>
+            <span className="text-[10px] uppercase tracking-widest font-extrabold text-teal-700 bg-teal-50 border border-teal-100 px-2 py-1 rounded-md">{appointment.status}</span>
+          </div>
+          {appointment.cancelReason && <p className="text-xs text-slate-500">Cancelled: {appointment.cancelReason}</p>}
+          {appointment.seriesId && appointment.status === AppointmentStatus.Scheduled && (
+            <div className="space-y-1.5">
+              <p className="text-xs font-semibold text-slate-500 flex items-center"><Repeat className="w-3.5 h-3.5 mr-1.5 text-teal-500" /> Part of a series{appointment.occurrence ? ` · visit ${appointment.occurrence}` : ''} — cancel and reschedule apply to:</p>
+              <SegmentedControl
+                options={SCOPE_OPTIONS.map(o => o.label)}
+                value={SCOPE_OPTIONS.find(o => o.scope === scope)!.label}
+                onChange={label => setScope(SCOPE_OPTIONS.find(o => o.label === label)!.scope)}
+              />
+            </div>
+          )}
+          {appointment.consultationId && <p className="text-xs font-semibold text-teal-700">Draft consultation opened — continue it under Treatments.</p>}
+
+          {nextStatuses.length > 0 && (
+            <div className="space-y-3">
+              <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wider">Actions</h4>
+              {nextStatuses.includes(AppointmentStatus.CheckedIn) && canOpenConsultation && (
+                <label className="flex items-center text-xs font-semibold text-slate-600">
+                  <input type="checkbox" className="mr-2 accent-teal-600" checked={openConsultation} onChange={e => setOpenConsultation(e.target.checked)} />
+                  Open a draft consultation on check-in
+                </label>
+              )}
+              <div className="flex flex-wrap gap-2">
+                {nextStatuses.includes(AppointmentStatus.CheckedIn) && (
+                  <button disabled={isBusy} onClick={() => run({ status: AppointmentStatus.CheckedIn, openConsultation: canOpenConsultation && openConsultation })} className="px-4 py-2 bg-teal-600 hover:bg-teal-700 text-white rounded-xl text-xs font-bold flex items-center disabled:opacity-50">
+                    <LogIn className="w-4 h-4 mr-1.5" /> Check In
+                  </button>
+                )}
+                {nextStatuses.includes(AppointmentStatus.Completed) && (
+                  <button disabled={isBusy} onClick={() => run({ status: AppointmentStatus.Completed })} className="px-4 py-2 bg-teal-600 hover:bg-teal-700 text-white rounded-xl text-xs font-bold flex items-center disabled:opacity-50">
+                    <CheckCircle2 className="w-4 h-4 mr-1.5" /> Complete
+                  </button>
+                )}
+                {nextStatuses.includes(AppointmentStatus.NoShow) && (
+                  <button disabled={isBusy} onClick={() => run({ status: AppointmentStatus.NoShow })} className="px-4 py-2 bg-amber-50 text-amber-700 border border-amber-200 rounded-xl text-xs font-bold flex items-center disabled:opacity-50">
+                    <UserX className="w-4 h-4 mr-1.5" /> No-Show
+                  </button>
+                )}
+                {nextStatuses.includes(AppointmentStatus.Cancelled) && !isCancelling && (
+                  <button disabled={isBusy} onClick={() => setIsCancelling(true)} className="px-4 py-2 bg-slate-100 text-slate-600 rounded-xl text-xs font-bold flex items-center disabled:opacity-50">
+                    <XCircle className="w-4 h-4 mr-1.5" /> Cancel Visit
+                  </button>
+                )}
+              </div>
+              {isCancelling && (
+                <div className="flex gap-2">
+                  <input value={cancelReason} onChange={e => setCancelReason(e.target.value)} placeholder="Reason (optional)" className="flex-1 p-2.5 bg-slate-50 border border-slate-200 rounded-xl text-sm outline-none" />
+                  <button disabled={isBusy} onClick={() => run({ status: AppointmentStatus.Cancelled, cancelReason, scope })} className="px-4 py-2 bg-rose-600 text-white rounded-xl text-xs font-bold disabled:opacity-50">Confirm</button>
+                  <button onClick={() => setIsCancelling(false)} className="px-3 py-2 text-slate-500 text-xs font-bold">Back</button>
+                </div>
+              )}
+            </div>
+          )}
+
+          {appointment.status === AppointmentStatus.Scheduled && (
+            <div className="space-y-2">
+              <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wider">Reschedule</h4>
+              {availability?.schedulesConfigured ? (
+                <>
+                  <div className="flex gap-2">
+                    <input type="date" value={reschedule.date} onChange={e => { setReschedule({ ...reschedule, date: e.target.value }); setRescheduleSlot(null); }} className="flex-1 p-2.5 bg-slate-50 border border-slate-200 rounded-xl text-sm outline-none" />
+                    <button
+                      disabled={isBusy || !rescheduleSlot}
+                      onClick={() => rescheduleSlot && run({ date: rescheduleSlot.start, doctorId: rescheduleSlot.doctorId, scope })}
+                      className="px-4 py-2 bg-slate-800 text-white rounded-xl text-xs font-bold disabled:opacity-50"
+                    >
+                      Move
+                    </button>
+                  </div>
+                  <SlotGrid availability={availability} loading={loading} value={rescheduleSlot} onChange={setRescheduleSlot} />
+                </>
+              ) : (
+                <div className="flex gap-2">
+                  <input type="date" value={reschedule.date} onChange={e => setReschedule({ ...reschedule, date: e.target.value })} className="flex-1 p-2.5 bg-slate-50 border border-slate-200 rounded-xl text-sm outline-none" />
+                  <input type="time" value={reschedule.time} onChange={e => setReschedule({ ...reschedule, time: e.target.value })} className="w-28 p-2.5 bg-slate-50 border border-slate-200 rounded-xl text-sm outline-none" />
+                  <button
+                    disabled={isBusy || isNaN(rescheduledDate.getTime()) || rescheduledDate.getTime() === current.getTime()}
+                    onClick={() => run({ date: rescheduledDate.toISOString(), scope })}
+                    className="px-4 py-2 bg-slate-800 text-white rounded-xl text-xs font-bold disabled:opacity-50"
+                  >
+                    Move
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
+
+          {history.length > 0 && (
+            <div>
+              <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2 flex items-center"><History className="w-3.5 h-3.5 mr-1.5" /> History</h4>
+              <ul className="space-y-1.5">
+                {history.map(event => (
+                  <li key={event.id} className="text-xs text-slate-600 flex justify-between gap-3">
+                    <span><span className="font-bold text-slate-800">{event.action}</span>{event.details ? ` · ${event.action === 'Rescheduled' ? event.details.split(' → ').map(d => new Date(d).toLocaleString()).join(' → ') : event.details}` : ''}</span>
+                    <span className="shrink-0 text-slate-400">{event.actorName} · {new Date(event.createdAt).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const Appointments: React.FC<AppointmentsProps> = ({ appointments, pets, owners, onAddAppointment, onUpdateAppointment, currentUser, staff }) => {
   const [isModalOpen, setIsModalOpen] = useState(false);
+  const [isFeedsOpen, setIsFeedsOpen] = useState(false);
+  const [selectedAppointmentId, setSelectedAppointmentId] = useState<string | null>(null);
   const [clientMode, setClientMode] = useState('Registered Client');
   
   const [formData, setFormData] = useState({
@@ -33,10 +290,29 @@ const Appointments: React.FC<AppointmentsProps> = ({ appointments, pets, owners,
     time: '09:00',
     ownerId: '',
     walkInName: '',
-    petId: '',
+    petIds: [] as string[],
     reason: '',
     doctorName: '' 
   });
+  // Repeat: '' books a single visit
+  const [repeat, setRepeat] = useState({ frequency: '' as '' | RecurrenceRule['frequency'], interval: 1, end: 'count' as 'count' | 'until', count: 4, until: '' });
+  const [slot, setSlot] = useState<Slot | null>(null);
+  const [appointmentTypes, setAppointmentTypes] = useState<AppointmentType[]>([]);
+  // Several pets are seen back to back, so the slot has to fit all of them
+  const { availability, loading: availabilityLoading, reload: reloadAvailability } = useAvailability(
+    isModalOpen ? formData.date : '',
+    formData.reason,
+    { pets: Math.max(formData.petIds.length, 1) }
+  );
+  // Clinics that haven't set up schedules yet keep booking by free time and provider name
+  const bookBySlot = !!availability?.schedulesConfigured;
+
+  useEffect(() => {
+    ScheduleService.getTypes().then(res => setAppointmentTypes(res.data)).catch(() => setAppointmentTypes([]));
+  }, []);
+
+  // A slot is only good for the day and visit length it was offered for
+  useEffect(() => { setSlot(null); }, [formData.date, availability?.durationMinutes]);
   
   const [ownerSearch, setOwnerSearch] = useState('');
   
@@ -49,28 +325,47 @@ const Appointments: React.FC<AppointmentsProps> = ({ appointments, pets, owners,
   const ownerPets = pets.filter(p => p.ownerId === formData.ownerId);
   const isWalkIn = clientMode === 'Walk-in Guest';
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!isWalkIn && !formData.ownerId) return;
     if (isWalkIn && !formData.walkInName) return;
+    if (bookBySlot && !slot) return;
+    if (!isWalkIn && repeat.frequency && formData.petIds.length === 0) return;
 
-    const dateTime = new Date(`${formData.date}T${formData.time}`);
+    const dateTime = bookBySlot ? new Date(slot!.start) : new Date(`${formData.date}T${formData.time}`);
+    const petIds = isWalkIn ? [] : formData.petIds;
+    const recurrence: RecurrenceRule | undefined = !isWalkIn && repeat.frequency ? {
+      frequency: repeat.frequency,
+      interval: repeat.interval,
+      ...(repeat.end === 'until' ? { until: repeat.until } : { count: repeat.count })
+    } : undefined;
     
-    onAddAppointment({
+    const ok = await onAddAppointment({
       ownerId: isWalkIn ? null : formData.ownerId,
       walkInName: isWalkIn ? formData.walkInName : undefined,
-      petId: isWalkIn ? undefined : (formData.petId || undefined),
+      petId: petIds[0],
+      petIds: petIds.length > 1 || recurrence ? petIds : undefined,
+      recurrence,
       date: dateTime.toISOString(),
       reason: formData.reason,
       status: AppointmentStatus.Scheduled,
-      doctorName: formData.doctorName || 'Unassigned'
+      doctorId: bookBySlot ? slot!.doctorId : undefined,
+      doctorName: bookBySlot ? slot!.doctorName : (formData.doctorName || 'Unassigned')
     });
+    // On a clash the form stays open with fresh slots to pick from
+    if (!ok) {
+      setSlot(null);
+      reloadAvailability();
+      return;
+    }
 
     setIsModalOpen(false);
+    setSlot(null);
+    setRepeat(prev => ({ ...prev, frequency: '' }));
     setFormData(prev => ({ 
       ...prev, 
       ownerId: '', 
-      petId: '', 
+      petIds: [], 
       reason: '', 
       walkInName: '',
       doctorName: '' 
@@ -78,6 +373,8 @@ const Appointments: React.FC<AppointmentsProps> = ({ appointments, pets, owners,
     setOwnerSearch('');
   };
 
+  const selectedAppointment = appointments.find(a => a.id === selectedAppointmentId);
+
   const hours = Array.from({ length: 11 }, (_, i) => i + 8); // 8 AM to 6 PM
 
   const getAppointmentsForHour = (hour: number) => {
@@ -109,6 +406,15 @@ const Appointments: React.FC<AppointmentsProps> = ({ appointments, pets, owners,
             border: 'border-l-[3px] border-l-teal-500',
             statusColor: 'text-teal-700'
         };
+      case AppointmentStatus.NoShow:
+        return {
+            card: 'bg-amber-50/60 border-amber-200 opacity-80',
+            text: 'text-amber-900',
+            icon: 'text-amber-500',
+            tag: 'bg-white text-amber-700 border border-amber-200',
+            border: 'border-l-[3px] border-l-amber-400',
+            statusColor: 'text-amber-600'
+        };
       case AppointmentStatus.Cancelled:
         return {
             card: 'bg-slate-50 border-slate-200 opacity-70 grayscale',
@@ -158,6 +464,13 @@ const Appointments: React.FC<AppointmentsProps> = ({ appointments, pets, owners,
                 <Filter className="w-4 h-4 mr-2 text-slate-400 group-hover:text-teal-500" /> 
                 Filter
             </button>
+            <button 
+                onClick={() => setIsFeedsOpen(true)}
+                className="flex-1 md:flex-none justify-center px-4 py-2 text-sm font-semibold text-slate-600 bg-white hover:bg-slate-50 hover:text-teal-700 rounded-xl border border-slate-300 shadow-sm transition-all duration-200 flex items-center group active:scale-95"
+            >
+                <CalendarClock className="w-4 h-4 mr-2 text-slate-400 group-hover:text-teal-500" /> 
+                Subscribe
+            </button>
             <button 
                 onClick={() => setIsModalOpen(true)}
                 className="flex-1 md:flex-none justify-center px-5 py-2 text-sm font-bold text-white bg-gradient-to-r from-teal-600 to-teal-700 hover:from-teal-500 hover:to-teal-600 rounded-xl shadow-lg shadow-teal-700/20 hover:shadow-teal-700/30 hover:-translate-y-0.5 active:scale-95 transition-all duration-300 flex items-center border-t border-white/20"
@@ -195,6 +508,7 @@ const Appointments: React.FC<AppointmentsProps> = ({ appointments, pets, owners,
                                     return (
                                         <div 
                                           key={apt.id} 
+                                          onClick={() => setSelectedAppointmentId(apt.id)}
                                           className={`
                                             relative p-3 md:p-4 rounded-xl border transition-all duration-300 cursor-pointer
                                             flex flex-col justify-between group/card
@@ -245,6 +559,19 @@ const Appointments: React.FC<AppointmentsProps> = ({ appointments, pets, owners,
         </div>
       </div>
 
+      {selectedAppointment && (
+          <AppointmentDetail
+              appointment={selectedAppointment}
+              title={pets.find(p => p.id === selectedAppointment.petId)?.name || selectedAppointment.walkInName || 'Walk-in'}
+              subtitle={owners.find(o => o.id === selectedAppointment.ownerId)?.name || 'Guest'}
+              canOpenConsultation={!!selectedAppointment.petId && !!selectedAppointment.ownerId && !selectedAppointment.consultationId}
+              onClose={() => setSelectedAppointmentId(null)}
+              onUpdate={changes => onUpdateAppointment(selectedAppointment.id, changes)}
+          />
+      )}
+
+      {isFeedsOpen && <CalendarFeeds currentUser={currentUser} staff={staff} onClose={() => setIsFeedsOpen(false)} />}
+
       {/* MODAL */}
       {isModalOpen && (
           <div className="fixed inset-0 bg-slate-900/40 backdrop-blur-md z-50 flex items-center justify-center p-4 transition-all duration-500">
@@ -266,15 +593,17 @@ const Appointments: React.FC<AppointmentsProps> = ({ appointments, pets, owners,
                            <SegmentedControl options={['Registered Client', 'Walk-in Guest']} value={clientMode} onChange={setClientMode} />
                       </div>
 
-                      <div className="grid grid-cols-2 gap-4 md:gap-6">
+                      <div className={`grid gap-4 md:gap-6 ${bookBySlot ? 'grid-cols-1' : 'grid-cols-2'}`}>
                           <div>
                               <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-2 ml-1">Date</label>
                               <input type="date" required className="w-full px-3 py-3 bg-slate-50 border border-slate-200 rounded-xl text-sm font-semibold text-slate-700 focus:ring-2 focus:ring-teal-500 outline-none" value={formData.date} onChange={e => setFormData({...formData, date: e.target.value})} />
                           </div>
+                          {!bookBySlot && (
                           <div>
                               <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-2 ml-1">Time</label>
                               <input type="time" required className="w-full px-3 py-3 bg-slate-50 border border-slate-200 rounded-xl text-sm font-semibold text-slate-700 focus:ring-2 focus:ring-teal-500 outline-none" value={formData.time} onChange={e => setFormData({...formData, time: e.target.value})} />
                           </div>
+                          )}
                       </div>
 
                       {/* ... rest of the form logic is responsive ... */}
@@ -298,7 +627,7 @@ const Appointments: React.FC<AppointmentsProps> = ({ appointments, pets, owners,
                                             <span className="text-xs text-teal-600/80 font-medium">Registered Client</span>
                                           </div>
                                       </div>
-                                      <button type="button" onClick={() => setFormData({...formData, ownerId: '', petId: ''})} className="text-xs font-bold text-teal-600 bg-white px-3 py-1.5 rounded-lg border border-teal-100 ml-2">Change</button>
+                                      <button type="button" onClick={() => setFormData({...formData, ownerId: '', petIds: []})} className="text-xs font-bold text-teal-600 bg-white px-3 py-1.5 rounded-lg border border-teal-100 ml-2">Change</button>
                                   </div>
                               ) : (
                                   <div className="relative group">
@@ -322,22 +651,69 @@ const Appointments: React.FC<AppointmentsProps> = ({ appointments, pets, owners,
 
                       {!isWalkIn && formData.ownerId && (
                           <div className="animate-[fadeIn_0.3s_ease-out]">
-                              <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-2 ml-1">Select Patient</label>
-                              <div className="relative">
-                                  <select className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl text-sm font-semibold outline-none text-slate-700 appearance-none" value={formData.petId} onChange={e => setFormData({...formData, petId: e.target.value})}>
-                                      <option value="">No specific patient / TBD</option>
-                                      {ownerPets.map(pet => <option key={pet.id} value={pet.id}>{pet.name} ({pet.species})</option>)}
+                              <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-2 ml-1">Patients <span className="normal-case tracking-normal font-semibold text-slate-400">· none selected = TBD</span></label>
+                              <div className="flex flex-wrap gap-2">
+                                  {ownerPets.map(pet => {
+                                      const checked = formData.petIds.includes(pet.id);
+                                      return (
+                                          <button
+                                              type="button"
+                                              key={pet.id}
+                                              onClick={() => setFormData({ ...formData, petIds: checked ? formData.petIds.filter(id => id !== pet.id) : [...formData.petIds, pet.id] })}
+                                              className={`px-3 py-2 rounded-xl text-xs font-bold border transition-colors ${checked ? 'bg-teal-600 text-white border-teal-600' : 'bg-slate-50 text-slate-700 border-slate-200 hover:border-teal-400'}`}
+                                          >
+                                              {pet.name} <span className={checked ? 'text-teal-100' : 'text-slate-400'}>({pet.type === 'Herd' ? 'Herd' : pet.species})</span>
+                                          </button>
+                                      );
+                                  })}
+                                  {ownerPets.length === 0 && <p className="text-xs text-slate-400">No registered patients for this client.</p>}
+                              </div>
+                              {formData.petIds.length > 1 && <p className="text-[11px] text-slate-500 mt-1.5 ml-1">Seen back to back, in the order picked.</p>}
+                          </div>
+                      )}
+
+                      {!isWalkIn && formData.ownerId && (
+                          <div className="space-y-2">
+                              <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider ml-1 flex items-center"><Repeat className="w-3.5 h-3.5 mr-1.5" /> Repeat</label>
+                              <div className="flex flex-wrap items-center gap-2">
+                                  <select className="p-2.5 bg-slate-50 border border-slate-200 rounded-xl text-sm font-semibold outline-none text-slate-700" value={repeat.frequency} onChange={e => setRepeat({ ...repeat, frequency: e.target.value as typeof repeat.frequency })}>
+                                      <option value="">Does not repeat</option>
+                                      <option value="Weekly">Weekly</option>
+                                      <option value="Monthly">Monthly</option>
                                   </select>
-                                  <div className="absolute inset-y-0 right-0 pr-4 flex items-center pointer-events-none text-slate-500"><ChevronRight className="w-4 h-4 rotate-90" /></div>
+                                  {repeat.frequency && (
+                                      <>
+                                          <span className="text-xs text-slate-500">every</span>
+                                          <input type="number" min={1} max={12} className="w-16 p-2.5 bg-slate-50 border border-slate-200 rounded-xl text-sm font-semibold outline-none" value={repeat.interval} onChange={e => setRepeat({ ...repeat, interval: Number(e.target.value) || 1 })} />
+                                          <span className="text-xs text-slate-500">{repeat.frequency === 'Weekly' ? 'week(s)' : 'month(s)'},</span>
+                                          <select className="p-2.5 bg-slate-50 border border-slate-200 rounded-xl text-sm font-semibold outline-none text-slate-700" value={repeat.end} onChange={e => setRepeat({ ...repeat, end: e.target.value as typeof repeat.end })}>
+                                              <option value="count">for</option>
+                                              <option value="until">until</option>
+                                          </select>
+                                          {repeat.end === 'count' ? (
+                                              <>
+                                                  <input type="number" min={1} max={52} className="w-16 p-2.5 bg-slate-50 border border-slate-200 rounded-xl text-sm font-semibold outline-none" value={repeat.count} onChange={e => setRepeat({ ...repeat, count: Number(e.target.value) || 1 })} />
+                                                  <span className="text-xs text-slate-500">visits</span>
+                                              </>
+                                          ) : (
+                                              <input type="date" required min={formData.date} className="p-2.5 bg-slate-50 border border-slate-200 rounded-xl text-sm font-semibold outline-none" value={repeat.until} onChange={e => setRepeat({ ...repeat, until: e.target.value })} />
+                                          )}
+                                      </>
+                                  )}
                               </div>
+                              {repeat.frequency && formData.petIds.length === 0 && <p className="text-[11px] text-amber-600 ml-1">Pick at least one patient for a repeating booking.</p>}
                           </div>
                       )}
 
-                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 md:gap-6">
+                      <div className={`grid grid-cols-1 gap-4 md:gap-6 ${bookBySlot ? '' : 'md:grid-cols-2'}`}>
                         <div>
-                            <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-2 ml-1">Reason</label>
-                            <input type="text" required className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl text-sm font-semibold outline-none focus:ring-2 focus:ring-teal-500" placeholder="e.g. Vaccination" value={formData.reason} onChange={e => setFormData({...formData, reason: e.target.value})} />
+                            <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-2 ml-1">Reason{availability ? <span className="normal-case tracking-normal font-semibold text-slate-400"> · {availability.durationMinutes} min</span> : null}</label>
+                            <input type="text" required list="appointment-types" className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl text-sm font-semibold outline-none focus:ring-2 focus:ring-teal-500" placeholder="e.g. Vaccination" value={formData.reason} onChange={e => setFormData({...formData, reason: e.target.value})} />
+                            <datalist id="appointment-types">
+                                {appointmentTypes.map(type => <option key={type.id} value={type.name}>{type.durationMinutes} min</option>)}
+                            </datalist>
                         </div>
+                        {!bookBySlot && (
                         <div>
                             <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-2 ml-1">Provider</label>
                             <div className="relative">
@@ -345,10 +721,18 @@ const Appointments: React.FC<AppointmentsProps> = ({ appointments, pets, owners,
                                 <div className="absolute inset-y-0 right-0 pr-4 flex items-center pointer-events-none text-slate-400"><User className="w-4 h-4" /></div>
                             </div>
                         </div>
+                        )}
                       </div>
 
+                      {bookBySlot && (
+                          <div>
+                              <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-2 ml-1">Available Times</label>
+                              <SlotGrid availability={availability} loading={availabilityLoading} value={slot} onChange={setSlot} />
+                          </div>
+                      )}
+
                       <div className="pt-2">
-                          <button type="submit" disabled={!isWalkIn && !formData.ownerId} className="w-full bg-gradient-to-r from-teal-600 to-amber-500 hover:from-teal-700 hover:to-amber-600 text-white py-4 rounded-xl font-bold text-sm shadow-lg disabled:opacity-50 transition-all flex justify-center items-center">
+                          <button type="submit" disabled={(!isWalkIn && !formData.ownerId) || (bookBySlot && !slot) || (!isWalkIn && !!repeat.frequency && formData.petIds.length === 0)} className="w-full bg-gradient-to-r from-teal-600 to-amber-500 hover:from-teal-700 hover:to-amber-600 text-white py-4 rounded-xl font-bold text-sm shadow-lg disabled:opacity-50 transition-all flex justify-center items-center">
                               <CalendarCheck className="w-5 h-5 mr-2" /> Confirm Schedule
                           </button>
                       </div>
@@ -1,8 +1,8 @@
-import React, { useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import React, { useState, useEffect } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { Tenant, UserProfile, SubscriptionTier, BillingPeriod, SubscriptionPlan } from '../types';
-import { Shield, Mail, Lock, AlertCircle, User, ShieldCheck, PawPrint } from 'lucide-react';
-import { ClientPortalService } from '../services/api';
+import { Shield, Mail, Lock, AlertCircle, User, ShieldCheck, PawPrint, KeyRound, MailCheck, ArrowLeft } from 'lucide-react';
+import { AuthService, ClientPortalService } from '../services/api';
 
 interface AuthProps {
   onLogin: (email: string, password: string) => Promise<boolean>;
@@ -99,18 +99,109 @@ const getCurrencyForCountry = (country: string): string => {
     return map[country] || 'USD'; // Default to USD
 };
 
+type AuthMode = 'login' | 'signup' | 'forgot' | 'reset' | 'verify';
+
 export const Auth: React.FC<AuthProps> = ({ onLogin, onSignup, plans = DEFAULT_PLANS }) => {
   const navigate = useNavigate();
-  const [mode, setMode] = useState<'login' | 'signup'>('login');
+
+  // Emailed links land here as /?mode=reset|verify&account=STAFF|CLIENT&token=...
+  const [searchParams, setSearchParams] = useSearchParams();
+  const linkMode = searchParams.get('mode');
+  const linkToken = searchParams.get('token') || '';
+  const [mode, setMode] = useState<AuthMode>(linkMode === 'reset' || linkMode === 'verify' ? linkMode : 'login');
   
   // --- USER TYPE TOGGLE ---
-  const [userType, setUserType] = useState<'STAFF' | 'CLIENT'>('STAFF');
+  const [userType, setUserType] = useState<'STAFF' | 'CLIENT'>(searchParams.get('account') === 'CLIENT' ? 'CLIENT' : 'STAFF');
 
   const [loginEmail, setLoginEmail] = useState('');
   const [loginPass, setLoginPass] = useState('');
   const [loginError, setLoginError] = useState('');
   const [isLoggingIn, setIsLoggingIn] = useState(false);
 
+  // --- RECOVERY & VERIFICATION ---
+  const [recoveryEmail, setRecoveryEmail] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmNewPassword, setConfirmNewPassword] = useState('');
+  const [recoveryMessage, setRecoveryMessage] = useState('');
+  const [recoveryError, setRecoveryError] = useState('');
+  const [isSubmittingRecovery, setIsSubmittingRecovery] = useState(false);
+  const [verifyStatus, setVerifyStatus] = useState<'idle' | 'verifying' | 'success' | 'failed'>('idle');
+
+  const accountService = userType === 'CLIENT' ? ClientPortalService : AuthService;
+
+  useEffect(() => {
+      if (mode !== 'verify' || !linkToken) return;
+      setVerifyStatus('verifying');
+      accountService.confirmEmail(linkToken)
+          .then(() => setVerifyStatus('success'))
+          .catch((err: any) => {
+              setRecoveryError(err.message || 'Verification link is invalid or has expired.');
+              setVerifyStatus('failed');
+          });
+  }, []);
+
+  const switchMode = (next: AuthMode) => {
+      setMode(next);
+      setRecoveryMessage('');
+      setRecoveryError('');
+      setLoginError('');
+      // Drop the one-time token from the address bar once we leave the link flow
+      if (searchParams.has('token')) setSearchParams({});
+  };
+
+  const handleForgotSubmit = async (e: React.FormEvent) => {
+      e.preventDefault();
+      setRecoveryError('');
+      setIsSubmittingRecovery(true);
+      try {
+          await accountService.forgotPassword(recoveryEmail);
+          setRecoveryMessage('If an account exists for that email, a reset link is on its way. It expires in 1 hour.');
+      } catch (err: any) {
+          setRecoveryError(err.message || 'Could not send reset link.');
+      } finally {
+          setIsSubmittingRecovery(false);
+      }
+  };
+
+  const handleResendVerification = async (e: React.FormEvent) => {
+      e.preventDefault();
+      setRecoveryError('');
+      setIsSubmittingRecovery(true);
+      try {
+          await accountService.requestVerification(recoveryEmail);
+          setRecoveryMessage('If that email still needs verification, a new link has been sent.');
+      } catch (err: any) {
+          setRecoveryError(err.message || 'Could not send verification link.');
+      } finally {
+          setIsSubmittingRecovery(false);
+      }
+  };
+
+  const handleResetSubmit = async (e: React.FormEvent) => {
+      e.preventDefault();
+      setRecoveryError('');
+      if (newPassword.length < 8) {
+          setRecoveryError('Password must be at least 8 characters.');
+          return;
+      }
+      if (newPassword !== confirmNewPassword) {
+          setRecoveryError('Passwords do not match.');
+          return;
+      }
+      setIsSubmittingRecovery(true);
+      try {
+          await accountService.resetPassword(linkToken, newPassword);
+          setSearchParams({});
+          setNewPassword('');
+          setConfirmNewPassword('');
+          setRecoveryMessage('Password updated. You can now log in with your new password.');
+      } catch (err: any) {
+          setRecoveryError(err.message || 'Reset link is invalid or has expired.');
+      } finally {
+          setIsSubmittingRecovery(false);
+      }
+  };
+
   const [step, setStep] = useState(1);
   const [isProcessingPayment, setIsProcessingPayment] = useState(false);
   const [signupData, setSignupData] = useState({
@@ -181,8 +272,6 @@ export const Auth: React.FC<AuthProps> = ({ onLogin, onSignup, plans = DEFAULT_P
           return;
       }
 
-      const selectedCurrency = getCurrencyForCountry(signupData.country);
-
       setIsProcessingPayment(true);
       const txRef = `vnx-${Date.now()}-${Math.floor(Math.random() * 10000)}`;
 
@@ -191,7 +280,8 @@ export const Auth: React.FC<AuthProps> = ({ onLogin, onSignup, plans = DEFAULT_P
               public_key: publicKey,
               tx_ref: txRef,
               amount: planConfig.amount,
-              currency: selectedCurrency,
+              // Plans are priced in NGN and the server checks the payment against that price
+              currency: 'NGN',
               payment_options: "card, banktransfer, ussd, account, mobilemoneyghana, mpesa",
               payment_plan: planConfig.id,
               customer: {
@@ -259,6 +349,121 @@ export const Auth: React.FC<AuthProps> = ({ onLogin, onSignup, plans = DEFAULT_P
       onSignup(newUser, newTenant, signupData.password, paymentRef);
   };
 
+  // --- FORGOT PASSWORD / RESET PASSWORD / VERIFY EMAIL VIEWS ---
+  if (mode === 'forgot' || mode === 'reset' || mode === 'verify') {
+      const inputClass = "w-full pl-12 pr-4 py-3.5 bg-slate-50 border-transparent focus:bg-white border focus:border-teal-500 rounded-2xl focus:ring-4 focus:ring-teal-500/10 outline-none transition-all font-semibold text-slate-700";
+      const title = mode === 'forgot' ? 'Forgot Password' : mode === 'reset' ? 'Choose New Password' : 'Verify Email';
+      const subtitle = mode === 'forgot'
+          ? 'We\'ll email you a single-use reset link'
+          : mode === 'reset'
+              ? 'Enter a new password for your account'
+              : 'Confirm the email address on your account';
+
+      return (
+          <div className="min-h-screen bg-teal-50 flex flex-col items-center justify-center p-4">
+              <div className="mb-8 text-center">
+                  <div className="flex items-center justify-center space-x-2 mb-2">
+                      <div className="w-14 h-14 bg-teal-600 rounded-2xl flex items-center justify-center shadow-lg shadow-teal-200">
+                        {mode === 'verify' ? <MailCheck className="w-8 h-8 text-white" /> : <KeyRound className="w-8 h-8 text-white" />}
+                      </div>
+                  </div>
+                  <h1 className="text-3xl font-extrabold text-teal-900 tracking-tight mt-4">Vet Nexus Pro</h1>
+                  <p className="text-teal-600 font-medium opacity-80">{userType === 'CLIENT' ? 'Pet Owner Portal' : 'Practice Management System'}</p>
+              </div>
+
+              <div className="bg-white p-8 rounded-3xl shadow-xl w-full max-w-md border border-teal-100/50">
+                  <h2 className="text-2xl font-black text-slate-800 mb-2 text-center">{title}</h2>
+                  <p className="text-center text-slate-400 text-sm mb-6">{subtitle}</p>
+
+                  {recoveryError && (
+                      <div className="mb-4 p-3 bg-red-50 border border-red-100 rounded-xl flex items-center text-red-600 text-sm font-bold">
+                          <AlertCircle className="w-4 h-4 mr-2 shrink-0" />
+                          {recoveryError}
+                      </div>
+                  )}
+                  {recoveryMessage && (
+                      <div className="mb-4 p-3 bg-green-50 border border-green-100 rounded-xl flex items-center text-green-700 text-sm font-bold">
+                          <ShieldCheck className="w-4 h-4 mr-2 shrink-0" />
+                          {recoveryMessage}
+                      </div>
+                  )}
+
+                  {mode === 'forgot' && !recoveryMessage && (
+                      <form onSubmit={handleForgotSubmit} className="space-y-4">
+                          <div>
+                              <label className="block text-xs font-bold text-slate-500 uppercase mb-1 ml-1">Email Address</label>
+                              <div className="relative">
+                                  <Mail className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-400" />
+                                  <input type="email" required className={inputClass} placeholder={userType === 'CLIENT' ? "owner@example.com" : "doctor@clinic.com"} value={recoveryEmail} onChange={e => setRecoveryEmail(e.target.value)} />
+                              </div>
+                          </div>
+                          <button type="submit" disabled={isSubmittingRecovery} className="w-full bg-teal-600 hover:bg-teal-700 text-white py-4 rounded-xl font-bold shadow-lg shadow-teal-200 transition-all transform active:scale-[0.98] disabled:opacity-70 disabled:cursor-not-allowed">
+                              {isSubmittingRecovery ? 'Sending...' : 'Send Reset Link'}
+                          </button>
+                      </form>
+                  )}
+
+                  {mode === 'reset' && !recoveryMessage && (
+                      <form onSubmit={handleResetSubmit} className="space-y-4">
+                          <div>
+                              <label className="block text-xs font-bold text-slate-500 uppercase mb-1 ml-1">New Password</label>
+                              <div className="relative">
+                                  <Lock className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-400" />
+                                  <input type="password" required className={inputClass} placeholder="••••••••" value={newPassword} onChange={e => setNewPassword(e.target.value)} />
+                              </div>
+                          </div>
+                          <div>
+                              <label className="block text-xs font-bold text-slate-500 uppercase mb-1 ml-1">Confirm Password</label>
+                              <div className="relative">
+                                  <Lock className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-400" />
+                                  <input type="password" required className={inputClass} placeholder="••••••••" value={confirmNewPassword} onChange={e => setConfirmNewPassword(e.target.value)} />
+                              </div>
+                          </div>
+                          <button type="submit" disabled={isSubmittingRecovery || !linkToken} className="w-full bg-teal-600 hover:bg-teal-700 text-white py-4 rounded-xl font-bold shadow-lg shadow-teal-200 transition-all transform active:scale-[0.98] disabled:opacity-70 disabled:cursor-not-allowed">
+                              {isSubmittingRecovery ? 'Saving...' : 'Update Password'}
+                          </button>
+                          {!linkToken && (
+                              <button type="button" onClick={() => switchMode('forgot')} className="w-full text-xs font-bold text-teal-600 hover:underline">Request a new reset link</button>
+                          )}
+                      </form>
+                  )}
+
+                  {mode === 'verify' && (
+                      <div className="space-y-4">
+                          {verifyStatus === 'verifying' && <p className="text-center text-sm font-bold text-slate-500 animate-pulse">Verifying your email...</p>}
+                          {verifyStatus === 'success' && (
+                              <div className="p-3 bg-green-50 border border-green-100 rounded-xl flex items-center text-green-700 text-sm font-bold">
+                                  <ShieldCheck className="w-4 h-4 mr-2 shrink-0" />
+                                  Email verified. You can now log in.
+                              </div>
+                          )}
+                          {verifyStatus !== 'success' && verifyStatus !== 'verifying' && !recoveryMessage && (
+                              <form onSubmit={handleResendVerification} className="space-y-4">
+                                  <div>
+                                      <label className="block text-xs font-bold text-slate-500 uppercase mb-1 ml-1">Email Address</label>
+                                      <div className="relative">
+                                          <Mail className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-400" />
+                                          <input type="email" required className={inputClass} placeholder={userType === 'CLIENT' ? "owner@example.com" : "doctor@clinic.com"} value={recoveryEmail} onChange={e => setRecoveryEmail(e.target.value)} />
+                                      </div>
+                                  </div>
+                                  <button type="submit" disabled={isSubmittingRecovery} className="w-full bg-teal-600 hover:bg-teal-700 text-white py-4 rounded-xl font-bold shadow-lg shadow-teal-200 transition-all transform active:scale-[0.98] disabled:opacity-70 disabled:cursor-not-allowed">
+                                      {isSubmittingRecovery ? 'Sending...' : 'Resend Verification Link'}
+                                  </button>
+                              </form>
+                          )}
+                      </div>
+                  )}
+
+                  <div className="mt-8 text-center text-sm">
+                      <button onClick={() => switchMode('login')} className="text-teal-600 font-bold hover:underline inline-flex items-center">
+                          <ArrowLeft className="w-4 h-4 mr-1" /> Back to Login
+                      </button>
+                  </div>
+              </div>
+          </div>
+      );
+  }
+
   // --- LOGIN VIEW ---
   if (mode === 'login') {
       return (
@@ -332,6 +537,9 @@ export const Auth: React.FC<AuthProps> = ({ onLogin, onSignup, plans = DEFAULT_P
                               <input type="password" required className="w-full pl-12 pr-4 py-3.5 bg-slate-50 border-transparent focus:bg-white border focus:border-teal-500 rounded-2xl focus:ring-4 focus:ring-teal-500/10 outline-none transition-all font-semibold text-slate-700" placeholder="••••••••" value={loginPass} onChange={e => setLoginPass(e.target.value)} />
                           </div>
                       </div>
+                      <div className="flex justify-end -mt-2">
+                          <button type="button" onClick={() => switchMode('forgot')} className="text-xs font-bold text-teal-600 hover:underline">Forgot password?</button>
+                      </div>
                       <button type="submit" disabled={isLoggingIn} className="w-full bg-teal-600 hover:bg-teal-700 text-white py-4 rounded-xl font-bold shadow-lg shadow-teal-200 transition-all transform active:scale-[0.98] disabled:opacity-70 disabled:cursor-not-allowed">
                           {isLoggingIn ? 'Authenticating...' : (userType === 'CLIENT' ? 'Access Portal' : 'Log In')}
                       </button>
@@ -340,7 +548,7 @@ export const Auth: React.FC<AuthProps> = ({ onLogin, onSignup, plans = DEFAULT_P
                   {userType === 'STAFF' ? (
                       <div className="mt-8 text-center text-sm">
                           <span className="text-slate-500 font-medium">New to Vet Nexus? </span>
-                          <button onClick={() => setMode('signup')} className="text-teal-600 font-bold hover:underline">Create Account</button>
+                          <button onClick={() => switchMode('signup')} className="text-teal-600 font-bold hover:underline">Create Account</button>
                       </div>
                   ) : (
                       <div className="mt-8 text-center text-xs text-slate-400 px-4 leading-relaxed">
@@ -490,7 +698,7 @@ export const Auth: React.FC<AuthProps> = ({ onLogin, onSignup, plans = DEFAULT_P
                       )}
                   </form>
                   <div className="absolute bottom-6 left-0 right-0 text-center">
-                    <button onClick={() => setMode('login')} className="text-xs font-bold text-slate-400 hover:text-teal-600 transition-colors">Back to Login Screen</button>
+                    <button onClick={() => switchMode('login')} className="text-xs font-bold text-slate-400 hover:text-teal-600 transition-colors">Back to Login Screen</button>
                   </div>
               </div>
           </div>
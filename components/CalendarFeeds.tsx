@@ -0,0 +1,119 @@
+import React, { useEffect, useState } from 'react';
+import { CalendarFeed, StaffMember, UserProfile } from '../types';
+import { CalendarClock, Copy, Link2, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { CalendarService } from '../services/api';
+
+interface CalendarFeedsProps {
+  currentUser: UserProfile;
+  staff: StaffMember[];
+  onClose: () => void;
+}
+
+// Read-only .ics links that Google Calendar, Outlook or Apple Calendar can subscribe to.
+// The link is the only credential, so it is shown once and replaced (not re-shown) if lost.
+const CalendarFeeds: React.FC<CalendarFeedsProps> = ({ currentUser, staff, onClose }) => {
+  const isAdmin = currentUser.roles.includes('Admin');
+  const [feeds, setFeeds] = useState<CalendarFeed[]>([]);
+  const [target, setTarget] = useState(currentUser.id);
+  const [created, setCreated] = useState<{ label: string; url: string } | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const load = () => CalendarService.getFeeds().then(res => setFeeds(res.data)).catch(() => setFeeds([]));
+  useEffect(() => { load(); }, []);
+
+  const labelOf = (feed: CalendarFeed) => feed.userId ? feed.userName || 'Staff member' : 'Whole clinic';
+
+  const handleCreate = async () => {
+    const existing = feeds.find(f => (target === 'clinic' ? !f.userId : f.userId === target));
+    if (existing && !window.confirm(`This replaces the current link for ${labelOf(existing)}. Calendars using the old link stop updating. Continue?`)) return;
+    setIsBusy(true);
+    setMessage(null);
+    try {
+      const { data } = await CalendarService.createFeed(target === 'clinic' ? { clinic: true } : { userId: target });
+      setCreated({ label: labelOf(data), url: CalendarService.feedUrl(data.path) });
+      await load();
+    } catch (error: any) {
+      setMessage(error?.message || 'Could not create the calendar link');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleRevoke = async (feed: CalendarFeed) => {
+    if (!window.confirm(`Revoke the calendar link for ${labelOf(feed)}? Subscribed calendars stop updating.`)) return;
+    try {
+      await CalendarService.revokeFeed(feed.id);
+      await load();
+    } catch (error: any) {
+      setMessage(error?.message || 'Could not revoke the calendar link');
+    }
+  };
+
+  const copy = (url: string) => navigator.clipboard?.writeText(url).then(() => setMessage('Link copied')).catch(() => {});
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/40 backdrop-blur-md z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-lg max-h-[90vh] overflow-y-auto animate-[scaleUp_0.3s_ease-out_forwards]">
+        <div className="px-6 py-5 bg-gradient-to-r from-teal-700 via-teal-600 to-amber-500 flex justify-between items-center text-white">
+          <div>
+            <h3 className="text-lg font-bold flex items-center"><CalendarClock className="w-5 h-5 mr-2" /> Calendar Subscriptions</h3>
+            <p className="text-teal-50 text-xs font-medium mt-1 opacity-90">Show appointments in your own calendar app</p>
+          </div>
+          <button onClick={onClose} className="w-8 h-8 rounded-full bg-white/20 hover:bg-white/30 flex items-center justify-center text-white">✕</button>
+        </div>
+
+        <div className="p-6 space-y-5">
+          <div className="flex gap-2">
+            <select value={target} onChange={e => setTarget(e.target.value)} disabled={!isAdmin} className="flex-1 px-3 py-2 bg-white border border-slate-200 rounded-xl text-sm font-medium text-slate-700 outline-none focus:ring-2 focus:ring-teal-500">
+              <option value={currentUser.id}>My appointments</option>
+              {isAdmin && <option value="clinic">Whole clinic</option>}
+              {isAdmin && staff.filter(s => s.id !== currentUser.id && !s.isSuspended).map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+            </select>
+            <button onClick={handleCreate} disabled={isBusy} className="px-4 py-2 text-sm font-bold text-white bg-teal-600 hover:bg-teal-700 rounded-xl flex items-center disabled:opacity-50">
+              <Link2 className="w-4 h-4 mr-2" /> Create Link
+            </button>
+          </div>
+
+          {created && (
+            <div className="p-4 rounded-2xl bg-teal-50 border border-teal-100 space-y-2">
+              <p className="text-xs font-bold text-teal-800">{created.label} — copy this link now, it won't be shown again.</p>
+              <div className="flex items-center gap-2">
+                <input readOnly value={created.url} onFocus={e => e.target.select()} className="flex-1 px-2 py-1.5 bg-white border border-teal-200 rounded-lg text-xs font-mono text-slate-700" />
+                <button onClick={() => copy(created.url)} className="p-2 rounded-lg bg-white border border-teal-200 text-teal-700 hover:bg-teal-100" title="Copy link"><Copy className="w-4 h-4" /></button>
+              </div>
+              <a href={created.url.replace(/^https?:/, 'webcal:')} className="inline-block text-xs font-semibold text-teal-700 hover:underline">Open in calendar app</a>
+            </div>
+          )}
+
+          {message && <p className="text-xs font-semibold text-slate-600">{message}</p>}
+
+          <div>
+            <p className="text-[10px] uppercase tracking-widest font-extrabold text-slate-400 mb-2">Active links</p>
+            {feeds.length === 0 ? (
+              <p className="text-sm text-slate-500">No calendar links yet.</p>
+            ) : (
+              <div className="divide-y divide-slate-100 border border-slate-200 rounded-2xl">
+                {feeds.map(feed => (
+                  <div key={feed.id} className="px-4 py-3 flex items-center justify-between">
+                    <div>
+                      <p className="text-sm font-bold text-slate-700">{labelOf(feed)}</p>
+                      <p className="text-xs text-slate-500">
+                        Created {format(new Date(feed.createdAt), 'MMM d, yyyy')} by {feed.createdBy}
+                        {' · '}{feed.lastAccessedAt ? `last synced ${format(new Date(feed.lastAccessedAt), 'MMM d, h:mm a')}` : 'never synced'}
+                      </p>
+                    </div>
+                    <button onClick={() => handleRevoke(feed)} className="p-2 rounded-lg text-slate-400 hover:text-rose-600 hover:bg-rose-50" title="Revoke"><Trash2 className="w-4 h-4" /></button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CalendarFeeds;
@@ -1,6 +1,7 @@
 import React, { useEffect, useState } from 'react';
 import { ClientPortalService } from '../services/api';
-import { Calendar, Clock, Plus } from 'lucide-react';
+import { Availability } from '../types';
+import { Calendar, CalendarPlus, Clock, Plus } from 'lucide-react';
 import { format } from 'date-fns';
 
 const ClientAppointments: React.FC = () => {
@@ -11,11 +12,33 @@ const ClientAppointments: React.FC = () => {
 
   // Form State
   const [newAppt, setNewAppt] = useState({ petId: '', date: '', time: '', reason: '' });
+  const [appointmentTypes, setAppointmentTypes] = useState<{ name: string; durationMinutes: number }[]>([]);
+  const [availability, setAvailability] = useState<Availability | null>(null);
+  const [slot, setSlot] = useState<{ start: string; doctorId: string } | null>(null);
 
   useEffect(() => {
     fetchData();
+    ClientPortalService.getAppointmentTypes().then(res => setAppointmentTypes(res.data)).catch(() => setAppointmentTypes([]));
   }, []);
 
+  // Offered times follow the chosen day and visit type
+  useEffect(() => {
+    setSlot(null);
+    if (!newAppt.date) {
+      setAvailability(null);
+      return;
+    }
+    let cancelled = false;
+    ClientPortalService.getAvailability(newAppt.date, newAppt.reason || undefined)
+      .then(res => { if (!cancelled) setAvailability(res.data); })
+      .catch(() => { if (!cancelled) setAvailability(null); });
+    return () => { cancelled = true; };
+  }, [newAppt.date, newAppt.reason]);
+
+  // Without schedules set up at the clinic the client just states a preferred time
+  const bookBySlot = !!availability?.schedulesConfigured;
+  const openTimes = (availability?.doctors || []).flatMap(d => d.slots.map(s => ({ ...s, doctorId: d.doctorId, doctorName: d.doctorName })));
+
   const fetchData = async () => {
     try {
       const [apptRes, petsRes] = await Promise.all([
@@ -34,21 +57,43 @@ const ClientAppointments: React.FC = () => {
     }
   };
 
+  // Upcoming bookings as an .ics file the client can open in their own calendar app
+  const handleDownloadCalendar = async () => {
+    try {
+      const res = await ClientPortalService.downloadCalendar();
+      const url = URL.createObjectURL(new Blob([res.data], { type: 'text/calendar' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = 'appointments.ics';
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error: any) {
+      alert(error?.message || 'Failed to download calendar');
+    }
+  };
+
   const handleBook = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (bookBySlot && !slot) return;
     try {
-      const dateTime = new Date(`${newAppt.date}T${newAppt.time}`);
+      const dateTime = bookBySlot ? new Date(slot!.start) : new Date(`${newAppt.date}T${newAppt.time}`);
       await ClientPortalService.bookAppointment({
         petId: newAppt.petId,
         date: dateTime.toISOString(),
-        reason: newAppt.reason
+        reason: newAppt.reason,
+        doctorId: slot?.doctorId
       });
-      alert('Appointment request sent!');
+      alert(bookBySlot ? 'Appointment booked!' : 'Appointment request sent!');
       setShowForm(false);
       setNewAppt({ petId: '', date: '', time: '', reason: '' });
       fetchData(); // Refresh list
-    } catch (error) {
-      alert('Failed to book appointment');
+    } catch (error: any) {
+      alert(error?.message || 'Failed to book appointment');
+      // Someone may have taken the slot meanwhile; offer what is still open
+      if (newAppt.date) {
+        ClientPortalService.getAvailability(newAppt.date, newAppt.reason || undefined).then(res => setAvailability(res.data)).catch(() => {});
+        setSlot(null);
+      }
     }
   };
 
@@ -58,12 +103,21 @@ const ClientAppointments: React.FC = () => {
         <h1 className="text-2xl font-bold text-gray-800 flex items-center">
           <Calendar className="mr-3 text-indigo-600" /> Appointments
         </h1>
-        <button 
-          onClick={() => setShowForm(!showForm)}
-          className="bg-indigo-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-indigo-700 flex items-center transition-colors"
-        >
-          <Plus className="w-4 h-4 mr-2" /> Book Visit
-        </button>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={handleDownloadCalendar}
+            disabled={!appointments.some(a => (a.status === 'Scheduled' || a.status === 'Checked In') && new Date(a.date) >= new Date())}
+            className="bg-white text-indigo-600 border border-indigo-200 px-4 py-2 rounded-lg text-sm font-medium hover:bg-indigo-50 flex items-center transition-colors disabled:opacity-50"
+          >
+            <CalendarPlus className="w-4 h-4 mr-2" /> Add to Calendar
+          </button>
+          <button 
+            onClick={() => setShowForm(!showForm)}
+            className="bg-indigo-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-indigo-700 flex items-center transition-colors"
+          >
+            <Plus className="w-4 h-4 mr-2" /> Book Visit
+          </button>
+        </div>
       </div>
 
       {/* Booking Form */}
@@ -87,13 +141,25 @@ const ClientAppointments: React.FC = () => {
               
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">Reason</label>
-                <input 
-                  type="text" required
-                  placeholder="e.g. Annual Vaccination"
-                  className="w-full border rounded-lg p-2"
-                  value={newAppt.reason}
-                  onChange={e => setNewAppt({...newAppt, reason: e.target.value})}
-                />
+                {appointmentTypes.length > 0 ? (
+                  <select
+                    required
+                    className="w-full border rounded-lg p-2"
+                    value={newAppt.reason}
+                    onChange={e => setNewAppt({...newAppt, reason: e.target.value})}
+                  >
+                    <option value="">-- Choose Visit Type --</option>
+                    {appointmentTypes.map(t => <option key={t.name} value={t.name}>{t.name} ({t.durationMinutes} min)</option>)}
+                  </select>
+                ) : (
+                  <input 
+                    type="text" required
+                    placeholder="e.g. Annual Vaccination"
+                    className="w-full border rounded-lg p-2"
+                    value={newAppt.reason}
+                    onChange={e => setNewAppt({...newAppt, reason: e.target.value})}
+                  />
+                )}
               </div>
 
               <div>
@@ -106,6 +172,7 @@ const ClientAppointments: React.FC = () => {
                 />
               </div>
 
+              {!bookBySlot && (
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">Preferred Time</label>
                 <input 
@@ -115,10 +182,37 @@ const ClientAppointments: React.FC = () => {
                   onChange={e => setNewAppt({...newAppt, time: e.target.value})}
                 />
               </div>
+              )}
             </div>
+
+            {bookBySlot && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Available Times</label>
+                {openTimes.length === 0 ? (
+                  <p className="text-sm text-gray-500">No times left on this day. Please try another date.</p>
+                ) : (
+                  <div className="flex flex-wrap gap-2">
+                    {openTimes.map(t => {
+                      const selected = slot?.start === t.start && slot?.doctorId === t.doctorId;
+                      return (
+                        <button
+                          type="button"
+                          key={`${t.doctorId}-${t.start}`}
+                          onClick={() => setSlot({ start: t.start, doctorId: t.doctorId })}
+                          className={`px-3 py-2 rounded-lg text-sm border transition-colors ${selected ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-gray-700 border-gray-200 hover:border-indigo-400'}`}
+                        >
+                          <span className="font-bold">{format(new Date(t.start), 'h:mm a')}</span>
+                          <span className={`block text-xs ${selected ? 'text-indigo-100' : 'text-gray-400'}`}>{t.doctorName}</span>
+                        </button>
+                      );
+                    })}
+                  </div>
+                )}
+              </div>
+            )}
             
             <div className="flex justify-end pt-2">
-              <button type="submit" className="bg-indigo-600 text-white px-6 py-2 rounded-lg font-medium hover:bg-indigo-700">
+              <button type="submit" disabled={bookBySlot && !slot} className="bg-indigo-600 text-white px-6 py-2 rounded-lg font-medium hover:bg-indigo-700 disabled:opacity-50">
                 Submit Request
               </button>
             </div>
@@ -0,0 +1,431 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { ControlledDrug, ControlledDrugEntry, ControlledEntryType, ControlledReconciliation, ControlledSchedule, InventoryItem, Owner, Pet, StaffSchedule, UserProfile } from '../types';
+import { AlertTriangle, CheckCircle2, ClipboardCheck, FileText, Lock, Plus, Scale, Unlock } from 'lucide-react';
+import { ControlledDrugService, ScheduleService } from '../services/api';
+
+interface ControlledDrugsProps {
+  inventory: InventoryItem[];
+  pets: Pet[];
+  owners: Owner[];
+  currentUser: UserProfile;
+  // Flagging an item changes how it shows in inventory
+  onInventoryChanged: () => void;
+}
+
+// Mirrors services/controlledDrug.service on the server
+const SCHEDULES: ControlledSchedule[] = ['Schedule I', 'Schedule II', 'Schedule III', 'Schedule IV', 'Schedule V'];
+// Transfer lines are written when stock moves between locations, so they aren't offered here
+const ENTRY_TYPES: ControlledEntryType[] = ['Receipt', 'Dispense', 'Administration', 'Wastage', 'Adjustment'];
+const NEEDS_PATIENT: ControlledEntryType[] = ['Dispense', 'Administration'];
+const NEEDS_WITNESS: ControlledEntryType[] = ['Wastage', 'Adjustment'];
+
+const TYPE_STYLES: Record<ControlledEntryType, string> = {
+  Receipt: 'bg-emerald-50 text-emerald-700 border-emerald-200',
+  Dispense: 'bg-sky-50 text-sky-700 border-sky-200',
+  Administration: 'bg-teal-50 text-teal-700 border-teal-200',
+  Wastage: 'bg-amber-50 text-amber-700 border-amber-200',
+  Adjustment: 'bg-rose-50 text-rose-700 border-rose-200',
+  'Transfer Out': 'bg-slate-100 text-slate-600 border-slate-200',
+  'Transfer In': 'bg-indigo-50 text-indigo-700 border-indigo-200'
+};
+
+const inputClass = 'px-2 py-1.5 bg-white border border-slate-200 rounded-lg text-xs font-medium text-slate-700 outline-none focus:ring-2 focus:ring-teal-500';
+
+const dateTimeOf = (iso: string) => new Date(iso).toLocaleString([], { day: 'numeric', month: 'short', year: '2-digit', hour: '2-digit', minute: '2-digit' });
+
+const dayOf = (date: Date) => `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const signed = (value: number) => `${value > 0 ? '+' : ''}${value}`;
+
+const emptyEntry = { type: 'Administration' as ControlledEntryType, quantity: '', petId: '', prescriberId: '', witnessId: '', batchNumber: '', reference: '', notes: '', openingBalance: false };
+
+const ControlledDrugs: React.FC<ControlledDrugsProps> = ({ inventory, pets, owners, currentUser, onInventoryChanged }) => {
+  const [tab, setTab] = useState<'register' | 'reconciliation'>('register');
+  const [drugs, setDrugs] = useState<ControlledDrug[]>([]);
+  const [staff, setStaff] = useState<StaffSchedule[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [entries, setEntries] = useState<ControlledDrugEntry[]>([]);
+  const [entryForm, setEntryForm] = useState(emptyEntry);
+  const [flagForm, setFlagForm] = useState({ itemId: '', schedule: 'Schedule II' as ControlledSchedule });
+  const [isFlagOpen, setIsFlagOpen] = useState(false);
+  const [range, setRange] = useState(() => ({ from: dayOf(new Date(Date.now() - 29 * 24 * 3600000)), to: dayOf(new Date()) }));
+  const [report, setReport] = useState<ControlledReconciliation | null>(null);
+  const [countForm, setCountForm] = useState<{ counts: Record<string, string>; witnessId: string; notes: string; adjust: boolean }>({ counts: {}, witnessId: '', notes: '', adjust: false });
+  const [isBusy, setIsBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const selected = drugs.find(d => d.id === selectedId) || null;
+  const vets = staff.filter(s => s.roles.some(role => ['Veterinarian', 'Admin'].includes(role)));
+  const witnesses = staff.filter(s => s.userId !== currentUser.id);
+  const flaggable = inventory.filter(i => i.type !== 'Service' && !i.isControlled);
+
+  const loadDrugs = useCallback(async () => {
+    try {
+      const { data } = await ControlledDrugService.getAll();
+      setDrugs(data);
+    } catch (error: any) {
+      setMessage(error?.message || 'Could not load controlled drugs');
+    }
+  }, []);
+
+  const loadRegister = useCallback(async (itemId: string) => {
+    try {
+      const { data } = await ControlledDrugService.getRegister(itemId);
+      setEntries(data.entries);
+    } catch (error: any) {
+      setMessage(error?.message || 'Could not load the register');
+    }
+  }, []);
+
+  const loadReport = useCallback(async () => {
+    try {
+      const { data } = await ControlledDrugService.getReconciliation(range.from, range.to);
+      setReport(data);
+    } catch (error: any) {
+      setMessage(error?.message || 'Could not load the reconciliation');
+    }
+  }, [range.from, range.to]);
+
+  useEffect(() => {
+    loadDrugs();
+    ScheduleService.getAll().then(res => setStaff(res.data)).catch(() => setStaff([]));
+  }, [loadDrugs]);
+
+  useEffect(() => {
+    if (selectedId) loadRegister(selectedId);
+    else setEntries([]);
+  }, [selectedId, loadRegister]);
+
+  useEffect(() => { if (tab === 'reconciliation') loadReport(); }, [tab, loadReport]);
+
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    setIsBusy(true);
+    setMessage(null);
+    try {
+      await action();
+      return true;
+    } catch (error: any) {
+      setMessage(error?.message || failure);
+      return false;
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleFlag = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await run(() => ControlledDrugService.setFlag(flagForm.itemId, { isControlled: true, schedule: flagForm.schedule }), 'Could not flag the item')) {
+      setSelectedId(flagForm.itemId);
+      setFlagForm({ itemId: '', schedule: 'Schedule II' });
+      setIsFlagOpen(false);
+      loadDrugs();
+      onInventoryChanged();
+    }
+  };
+
+  const handleUnflag = async () => {
+    if (!selected || !window.confirm(`Take ${selected.name} off the controlled drug list? Its register is kept.`)) return;
+    if (await run(() => ControlledDrugService.setFlag(selected.id, { isControlled: false }), 'Could not remove the flag')) {
+      setSelectedId(null);
+      loadDrugs();
+      onInventoryChanged();
+    }
+  };
+
+  const handleEntry = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selected) return;
+    const needsPatient = NEEDS_PATIENT.includes(entryForm.type);
+    const entry = {
+      type: entryForm.type,
+      quantity: Number(entryForm.quantity),
+      petId: needsPatient ? entryForm.petId : undefined,
+      prescriberId: needsPatient ? entryForm.prescriberId : undefined,
+      witnessId: entryForm.witnessId || undefined,
+      batchNumber: entryForm.batchNumber,
+      reference: entryForm.reference,
+      notes: entryForm.notes,
+      // Receipts add to stock unless they only record what is already on the shelf
+      addToStock: entryForm.type === 'Receipt' ? !entryForm.openingBalance : undefined
+    };
+    if (await run(() => ControlledDrugService.addEntry(selected.id, entry), 'Could not record the entry')) {
+      setEntryForm({ ...emptyEntry, type: entryForm.type });
+      loadRegister(selected.id);
+      loadDrugs();
+      if (entry.addToStock) onInventoryChanged();
+    }
+  };
+
+  const handleCount = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const counts = Object.entries(countForm.counts)
+      .filter(([, value]) => value !== '')
+      .map(([itemId, value]) => ({ itemId, quantity: Number(value) }));
+    if (!counts.length) return setMessage('Enter the counted quantity for at least one drug');
+    if (await run(() => ControlledDrugService.recordCounts({ counts, witnessId: countForm.witnessId, adjust: countForm.adjust, notes: countForm.notes || undefined }), 'Could not record the count')) {
+      setCountForm({ counts: {}, witnessId: '', notes: '', adjust: false });
+      loadReport();
+      loadDrugs();
+    }
+  };
+
+  return (
+    <div className="bg-[#F8FAFC] h-full flex flex-col rounded-xl md:rounded-3xl overflow-hidden font-sans border border-slate-300 shadow-xl">
+      <div className="px-4 py-4 md:px-6 md:py-5 border-b border-slate-300 flex flex-col md:flex-row justify-between items-start md:items-center bg-white/80 backdrop-blur-xl gap-4">
+        <div>
+          <h2 className="text-xl md:text-2xl font-bold text-slate-800 tracking-tight">Controlled Drugs</h2>
+          <p className="text-slate-500 text-xs font-semibold mt-1">Append-only register · every line is kept with who recorded and witnessed it</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <div className="flex bg-slate-100 p-1 rounded-xl">
+            {([['register', 'Register'], ['reconciliation', 'Reconciliation']] as const).map(([id, label]) => (
+              <button key={id} onClick={() => setTab(id)} className={`px-3 py-1.5 text-xs font-bold rounded-lg ${tab === id ? 'bg-white text-teal-700 shadow-sm' : 'text-slate-500'}`}>{label}</button>
+            ))}
+          </div>
+          <button onClick={() => setIsFlagOpen(!isFlagOpen)} className="px-5 py-2 text-sm font-bold text-white bg-gradient-to-r from-teal-600 to-teal-700 hover:from-teal-500 hover:to-teal-600 rounded-xl shadow-lg shadow-teal-700/20 flex items-center">
+            <Lock className="w-4 h-4 mr-2" /> Flag Item
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar p-4 md:p-6 space-y-5">
+        {message && <p className="text-xs font-semibold text-rose-600 p-3 bg-rose-50 border border-rose-100 rounded-xl">{message}</p>}
+
+        {isFlagOpen && (
+          <form onSubmit={handleFlag} className="p-4 rounded-2xl bg-white border border-teal-100 shadow-sm grid grid-cols-1 md:grid-cols-3 gap-3">
+            <select required value={flagForm.itemId} onChange={e => setFlagForm({ ...flagForm, itemId: e.target.value })} className={inputClass}>
+              <option value="">Choose inventory item…</option>
+              {flaggable.map(i => <option key={i.id} value={i.id}>{i.name}{i.sku ? ` (${i.sku})` : ''}</option>)}
+            </select>
+            <select value={flagForm.schedule} onChange={e => setFlagForm({ ...flagForm, schedule: e.target.value as ControlledSchedule })} className={inputClass}>
+              {SCHEDULES.map(s => <option key={s} value={s}>{s}</option>)}
+            </select>
+            <button type="submit" disabled={isBusy} className="px-4 py-2 text-xs font-bold text-white bg-teal-600 hover:bg-teal-700 rounded-lg disabled:opacity-50">Mark as Controlled</button>
+          </form>
+        )}
+
+        {tab === 'register' ? (
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+            <div className="space-y-3">
+              {drugs.length === 0 ? (
+                <p className="text-xs text-slate-400 text-center py-10 bg-white rounded-2xl border border-slate-200">No controlled drugs yet. Flag an inventory item to start its register.</p>
+              ) : drugs.map(d => (
+                <button
+                  key={d.id}
+                  onClick={() => { setSelectedId(d.id); setMessage(null); }}
+                  className={`w-full text-left p-3 rounded-2xl bg-white border shadow-sm transition-all ${selectedId === d.id ? 'border-teal-400 ring-2 ring-teal-100' : 'border-slate-200 hover:border-teal-200'}`}
+                >
+                  <div className="flex items-start justify-between gap-2">
+                    <p className="text-sm font-bold text-slate-800 truncate">{d.name}</p>
+                    <span className="text-[10px] font-extrabold uppercase tracking-wider px-2 py-1 rounded-md bg-rose-50 text-rose-700 border border-rose-100 shrink-0">{d.controlledSchedule}</span>
+                  </div>
+                  <p className="text-lg font-black text-slate-800 mt-1">{d.balance} <span className="text-xs font-semibold text-slate-400">{d.unit || ''} on register</span></p>
+                  <p className="text-[11px] text-slate-400">
+                    {d.lastCount
+                      ? `Counted ${dateTimeOf(d.lastCount.countedAt)}${d.lastCount.discrepancy ? ` · off by ${signed(d.lastCount.discrepancy)}` : ' · matched'}`
+                      : 'Never counted'}
+                  </p>
+                </button>
+              ))}
+            </div>
+
+            <div className="lg:col-span-2">
+              {!selected ? (
+                <div className="h-full min-h-[300px] flex flex-col items-center justify-center text-slate-400 bg-white rounded-2xl border border-dashed border-slate-300">
+                  <FileText className="w-10 h-10 mb-2" />
+                  <p className="text-sm font-semibold">Select a drug to see its register</p>
+                </div>
+              ) : (
+                <div className="bg-white rounded-2xl border border-slate-200 shadow-sm overflow-hidden">
+                  <div className="p-4 border-b border-slate-100 flex items-start justify-between gap-3">
+                    <div>
+                      <p className="text-lg font-black text-slate-800">{selected.name} <span className="text-sm font-semibold text-slate-400">{selected.controlledSchedule}</span></p>
+                      <p className="text-xs text-slate-500">Balance {selected.balance} {selected.unit || ''}{selected.batchNumber ? ` · batch ${selected.batchNumber}` : ''}</p>
+                    </div>
+                    <button onClick={handleUnflag} disabled={isBusy || selected.balance > 0} title={selected.balance > 0 ? 'Record its disposal first' : undefined} className="px-3 py-1.5 text-xs font-bold text-slate-600 bg-slate-100 hover:bg-slate-200 rounded-lg flex items-center disabled:opacity-40">
+                      <Unlock className="w-3.5 h-3.5 mr-1.5" />Unflag
+                    </button>
+                  </div>
+
+                  <form onSubmit={handleEntry} className="p-4 border-b border-slate-100 bg-slate-50 grid grid-cols-2 md:grid-cols-4 gap-2">
+                    <select value={entryForm.type} onChange={e => setEntryForm({ ...entryForm, type: e.target.value as ControlledEntryType })} className={inputClass}>
+                      {ENTRY_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+                    </select>
+                    <input
+                      required
+                      type="number"
+                      step="0.001"
+                      min={entryForm.type === 'Adjustment' ? undefined : '0.001'}
+                      value={entryForm.quantity}
+                      onChange={e => setEntryForm({ ...entryForm, quantity: e.target.value })}
+                      placeholder={entryForm.type === 'Adjustment' ? `± quantity (${selected.unit || 'units'})` : `Quantity (${selected.unit || 'units'})`}
+                      className={inputClass}
+                    />
+                    {NEEDS_PATIENT.includes(entryForm.type) && (
+                      <>
+                        <select required value={entryForm.petId} onChange={e => setEntryForm({ ...entryForm, petId: e.target.value })} className={inputClass}>
+                          <option value="">Patient…</option>
+                          {pets.map(p => <option key={p.id} value={p.id}>{p.name} ({owners.find(o => o.id === p.ownerId)?.name || 'No owner'})</option>)}
+                        </select>
+                        <select required value={entryForm.prescriberId} onChange={e => setEntryForm({ ...entryForm, prescriberId: e.target.value })} className={inputClass}>
+                          <option value="">Prescribing vet…</option>
+                          {vets.map(v => <option key={v.userId} value={v.userId}>{v.name}</option>)}
+                        </select>
+                      </>
+                    )}
+                    <select required={NEEDS_WITNESS.includes(entryForm.type)} value={entryForm.witnessId} onChange={e => setEntryForm({ ...entryForm, witnessId: e.target.value })} className={inputClass}>
+                      <option value="">{NEEDS_WITNESS.includes(entryForm.type) ? 'Witness…' : 'Witness (optional)'}</option>
+                      {witnesses.map(w => <option key={w.userId} value={w.userId}>{w.name}</option>)}
+                    </select>
+                    {entryForm.type === 'Receipt' && (
+                      <>
+                        <input value={entryForm.batchNumber} onChange={e => setEntryForm({ ...entryForm, batchNumber: e.target.value })} placeholder="Batch number" className={inputClass} />
+                        <input value={entryForm.reference} onChange={e => setEntryForm({ ...entryForm, reference: e.target.value })} placeholder="Supplier / invoice" className={inputClass} />
+                        <label className="col-span-2 flex items-center gap-2 text-xs font-semibold text-slate-600">
+                          <input type="checkbox" checked={entryForm.openingBalance} onChange={e => setEntryForm({ ...entryForm, openingBalance: e.target.checked })} />
+                          Already in stock (opening balance)
+                        </label>
+                      </>
+                    )}
+                    <input
+                      required={NEEDS_WITNESS.includes(entryForm.type)}
+                      value={entryForm.notes}
+                      onChange={e => setEntryForm({ ...entryForm, notes: e.target.value })}
+                      placeholder={NEEDS_WITNESS.includes(entryForm.type) ? 'Reason' : 'Notes (optional)'}
+                      className={`${inputClass} col-span-2`}
+                    />
+                    <button type="submit" disabled={isBusy} className="px-3 py-1.5 text-xs font-bold text-white bg-teal-600 hover:bg-teal-700 rounded-lg flex items-center justify-center disabled:opacity-50">
+                      <Plus className="w-3.5 h-3.5 mr-1" />Record
+                    </button>
+                  </form>
+
+                  {entries.length === 0 ? (
+                    <p className="text-xs text-slate-400 text-center py-8">No entries yet. Start with an opening-balance Receipt for the stock on hand.</p>
+                  ) : (
+                    <div className="overflow-x-auto">
+                      <table className="w-full text-xs">
+                        <thead className="bg-slate-50">
+                          <tr className="text-left text-[10px] uppercase tracking-widest text-slate-400">
+                            <th className="px-3 py-2">#</th><th className="px-3">When</th><th className="px-3">Entry</th><th className="px-3 text-right">Qty</th><th className="px-3 text-right">Balance</th>
+                            <th className="px-3">Patient</th><th className="px-3">Vet</th><th className="px-3">Witness</th><th className="px-3">By</th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-slate-100">
+                          {[...entries].reverse().map(entry => (
+                            <tr key={entry.id} className="text-slate-700 align-top">
+                              <td className="px-3 py-2 text-slate-400 font-mono">{entry.sequence}</td>
+                              <td className="px-3 py-2 whitespace-nowrap">{dateTimeOf(entry.occurredAt)}</td>
+                              <td className="px-3 py-2">
+                                <span className={`px-1.5 py-0.5 rounded border text-[10px] font-bold ${TYPE_STYLES[entry.type]}`}>{entry.type}</span>
+                                {(entry.notes || entry.reference || entry.batchNumber) && (
+                                  <p className="text-[11px] text-slate-400 mt-1">{[entry.reference, entry.batchNumber && `batch ${entry.batchNumber}`, entry.notes].filter(Boolean).join(' · ')}</p>
+                                )}
+                              </td>
+                              <td className={`px-3 py-2 text-right font-bold ${entry.change < 0 ? 'text-rose-600' : 'text-emerald-600'}`}>{signed(entry.change)}</td>
+                              <td className="px-3 py-2 text-right font-black">{entry.balance}</td>
+                              <td className="px-3 py-2">{entry.petName ? `${entry.petName}${entry.ownerName ? ` (${entry.ownerName})` : ''}` : '—'}</td>
+                              <td className="px-3 py-2">{entry.prescriberName || '—'}</td>
+                              <td className="px-3 py-2">{entry.witnessName || '—'}</td>
+                              <td className="px-3 py-2 text-slate-500">{entry.recordedByName}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-5">
+            <div className="flex flex-wrap items-center gap-2">
+              <input type="date" value={range.from} onChange={e => e.target.value && setRange({ ...range, from: e.target.value })} className={inputClass} />
+              <span className="text-xs text-slate-400">to</span>
+              <input type="date" value={range.to} onChange={e => e.target.value && setRange({ ...range, to: e.target.value })} className={inputClass} />
+            </div>
+
+            <div className="bg-white rounded-2xl border border-slate-200 shadow-sm overflow-x-auto">
+              <table className="w-full text-xs">
+                <thead className="bg-slate-50">
+                  <tr className="text-left text-[10px] uppercase tracking-widest text-slate-400">
+                    <th className="px-3 py-2">Drug</th><th className="px-3 text-right">Opening</th><th className="px-3 text-right">Received</th><th className="px-3 text-right">Dispensed</th>
+                    <th className="px-3 text-right">Administered</th><th className="px-3 text-right">Wasted</th><th className="px-3 text-right">Adjusted</th><th className="px-3 text-right">Transferred</th><th className="px-3 text-right">Closing</th>
+                    <th className="px-3">Register</th><th className="px-3">Counts</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {!report || report.items.length === 0 ? (
+                    <tr><td colSpan={11} className="text-center text-slate-400 py-8">No controlled drugs to reconcile</td></tr>
+                  ) : report.items.map(row => (
+                    <tr key={row.item.id} className="text-slate-700 align-top">
+                      <td className="px-3 py-2 font-bold">{row.item.name}<p className="text-[10px] font-semibold text-slate-400">{row.item.controlledSchedule || 'No longer controlled'}</p></td>
+                      <td className="px-3 py-2 text-right">{row.openingBalance}</td>
+                      <td className="px-3 py-2 text-right">{row.received}</td>
+                      <td className="px-3 py-2 text-right">{row.dispensed}</td>
+                      <td className="px-3 py-2 text-right">{row.administered}</td>
+                      <td className="px-3 py-2 text-right">{row.wasted}</td>
+                      <td className="px-3 py-2 text-right">{row.adjusted ? signed(row.adjusted) : 0}</td>
+                      <td className="px-3 py-2 text-right">{row.transferredIn - row.transferredOut ? signed(row.transferredIn - row.transferredOut) : 0}</td>
+                      <td className="px-3 py-2 text-right font-black">{row.closingBalance}</td>
+                      <td className="px-3 py-2">
+                        {row.consistent
+                          ? <span className="flex items-center text-emerald-600 font-semibold"><CheckCircle2 className="w-3.5 h-3.5 mr-1" />Intact</span>
+                          : <span className="flex items-center text-rose-600 font-semibold"><AlertTriangle className="w-3.5 h-3.5 mr-1" />Lines don't add up</span>}
+                      </td>
+                      <td className="px-3 py-2">
+                        {row.counts.length === 0 ? <span className="text-slate-400">None</span> : row.counts.map(c => (
+                          <p key={c.id} className={c.discrepancy ? 'text-rose-600 font-semibold' : 'text-slate-500'}>
+                            {dateTimeOf(c.countedAt)}: {c.countedQuantity} vs {c.registerBalance}{c.discrepancy ? ` (${signed(c.discrepancy)}${c.adjustmentId ? ', adjusted' : ''})` : ''}
+                          </p>
+                        ))}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {drugs.length > 0 && (
+              <form onSubmit={handleCount} className="p-4 rounded-2xl bg-white border border-teal-100 shadow-sm space-y-3">
+                <p className="text-xs font-extrabold uppercase tracking-widest text-slate-500 flex items-center"><Scale className="w-4 h-4 mr-2 text-teal-500" />Physical Count</p>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+                  {drugs.map(d => (
+                    <label key={d.id} className="flex items-center justify-between gap-2 p-2 rounded-lg border border-slate-100 text-xs font-semibold text-slate-600">
+                      <span className="truncate">{d.name} <span className="text-slate-400">(register {d.balance})</span></span>
+                      <input
+                        type="number"
+                        step="0.001"
+                        min="0"
+                        value={countForm.counts[d.id] ?? ''}
+                        onChange={e => setCountForm({ ...countForm, counts: { ...countForm.counts, [d.id]: e.target.value } })}
+                        placeholder="Counted"
+                        className={`${inputClass} w-24`}
+                      />
+                    </label>
+                  ))}
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-2 items-center">
+                  <select required value={countForm.witnessId} onChange={e => setCountForm({ ...countForm, witnessId: e.target.value })} className={inputClass}>
+                    <option value="">Witness…</option>
+                    {witnesses.map(w => <option key={w.userId} value={w.userId}>{w.name}</option>)}
+                  </select>
+                  <input required={countForm.adjust} value={countForm.notes} onChange={e => setCountForm({ ...countForm, notes: e.target.value })} placeholder={countForm.adjust ? 'Reason for any adjustment' : 'Notes (optional)'} className={inputClass} />
+                  <label className="flex items-center gap-2 text-xs font-semibold text-slate-600">
+                    <input type="checkbox" checked={countForm.adjust} onChange={e => setCountForm({ ...countForm, adjust: e.target.checked })} />
+                    Adjust register to the count
+                  </label>
+                  <button type="submit" disabled={isBusy} className="px-3 py-1.5 text-xs font-bold text-white bg-teal-600 hover:bg-teal-700 rounded-lg flex items-center justify-center disabled:opacity-50">
+                    <ClipboardCheck className="w-3.5 h-3.5 mr-1.5" />Record Count
+                  </button>
+                </div>
+              </form>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ControlledDrugs;
@@ -1,14 +1,15 @@
-import React, { useMemo } from 'react';
-import { AppState, AppointmentStatus, ViewType } from '../types';
+import React, { useEffect, useMemo, useState } from 'react';
+import { AppState, AppointmentStatus, QueueMetrics, ViewType } from '../types';
 import { 
   Calendar, Users, Stethoscope, ShoppingCart, 
   Package, FlaskConical, FileText, Settings, 
   TrendingUp, AlertTriangle, Clock,
   DollarSign, Activity, Search, Wallet, FileClock, 
-  ArrowUpRight, ArrowDownRight, ChevronRight, Sparkles
+  ArrowUpRight, ArrowDownRight, ChevronRight, Sparkles, Armchair, Timer
 } from 'lucide-react';
 import { ResponsiveContainer, AreaChart, Area, Tooltip } from 'recharts';
 import { getAvatarGradient, formatCurrency } from '../utils/uiUtils';
+import { QueueService } from '../services/api';
 
 interface DashboardProps {
   state: AppState;
@@ -142,7 +143,7 @@ const Dashboard: React.FC<DashboardProps> = ({ state, onNavigate, onSelectPatien
 
   // Appointments Logic
   const todayAppointments = useMemo(() => state.appointments.filter(a => 
-    a.status !== AppointmentStatus.Cancelled && 
+    a.status !== AppointmentStatus.Cancelled && a.status !== AppointmentStatus.NoShow && 
     new Date(a.date).toDateString() === today
   ).sort((a,b) => new Date(a.date).getTime() - new Date(b.date).getTime()), [state.appointments, today]);
 
@@ -156,6 +157,18 @@ const Dashboard: React.FC<DashboardProps> = ({ state, onNavigate, onSelectPatien
       return { todayRevenue: tRev, revenuePercentChange: percent };
   }, [state.sales, today, yesterdayStr]);
 
+  // Waiting-room figures come from the server (roles without queue access just don't see them)
+  const [queueMetrics, setQueueMetrics] = useState<QueueMetrics | null>(null);
+  useEffect(() => {
+      const load = () => QueueService.getMetrics().then(res => setQueueMetrics(res.data)).catch(() => setQueueMetrics(null));
+      load();
+      const timer = setInterval(load, 60000);
+      return () => clearInterval(timer);
+  }, []);
+  const waitChangePercent = queueMetrics?.averageWaitMinutes != null && queueMetrics.previousAverageWaitMinutes
+      ? ((queueMetrics.averageWaitMinutes - queueMetrics.previousAverageWaitMinutes) / queueMetrics.previousAverageWaitMinutes) * 100
+      : undefined;
+
   const lowStockCount = useMemo(() => state.inventory.filter(i => i.type === 'Product' && i.stock <= i.reorderLevel).length, [state.inventory]);
   const pendingLabs = useMemo(() => state.labResults.filter(l => l.status !== 'Completed').length, [state.labResults]);
 
@@ -334,6 +347,14 @@ const Dashboard: React.FC<DashboardProps> = ({ state, onNavigate, onSelectPatien
                         colorTheme="indigo"
                         onClick={() => onNavigate('appointments')} 
                     />
+                    <ModuleAppCard 
+                        title="Queue" 
+                        desc="Waiting" 
+                        icon={Armchair} 
+                        colorTheme="orange"
+                        onClick={() => onNavigate('queue')} 
+                        count={queueMetrics?.now.waiting}
+                    />
                     <ModuleAppCard 
                         title="Clients" 
                         desc="Owners" 
@@ -400,6 +421,16 @@ const Dashboard: React.FC<DashboardProps> = ({ state, onNavigate, onSelectPatien
                         colorTheme="teal"
                         trendPercent={revenuePercentChange}
                     />
+                    {queueMetrics && (
+                        <HDStatWidget 
+                            label={`Avg Wait · ${queueMetrics.now.waiting} waiting`} 
+                            value={queueMetrics.averageWaitMinutes === null ? '—' : `${queueMetrics.averageWaitMinutes} min`} 
+                            icon={Timer} 
+                            colorTheme="blue"
+                            trendPercent={waitChangePercent}
+                            isNegative={waitChangePercent !== undefined && waitChangePercent > 0}
+                        />
+                    )}
                     <HDStatWidget 
                         label="Active Patients" 
                         value={state.pets.length.toString()} 
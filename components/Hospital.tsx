@@ -0,0 +1,413 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Admission, InventoryItem, Owner, Pet, TreatmentOrder, TreatmentRoute, TreatmentSheet } from '../types';
+import { Activity, BedDouble, Check, ClipboardList, LogOut, Pill, Plus, SkipForward, Square, X } from 'lucide-react';
+import { AdmissionService } from '../services/api';
+import { formatCurrency } from '../utils/uiUtils';
+
+interface HospitalProps {
+  pets: Pet[];
+  owners: Owner[];
+  inventory: InventoryItem[];
+  currency: string;
+  // Discharge bills the stay into the owner's open invoice
+  onSalesChanged: () => void;
+}
+
+// Mirrors services/admission.service on the server
+const ROUTES: TreatmentRoute[] = ['PO', 'IV', 'IM', 'SC', 'Topical', 'Inhaled', 'Other'];
+
+const inputClass = 'px-2 py-1.5 bg-white border border-slate-200 rounded-lg text-xs font-medium text-slate-700 outline-none focus:ring-2 focus:ring-teal-500';
+
+const timeOf = (iso: string) => new Date(iso).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+const dateTimeOf = (iso: string) => new Date(iso).toLocaleString([], { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+// Same rule the server bills by: every started 24 hours, at least one day
+const daysSince = (iso: string) => Math.max(1, Math.ceil((Date.now() - new Date(iso).getTime()) / (24 * 3600000)));
+
+const todayLocal = () => {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+};
+
+const emptyAdmit = { petId: '', kennel: '', reason: '', rateItemId: '', dailyRate: '', expectedDischargeAt: '' };
+const emptyOrder = { drug: '', dose: '', route: 'PO' as TreatmentRoute, times: '', notes: '' };
+const emptyVitals = { weightKg: '', temperatureC: '', heartRateBpm: '', respiratoryRate: '' };
+
+const Hospital: React.FC<HospitalProps> = ({ pets, owners, inventory, currency, onSalesChanged }) => {
+  const [status, setStatus] = useState<'Admitted' | 'Discharged'>('Admitted');
+  const [admissions, setAdmissions] = useState<Admission[]>([]);
+  const [selected, setSelected] = useState<Admission | null>(null);
+  const [sheet, setSheet] = useState<TreatmentSheet | null>(null);
+  const [sheetDate, setSheetDate] = useState(todayLocal());
+  const [tab, setTab] = useState<'sheet' | 'vitals'>('sheet');
+  const [isAdmitOpen, setIsAdmitOpen] = useState(false);
+  const [admitForm, setAdmitForm] = useState(emptyAdmit);
+  const [orderForm, setOrderForm] = useState(emptyOrder);
+  const [vitalsForm, setVitalsForm] = useState(emptyVitals);
+  const [isBusy, setIsBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const services = inventory.filter(i => i.type === 'Service');
+  const isOpen = selected?.status === 'Admitted';
+
+  const loadList = useCallback(async () => {
+    try {
+      const { data } = await AdmissionService.getAll(status);
+      setAdmissions(data);
+    } catch (error: any) {
+      setMessage(error?.message || 'Could not load inpatients');
+    }
+  }, [status]);
+
+  const loadDetail = useCallback(async (id: string) => {
+    try {
+      const { data } = await AdmissionService.get(id);
+      setSelected(data);
+    } catch (error: any) {
+      setMessage(error?.message || 'Could not load the admission');
+    }
+  }, []);
+
+  const loadSheet = useCallback(async (id: string, date: string) => {
+    try {
+      const { data } = await AdmissionService.getSheet(id, date);
+      setSheet(data);
+    } catch (error: any) {
+      setMessage(error?.message || 'Could not load the treatment sheet');
+    }
+  }, []);
+
+  useEffect(() => { loadList(); setSelected(null); }, [loadList]);
+
+  useEffect(() => {
+    if (selected) loadSheet(selected.id, sheetDate);
+    else setSheet(null);
+  }, [selected?.id, sheetDate, loadSheet]);
+
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    setIsBusy(true);
+    setMessage(null);
+    try {
+      await action();
+      return true;
+    } catch (error: any) {
+      setMessage(error?.message || failure);
+      return false;
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const select = (admission: Admission) => {
+    setMessage(null);
+    setTab('sheet');
+    setSheetDate(todayLocal());
+    loadDetail(admission.id);
+  };
+
+  const refresh = () => {
+    if (!selected) return;
+    loadDetail(selected.id);
+    loadSheet(selected.id, sheetDate);
+  };
+
+  const handleAdmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    await run(async () => {
+      const { data } = await AdmissionService.admit({
+        ...admitForm,
+        rateItemId: admitForm.rateItemId || undefined,
+        dailyRate: admitForm.dailyRate === '' ? undefined : Number(admitForm.dailyRate),
+        expectedDischargeAt: admitForm.expectedDischargeAt ? new Date(admitForm.expectedDischargeAt).toISOString() : undefined
+      });
+      setAdmitForm(emptyAdmit);
+      setIsAdmitOpen(false);
+      if (status === 'Admitted') await loadList();
+      else setStatus('Admitted');
+      loadDetail(data.id);
+    }, 'Could not admit the patient');
+  };
+
+  const handleMove = async () => {
+    if (!selected) return;
+    const kennel = window.prompt(`Move ${selected.pet.name} to which kennel?`, selected.kennel);
+    if (!kennel || kennel === selected.kennel) return;
+    if (await run(() => AdmissionService.update(selected.id, { kennel }), 'Could not move the patient')) {
+      loadList();
+      loadDetail(selected.id);
+    }
+  };
+
+  const handleAddOrder = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selected) return;
+    const times = orderForm.times.split(/[\s,]+/).filter(Boolean);
+    if (await run(() => AdmissionService.addTreatment(selected.id, { ...orderForm, times }), 'Could not add the treatment')) {
+      setOrderForm(emptyOrder);
+      refresh();
+    }
+  };
+
+  const handleStop = async (order: TreatmentOrder) => {
+    if (!selected || !window.confirm(`Stop ${order.drug}? Doses already recorded stay on the sheet.`)) return;
+    if (await run(() => AdmissionService.stopTreatment(selected.id, order.id), 'Could not stop the treatment')) refresh();
+  };
+
+  const handleDose = async (order: TreatmentOrder, dueAt: string, skip: boolean) => {
+    if (!selected) return;
+    let notes: string | undefined;
+    if (skip) {
+      const reason = window.prompt(`Why is the ${timeOf(dueAt)} dose of ${order.drug} being skipped?`);
+      if (!reason) return;
+      notes = reason;
+    }
+    await run(() => AdmissionService.recordDose(selected.id, order.id, { dueAt, status: skip ? 'Skipped' : 'Done', notes }), 'Could not record the dose');
+    // Reload either way: a failure is usually someone else recording the dose first
+    loadSheet(selected.id, sheetDate);
+  };
+
+  const handleVitals = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selected) return;
+    const entry = Object.fromEntries(Object.entries(vitalsForm).map(([key, value]) => [key, value === '' ? null : Number(value)]));
+    if (await run(() => AdmissionService.addVitals(selected.id, entry), 'Could not record vitals')) {
+      setVitalsForm(emptyVitals);
+      loadDetail(selected.id);
+    }
+  };
+
+  const handleDischarge = async () => {
+    if (!selected) return;
+    const days = daysSince(selected.admittedAt);
+    const billing = selected.dailyRate > 0
+      ? `\n\n${days} day(s) × ${formatCurrency(selected.dailyRate, currency)} = ${formatCurrency(days * selected.dailyRate, currency)} will be added to ${selected.owner.name}'s open invoice.`
+      : '\n\nNo daily rate is set, so nothing will be billed.';
+    if (!window.confirm(`Discharge ${selected.pet.name} from ${selected.kennel}?${billing}`)) return;
+    const notes = window.prompt('Discharge notes (optional)') || undefined;
+    if (await run(() => AdmissionService.discharge(selected.id, notes), 'Could not discharge the patient')) {
+      if (selected.dailyRate > 0) onSalesChanged();
+      setSelected(null);
+      loadList();
+    }
+  };
+
+  return (
+    <div className="bg-[#F8FAFC] h-full flex flex-col rounded-xl md:rounded-3xl overflow-hidden font-sans border border-slate-300 shadow-xl">
+      <div className="px-4 py-4 md:px-6 md:py-5 border-b border-slate-300 flex flex-col md:flex-row justify-between items-start md:items-center bg-white/80 backdrop-blur-xl gap-4">
+        <div>
+          <h2 className="text-xl md:text-2xl font-bold text-slate-800 tracking-tight">Hospital</h2>
+          <p className="text-slate-500 text-xs font-semibold mt-1">
+            {status === 'Admitted' ? `${admissions.length} inpatient${admissions.length === 1 ? '' : 's'}` : 'Recent discharges'}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <div className="flex bg-slate-100 p-1 rounded-xl">
+            {(['Admitted', 'Discharged'] as const).map(s => (
+              <button key={s} onClick={() => setStatus(s)} className={`px-3 py-1.5 text-xs font-bold rounded-lg ${status === s ? 'bg-white text-teal-700 shadow-sm' : 'text-slate-500'}`}>{s}</button>
+            ))}
+          </div>
+          <button onClick={() => setIsAdmitOpen(!isAdmitOpen)} className="px-5 py-2 text-sm font-bold text-white bg-gradient-to-r from-teal-600 to-teal-700 hover:from-teal-500 hover:to-teal-600 rounded-xl shadow-lg shadow-teal-700/20 flex items-center">
+            <Plus className="w-4 h-4 mr-2" /> Admit
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar p-4 md:p-6 space-y-5">
+        {message && <p className="text-xs font-semibold text-rose-600 p-3 bg-rose-50 border border-rose-100 rounded-xl">{message}</p>}
+
+        {isAdmitOpen && (
+          <form onSubmit={handleAdmit} className="p-4 rounded-2xl bg-white border border-teal-100 shadow-sm grid grid-cols-1 md:grid-cols-3 gap-3">
+            <select required value={admitForm.petId} onChange={e => setAdmitForm({ ...admitForm, petId: e.target.value })} className={inputClass}>
+              <option value="">Choose patient…</option>
+              {pets.map(p => <option key={p.id} value={p.id}>{p.name} ({owners.find(o => o.id === p.ownerId)?.name || 'No owner'})</option>)}
+            </select>
+            <input required value={admitForm.kennel} onChange={e => setAdmitForm({ ...admitForm, kennel: e.target.value })} placeholder="Kennel / cage" className={inputClass} />
+            <input required value={admitForm.reason} onChange={e => setAdmitForm({ ...admitForm, reason: e.target.value })} placeholder="Reason for admission" className={inputClass} />
+            <select
+              value={admitForm.rateItemId}
+              onChange={e => {
+                const item = services.find(s => s.id === e.target.value);
+                setAdmitForm({ ...admitForm, rateItemId: e.target.value, dailyRate: item ? String(item.retailPrice) : admitForm.dailyRate });
+              }}
+              className={inputClass}
+            >
+              <option value="">Bill as "Hospitalization"</option>
+              {services.map(s => <option key={s.id} value={s.id}>{s.name} ({formatCurrency(s.retailPrice, currency)}/day)</option>)}
+            </select>
+            <input type="number" min="0" step="0.01" value={admitForm.dailyRate} onChange={e => setAdmitForm({ ...admitForm, dailyRate: e.target.value })} placeholder={`Daily rate (${currency})`} className={inputClass} />
+            <label className="flex items-center gap-2 text-xs font-semibold text-slate-500">
+              Expected out
+              <input type="datetime-local" value={admitForm.expectedDischargeAt} onChange={e => setAdmitForm({ ...admitForm, expectedDischargeAt: e.target.value })} className={`${inputClass} flex-1`} />
+            </label>
+            <button type="submit" disabled={isBusy} className="md:col-start-3 px-4 py-2 text-xs font-bold text-white bg-teal-600 hover:bg-teal-700 rounded-lg disabled:opacity-50">Admit Patient</button>
+          </form>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+          <div className="space-y-3">
+            {admissions.length === 0 ? (
+              <p className="text-xs text-slate-400 text-center py-10 bg-white rounded-2xl border border-slate-200">{status === 'Admitted' ? 'No inpatients' : 'No discharges yet'}</p>
+            ) : admissions.map(a => (
+              <button
+                key={a.id}
+                onClick={() => select(a)}
+                className={`w-full text-left p-3 rounded-2xl bg-white border shadow-sm transition-all ${selected?.id === a.id ? 'border-teal-400 ring-2 ring-teal-100' : 'border-slate-200 hover:border-teal-200'}`}
+              >
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="text-sm font-bold text-slate-800 truncate">{a.pet.name}<span className="font-medium text-slate-400"> · {a.pet.species}</span></p>
+                    <p className="text-xs text-slate-500 truncate">{a.owner.name}</p>
+                  </div>
+                  <span className="text-[10px] font-extrabold uppercase tracking-wider px-2 py-1 rounded-md bg-teal-50 text-teal-700 border border-teal-100 flex items-center">
+                    <BedDouble className="w-3 h-3 mr-1" />{a.kennel}
+                  </span>
+                </div>
+                <p className="text-xs font-semibold text-slate-700 mt-2 truncate">{a.reason}</p>
+                <p className="text-[11px] text-slate-400 mt-1">
+                  {a.status === 'Admitted'
+                    ? `In since ${dateTimeOf(a.admittedAt)} · day ${daysSince(a.admittedAt)}`
+                    : `Out ${dateTimeOf(a.dischargedAt!)} · ${a.stayDays} day(s)`}
+                </p>
+              </button>
+            ))}
+          </div>
+
+          <div className="lg:col-span-2">
+            {!selected ? (
+              <div className="h-full min-h-[300px] flex flex-col items-center justify-center text-slate-400 bg-white rounded-2xl border border-dashed border-slate-300">
+                <BedDouble className="w-10 h-10 mb-2" />
+                <p className="text-sm font-semibold">Select a patient to see their treatment sheet</p>
+              </div>
+            ) : (
+              <div className="bg-white rounded-2xl border border-slate-200 shadow-sm overflow-hidden">
+                <div className="p-4 border-b border-slate-100 flex flex-col md:flex-row md:items-start justify-between gap-3">
+                  <div>
+                    <p className="text-lg font-black text-slate-800">{selected.pet.name} <span className="text-sm font-semibold text-slate-400">{selected.pet.breed || selected.pet.species}{selected.pet.patientNumber ? ` · ${selected.pet.patientNumber}` : ''}</span></p>
+                    <p className="text-xs text-slate-500">{selected.owner.name}{selected.owner.phone ? ` · ${selected.owner.phone}` : ''}</p>
+                    <p className="text-xs font-semibold text-slate-700 mt-1">{selected.reason}</p>
+                    <p className="text-[11px] text-slate-400 mt-1">
+                      {selected.kennel} · admitted {dateTimeOf(selected.admittedAt)} by {selected.admittedBy}
+                      {selected.expectedDischargeAt && isOpen ? ` · expected out ${dateTimeOf(selected.expectedDischargeAt)}` : ''}
+                      {selected.dailyRate > 0 ? ` · ${formatCurrency(selected.dailyRate, currency)}/day` : ''}
+                    </p>
+                    {!isOpen && (
+                      <p className="text-[11px] text-slate-500 mt-1">
+                        Discharged {dateTimeOf(selected.dischargedAt!)} by {selected.dischargedBy} after {selected.stayDays} day(s){selected.dischargeNotes ? ` — ${selected.dischargeNotes}` : ''}
+                      </p>
+                    )}
+                  </div>
+                  {isOpen && (
+                    <div className="flex gap-2 shrink-0">
+                      <button onClick={handleMove} disabled={isBusy} className="px-3 py-1.5 text-xs font-bold text-slate-600 bg-slate-100 hover:bg-slate-200 rounded-lg flex items-center"><BedDouble className="w-3.5 h-3.5 mr-1.5" />Move</button>
+                      <button onClick={handleDischarge} disabled={isBusy} className="px-3 py-1.5 text-xs font-bold text-white bg-amber-500 hover:bg-amber-600 rounded-lg flex items-center"><LogOut className="w-3.5 h-3.5 mr-1.5" />Discharge</button>
+                    </div>
+                  )}
+                </div>
+
+                <div className="flex border-b border-slate-100 px-4">
+                  {([['sheet', 'Treatment Sheet', ClipboardList], ['vitals', 'Vitals', Activity]] as const).map(([id, label, Icon]) => (
+                    <button key={id} onClick={() => setTab(id)} className={`px-3 py-2.5 text-xs font-bold border-b-2 flex items-center ${tab === id ? 'border-teal-600 text-teal-700' : 'border-transparent text-slate-500'}`}>
+                      <Icon className="w-3.5 h-3.5 mr-1.5" />{label}
+                    </button>
+                  ))}
+                </div>
+
+                {tab === 'sheet' ? (
+                  <div className="p-4 space-y-4">
+                    <div className="flex items-center gap-2">
+                      <input type="date" value={sheetDate} onChange={e => e.target.value && setSheetDate(e.target.value)} className={inputClass} />
+                      <button onClick={() => setSheetDate(todayLocal())} className="text-xs font-bold text-teal-700 hover:text-teal-800">Today</button>
+                    </div>
+
+                    {!sheet || sheet.rows.length === 0 ? (
+                      <p className="text-xs text-slate-400 text-center py-6">No doses scheduled on this day</p>
+                    ) : sheet.rows.map(({ order, doses }) => (
+                      <div key={order.id} className="p-3 rounded-xl border border-slate-200 space-y-2">
+                        <div className="flex items-start justify-between gap-2">
+                          <div>
+                            <p className="text-sm font-bold text-slate-800 flex items-center"><Pill className="w-3.5 h-3.5 mr-1.5 text-teal-500" />{order.drug} <span className="ml-1.5 font-semibold text-slate-500">{order.dose} {order.route}</span></p>
+                            <p className="text-[11px] text-slate-400">
+                              {order.times.join(', ')} · by {order.prescribedBy}{order.stoppedAt ? ` · stopped ${dateTimeOf(order.stoppedAt)}` : ''}{order.notes ? ` · ${order.notes}` : ''}
+                            </p>
+                          </div>
+                          {isOpen && !order.stoppedAt && (
+                            <button onClick={() => handleStop(order)} disabled={isBusy} title="Stop treatment" className="p-1.5 text-slate-400 hover:text-rose-600 hover:bg-rose-50 rounded-lg"><Square className="w-3.5 h-3.5" /></button>
+                          )}
+                        </div>
+                        <div className="flex flex-wrap gap-2">
+                          {doses.map(({ dueAt, task }) => task ? (
+                            <div key={dueAt} className={`px-2.5 py-1.5 rounded-lg border text-[11px] ${task.status === 'Done' ? 'bg-emerald-50 border-emerald-200 text-emerald-800' : 'bg-slate-50 border-slate-200 text-slate-500'}`} title={task.notes || undefined}>
+                              <span className="font-bold flex items-center">{task.status === 'Done' ? <Check className="w-3 h-3 mr-1" /> : <X className="w-3 h-3 mr-1" />}{timeOf(dueAt)}</span>
+                              <span>{task.doneByName} at {timeOf(task.doneAt)}</span>
+                            </div>
+                          ) : (
+                            <div key={dueAt} className={`px-2.5 py-1.5 rounded-lg border text-[11px] flex items-center gap-1.5 ${new Date(dueAt).getTime() < Date.now() ? 'border-amber-300 bg-amber-50 text-amber-800' : 'border-slate-200 text-slate-600'}`}>
+                              <span className="font-bold">{timeOf(dueAt)}</span>
+                              <button onClick={() => handleDose(order, dueAt, false)} disabled={isBusy} title="Given" className="p-0.5 rounded text-emerald-600 hover:bg-emerald-100"><Check className="w-3.5 h-3.5" /></button>
+                              <button onClick={() => handleDose(order, dueAt, true)} disabled={isBusy} title="Skip" className="p-0.5 rounded text-slate-400 hover:bg-slate-200"><SkipForward className="w-3.5 h-3.5" /></button>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    ))}
+
+                    {isOpen && (
+                      <form onSubmit={handleAddOrder} className="p-3 rounded-xl bg-slate-50 border border-slate-200 grid grid-cols-2 md:grid-cols-6 gap-2">
+                        <input required value={orderForm.drug} onChange={e => setOrderForm({ ...orderForm, drug: e.target.value })} placeholder="Drug" className={`${inputClass} md:col-span-2`} />
+                        <input required value={orderForm.dose} onChange={e => setOrderForm({ ...orderForm, dose: e.target.value })} placeholder="Dose (e.g. 2 mg/kg)" className={inputClass} />
+                        <select value={orderForm.route} onChange={e => setOrderForm({ ...orderForm, route: e.target.value as TreatmentRoute })} className={inputClass}>
+                          {ROUTES.map(r => <option key={r} value={r}>{r}</option>)}
+                        </select>
+                        <input required value={orderForm.times} onChange={e => setOrderForm({ ...orderForm, times: e.target.value })} placeholder="Times: 08:00, 20:00" className={`${inputClass} md:col-span-2`} />
+                        <input value={orderForm.notes} onChange={e => setOrderForm({ ...orderForm, notes: e.target.value })} placeholder="Notes (optional)" className={`${inputClass} col-span-2 md:col-span-5`} />
+                        <button type="submit" disabled={isBusy} className="px-3 py-1.5 text-xs font-bold text-white bg-teal-600 hover:bg-teal-700 rounded-lg disabled:opacity-50">Add Treatment</button>
+                      </form>
+                    )}
+                  </div>
+                ) : (
+                  <div className="p-4 space-y-4">
+                    {isOpen && (
+                      <form onSubmit={handleVitals} className="grid grid-cols-2 md:grid-cols-5 gap-2">
+                        <input type="number" step="0.01" value={vitalsForm.weightKg} onChange={e => setVitalsForm({ ...vitalsForm, weightKg: e.target.value })} placeholder="Weight (kg)" className={inputClass} />
+                        <input type="number" step="0.1" value={vitalsForm.temperatureC} onChange={e => setVitalsForm({ ...vitalsForm, temperatureC: e.target.value })} placeholder="Temp (°C)" className={inputClass} />
+                        <input type="number" value={vitalsForm.heartRateBpm} onChange={e => setVitalsForm({ ...vitalsForm, heartRateBpm: e.target.value })} placeholder="HR (bpm)" className={inputClass} />
+                        <input type="number" value={vitalsForm.respiratoryRate} onChange={e => setVitalsForm({ ...vitalsForm, respiratoryRate: e.target.value })} placeholder="RR (/min)" className={inputClass} />
+                        <button type="submit" disabled={isBusy} className="px-3 py-1.5 text-xs font-bold text-white bg-teal-600 hover:bg-teal-700 rounded-lg disabled:opacity-50">Record</button>
+                      </form>
+                    )}
+                    {!selected.vitals?.length ? (
+                      <p className="text-xs text-slate-400 text-center py-6">No vitals recorded during this stay</p>
+                    ) : (
+                      <table className="w-full text-xs">
+                        <thead>
+                          <tr className="text-left text-[10px] uppercase tracking-widest text-slate-400">
+                            <th className="py-2">Time</th><th>Weight</th><th>Temp</th><th>HR</th><th>RR</th><th>By</th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-slate-100">
+                          {selected.vitals.map(v => (
+                            <tr key={v.id} className="text-slate-700">
+                              <td className="py-2 font-semibold">{dateTimeOf(v.date)}</td>
+                              <td>{v.weightKg ?? '—'}</td>
+                              <td>{v.temperatureC ?? '—'}</td>
+                              <td>{v.heartRateBpm ?? '—'}</td>
+                              <td>{v.respiratoryRate ?? '—'}</td>
+                              <td className="text-slate-500">{v.recordedBy}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Hospital;
@@ -136,7 +136,10 @@ const Inventory: React.FC<InventoryProps> = ({ items, currency, onAddItem, onUpd
                 return (
                   <tr key={item.id} className="hover:bg-slate-50 group transition-colors">
                     <td className="px-4 py-3">
-                      <div className="font-medium text-slate-900">{item.name}</div>
+                      <div className="font-medium text-slate-900">
+                        {item.name}
+                        {item.isControlled && <span className="ml-2 px-1.5 py-0.5 rounded text-[10px] font-bold bg-rose-50 text-rose-700 border border-rose-100">{item.controlledSchedule || 'Controlled'}</span>}
+                      </div>
                       <div className="text-xs text-slate-500">SKU: {item.sku || 'N/A'}</div>
                     </td>
                     <td className="px-4 py-3">
@@ -1,6 +1,7 @@
-import React, { useState } from 'react';
-import { LabResult, Pet, Owner } from '../types';
-import { FlaskConical, Clock, CheckCircle2, FileText, Download, Plus, Search, Microscope, Upload, Save, Filter } from 'lucide-react';
+import React, { useState, useEffect, useRef } from 'react';
+import { LabResult, Pet, Owner, LabTestDefinition, LabAnalyteDefinition, LabFlag, LabResultValue, LabImport, LabImportSummary } from '../types';
+import { FlaskConical, Clock, CheckCircle2, FileText, Download, Plus, Search, Microscope, Upload, Save, Filter, Loader2, FileUp, Inbox, Trash2 } from 'lucide-react';
+import { LabService } from '../services/api';
 
 interface LabProps {
     results: LabResult[];
@@ -8,24 +9,118 @@ interface LabProps {
     owners: Owner[];
     onAddResult: (result: LabResult) => void;
     onUpdateResult: (result: LabResult) => void;
+    onResultsImported: () => Promise<void>;
 }
 
-const Lab: React.FC<LabProps> = ({ results, pets, owners, onAddResult, onUpdateResult }) => {
-  const [activeTab, setActiveTab] = useState<'All' | 'Pending' | 'Completed'>('All');
+const FLAG_LABELS: Record<LabFlag, string> = { N: 'Normal', L: 'Low', H: 'High', LL: 'Critical Low', HH: 'Critical High', A: 'Abnormal' };
+const FLAG_STYLES: Record<LabFlag, string> = {
+    N: 'bg-emerald-50 text-emerald-600 border-emerald-100',
+    L: 'bg-amber-50 text-amber-700 border-amber-200',
+    H: 'bg-amber-50 text-amber-700 border-amber-200',
+    LL: 'bg-rose-600 text-white border-rose-600',
+    HH: 'bg-rose-600 text-white border-rose-600',
+    A: 'bg-amber-50 text-amber-700 border-amber-200'
+};
+
+// Preview only; the server recomputes flags from the same catalogue when results are saved
+const previewFlag = (analyte: LabAnalyteDefinition, species: string, raw: string): LabFlag | null => {
+    if (!raw.trim()) return null;
+    if (analyte.options) return analyte.normal?.includes(raw) ? 'N' : 'A';
+    const value = Number(raw);
+    if (isNaN(value)) return null;
+    const [critLow, critHigh] = analyte.critical || [null, null];
+    if (critLow !== null && value < critLow) return 'LL';
+    if (critHigh !== null && value > critHigh) return 'HH';
+    const range = analyte.ranges?.[species];
+    if (!range) return null;
+    return value < range[0] ? 'L' : value > range[1] ? 'H' : 'N';
+};
+
+const isAbnormal = (v: LabResultValue) => !!v.flag && v.flag !== 'N';
+
+const Lab: React.FC<LabProps> = ({ results, pets, owners, onAddResult, onUpdateResult, onResultsImported }) => {
+  const [activeTab, setActiveTab] = useState<'All' | 'Pending' | 'Completed' | 'Queue'>('All');
   const [searchTerm, setSearchTerm] = useState('');
   
   // Request Modal State
   const [isRequestModalOpen, setIsRequestModalOpen] = useState(false);
-  const [newRequest, setNewRequest] = useState({ petId: '', testName: '', notes: '' });
+  const [newRequest, setNewRequest] = useState({ petId: '', testCode: '', testName: '', notes: '', cost: '' });
 
   // File Result Modal State
   const [isFileModalOpen, setIsFileModalOpen] = useState(false);
   const [selectedResult, setSelectedResult] = useState<LabResult | null>(null);
   const [resultData, setResultData] = useState({ result: '', notes: '' });
+  const [analyteValues, setAnalyteValues] = useState<Record<string, string>>({});
+
+  const [catalogue, setCatalogue] = useState<LabTestDefinition[]>([]);
+  useEffect(() => {
+      LabService.getCatalogue().then(res => setCatalogue(res.data)).catch(() => setCatalogue([]));
+  }, []);
+
+  // Analyzer import + reconciliation queue
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [importMessage, setImportMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [imports, setImports] = useState<LabImport[]>([]);
+  const [assignments, setAssignments] = useState<Record<string, string>>({});
+
+  const loadImports = () => LabService.getImports().then(res => setImports(res.data)).catch(() => setImports([]));
+  useEffect(() => { loadImports(); }, []);
+
+  const openRequests = results.filter(r => r.status !== 'Completed');
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file) return;
+      setIsImporting(true);
+      setImportMessage(null);
+      try {
+          const content = await file.text();
+          const { data } = await LabService.importFile(file.name, content);
+          const summary = data as LabImportSummary;
+          setImportMessage({
+              type: 'success',
+              text: `${file.name}: ${summary.matched.length} result${summary.matched.length === 1 ? '' : 's'} filed${summary.queued ? `, ${summary.queued} waiting in the reconciliation queue` : ''}`
+          });
+          await Promise.all([onResultsImported(), loadImports()]);
+          if (summary.queued && !summary.matched.length) setActiveTab('Queue');
+      } catch (err: any) {
+          setImportMessage({ type: 'error', text: err?.response?.data?.error || `Could not import ${file.name}` });
+      } finally {
+          setIsImporting(false);
+      }
+  };
+
+  const handleResolveImport = async (item: LabImport) => {
+      const labResultId = assignments[item.id];
+      if (!labResultId) return;
+      try {
+          await LabService.resolveImport(item.id, labResultId);
+          setImportMessage({ type: 'success', text: `${item.testName || item.testCode || 'Result'} filed against the selected request` });
+          await Promise.all([onResultsImported(), loadImports()]);
+      } catch (err: any) {
+          setImportMessage({ type: 'error', text: err?.response?.data?.error || 'Could not assign the result' });
+      }
+  };
+
+  const handleDiscardImport = async (item: LabImport) => {
+      if (!window.confirm('Discard these analyzer results? They will not be filed to any patient.')) return;
+      try {
+          await LabService.discardImport(item.id);
+          setImports(prev => prev.filter(i => i.id !== item.id));
+      } catch (err: any) {
+          setImportMessage({ type: 'error', text: err?.response?.data?.error || 'Could not discard the result' });
+      }
+  };
+
+  const selectedTest = catalogue.find(t => t.code === selectedResult?.testCode);
+  const selectedSpecies = pets.find(p => p.id === selectedResult?.petId)?.species || '';
 
   const filteredResults = results.filter(r => {
       const matchesSearch = r.testName.toLowerCase().includes(searchTerm.toLowerCase()) || 
-                            r.patientName?.toLowerCase().includes(searchTerm.toLowerCase());
+                            r.patientName?.toLowerCase().includes(searchTerm.toLowerCase()) ||
+                            r.accessionNumber?.toLowerCase().includes(searchTerm.toLowerCase());
       const matchesTab = activeTab === 'All' || r.status === (activeTab === 'Completed' ? 'Completed' : 'Pending');
       if (activeTab === 'Pending') {
           return matchesSearch && (r.status === 'Pending' || r.status === 'Processing');
@@ -34,7 +129,9 @@ const Lab: React.FC<LabProps> = ({ results, pets, owners, onAddResult, onUpdateR
   });
 
   const handleCreateRequest = () => {
-      if (!newRequest.petId || !newRequest.testName) return;
+      const catalogueTest = catalogue.find(t => t.code === newRequest.testCode);
+      const testName = catalogueTest?.name || newRequest.testName;
+      if (!newRequest.petId || !testName) return;
       const pet = pets.find(p => p.id === newRequest.petId);
       const owner = owners.find(o => o.id === pet?.ownerId);
 
@@ -44,34 +141,41 @@ const Lab: React.FC<LabProps> = ({ results, pets, owners, onAddResult, onUpdateR
           petId: newRequest.petId,
           patientName: pet?.name,
           ownerName: owner?.name,
-          testName: newRequest.testName,
+          testCode: catalogueTest?.code,
+          testName,
           requestDate: new Date().toISOString(),
           status: 'Pending',
-          requestedBy: 'Current User', 
-          notes: newRequest.notes
+          requestedBy: '', // Filled in from the signed-in user on the server
+          notes: newRequest.notes,
+          cost: Number(newRequest.cost) || 0
       };
 
       onAddResult(newItem);
       setIsRequestModalOpen(false);
-      setNewRequest({ petId: '', testName: '', notes: '' });
+      setNewRequest({ petId: '', testCode: '', testName: '', notes: '', cost: '' });
   };
 
   const openFileModal = (lab: LabResult) => {
       setSelectedResult(lab);
       setResultData({ result: lab.result || '', notes: lab.notes || '' });
+      setAnalyteValues(Object.fromEntries((lab.values || []).map(v => [v.analyte, String(v.value ?? v.textValue ?? '')])));
       setIsFileModalOpen(true);
   };
 
-  const handleSaveResult = () => {
+  // status undefined keeps the current status (save progress); conductedBy and completionDate are set server-side
+  const handleSaveResult = (status?: LabResult['status']) => {
       if (!selectedResult) return;
-      
+
       const updated: LabResult = {
           ...selectedResult,
-          status: 'Completed',
-          completionDate: new Date().toISOString(),
+          status: status || selectedResult.status,
           result: resultData.result,
           notes: resultData.notes,
-          conductedBy: 'Lab Tech'
+          values: selectedTest
+              ? selectedTest.analytes
+                  .filter(a => (analyteValues[a.code] || '').trim())
+                  .map(a => ({ analyte: a.code, name: a.name, value: a.options ? null : Number(analyteValues[a.code]), textValue: a.options ? analyteValues[a.code] : null }))
+              : undefined
       };
 
       onUpdateResult(updated);
@@ -89,13 +193,31 @@ const Lab: React.FC<LabProps> = ({ results, pets, owners, onAddResult, onUpdateR
                     <span className="hidden md:inline">Lab & Diagnostics</span>
                     <span className="md:hidden">Lab</span>
                 </h2>
+                <div className="flex items-center gap-2">
+                <input ref={fileInputRef} type="file" accept=".hl7,.oru,.astm,.txt,.msg" className="hidden" onChange={handleImportFile} />
+                <button 
+                    onClick={() => fileInputRef.current?.click()}
+                    disabled={isImporting}
+                    title="Import HL7 / ASTM analyzer results"
+                    className="bg-white hover:bg-slate-50 text-slate-700 border border-slate-200 px-3 py-2 rounded-lg text-xs md:text-sm font-bold flex items-center transition-all active:scale-95 disabled:opacity-50"
+                >
+                    {isImporting ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <FileUp className="w-4 h-4 mr-1" />} Import
+                </button>
                 <button 
                     onClick={() => setIsRequestModalOpen(true)}
                     className="bg-indigo-600 hover:bg-indigo-700 text-white px-3 py-2 rounded-lg text-xs md:text-sm font-bold flex items-center shadow-lg shadow-indigo-200 transition-all active:scale-95"
                 >
                     <Plus className="w-4 h-4 mr-1" /> New Test
                 </button>
+                </div>
             </div>
+
+            {importMessage && (
+                <div className={`flex justify-between items-start gap-2 px-3 py-2 rounded-lg text-xs font-medium border ${importMessage.type === 'success' ? 'bg-emerald-50 text-emerald-700 border-emerald-100' : 'bg-rose-50 text-rose-700 border-rose-100'}`}>
+                    <span>{importMessage.text}</span>
+                    <button onClick={() => setImportMessage(null)} className="shrink-0 opacity-60 hover:opacity-100">✕</button>
+                </div>
+            )}
             
             <div className="relative">
                 <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
@@ -110,7 +232,7 @@ const Lab: React.FC<LabProps> = ({ results, pets, owners, onAddResult, onUpdateR
 
             {/* Scrollable Tabs */}
             <div className="flex space-x-1 overflow-x-auto no-scrollbar pb-1">
-                {['All', 'Pending', 'Completed'].map(tab => (
+                {['All', 'Pending', 'Completed', 'Queue'].map(tab => (
                     <button 
                         key={tab}
                         onClick={() => setActiveTab(tab as any)}
@@ -120,20 +242,70 @@ const Lab: React.FC<LabProps> = ({ results, pets, owners, onAddResult, onUpdateR
                             : 'bg-white text-slate-500 border-slate-200'
                         }`}
                     >
-                        {tab}
+                        {tab === 'Queue' ? `Unmatched${imports.length ? ` (${imports.length})` : ''}` : tab}
                     </button>
                 ))}
             </div>
        </div>
 
        <div className="flex-1 overflow-y-auto p-3 md:p-4 bg-slate-50">
+            {activeTab === 'Queue' ? (
+            <div className="space-y-3 pb-20 md:pb-0">
+                {imports.map(item => (
+                    <div key={item.id} className="bg-white p-4 rounded-xl border border-slate-200 shadow-sm">
+                        <div className="flex justify-between items-start gap-3 mb-3">
+                            <div>
+                                <h3 className="font-bold text-slate-800 text-sm leading-tight">{item.testName || item.testCode || 'Unknown test'}</h3>
+                                <p className="text-xs text-slate-500 font-medium mt-0.5">
+                                    {item.patientName || 'Unnamed patient'}{item.patientRef && <span className="font-mono text-slate-400"> · ID {item.patientRef}</span>}
+                                </p>
+                            </div>
+                            <span className="px-2 py-0.5 rounded text-[10px] font-bold uppercase tracking-wide border bg-slate-50 text-slate-500 border-slate-200 shrink-0">{item.format} · {item.source}</span>
+                        </div>
+                        <div className="bg-slate-50 rounded-lg p-2.5 mb-3 space-y-1 text-xs">
+                            <div className="flex justify-between"><span className="text-slate-400">Accession</span><span className="font-mono text-slate-700">{item.accession || '—'}</span></div>
+                            <div className="flex justify-between"><span className="text-slate-400">Received</span><span className="font-medium text-slate-700">{new Date(item.observedAt || item.createdAt).toLocaleString()}</span></div>
+                            {item.fileName && <div className="flex justify-between"><span className="text-slate-400">File</span><span className="font-medium text-slate-700 truncate max-w-[180px]">{item.fileName}</span></div>}
+                        </div>
+                        <div className="flex flex-wrap gap-1 mb-3">
+                            {item.values.map((v, i) => (
+                                <span key={`${v.code}-${i}`} className={`px-1.5 py-0.5 rounded border text-[10px] font-bold ${v.flag && v.flag in FLAG_STYLES && v.flag !== 'N' ? FLAG_STYLES[v.flag as LabFlag] : 'bg-white text-slate-600 border-slate-200'}`}>
+                                    {v.code} {v.value}{v.unit && ` ${v.unit}`}
+                                </span>
+                            ))}
+                        </div>
+                        <div className="flex gap-2">
+                            <select
+                                className="flex-1 min-w-0 p-2 bg-slate-50 border border-slate-200 rounded-lg text-xs outline-none focus:ring-2 focus:ring-indigo-500"
+                                value={assignments[item.id] || ''}
+                                onChange={e => setAssignments({ ...assignments, [item.id]: e.target.value })}
+                            >
+                                <option value="">Assign to open request...</option>
+                                {openRequests.map(r => (
+                                    <option key={r.id} value={r.id}>{r.patientName} – {r.testName}{r.accessionNumber ? ` (${r.accessionNumber})` : ''}</option>
+                                ))}
+                            </select>
+                            <button onClick={() => handleResolveImport(item)} disabled={!assignments[item.id]} className="px-3 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg text-xs font-bold disabled:opacity-40">File</button>
+                            <button onClick={() => handleDiscardImport(item)} title="Discard" className="p-2 text-slate-400 hover:text-rose-600 hover:bg-rose-50 rounded-lg border border-slate-200"><Trash2 className="w-4 h-4" /></button>
+                        </div>
+                    </div>
+                ))}
+                {imports.length === 0 && (
+                    <div className="py-16 flex flex-col items-center justify-center text-slate-400 opacity-60">
+                        <Inbox className="w-16 h-16 mb-4 stroke-1"/>
+                        <p>No unmatched analyzer results</p>
+                    </div>
+                )}
+            </div>
+            ) : (
+            <>
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3 md:gap-4 pb-20 md:pb-0">
                 {filteredResults.map(lab => (
                     <div key={lab.id} className="bg-white p-4 rounded-xl border border-slate-200 shadow-sm active:scale-[0.99] transition-transform">
                         <div className="flex justify-between items-start mb-3">
                             <div className="flex items-start gap-3">
                                 <div className={`w-10 h-10 rounded-full flex items-center justify-center shrink-0 ${
-                                    lab.status === 'Completed' ? 'bg-emerald-100 text-emerald-600' : 'bg-amber-100 text-amber-600'
+                                    lab.status === 'Completed' ? 'bg-emerald-100 text-emerald-600' : lab.status === 'Processing' ? 'bg-blue-100 text-blue-600' : 'bg-amber-100 text-amber-600'
                                 }`}>
                                     {lab.status === 'Completed' ? <CheckCircle2 className="w-5 h-5"/> : <Clock className="w-5 h-5"/>}
                                 </div>
@@ -144,6 +316,7 @@ const Lab: React.FC<LabProps> = ({ results, pets, owners, onAddResult, onUpdateR
                             </div>
                             <span className={`px-2 py-0.5 rounded text-[10px] font-bold uppercase tracking-wide border ${
                                 lab.status === 'Completed' ? 'bg-green-50 text-green-600 border-green-100' : 
+                                lab.status === 'Processing' ? 'bg-blue-50 text-blue-600 border-blue-100' :
                                 'bg-orange-50 text-orange-600 border-orange-100'
                             }`}>
                                 {lab.status}
@@ -155,10 +328,22 @@ const Lab: React.FC<LabProps> = ({ results, pets, owners, onAddResult, onUpdateR
                                 <span className="text-slate-400">Date</span>
                                 <span className="font-medium text-slate-700">{new Date(lab.requestDate).toLocaleDateString()}</span>
                              </div>
+                             {lab.accessionNumber && (
+                                <div className="flex justify-between text-xs">
+                                    <span className="text-slate-400">Accession</span>
+                                    <span className="font-mono text-slate-700">{lab.accessionNumber}</span>
+                                </div>
+                             )}
                              <div className="flex justify-between text-xs">
                                 <span className="text-slate-400">Owner</span>
                                 <span className="font-medium text-slate-700 truncate max-w-[120px]">{lab.ownerName}</span>
                              </div>
+                             {lab.conductedBy && (
+                                <div className="flex justify-between text-xs">
+                                    <span className="text-slate-400">Conducted by</span>
+                                    <span className="font-medium text-slate-700 truncate max-w-[120px]">{lab.conductedBy}</span>
+                                </div>
+                             )}
                         </div>
 
                         {lab.status !== 'Completed' ? (
@@ -171,7 +356,17 @@ const Lab: React.FC<LabProps> = ({ results, pets, owners, onAddResult, onUpdateR
                         ) : (
                             <div className="text-xs text-slate-600 bg-slate-50 p-2 rounded border border-slate-100">
                                 <span className="font-bold text-slate-800 block mb-1">Findings:</span>
-                                <p className="line-clamp-2">{lab.result}</p>
+                                {lab.values && lab.values.some(isAbnormal) && (
+                                    <div className="flex flex-wrap gap-1 mb-1">
+                                        {lab.values.filter(isAbnormal).map(v => (
+                                            <span key={v.analyte} className={`px-1.5 py-0.5 rounded border text-[10px] font-bold ${FLAG_STYLES[v.flag!]}`}>
+                                                {v.analyte} {v.value ?? v.textValue} {v.flag}
+                                            </span>
+                                        ))}
+                                    </div>
+                                )}
+                                {lab.values && lab.values.length > 0 && !lab.values.some(isAbnormal) && <p className="text-emerald-600 font-medium">All {lab.values.length} analytes within range</p>}
+                                {lab.result && <p className="line-clamp-2">{lab.result}</p>}
                             </div>
                         )}
                     </div>
@@ -183,6 +378,8 @@ const Lab: React.FC<LabProps> = ({ results, pets, owners, onAddResult, onUpdateR
                     <p>No records found</p>
                 </div>
             )}
+            </>
+            )}
        </div>
 
        {/* New Request Modal - Mobile Optimized */}
@@ -206,13 +403,41 @@ const Lab: React.FC<LabProps> = ({ results, pets, owners, onAddResult, onUpdateR
                            </select>
                        </div>
                        <div>
-                           <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Test Name</label>
+                           <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Test</label>
+                           <select 
+                            className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl text-sm outline-none focus:ring-2 focus:ring-indigo-500"
+                            value={newRequest.testCode}
+                            onChange={(e) => setNewRequest({...newRequest, testCode: e.target.value})}
+                           >
+                               <option value="">Other (free text)</option>
+                               {Array.from(new Set(catalogue.map(t => t.category))).map(category => (
+                                   <optgroup key={category} label={category}>
+                                       {catalogue.filter(t => t.category === category).map(t => <option key={t.code} value={t.code}>{t.name}</option>)}
+                                   </optgroup>
+                               ))}
+                           </select>
+                       </div>
+                       {!newRequest.testCode && (
+                           <div>
+                               <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Test Name</label>
+                               <input 
+                                type="text" 
+                                className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl text-sm outline-none focus:ring-2 focus:ring-indigo-500"
+                                placeholder="e.g. Skin scraping"
+                                value={newRequest.testName}
+                                onChange={(e) => setNewRequest({...newRequest, testName: e.target.value})}
+                               />
+                           </div>
+                       )}
+                       <div>
+                           <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Cost</label>
                            <input 
-                            type="text" 
+                            type="number" 
+                            min="0"
                             className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl text-sm outline-none focus:ring-2 focus:ring-indigo-500"
-                            placeholder="e.g. CBC, Urinalysis"
-                            value={newRequest.testName}
-                            onChange={(e) => setNewRequest({...newRequest, testName: e.target.value})}
+                            placeholder="0.00"
+                            value={newRequest.cost}
+                            onChange={(e) => setNewRequest({...newRequest, cost: e.target.value})}
                            />
                        </div>
                        <div>
@@ -241,14 +466,47 @@ const Lab: React.FC<LabProps> = ({ results, pets, owners, onAddResult, onUpdateR
                    <div className="p-5 space-y-4 overflow-y-auto">
                        <div className="bg-indigo-50 p-3 rounded-xl text-xs space-y-1 border border-indigo-100">
                            <div className="flex justify-between"><span className="text-indigo-400 font-bold uppercase">Patient</span> <span className="font-bold text-indigo-900">{selectedResult.patientName}</span></div>
+                           {selectedResult.accessionNumber && <div className="flex justify-between"><span className="text-indigo-400 font-bold uppercase">Accession</span> <span className="font-bold font-mono text-indigo-900">{selectedResult.accessionNumber}</span></div>}
                            <div className="flex justify-between"><span className="text-indigo-400 font-bold uppercase">Date</span> <span className="font-bold text-indigo-900">{new Date(selectedResult.requestDate).toLocaleDateString()}</span></div>
                        </div>
 
+                       {selectedTest && (
+                           <div>
+                               <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Results ({selectedSpecies || 'species unknown'})</label>
+                               <div className="border border-slate-200 rounded-xl divide-y divide-slate-100">
+                                   {selectedTest.analytes.map(a => {
+                                       const raw = analyteValues[a.code] || '';
+                                       const flag = previewFlag(a, selectedSpecies, raw);
+                                       const range = a.ranges?.[selectedSpecies];
+                                       return (
+                                           <div key={a.code} className="flex items-center gap-2 px-3 py-2 text-xs">
+                                               <div className="flex-1 min-w-0">
+                                                   <p className="font-bold text-slate-700 truncate">{a.name} <span className="text-slate-400 font-mono">{a.code}</span></p>
+                                                   <p className="text-[10px] text-slate-400">{range ? `Ref ${range[0]}–${range[1]}` : a.options ? `Normal: ${a.normal?.join(', ')}` : 'No reference range'}{a.unit && ` ${a.unit}`}</p>
+                                               </div>
+                                               {a.options ? (
+                                                   <select value={raw} onChange={e => setAnalyteValues({ ...analyteValues, [a.code]: e.target.value })} className="w-28 p-1.5 bg-slate-50 border border-slate-200 rounded-lg">
+                                                       <option value="">—</option>
+                                                       {a.options.map(o => <option key={o} value={o}>{o}</option>)}
+                                                   </select>
+                                               ) : (
+                                                   <input type="number" step="any" value={raw} onChange={e => setAnalyteValues({ ...analyteValues, [a.code]: e.target.value })} className="w-24 p-1.5 bg-slate-50 border border-slate-200 rounded-lg text-right font-mono" />
+                                               )}
+                                               <span className={`w-20 text-center px-1.5 py-0.5 rounded border text-[10px] font-bold ${flag ? FLAG_STYLES[flag] : 'border-transparent text-slate-300'}`}>
+                                                   {flag ? FLAG_LABELS[flag] : '—'}
+                                               </span>
+                                           </div>
+                                       );
+                                   })}
+                               </div>
+                           </div>
+                       )}
+
                        <div>
-                           <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Result Summary</label>
+                           <label className="block text-xs font-bold text-slate-500 uppercase mb-1">{selectedTest ? 'Comments' : 'Result Summary'}</label>
                            <textarea 
-                            className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl text-sm h-32 outline-none focus:ring-2 focus:ring-indigo-500 resize-none"
-                            placeholder="Enter findings..."
+                            className={`w-full p-3 bg-slate-50 border border-slate-200 rounded-xl text-sm outline-none focus:ring-2 focus:ring-indigo-500 resize-none ${selectedTest ? 'h-20' : 'h-32'}`}
+                            placeholder={selectedTest ? 'Morphology, interpretation...' : 'Enter findings...'}
                             value={resultData.result}
                             onChange={(e) => setResultData({...resultData, result: e.target.value})}
                            />
@@ -259,10 +517,19 @@ const Lab: React.FC<LabProps> = ({ results, pets, owners, onAddResult, onUpdateR
                            <p>Tap to upload PDF/Image</p>
                        </div>
 
-                       <div className="grid grid-cols-2 gap-3 pt-2">
+                       <div className="grid grid-cols-3 gap-3 pt-2">
                             <button onClick={() => setIsFileModalOpen(false)} className="py-3 text-slate-600 bg-slate-100 hover:bg-slate-200 rounded-xl text-sm font-bold">Cancel</button>
-                            <button onClick={handleSaveResult} className="py-3 bg-emerald-500 hover:bg-emerald-600 text-white rounded-xl text-sm font-bold shadow-lg shadow-emerald-200">
-                                Save Result
+                            {selectedResult.status === 'Pending' ? (
+                                <button onClick={() => handleSaveResult('Processing')} className="py-3 bg-blue-50 hover:bg-blue-100 text-blue-700 border border-blue-200 rounded-xl text-sm font-bold flex items-center justify-center">
+                                    <Loader2 className="w-4 h-4 mr-1" /> Processing
+                                </button>
+                            ) : (
+                                <button onClick={() => handleSaveResult()} className="py-3 bg-blue-50 hover:bg-blue-100 text-blue-700 border border-blue-200 rounded-xl text-sm font-bold flex items-center justify-center">
+                                    <Save className="w-4 h-4 mr-1" /> Save
+                                </button>
+                            )}
+                            <button onClick={() => handleSaveResult('Completed')} className="py-3 bg-emerald-500 hover:bg-emerald-600 text-white rounded-xl text-sm font-bold shadow-lg shadow-emerald-200">
+                                Complete
                             </button>
                        </div>
                    </div>
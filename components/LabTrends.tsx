@@ -0,0 +1,218 @@
+import React, { useState, useEffect } from 'react';
+import { Pet, LabResult, LabFlag, LabTrendAnalyte, LabTrendSeries } from '../types';
+import { FlaskConical, TrendingUp, TrendingDown, Minus, GitCompare } from 'lucide-react';
+import { ResponsiveContainer, ComposedChart, Line, ReferenceArea, ReferenceLine, Tooltip, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { LabService } from '../services/api';
+
+interface LabTrendsProps {
+  pet: Pet;
+}
+
+const FLAG_COLORS: Record<LabFlag, string> = { N: '#10b981', L: '#f59e0b', H: '#f59e0b', LL: '#e11d48', HH: '#e11d48', A: '#f59e0b' };
+
+const shortDate = (value: string) => new Date(value).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: '2-digit' });
+const resultDate = (lab: LabResult) => lab.completionDate || lab.requestDate;
+
+// Coloured by the flag stored with the value, so the dot matches what was reported
+const FlagDot = ({ cx, cy, payload }: any) => (
+  <circle cx={cx} cy={cy} r={5} stroke="#fff" strokeWidth={2} fill={payload?.flag ? FLAG_COLORS[payload.flag as LabFlag] : '#64748b'} />
+);
+
+const TrendTooltip = ({ active, payload, unit }: any) => {
+  if (!active || !payload?.length) return null;
+  const point = payload[0].payload;
+  return (
+    <div className="bg-white/90 backdrop-blur-md p-3 rounded-xl shadow-xl border border-white/50 text-xs">
+      <p className="font-bold text-gray-800 mb-1">{new Date(point.date).toLocaleDateString()}</p>
+      <p className="font-semibold text-gray-700">{point.value}{unit && ` ${unit}`}{point.flag && point.flag !== 'N' && <span className="ml-1 text-rose-600">{point.flag}</span>}</p>
+      <p className="text-gray-400">{point.testName}</p>
+    </div>
+  );
+};
+
+const LabTrends: React.FC<LabTrendsProps> = ({ pet }) => {
+  const [analytes, setAnalytes] = useState<LabTrendAnalyte[]>([]);
+  const [selectedAnalyte, setSelectedAnalyte] = useState('');
+  const [series, setSeries] = useState<LabTrendSeries | null>(null);
+  const [labs, setLabs] = useState<LabResult[]>([]);
+  const [compareIds, setCompareIds] = useState<[string, string]>(['', '']);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    setIsLoading(true);
+    setError('');
+    Promise.all([LabService.getTrendAnalytes(pet.id), LabService.getCompletedForPet(pet.id)])
+      .then(([analyteRes, labRes]) => {
+        const list: LabTrendAnalyte[] = analyteRes.data;
+        const completed: LabResult[] = [...labRes.data].sort((a: LabResult, b: LabResult) => new Date(resultDate(b)).getTime() - new Date(resultDate(a)).getTime());
+        setAnalytes(list);
+        setSelectedAnalyte(list[0]?.analyte || '');
+        setLabs(completed);
+        // Default comparison: the two most recent results, older on the left
+        setCompareIds([completed[1]?.id || '', completed[0]?.id || '']);
+      })
+      .catch((e: any) => setError(e?.planLimit ? e.message : 'Could not load lab history'))
+      .finally(() => setIsLoading(false));
+  }, [pet.id]);
+
+  useEffect(() => {
+    if (!selectedAnalyte) { setSeries(null); return; }
+    LabService.getTrend(pet.id, selectedAnalyte).then(res => setSeries(res.data)).catch(() => setSeries(null));
+  }, [pet.id, selectedAnalyte]);
+
+  const [labA, labB] = compareIds.map(id => labs.find(l => l.id === id));
+  const compareRows = Array.from(new Set([...(labA?.values || []), ...(labB?.values || [])].map(v => v.analyte))).map(code => ({
+    code,
+    a: labA?.values?.find(v => v.analyte === code),
+    b: labB?.values?.find(v => v.analyte === code)
+  }));
+
+  const chartValues = series?.points.map(p => p.value) || [];
+  const yDomain = chartValues.length
+    ? [Math.min(...chartValues, series?.refLow ?? Infinity), Math.max(...chartValues, series?.refHigh ?? -Infinity)]
+    : [0, 1];
+  const padding = (yDomain[1] - yDomain[0]) * 0.15 || 1;
+
+  if (isLoading) {
+    return <div className="bg-white p-10 rounded-3xl shadow-sm border border-gray-100 text-center text-sm text-gray-400">Loading lab history...</div>;
+  }
+
+  if (error || (!analytes.length && !labs.length)) {
+    return (
+      <div className="bg-white p-10 rounded-3xl shadow-sm border border-gray-100 flex flex-col items-center text-center text-gray-400">
+        <FlaskConical className="w-12 h-12 mb-3 stroke-1" />
+        <p className="text-sm font-medium">{error || 'No completed lab results for this patient yet'}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4 md:space-y-6">
+      {/* Trend chart */}
+      <div className="bg-white p-4 md:p-6 rounded-3xl shadow-sm border border-gray-100">
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-3 mb-4">
+          <h3 className="font-bold text-gray-800 flex items-center">
+            <TrendingUp className="w-5 h-5 mr-2 text-[rgb(var(--ios-primary))]" />
+            {series ? `${series.name}${series.unit ? ` (${series.unit})` : ''}` : 'Lab Trends'}
+          </h3>
+          {series && series.refLow != null && series.refHigh != null && (
+            <span className="text-[11px] font-bold text-emerald-600 bg-emerald-50 border border-emerald-100 px-2 py-1 rounded-lg">
+              Reference {series.refLow}–{series.refHigh}
+            </span>
+          )}
+        </div>
+
+        <div className="flex gap-2 overflow-x-auto no-scrollbar pb-2 mb-2">
+          {analytes.map(a => (
+            <button
+              key={a.analyte}
+              onClick={() => setSelectedAnalyte(a.analyte)}
+              className={`px-3 py-1.5 rounded-full text-xs font-bold whitespace-nowrap border transition-all ${
+                selectedAnalyte === a.analyte ? 'bg-gray-900 text-white border-gray-900' : 'bg-white text-gray-500 border-gray-200 hover:border-gray-300'
+              }`}
+            >
+              {a.analyte}
+              <span className={`ml-1.5 ${a.lastFlag && a.lastFlag !== 'N' ? 'text-rose-500' : 'opacity-50'}`}>{a.count}</span>
+            </button>
+          ))}
+        </div>
+
+        {series && series.points.length > 0 ? (
+          <div className="w-full h-[250px] md:h-[300px]">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={series.points}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                <XAxis dataKey="date" tickFormatter={shortDate} tick={{ fill: '#94a3b8', fontSize: 11, fontWeight: 600 }} axisLine={false} tickLine={false} dy={10} />
+                <YAxis
+                  tick={{ fill: '#94a3b8', fontSize: 11, fontWeight: 600 }}
+                  axisLine={false}
+                  tickLine={false}
+                  domain={[Math.floor((yDomain[0] - padding) * 100) / 100, Math.ceil((yDomain[1] + padding) * 100) / 100]}
+                  dx={-10}
+                />
+                {series.refLow != null && series.refHigh != null && (
+                  <ReferenceArea y1={series.refLow} y2={series.refHigh} fill="#10b981" fillOpacity={0.08} stroke="#10b981" strokeOpacity={0.2} strokeDasharray="4 4" />
+                )}
+                {series.critical?.[0] != null && <ReferenceLine y={series.critical[0]} stroke="#e11d48" strokeDasharray="2 4" />}
+                {series.critical?.[1] != null && <ReferenceLine y={series.critical[1]} stroke="#e11d48" strokeDasharray="2 4" />}
+                <Tooltip content={<TrendTooltip unit={series.unit} />} cursor={{ stroke: 'rgb(var(--ios-primary))', strokeWidth: 1, strokeDasharray: '4 4' }} />
+                <Line type="monotone" dataKey="value" stroke="rgb(var(--ios-primary))" strokeWidth={3} dot={<FlagDot />} activeDot={{ r: 7 }} isAnimationActive={false} />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+        ) : (
+          <p className="py-10 text-center text-sm text-gray-400">No numeric results to chart yet.</p>
+        )}
+      </div>
+
+      {/* Side-by-side comparison */}
+      {labs.length > 0 && (
+        <div className="bg-white p-4 md:p-6 rounded-3xl shadow-sm border border-gray-100">
+          <h3 className="font-bold text-gray-800 mb-4 flex items-center">
+            <GitCompare className="w-5 h-5 mr-2 text-[rgb(var(--ios-primary))]" />
+            Compare Results
+          </h3>
+          <div className="grid grid-cols-2 gap-3 mb-4">
+            {[0, 1].map(index => (
+              <select
+                key={index}
+                value={compareIds[index]}
+                onChange={e => setCompareIds(index === 0 ? [e.target.value, compareIds[1]] : [compareIds[0], e.target.value])}
+                className="w-full p-2.5 bg-gray-50 border border-gray-200 rounded-xl text-xs font-medium outline-none focus:ring-2 focus:ring-blue-500/20"
+              >
+                <option value="">Choose a result...</option>
+                {labs.map(l => <option key={l.id} value={l.id}>{shortDate(resultDate(l))} · {l.testName}</option>)}
+              </select>
+            ))}
+          </div>
+
+          {compareRows.length > 0 ? (
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-left text-[10px] font-bold uppercase tracking-wider text-gray-400 border-b border-gray-100">
+                    <th className="py-2 pr-2">Analyte</th>
+                    <th className="py-2 px-2 text-right">{labA ? shortDate(resultDate(labA)) : '—'}</th>
+                    <th className="py-2 px-2 text-right">{labB ? shortDate(resultDate(labB)) : '—'}</th>
+                    <th className="py-2 pl-2 text-right">Change</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-50">
+                  {compareRows.map(({ code, a, b }) => {
+                    const delta = a?.value != null && b?.value != null ? b.value - a.value : null;
+                    const cell = (v: typeof a) => v
+                      ? <span className={v.flag && v.flag !== 'N' ? 'font-bold text-rose-600' : 'text-gray-700'}>{v.value ?? v.textValue}{v.flag && v.flag !== 'N' ? ` ${v.flag}` : ''}</span>
+                      : <span className="text-gray-300">—</span>;
+                    return (
+                      <tr key={code}>
+                        <td className="py-2 pr-2">
+                          <span className="font-bold text-gray-800">{(a || b)?.name}</span>
+                          <span className="ml-1 font-mono text-gray-400">{code}</span>
+                        </td>
+                        <td className="py-2 px-2 text-right font-mono">{cell(a)}</td>
+                        <td className="py-2 px-2 text-right font-mono">{cell(b)}</td>
+                        <td className="py-2 pl-2 text-right font-mono text-gray-500">
+                          {delta === null ? '' : (
+                            <span className="inline-flex items-center justify-end gap-1">
+                              {delta > 0 ? <TrendingUp className="w-3 h-3" /> : delta < 0 ? <TrendingDown className="w-3 h-3" /> : <Minus className="w-3 h-3" />}
+                              {delta > 0 ? '+' : ''}{Math.round(delta * 100) / 100}
+                            </span>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <p className="py-6 text-center text-sm text-gray-400">Pick two results to compare.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LabTrends;
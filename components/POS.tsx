@@ -144,8 +144,9 @@ const POS: React.FC<POSProps> = ({ sales = [], owners = [], settings, inventory
           clientName: clientType === 'Registered' && registeredOwner ? registeredOwner.name : 'Walk-in Client',
           clientAddress: clientType === 'Registered' && registeredOwner ? registeredOwner.address : '',
           items: cart, subtotal, discount: discountVal, tax, total, status, payments,
-          invoiceNumber: selectedSale?.invoiceNumber || `${settings.invoicePrefix}${Date.now().toString().slice(-6)}`,
-          receiptNumber: status === 'Paid' ? (selectedSale?.receiptNumber || `${settings.receiptPrefix}${Date.now().toString().slice(-6)}`) : undefined
+          // New invoice and receipt numbers come from the clinic's sequence on the server
+          invoiceNumber: selectedSale?.invoiceNumber,
+          receiptNumber: status === 'Paid' ? selectedSale?.receiptNumber : undefined
       };
       onSaveSale(newSale);
       resetPOS();
@@ -1,23 +1,59 @@
 import React, { useState, useEffect } from 'react';
-import { Pet, Owner, MedicalNote } from '../types';
-import { ChevronLeft, Activity, Plus, Sparkles, User, AlertTriangle, Info, Calendar, Clock, Heart, Thermometer, Weight, Bell, CheckCircle2 } from 'lucide-react';
+import { Pet, Owner, MedicalNote, MedicalChanges, ClinicSettings, InventoryItem, VaccinationRecord, Reminder } from '../types';
+import { ChevronLeft, Activity, Plus, Sparkles, User, AlertTriangle, Info, Calendar, Clock, Heart, Thermometer, Weight, CheckCircle2, Bot, X, Trash2 } from 'lucide-react';
 import { ResponsiveContainer, AreaChart, Area, Tooltip, CartesianGrid, XAxis, YAxis } from 'recharts';
 import { generateSOAPNote } from '../services/geminiService';
+import LabTrends from './LabTrends';
+import Vaccinations from './Vaccinations';
+import PatientReminders from './PatientReminders';
 
 interface PatientDetailProps {
   pet: Pet;
   owner?: Owner;
   onBack: () => void;
   onAddNote: (petId: string, note: MedicalNote) => void;
+  onAskAssistant?: (pet: Pet) => void;
+  onMedicalChange?: (petId: string, changes: MedicalChanges) => Promise<void>;
+  settings: ClinicSettings;
+  inventory: InventoryItem[];
+  onVaccinationsChange: (petId: string, vaccinations: VaccinationRecord[]) => void;
+  onRemindersChange: (petId: string, reminders: Reminder[]) => void;
 }
 
-const PatientDetail: React.FC<PatientDetailProps> = ({ pet, owner, onBack, onAddNote }) => {
-  const [activeTab, setActiveTab] = useState<'overview' | 'notes' | 'vitals' | 'reminders'>('overview');
+const EMPTY_VITALS = { weightKg: '', temperatureC: '', heartRateBpm: '', respiratoryRate: '' };
+
+const PatientDetail: React.FC<PatientDetailProps> = ({ pet, owner, onBack, onAddNote, onAskAssistant, onMedicalChange, settings, inventory, onVaccinationsChange, onRemindersChange }) => {
+  const [activeTab, setActiveTab] = useState<'overview' | 'notes' | 'vitals' | 'vaccines' | 'labs' | 'reminders'>('overview');
   const [isNoteModalOpen, setIsNoteModalOpen] = useState(false);
   const [noteInput, setNoteInput] = useState('');
   const [isGenerating, setIsGenerating] = useState(false);
   const [generatedNote, setGeneratedNote] = useState('');
   const [animateIn, setAnimateIn] = useState(false);
+  const [newTag, setNewTag] = useState<{ kind: 'allergies' | 'conditions'; name: string } | null>(null);
+  const [vitalsForm, setVitalsForm] = useState(EMPTY_VITALS);
+
+  const latestVitals = pet.vitalsHistory.length > 0 ? pet.vitalsHistory[pet.vitalsHistory.length - 1] : null;
+  // Records carry the id/version needed to edit; fall back to plain names for patients loaded without them
+  const conditionTags = pet.conditionRecords ? pet.conditionRecords.filter(c => c.status === 'Active') : pet.medicalConditions.map(name => ({ id: '', version: 0, name }));
+  const allergyTags = pet.allergyRecords || pet.allergies.map(name => ({ id: '', version: 0, name }));
+
+  const handleAddTag = async () => {
+    if (!newTag?.name.trim() || !onMedicalChange) return;
+    await onMedicalChange(pet.id, { create: { [newTag.kind]: [{ name: newTag.name.trim() }] } });
+    setNewTag(null);
+  };
+
+  // Conditions are marked resolved so the history survives; allergies are removed outright
+  const handleRemoveCondition = (id: string, version: number) =>
+    onMedicalChange?.(pet.id, { update: { conditions: [{ id, version, status: 'Resolved' }] } });
+  const handleRemoveAllergy = (id: string, version: number) =>
+    onMedicalChange?.(pet.id, { delete: { allergies: [{ id, version }] } });
+
+  const handleSaveVitals = async () => {
+    if (!onMedicalChange || Object.values(vitalsForm).every(v => !v)) return;
+    await onMedicalChange(pet.id, { create: { vitals: [{ ...vitalsForm, date: new Date().toISOString() }] } });
+    setVitalsForm(EMPTY_VITALS);
+  };
 
   useEffect(() => {
     setAnimateIn(true);
@@ -118,6 +154,7 @@ const PatientDetail: React.FC<PatientDetailProps> = ({ pet, owner, onBack, onAdd
                             <div>
                                 <h1 className="text-2xl md:text-3xl font-bold text-gray-900 tracking-tight mb-1">{pet.name}</h1>
                                 <div className="flex flex-wrap justify-center md:justify-start items-center gap-2 text-sm font-medium text-gray-500 mb-4">
+                                    {pet.patientNumber && <span className="font-mono text-gray-400">{pet.patientNumber}</span>}
                                     <span className="bg-gray-100 px-2 py-0.5 rounded-md text-gray-600">{pet.species}</span>
                                     <span>•</span>
                                     <span>{pet.breed}</span>
@@ -126,6 +163,11 @@ const PatientDetail: React.FC<PatientDetailProps> = ({ pet, owner, onBack, onAdd
                                     <span>•</span>
                                     <span>{pet.gender}</span>
                                 </div>
+                                {onAskAssistant && (
+                                    <button onClick={() => onAskAssistant(pet)} className="inline-flex items-center px-3 py-1.5 bg-indigo-600 text-white rounded-lg text-xs font-bold shadow-sm hover:bg-indigo-700 transition-colors">
+                                        <Bot className="w-3.5 h-3.5 mr-1.5" /> Ask AI about {pet.name}
+                                    </button>
+                                )}
                             </div>
                             
                             {/* Owner Micro-Card */}
@@ -144,16 +186,44 @@ const PatientDetail: React.FC<PatientDetailProps> = ({ pet, owner, onBack, onAdd
 
                         {/* Tags */}
                         <div className="flex flex-wrap justify-center md:justify-start gap-2 mt-2">
-                            {pet.medicalConditions.map((cond, idx) => (
-                                <div key={idx} className="flex items-center bg-orange-50 text-orange-600 px-3 py-1.5 rounded-full text-xs font-bold border border-orange-100/50 shadow-sm">
-                                    <Info className="w-3.5 h-3.5 mr-1.5" /> {cond}
+                            {conditionTags.map((cond, idx) => (
+                                <div key={cond.id || idx} className="flex items-center bg-orange-50 text-orange-600 px-3 py-1.5 rounded-full text-xs font-bold border border-orange-100/50 shadow-sm">
+                                    <Info className="w-3.5 h-3.5 mr-1.5" /> {cond.name}
+                                    {onMedicalChange && cond.id && (
+                                        <button onClick={() => handleRemoveCondition(cond.id, cond.version)} title="Mark resolved" className="ml-1.5 opacity-50 hover:opacity-100"><X className="w-3 h-3" /></button>
+                                    )}
                                 </div>
                             ))}
-                            {pet.allergies.map((allergy, idx) => (
-                                <div key={idx} className="flex items-center bg-red-50 text-red-600 px-3 py-1.5 rounded-full text-xs font-bold border border-red-100/50 shadow-sm">
-                                    <AlertTriangle className="w-3.5 h-3.5 mr-1.5" /> Allergy: {allergy}
+                            {allergyTags.map((allergy, idx) => (
+                                <div key={allergy.id || idx} className="flex items-center bg-red-50 text-red-600 px-3 py-1.5 rounded-full text-xs font-bold border border-red-100/50 shadow-sm">
+                                    <AlertTriangle className="w-3.5 h-3.5 mr-1.5" /> Allergy: {allergy.name}
+                                    {onMedicalChange && allergy.id && (
+                                        <button onClick={() => handleRemoveAllergy(allergy.id, allergy.version)} title="Remove allergy" className="ml-1.5 opacity-50 hover:opacity-100"><X className="w-3 h-3" /></button>
+                                    )}
                                 </div>
                             ))}
+                            {onMedicalChange && (newTag ? (
+                                <div className="flex items-center gap-1 bg-white px-2 py-1 rounded-full border border-gray-200 shadow-sm">
+                                    <select value={newTag.kind} onChange={e => setNewTag({ ...newTag, kind: e.target.value as any })} className="text-xs font-bold text-gray-600 bg-transparent outline-none">
+                                        <option value="allergies">Allergy</option>
+                                        <option value="conditions">Condition</option>
+                                    </select>
+                                    <input
+                                        autoFocus
+                                        value={newTag.name}
+                                        onChange={e => setNewTag({ ...newTag, name: e.target.value })}
+                                        onKeyDown={e => { if (e.key === 'Enter') handleAddTag(); if (e.key === 'Escape') setNewTag(null); }}
+                                        placeholder="e.g. Penicillin"
+                                        className="w-28 text-xs outline-none bg-transparent"
+                                    />
+                                    <button onClick={handleAddTag} className="text-[rgb(var(--ios-primary))]"><CheckCircle2 className="w-4 h-4" /></button>
+                                    <button onClick={() => setNewTag(null)} className="text-gray-400"><X className="w-3.5 h-3.5" /></button>
+                                </div>
+                            ) : (
+                                <button onClick={() => setNewTag({ kind: 'allergies', name: '' })} className="flex items-center text-gray-400 hover:text-gray-600 px-3 py-1.5 rounded-full text-xs font-bold border border-dashed border-gray-300">
+                                    <Plus className="w-3.5 h-3.5 mr-1" /> Allergy / Condition
+                                </button>
+                            ))}
                         </div>
                     </div>
                 </div>
@@ -162,7 +232,7 @@ const PatientDetail: React.FC<PatientDetailProps> = ({ pet, owner, onBack, onAdd
             {/* 2. iOS Segmented Control Tabs (Scrollable on Mobile) */}
             <div className="flex justify-center w-full">
                 <div className="bg-gray-200/80 p-1 rounded-xl flex overflow-x-auto relative shadow-inner w-full md:w-auto no-scrollbar">
-                    {['overview', 'notes', 'vitals', 'reminders'].map((tab) => {
+                    {['overview', 'notes', 'vitals', 'vaccines', 'labs', 'reminders'].map((tab) => {
                         const isActive = activeTab === tab;
                         return (
                             <button
@@ -196,7 +266,7 @@ const PatientDetail: React.FC<PatientDetailProps> = ({ pet, owner, onBack, onAdd
                                     <Weight className="w-5 h-5" />
                                 </div>
                                 <span className="text-2xl font-black text-gray-800 tracking-tight">
-                                    {pet.vitalsHistory.length > 0 ? pet.vitalsHistory[pet.vitalsHistory.length - 1].weightKg : '-'}
+                                    {latestVitals?.weightKg ?? '-'}
                                     <span className="text-sm text-gray-400 font-medium ml-1">kg</span>
                                 </span>
                                 <span className="text-xs font-semibold text-gray-400 mt-1">Latest Weight</span>
@@ -206,8 +276,7 @@ const PatientDetail: React.FC<PatientDetailProps> = ({ pet, owner, onBack, onAdd
                                     <Heart className="w-5 h-5" />
                                 </div>
                                 <span className="text-2xl font-black text-gray-800 tracking-tight">
-                                    {pet.vitalsHistory.length > 0 && pet.vitalsHistory[pet.vitalsHistory.length - 1].heartRateBpm > 0 
-                                     ? pet.vitalsHistory[pet.vitalsHistory.length - 1].heartRateBpm : '-'}
+                                    {latestVitals?.heartRateBpm || '-'}
                                     <span className="text-sm text-gray-400 font-medium ml-1">bpm</span>
                                 </span>
                                 <span className="text-xs font-semibold text-gray-400 mt-1">Heart Rate</span>
@@ -217,8 +286,7 @@ const PatientDetail: React.FC<PatientDetailProps> = ({ pet, owner, onBack, onAdd
                                     <Thermometer className="w-5 h-5" />
                                 </div>
                                 <span className="text-2xl font-black text-gray-800 tracking-tight">
-                                    {pet.vitalsHistory.length > 0 && pet.vitalsHistory[pet.vitalsHistory.length - 1].temperatureC > 0 
-                                     ? pet.vitalsHistory[pet.vitalsHistory.length - 1].temperatureC : '-'}
+                                    {latestVitals?.temperatureC || '-'}
                                     <span className="text-sm text-gray-400 font-medium ml-1">°C</span>
                                 </span>
                                 <span className="text-xs font-semibold text-gray-400 mt-1">Temperature</span>
@@ -297,40 +365,57 @@ const PatientDetail: React.FC<PatientDetailProps> = ({ pet, owner, onBack, onAdd
                 )}
 
                 {/* --- REMINDERS TAB --- */}
-                {activeTab === 'reminders' && (
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4 md:gap-6">
-                        {pet.reminders && pet.reminders.length > 0 ? (
-                            pet.reminders.map(rem => {
-                                const isOverdue = new Date(rem.dueDate) < new Date();
-                                return (
-                                    <div key={rem.id} className={`p-4 md:p-5 rounded-2xl border shadow-sm flex items-start justify-between ${isOverdue ? 'bg-red-50 border-red-100' : 'bg-white border-gray-100'}`}>
-                                        <div className="flex items-start">
-                                            <div className={`w-10 h-10 rounded-full flex items-center justify-center mr-4 shrink-0 ${isOverdue ? 'bg-red-100 text-red-500' : 'bg-green-50 text-green-500'}`}>
-                                                <Bell className="w-5 h-5" />
-                                            </div>
-                                            <div>
-                                                <h4 className={`font-bold ${isOverdue ? 'text-red-700' : 'text-gray-800'}`}>{rem.description}</h4>
-                                                <div className="flex items-center mt-1 text-xs text-gray-500 font-medium">
-                                                    <Calendar className="w-3 h-3 mr-1" />
-                                                    Due: {new Date(rem.dueDate).toLocaleDateString()}
-                                                    {isOverdue && <span className="ml-2 text-red-600 font-bold uppercase tracking-wider text-[10px] bg-red-100 px-2 py-0.5 rounded-full">Overdue</span>}
-                                                </div>
-                                                <span className="inline-block mt-2 text-[10px] font-bold text-gray-400 bg-white border border-gray-200 px-2 py-1 rounded-md uppercase">{rem.type}</span>
-                                            </div>
-                                        </div>
-                                    </div>
-                                )
-                            })
-                        ) : (
-                            <div className="col-span-2 text-center py-12 text-gray-400 italic bg-white rounded-2xl border border-dashed border-gray-300">
-                                No active reminders.
-                            </div>
-                        )}
-                    </div>
-                )}
+                {activeTab === 'reminders' && <PatientReminders pet={pet} onRemindersChange={onRemindersChange} />}
+
+                {/* --- VACCINES TAB --- */}
+                {activeTab === 'vaccines' && <Vaccinations pet={pet} owner={owner} settings={settings} inventory={inventory} onVaccinationsChange={onVaccinationsChange} />}
+
+                {/* --- LAB TRENDS TAB --- */}
+                {activeTab === 'labs' && <LabTrends pet={pet} />}
 
                 {/* --- VITALS CHART TAB --- */}
                 {activeTab === 'vitals' && (
+                    <div className="space-y-4 md:space-y-6">
+                    {onMedicalChange && (
+                        <div className="bg-white p-4 md:p-6 rounded-3xl shadow-sm border border-gray-100">
+                            <h3 className="font-bold text-gray-800 mb-4 flex items-center">
+                                <Plus className="w-5 h-5 mr-2 text-[rgb(var(--ios-primary))]" />
+                                Record Vitals
+                            </h3>
+                            <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+                                {([['weightKg', 'Weight (kg)'], ['temperatureC', 'Temp (°C)'], ['heartRateBpm', 'HR (bpm)'], ['respiratoryRate', 'RR (/min)']] as const).map(([field, label]) => (
+                                    <div key={field}>
+                                        <label className="block text-[10px] font-bold text-gray-400 uppercase tracking-widest mb-1">{label}</label>
+                                        <input
+                                            type="number" step="any" min="0"
+                                            value={vitalsForm[field]}
+                                            onChange={e => setVitalsForm({ ...vitalsForm, [field]: e.target.value })}
+                                            className="w-full p-2.5 bg-gray-50 border border-gray-200 rounded-xl text-sm font-mono outline-none focus:ring-2 focus:ring-blue-500/20"
+                                        />
+                                    </div>
+                                ))}
+                                <button onClick={handleSaveVitals} disabled={Object.values(vitalsForm).every(v => !v)} className="col-span-2 md:col-span-1 self-end py-2.5 bg-gray-900 hover:bg-black text-white rounded-xl text-xs font-bold shadow-lg disabled:opacity-40 transition-all active:scale-95">
+                                    Save Vitals
+                                </button>
+                            </div>
+                            {pet.vitalsHistory.length > 0 && (
+                                <div className="mt-4 divide-y divide-gray-50 text-xs">
+                                    {pet.vitalsHistory.slice(-5).reverse().map((v, idx) => (
+                                        <div key={v.id || idx} className="flex items-center justify-between py-2 text-gray-600">
+                                            <span className="font-medium text-gray-400 w-24">{new Date(v.date).toLocaleDateString()}</span>
+                                            <span className="flex-1 font-mono">
+                                                {[v.weightKg != null && `${v.weightKg} kg`, v.temperatureC != null && `${v.temperatureC} °C`, v.heartRateBpm != null && `${v.heartRateBpm} bpm`, v.respiratoryRate != null && `RR ${v.respiratoryRate}`].filter(Boolean).join(' · ')}
+                                            </span>
+                                            {v.recordedBy && <span className="text-gray-400 mr-2 hidden md:inline">{v.recordedBy}</span>}
+                                            {v.id && v.version !== undefined && (
+                                                <button onClick={() => onMedicalChange(pet.id, { delete: { vitals: [{ id: v.id!, version: v.version! }] } })} title="Delete entry" className="text-gray-300 hover:text-red-500"><Trash2 className="w-3.5 h-3.5" /></button>
+                                            )}
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+                    )}
                     <div className="bg-white p-4 md:p-6 rounded-3xl shadow-sm border border-gray-100 h-[350px] md:h-[400px]">
                         <h3 className="font-bold text-gray-800 mb-6 flex items-center">
                             <Activity className="w-5 h-5 mr-2 text-[rgb(var(--ios-primary))]" />
@@ -369,11 +454,13 @@ const PatientDetail: React.FC<PatientDetailProps> = ({ pet, owner, onBack, onAdd
                                         strokeWidth={3} 
                                         fillOpacity={1} 
                                         fill="url(#colorWeight)" 
+                                        connectNulls
                                     />
                                 </AreaChart>
                             </ResponsiveContainer>
                         </div>
                     </div>
+                    </div>
                 )}
             </div>
         </div>
@@ -71,6 +71,7 @@ const PatientList: React.FC<{ pets: Pet[]; owners: Owner[]; onSelectPatient: (id
     const owner = owners.find(o => o.id === pet.ownerId);
     const matchesSearch = 
         pet.name.toLowerCase().includes(searchTerm.toLowerCase()) || 
+        pet.patientNumber?.toLowerCase().includes(searchTerm.toLowerCase()) ||
         owner?.name.toLowerCase().includes(searchTerm.toLowerCase());
     const matchesFilter = filterSpecies === 'All' || pet.species === filterSpecies;
     return matchesSearch && matchesFilter;
@@ -172,6 +173,7 @@ const PatientList: React.FC<{ pets: Pet[]; owners: Owner[]; onSelectPatient: (id
                                               <div className="flex items-center space-x-2 mt-1">
                                                 <span className="text-[10px] font-bold uppercase bg-slate-100 text-slate-600 px-2 py-0.5 rounded-md tracking-wide">{pet.species}</span>
                                                 <span className="text-xs text-slate-400 font-medium">• {pet.gender}</span>
+                                                {pet.patientNumber && <span className="text-xs text-slate-400 font-mono">{pet.patientNumber}</span>}
                                               </div>
                                           </div>
                                       </div>
@@ -0,0 +1,159 @@
+import React, { useState } from 'react';
+import { Pet, Reminder } from '../types';
+import { Bell, Calendar, Plus, Send, CheckCircle2, X, AlertTriangle, Mail, MessageSquare } from 'lucide-react';
+import { ReminderService } from '../services/api';
+
+interface PatientRemindersProps {
+  pet: Pet;
+  onRemindersChange: (petId: string, reminders: Reminder[]) => void;
+}
+
+const REMINDER_TYPES: Reminder['type'][] = ['Vaccination', 'Follow-up', 'Deworming', 'Lab Work', 'Other'];
+const EMPTY_FORM = { type: 'Follow-up' as Reminder['type'], description: '', dueDate: '', method: 'SMS' as NonNullable<Reminder['method']> };
+
+const STATUS_STYLES: Record<Reminder['status'], string> = {
+  Pending: 'bg-amber-50 text-amber-600 border-amber-100',
+  Sent: 'bg-emerald-50 text-emerald-600 border-emerald-100',
+  Failed: 'bg-rose-50 text-rose-600 border-rose-100',
+  Completed: 'bg-gray-50 text-gray-500 border-gray-100',
+  Cancelled: 'bg-gray-50 text-gray-400 border-gray-100'
+};
+
+const PatientReminders: React.FC<PatientRemindersProps> = ({ pet, onRemindersChange }) => {
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  const reminders = [...(pet.reminders || [])].sort((a, b) => new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime());
+
+  // Completed and cancelled reminders drop off the patient's list
+  const replace = (updated: Reminder) =>
+    onRemindersChange(pet.id, reminders.map(r => r.id === updated.id ? updated : r).filter(r => r.status !== 'Completed' && r.status !== 'Cancelled'));
+
+  const run = async (id: string, action: () => Promise<{ data: Reminder }>) => {
+    setBusyId(id);
+    setError('');
+    try {
+      replace((await action()).data);
+    } catch (e: any) {
+      setError(e?.message || 'Could not update reminder');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!form.dueDate || !form.description.trim()) return;
+    setBusyId('new');
+    setError('');
+    try {
+      const { data } = await ReminderService.create({ ...form, petId: pet.id, description: form.description.trim() });
+      onRemindersChange(pet.id, [...reminders, data]);
+      setForm(EMPTY_FORM);
+      setIsFormOpen(false);
+    } catch (e: any) {
+      setError(e?.message || 'Could not schedule reminder');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        <button onClick={() => setIsFormOpen(!isFormOpen)} className="px-3 py-2 bg-[rgb(var(--ios-primary))] text-white rounded-xl text-xs font-bold flex items-center active:scale-95 transition-transform">
+          {isFormOpen ? <X className="w-4 h-4 mr-1.5" /> : <Plus className="w-4 h-4 mr-1.5" />} {isFormOpen ? 'Cancel' : 'New Reminder'}
+        </button>
+      </div>
+
+      {error && <p className="p-3 bg-rose-50 text-rose-700 text-xs font-medium rounded-xl border border-rose-100">{error}</p>}
+
+      {isFormOpen && (
+        <div className="p-4 bg-white rounded-2xl border border-gray-100 shadow-sm grid grid-cols-1 md:grid-cols-4 gap-3">
+          <select value={form.type} onChange={e => setForm({ ...form, type: e.target.value as Reminder['type'] })} className="p-2.5 bg-gray-50 border border-gray-200 rounded-xl text-sm outline-none">
+            {REMINDER_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+          </select>
+          <input value={form.description} onChange={e => setForm({ ...form, description: e.target.value })} placeholder="e.g. Post-op check" className="md:col-span-2 p-2.5 bg-gray-50 border border-gray-200 rounded-xl text-sm outline-none" />
+          <input type="date" value={form.dueDate} onChange={e => setForm({ ...form, dueDate: e.target.value })} className="p-2.5 bg-gray-50 border border-gray-200 rounded-xl text-sm outline-none" />
+          <select value={form.method} onChange={e => setForm({ ...form, method: e.target.value as NonNullable<Reminder['method']> })} className="p-2.5 bg-gray-50 border border-gray-200 rounded-xl text-sm outline-none">
+            <option value="SMS">SMS</option>
+            <option value="Email">Email</option>
+            <option value="Both">SMS & Email</option>
+          </select>
+          <div className="md:col-span-3 flex justify-end">
+            <button onClick={handleCreate} disabled={busyId === 'new' || !form.dueDate || !form.description.trim()} className="px-5 py-2.5 bg-gray-900 text-white rounded-xl text-sm font-bold disabled:opacity-50">
+              Schedule
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 md:gap-6">
+        {reminders.length > 0 ? (
+          reminders.map(rem => {
+            const isOverdue = rem.status === 'Pending' && new Date(rem.dueDate) < new Date();
+            return (
+              <div key={rem.id} className={`p-4 md:p-5 rounded-2xl border shadow-sm ${isOverdue ? 'bg-red-50 border-red-100' : 'bg-white border-gray-100'}`}>
+                <div className="flex items-start">
+                  <div className={`w-10 h-10 rounded-full flex items-center justify-center mr-4 shrink-0 ${isOverdue ? 'bg-red-100 text-red-500' : 'bg-green-50 text-green-500'}`}>
+                    <Bell className="w-5 h-5" />
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <h4 className={`font-bold ${isOverdue ? 'text-red-700' : 'text-gray-800'}`}>{rem.description}</h4>
+                    <div className="flex items-center mt-1 text-xs text-gray-500 font-medium">
+                      <Calendar className="w-3 h-3 mr-1" />
+                      Due: {new Date(rem.dueDate).toLocaleDateString()}
+                      {isOverdue && <span className="ml-2 text-red-600 font-bold uppercase tracking-wider text-[10px] bg-red-100 px-2 py-0.5 rounded-full">Overdue</span>}
+                    </div>
+                    <div className="flex flex-wrap items-center gap-1.5 mt-2">
+                      <span className="text-[10px] font-bold text-gray-400 bg-white border border-gray-200 px-2 py-1 rounded-md uppercase">{rem.type}</span>
+                      <span className="text-[10px] font-bold text-gray-400 bg-white border border-gray-200 px-2 py-1 rounded-md uppercase flex items-center">
+                        {rem.method !== 'SMS' && <Mail className="w-3 h-3 mr-1" />}
+                        {rem.method !== 'Email' && <MessageSquare className="w-3 h-3 mr-1" />}
+                        {rem.method || 'SMS'}
+                      </span>
+                      <span className={`text-[10px] font-bold px-2 py-1 rounded-md uppercase border ${STATUS_STYLES[rem.status]}`}>
+                        {rem.status}{rem.status === 'Sent' && rem.sentAt ? ` ${new Date(rem.sentAt).toLocaleDateString()}` : ''}
+                      </span>
+                    </div>
+                    {rem.lastError && (
+                      <p className="mt-2 text-[11px] text-rose-600 flex items-start">
+                        <AlertTriangle className="w-3 h-3 mr-1 mt-0.5 shrink-0" />
+                        {rem.lastError}{rem.status === 'Pending' && rem.nextAttemptAt ? ` · retrying ${new Date(rem.nextAttemptAt).toLocaleString()}` : ''}
+                      </p>
+                    )}
+                  </div>
+                </div>
+                <div className="flex justify-end gap-2 mt-3">
+                  {rem.status === 'Pending' && (
+                    <button disabled={busyId === rem.id} onClick={() => run(rem.id, () => ReminderService.sendNow(rem.id))} className="px-2.5 py-1.5 text-[11px] font-bold text-blue-600 bg-blue-50 rounded-lg flex items-center disabled:opacity-50">
+                      <Send className="w-3 h-3 mr-1" /> Send now
+                    </button>
+                  )}
+                  {rem.status === 'Failed' && (
+                    <button disabled={busyId === rem.id} onClick={() => run(rem.id, () => ReminderService.update(rem.id, { status: 'Pending' }))} className="px-2.5 py-1.5 text-[11px] font-bold text-amber-600 bg-amber-50 rounded-lg disabled:opacity-50">
+                      Retry
+                    </button>
+                  )}
+                  <button disabled={busyId === rem.id} onClick={() => run(rem.id, () => ReminderService.update(rem.id, { status: 'Completed' }))} className="px-2.5 py-1.5 text-[11px] font-bold text-emerald-600 bg-emerald-50 rounded-lg flex items-center disabled:opacity-50">
+                    <CheckCircle2 className="w-3 h-3 mr-1" /> Done
+                  </button>
+                  <button disabled={busyId === rem.id} onClick={() => run(rem.id, () => ReminderService.update(rem.id, { status: 'Cancelled' }))} className="px-2.5 py-1.5 text-[11px] font-bold text-gray-500 bg-gray-100 rounded-lg disabled:opacity-50">
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            );
+          })
+        ) : (
+          <div className="col-span-2 text-center py-12 text-gray-400 italic bg-white rounded-2xl border border-dashed border-gray-300">
+            No active reminders.
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PatientReminders;
@@ -1,7 +1,10 @@
 import React, { useState, useEffect } from 'react';
-import { ClinicSettings, StaffMember, SubscriptionTier, UserRole, UserProfile, Tenant } from '../types';
-import { User, Building, Users, MapPin, Save, Plus, Trash2, Edit, Image as ImageIcon, Eye } from 'lucide-react';
+import { ClinicSettings, StaffMember, SubscriptionTier, UserRole, UserProfile, Tenant, Branch, BranchSummary } from '../types';
+import { User, Building, Users, MapPin, LifeBuoy, Save, Plus, Trash2, Edit, Image as ImageIcon, Eye, CalendarClock } from 'lucide-react';
 import ToggleSwitch from './ToggleSwitch';
+import SupportTickets from './SupportTickets';
+import StaffSchedules from './StaffSchedules';
+import { BranchService } from '../services/api';
 
 interface SettingsProps {
     settings: ClinicSettings;
@@ -9,21 +12,22 @@ interface SettingsProps {
     plan: SubscriptionTier;
     currentUser: UserProfile;
     tenants: Tenant[];
-    branches?: Tenant[];
+    branches?: Branch[];
     onUpdateSettings: (s: ClinicSettings) => void;
     onAddStaff: (s: StaffMember) => void;
     onUpdateStaff: (s: StaffMember) => void;
     onDeleteStaff: (id: string) => void;
-    onTransferStaff: (staffId: string, targetTenantId: string) => void;
+    onTransferStaff: (staffId: string, branchId: string | null) => void;
     onUpdateProfile: (p: Partial<UserProfile>, password?: string) => void;
     onAddBranch?: (branchData: any) => void;
+    onDeleteBranch?: (id: string) => void;
 }
 
 const Settings: React.FC<SettingsProps> = ({ 
     settings, staff, plan, currentUser, tenants, branches = [],
-    onUpdateSettings, onAddStaff, onUpdateStaff, onDeleteStaff, onTransferStaff, onUpdateProfile, onAddBranch 
+    onUpdateSettings, onAddStaff, onUpdateStaff, onDeleteStaff, onTransferStaff, onUpdateProfile, onAddBranch, onDeleteBranch 
 }) => {
-  const [activeTab, setActiveTab] = useState<'profile' | 'clinic' | 'staff' | 'branches'>('clinic');
+  const [activeTab, setActiveTab] = useState<'profile' | 'clinic' | 'staff' | 'schedules' | 'branches' | 'support'>('clinic');
   const [clinicForm, setClinicForm] = useState<ClinicSettings>(settings);
   
   // Sync state when props change
@@ -39,8 +43,19 @@ const Settings: React.FC<SettingsProps> = ({
   // Branch State
   const [isBranchModalOpen, setIsBranchModalOpen] = useState(false);
   const [branchForm, setBranchForm] = useState({
-      name: '', adminName: '', email: '', password: '', country: 'Nigeria'
+      name: '', address: '', phone: '', adminName: '', email: '', password: ''
   });
+  const [branchFilter, setBranchFilter] = useState('');
+  const [branchSummary, setBranchSummary] = useState<BranchSummary | null>(null);
+  const canManageBranches = plan === 'Premium' || plan === 'Enterprise';
+
+  // Consolidated figures across the main clinic and every branch
+  useEffect(() => {
+      if (activeTab !== 'branches' || !canManageBranches) return;
+      BranchService.getSummary(branchFilter || undefined)
+          .then(res => setBranchSummary(res.data))
+          .catch(() => setBranchSummary(null));
+  }, [activeTab, branchFilter, branches.length]);
 
   // Profile State
   const [profileForm, setProfileForm] = useState({
@@ -56,11 +71,10 @@ const Settings: React.FC<SettingsProps> = ({
   const getFormatPreview = (pattern: string | undefined) => {
       if (!pattern) return 'N/A';
       const currentYear = new Date().getFullYear().toString();
-      // Replace 'year' with 2025
-      let preview = pattern.replace(/year/gi, currentYear);
-      // Replace sequence of zeros (e.g. 000) with 001
-      preview = preview.replace(/(0+)/g, (match) => '1'.padStart(match.length, '0'));
-      return preview;
+      // Replace the first sequence of zeros (e.g. 000) with 001 before 'year', so the zeros in 2025 are left alone;
+      // mirrors generateNextId on the server, which appends the number when there are no zeros
+      const preview = /0+/.test(pattern) ? pattern.replace(/(0+)/, (match) => '1'.padStart(match.length, '0')) : `${pattern}1`;
+      return preview.replace(/year/gi, currentYear);
   };
 
   const handleSaveClinic = () => {
@@ -104,10 +118,10 @@ const Settings: React.FC<SettingsProps> = ({
   };
 
   const handleBranchSubmit = () => {
-      if (!onAddBranch) return;
+      if (!onAddBranch || !branchForm.name) return;
       onAddBranch(branchForm);
       setIsBranchModalOpen(false);
-      setBranchForm({ name: '', adminName: '', email: '', password: '', country: 'Nigeria' });
+      setBranchForm({ name: '', address: '', phone: '', adminName: '', email: '', password: '' });
   };
 
   const resetStaffForm = () => {
@@ -157,7 +171,9 @@ const Settings: React.FC<SettingsProps> = ({
     { id: 'profile', label: 'My Profile', icon: User },
     { id: 'clinic', label: 'Clinic Details', icon: Building },
     { id: 'staff', label: 'Staff Management', icon: Users },
+    { id: 'schedules', label: 'Schedules', icon: CalendarClock },
     { id: 'branches', label: 'Clinic Branches', icon: MapPin },
+    { id: 'support', label: 'Help & Support', icon: LifeBuoy },
   ];
 
   return (
@@ -287,6 +303,21 @@ const Settings: React.FC<SettingsProps> = ({
                                         onChange={e => setClinicForm({...clinicForm, receiptPrefix: e.target.value})} 
                                     />
                                  </div>
+
+                                 {/* Lab Accession Pattern */}
+                                 <div className="bg-slate-50 p-3 rounded-xl border border-slate-200">
+                                     <div className="flex justify-between mb-1">
+                                        <label className="block text-xs font-bold text-slate-500 uppercase ml-1">Lab Accession Pattern</label>
+                                        <span className="text-xs text-teal-600 font-bold flex items-center"><Eye className="w-3 h-3 mr-1"/> Preview: {getFormatPreview(clinicForm.accessionPrefix || 'LAB-year-00000')}</span>
+                                     </div>
+                                     <input 
+                                        type="text" 
+                                        placeholder="e.g., LAB-year-00000"
+                                        className="w-full p-3 border border-slate-200 rounded-xl text-sm font-mono focus:ring-2 focus:ring-teal-500 bg-white" 
+                                        value={clinicForm.accessionPrefix || ''} 
+                                        onChange={e => setClinicForm({...clinicForm, accessionPrefix: e.target.value})} 
+                                    />
+                                 </div>
                              </div>
 
                              <h3 className="text-xs font-bold text-slate-400 uppercase tracking-widest border-b border-slate-100 pb-2 pt-4">Financial Settings</h3>
@@ -318,6 +349,46 @@ const Settings: React.FC<SettingsProps> = ({
                                     value={clinicForm.bankDetails || ''} 
                                     onChange={e => setClinicForm({...clinicForm, bankDetails: e.target.value})} 
                              />
+
+                             <h3 className="text-xs font-bold text-slate-400 uppercase tracking-widest border-b border-slate-100 pb-2 pt-4">Client Reminders</h3>
+                             <p className="text-xs text-slate-500 ml-1">Placeholders: {'{owner} {pet} {type} {description} {date} {clinic} {phone}'}. Leave a template blank to use the default.</p>
+                             <div className="grid grid-cols-2 gap-4">
+                                 <div>
+                                     <label className="block text-sm font-bold text-slate-700 mb-1.5 ml-1">Send Days Before Due</label>
+                                     <input 
+                                        type="number" 
+                                        min={0}
+                                        max={60}
+                                        className="w-full p-3 border border-slate-200 rounded-xl text-sm focus:ring-2 focus:ring-teal-500 bg-white" 
+                                        value={clinicForm.reminderLeadDays ?? 3} 
+                                        onChange={e => setClinicForm({...clinicForm, reminderLeadDays: parseInt(e.target.value) || 0})} 
+                                     />
+                                 </div>
+                                 <div>
+                                     <label className="block text-sm font-bold text-slate-700 mb-1.5 ml-1">Email Subject</label>
+                                     <input 
+                                        type="text" 
+                                        placeholder="{pet}: {type} reminder from {clinic}"
+                                        className="w-full p-3 border border-slate-200 rounded-xl text-sm focus:ring-2 focus:ring-teal-500 bg-white" 
+                                        value={clinicForm.reminderEmailSubject || ''} 
+                                        onChange={e => setClinicForm({...clinicForm, reminderEmailSubject: e.target.value})} 
+                                     />
+                                 </div>
+                             </div>
+                             <label className="block text-sm font-bold text-slate-700 mb-1.5 ml-1 mt-2">SMS Template</label>
+                             <textarea 
+                                    className="w-full p-3 border border-slate-200 rounded-xl text-sm h-20 bg-slate-50 focus:ring-2 focus:ring-teal-500" 
+                                    placeholder="Hi {owner}, {pet} is due for {description} on {date}. Call {clinic} on {phone} to book."
+                                    value={clinicForm.reminderSmsTemplate || ''} 
+                                    onChange={e => setClinicForm({...clinicForm, reminderSmsTemplate: e.target.value})} 
+                             />
+                             <label className="block text-sm font-bold text-slate-700 mb-1.5 ml-1 mt-2">Email Template</label>
+                             <textarea 
+                                    className="w-full p-3 border border-slate-200 rounded-xl text-sm h-32 bg-slate-50 focus:ring-2 focus:ring-teal-500" 
+                                    placeholder={'Dear {owner},\n\nThis is a reminder that {pet} is due for {description} on {date}.'}
+                                    value={clinicForm.reminderEmailTemplate || ''} 
+                                    onChange={e => setClinicForm({...clinicForm, reminderEmailTemplate: e.target.value})} 
+                             />
                         </section>
                     </div>
                 </div>
@@ -344,6 +415,7 @@ const Settings: React.FC<SettingsProps> = ({
                                 <tr>
                                     <th className="px-6 py-4 text-xs font-bold text-slate-500 uppercase">User</th>
                                     <th className="px-6 py-4 text-xs font-bold text-slate-500 uppercase">Role(s)</th>
+                                    {branches.length > 0 && <th className="px-6 py-4 text-xs font-bold text-slate-500 uppercase">Branch</th>}
                                     <th className="px-6 py-4 text-xs font-bold text-slate-500 uppercase">Status</th>
                                     <th className="px-6 py-4 text-xs font-bold text-slate-500 uppercase text-right">Actions</th>
                                 </tr>
@@ -371,6 +443,18 @@ const Settings: React.FC<SettingsProps> = ({
                                                 ))}
                                             </div>
                                         </td>
+                                        {branches.length > 0 && (
+                                            <td className="px-6 py-4">
+                                                <select
+                                                    value={member.branchId || ''}
+                                                    onChange={e => onTransferStaff(member.id, e.target.value || null)}
+                                                    className="px-2 py-1.5 bg-white border border-slate-200 rounded-lg text-xs font-medium text-slate-600 outline-none"
+                                                >
+                                                    <option value="">Main Clinic</option>
+                                                    {branches.map(b => <option key={b.id} value={b.id}>{b.name}</option>)}
+                                                </select>
+                                            </td>
+                                        )}
                                         <td className="px-6 py-4">
                                             <span className={`px-2 py-1 rounded-full text-xs font-bold border ${member.isSuspended ? 'bg-red-50 text-red-600 border-red-100' : 'bg-green-50 text-green-600 border-green-100'}`}>
                                                 {member.isSuspended ? 'Suspended' : 'Active'}
@@ -383,7 +467,7 @@ const Settings: React.FC<SettingsProps> = ({
                                     </tr>
                                 ))}
                                 {staff.length === 0 && (
-                                    <tr><td colSpan={4} className="text-center py-8 text-slate-500">No staff members found.</td></tr>
+                                    <tr><td colSpan={branches.length > 0 ? 5 : 4} className="text-center py-8 text-slate-500">No staff members found.</td></tr>
                                 )}
                             </tbody>
                         </table>
@@ -391,6 +475,8 @@ const Settings: React.FC<SettingsProps> = ({
                 </div>
             )}
 
+            {activeTab === 'schedules' && <StaffSchedules />}
+
             {activeTab === 'branches' && (
                 <div className="animate-fade-in">
                     <div className="flex justify-between items-center mb-6">
@@ -398,7 +484,7 @@ const Settings: React.FC<SettingsProps> = ({
                             <h2 className="text-xl font-bold text-slate-800">Clinic Branches</h2>
                             <p className="text-sm text-slate-500">Manage multiple locations.</p>
                         </div>
-                        {plan === 'Premium' || plan === 'Enterprise' ? (
+                        {canManageBranches ? (
                             <button 
                                 onClick={() => setIsBranchModalOpen(true)}
                                 className="bg-teal-600 text-white px-4 py-2 rounded-xl text-sm font-bold flex items-center shadow-lg shadow-teal-200 hover:bg-teal-700 btn-press"
@@ -410,22 +496,67 @@ const Settings: React.FC<SettingsProps> = ({
                         )}
                     </div>
                     
+                    {canManageBranches && branchSummary && (
+                        <div className="mb-6 border border-slate-200 rounded-2xl overflow-hidden shadow-sm">
+                            <div className="flex justify-between items-center px-5 py-3 bg-slate-50/50 border-b border-slate-200">
+                                <h3 className="text-xs font-bold text-slate-400 uppercase tracking-widest">Consolidated Overview</h3>
+                                <select value={branchFilter} onChange={e => setBranchFilter(e.target.value)} className="px-2 py-1.5 bg-white border border-slate-200 rounded-lg text-xs font-medium text-slate-600 outline-none">
+                                    <option value="">All locations</option>
+                                    <option value="main">Main Clinic</option>
+                                    {branches.map(b => <option key={b.id} value={b.id}>{b.name}</option>)}
+                                </select>
+                            </div>
+                            <table className="w-full text-left text-sm">
+                                <thead className="border-b border-slate-100">
+                                    <tr className="text-xs font-bold text-slate-500 uppercase">
+                                        <th className="px-5 py-3">Location</th>
+                                        <th className="px-5 py-3 text-right">Staff</th>
+                                        <th className="px-5 py-3 text-right">Upcoming Appts</th>
+                                        <th className="px-5 py-3 text-right">Revenue</th>
+                                        <th className="px-5 py-3 text-right">Expenses</th>
+                                        <th className="px-5 py-3 text-right">Stock Value</th>
+                                    </tr>
+                                </thead>
+                                <tbody className="divide-y divide-slate-100">
+                                    {branchSummary.branches.map(row => (
+                                        <tr key={row.id}>
+                                            <td className="px-5 py-3 font-bold text-slate-700">{row.name}</td>
+                                            <td className="px-5 py-3 text-right">{row.staff}</td>
+                                            <td className="px-5 py-3 text-right">{row.upcomingAppointments}</td>
+                                            <td className="px-5 py-3 text-right">{settings.currency} {row.revenue.toLocaleString()}</td>
+                                            <td className="px-5 py-3 text-right">{settings.currency} {row.expenses.toLocaleString()}</td>
+                                            <td className="px-5 py-3 text-right">{settings.currency} {row.stockValue.toLocaleString()}</td>
+                                        </tr>
+                                    ))}
+                                    {!branchFilter && (
+                                        <tr className="bg-slate-50/50 font-bold text-slate-800">
+                                            <td className="px-5 py-3">Total</td>
+                                            <td className="px-5 py-3 text-right">{branchSummary.totals.staff}</td>
+                                            <td className="px-5 py-3 text-right">{branchSummary.totals.upcomingAppointments}</td>
+                                            <td className="px-5 py-3 text-right">{settings.currency} {branchSummary.totals.revenue.toLocaleString()}</td>
+                                            <td className="px-5 py-3 text-right">{settings.currency} {branchSummary.totals.expenses.toLocaleString()}</td>
+                                            <td className="px-5 py-3 text-right">{settings.currency} {branchSummary.totals.stockValue.toLocaleString()}</td>
+                                        </tr>
+                                    )}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                         {branches.map(branch => (
                             <div key={branch.id} className="bg-white p-5 rounded-2xl border border-slate-200 shadow-sm flex flex-col justify-between hover:shadow-md transition-shadow group">
                                 <div>
-                                    <div className="flex justify-between items-start">
-                                        <h3 className="font-bold text-slate-800 text-lg group-hover:text-teal-600 transition-colors">{branch.name}</h3>
-                                        <span className={`text-[10px] font-bold px-2 py-1 rounded-full border ${branch.status === 'Active' ? 'bg-green-50 text-green-700 border-green-100' : 'bg-red-50 text-red-700 border-red-100'}`}>
-                                            {branch.status}
-                                        </span>
-                                    </div>
-                                    <p className="text-sm text-slate-500 mt-1">{branch.settings.email}</p>
+                                    <h3 className="font-bold text-slate-800 text-lg group-hover:text-teal-600 transition-colors">{branch.name}</h3>
+                                    {branch.address && <p className="text-sm text-slate-500 mt-1">{branch.address}</p>}
+                                    {branch.phone && <p className="text-sm text-slate-500">{branch.phone}</p>}
                                     <p className="text-xs text-slate-400 mt-2 font-mono">ID: {branch.id.slice(0, 8)}...</p>
                                 </div>
                                 <div className="mt-4 pt-4 border-t border-slate-100 flex justify-between items-center">
-                                    <span className="text-xs font-bold text-teal-600 bg-teal-50 px-2 py-1 rounded-lg">{branch.plan}</span>
-                                    <button className="text-xs font-bold text-slate-500 hover:text-slate-800 bg-slate-100 px-3 py-1 rounded-lg transition-colors">Manage</button>
+                                    <span className="text-xs font-bold text-teal-600 bg-teal-50 px-2 py-1 rounded-lg">{branch.staffCount || 0} staff</span>
+                                    {onDeleteBranch && (
+                                        <button onClick={() => onDeleteBranch(branch.id)} className="text-red-500 hover:bg-red-50 p-2 rounded-xl transition-colors"><Trash2 className="w-4 h-4"/></button>
+                                    )}
                                 </div>
                             </div>
                         ))}
@@ -438,6 +569,8 @@ const Settings: React.FC<SettingsProps> = ({
                 </div>
             )}
 
+            {activeTab === 'support' && <SupportTickets mode="clinic" />}
+
             {activeTab === 'profile' && (
                 <div className="animate-fade-in max-w-lg mx-auto">
                     <div className="text-center mb-8">
@@ -583,27 +716,29 @@ const Settings: React.FC<SettingsProps> = ({
                             </div>
                             <div className="grid grid-cols-2 gap-4">
                                 <div>
-                                    <label className="block text-xs font-bold text-slate-700 mb-1.5 ml-1">Branch Admin Name</label>
-                                    <input type="text" className="w-full p-3 border border-slate-200 rounded-xl text-sm focus:ring-2 focus:ring-teal-500" value={branchForm.adminName} onChange={e => setBranchForm({...branchForm, adminName: e.target.value})} />
+                                    <label className="block text-xs font-bold text-slate-700 mb-1.5 ml-1">Address</label>
+                                    <input type="text" className="w-full p-3 border border-slate-200 rounded-xl text-sm focus:ring-2 focus:ring-teal-500" value={branchForm.address} onChange={e => setBranchForm({...branchForm, address: e.target.value})} />
                                 </div>
                                 <div>
-                                    <label className="block text-xs font-bold text-slate-700 mb-1.5 ml-1">Admin Email</label>
-                                    <input type="email" className="w-full p-3 border border-slate-200 rounded-xl text-sm focus:ring-2 focus:ring-teal-500" value={branchForm.email} onChange={e => setBranchForm({...branchForm, email: e.target.value})} />
+                                    <label className="block text-xs font-bold text-slate-700 mb-1.5 ml-1">Phone</label>
+                                    <input type="text" className="w-full p-3 border border-slate-200 rounded-xl text-sm focus:ring-2 focus:ring-teal-500" value={branchForm.phone} onChange={e => setBranchForm({...branchForm, phone: e.target.value})} />
                                 </div>
                             </div>
+                            <p className="text-xs font-bold text-slate-400 uppercase tracking-widest border-b border-slate-100 pb-2 pt-2">Branch Admin (optional)</p>
                             <div className="grid grid-cols-2 gap-4">
                                 <div>
-                                    <label className="block text-xs font-bold text-slate-700 mb-1.5 ml-1">Password</label>
-                                    <input type="password" className="w-full p-3 border border-slate-200 rounded-xl text-sm focus:ring-2 focus:ring-teal-500" value={branchForm.password} onChange={e => setBranchForm({...branchForm, password: e.target.value})} />
+                                    <label className="block text-xs font-bold text-slate-700 mb-1.5 ml-1">Branch Admin Name</label>
+                                    <input type="text" className="w-full p-3 border border-slate-200 rounded-xl text-sm focus:ring-2 focus:ring-teal-500" value={branchForm.adminName} onChange={e => setBranchForm({...branchForm, adminName: e.target.value})} />
                                 </div>
                                 <div>
-                                    <label className="block text-xs font-bold text-slate-700 mb-1.5 ml-1">Country</label>
-                                    <select className="w-full p-3 border border-slate-200 rounded-xl text-sm focus:ring-2 focus:ring-teal-500 bg-white" value={branchForm.country} onChange={e => setBranchForm({...branchForm, country: e.target.value})}>
-                                        <option value="Nigeria">Nigeria</option>
-                                        <option value="USA">USA</option>
-                                    </select>
+                                    <label className="block text-xs font-bold text-slate-700 mb-1.5 ml-1">Admin Email</label>
+                                    <input type="email" className="w-full p-3 border border-slate-200 rounded-xl text-sm focus:ring-2 focus:ring-teal-500" value={branchForm.email} onChange={e => setBranchForm({...branchForm, email: e.target.value})} />
                                 </div>
                             </div>
+                            <div>
+                                <label className="block text-xs font-bold text-slate-700 mb-1.5 ml-1">Password</label>
+                                <input type="password" className="w-full p-3 border border-slate-200 rounded-xl text-sm focus:ring-2 focus:ring-teal-500" value={branchForm.password} onChange={e => setBranchForm({...branchForm, password: e.target.value})} />
+                            </div>
                             <button onClick={handleBranchSubmit} className="w-full bg-teal-600 text-white py-3.5 rounded-xl font-bold hover:bg-teal-700 mt-4 shadow-lg shadow-teal-200 btn-press">
                                 Create Branch
                             </button>
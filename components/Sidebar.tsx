@@ -13,7 +13,10 @@ import {
   ChevronLeft,
   FileBarChart,
   Shield,
-  Activity
+  Activity,
+  Armchair,
+  BedDouble,
+  ShieldAlert
 } from "lucide-react";
 import { AppState } from "../types";
 
@@ -43,10 +46,13 @@ const Sidebar: React.FC<SidebarProps> = ({
     { id: "dashboard", label: "Overview", icon: LayoutDashboard }, // lowercase IDs to match App.tsx switch
     { id: "clients", label: "Patients", icon: Users },
     { id: "appointments", label: "Schedule", icon: Calendar },
+    { id: "queue", label: "Waiting Room", icon: Armchair },
+    { id: "hospital", label: "Hospital", icon: BedDouble },
     { id: "treatments", label: "Consultations", icon: Stethoscope },
     { id: "lab", label: "Lab Results", icon: TestTube },
     { id: "pos", label: "Payments", icon: CreditCard },
     { id: "inventory", label: "Inventory", icon: ShoppingBag },
+    { id: "controlled", label: "Controlled Drugs", icon: ShieldAlert },
     { id: "reports", label: "Reports", icon: FileBarChart },
     { id: "settings", label: "Settings", icon: Settings },
   ];
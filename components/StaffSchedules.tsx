@@ -0,0 +1,229 @@
+import React, { useEffect, useState } from 'react';
+import { AppointmentType, StaffSchedule, WorkingHours } from '../types';
+import { Save, Plus, Trash2, CalendarOff, Clock, AlertTriangle } from 'lucide-react';
+import { ScheduleService } from '../services/api';
+
+const DAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+interface DayRow {
+  works: boolean;
+  startTime: string;
+  endTime: string;
+  breakStart: string;
+  breakEnd: string;
+}
+
+const toRows = (hours: WorkingHours[]): DayRow[] => DAYS.map((_, dayOfWeek) => {
+  const day = hours.find(h => h.dayOfWeek === dayOfWeek);
+  return {
+    works: !!day,
+    startTime: day?.startTime || '09:00',
+    endTime: day?.endTime || '17:00',
+    breakStart: day?.breakStart || '',
+    breakEnd: day?.breakEnd || ''
+  };
+});
+
+const inputClass = 'px-2 py-1.5 bg-white border border-slate-200 rounded-lg text-xs font-medium text-slate-700 outline-none focus:ring-2 focus:ring-teal-500';
+
+// Working hours, leave and visit lengths that drive the booking slots. Times are in the clinic's timezone.
+const StaffSchedules: React.FC = () => {
+  const [schedules, setSchedules] = useState<StaffSchedule[]>([]);
+  const [types, setTypes] = useState<AppointmentType[]>([]);
+  const [selectedId, setSelectedId] = useState('');
+  const [rows, setRows] = useState<DayRow[]>(toRows([]));
+  const [leaveForm, setLeaveForm] = useState({ from: '', to: '', reason: '' });
+  const [typeForm, setTypeForm] = useState({ name: '', durationMinutes: 30 });
+  const [message, setMessage] = useState<{ type: 'error' | 'info'; text: string } | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const selected = schedules.find(s => s.userId === selectedId);
+
+  useEffect(() => {
+    Promise.all([ScheduleService.getAll(), ScheduleService.getTypes()])
+      .then(([scheduleRes, typeRes]) => {
+        setSchedules(scheduleRes.data);
+        setTypes(typeRes.data);
+        if (scheduleRes.data.length) setSelectedId(scheduleRes.data[0].userId);
+      })
+      .catch((e: any) => setMessage({ type: 'error', text: e?.message || 'Could not load schedules' }));
+  }, []);
+
+  useEffect(() => { setRows(toRows(selected?.hours || [])); }, [selectedId, selected?.hours]);
+
+  const run = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    setMessage(null);
+    try {
+      await action();
+    } catch (e: any) {
+      setMessage({ type: 'error', text: e?.message || 'Could not save' });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const updateSelected = (changes: Partial<StaffSchedule>) =>
+    setSchedules(prev => prev.map(s => s.userId === selectedId ? { ...s, ...changes } : s));
+
+  const saveHours = () => run(async () => {
+    const hours = rows.flatMap((row, dayOfWeek) => row.works ? [{
+      dayOfWeek,
+      startTime: row.startTime,
+      endTime: row.endTime,
+      breakStart: row.breakStart || null,
+      breakEnd: row.breakEnd || null
+    }] : []);
+    const { data } = await ScheduleService.saveHours(selectedId, hours);
+    updateSelected({ hours: data });
+    setMessage({ type: 'info', text: `Saved ${selected?.name}'s hours` });
+  });
+
+  const addLeave = () => run(async () => {
+    const { data } = await ScheduleService.addLeave(selectedId, { from: leaveForm.from, to: leaveForm.to || leaveForm.from, reason: leaveForm.reason || undefined });
+    const { affectedAppointments, ...leave } = data;
+    updateSelected({ leave: [...(selected?.leave || []), leave].sort((a, b) => a.startAt.localeCompare(b.startAt)) });
+    setLeaveForm({ from: '', to: '', reason: '' });
+    if (affectedAppointments > 0) {
+      setMessage({ type: 'info', text: `${affectedAppointments} booked appointment(s) fall in this leave and need rebooking` });
+    }
+  });
+
+  const removeLeave = (id: string) => run(async () => {
+    await ScheduleService.removeLeave(id);
+    updateSelected({ leave: (selected?.leave || []).filter(l => l.id !== id) });
+  });
+
+  const saveType = () => run(async () => {
+    const { data } = await ScheduleService.saveType({ name: typeForm.name.trim(), durationMinutes: Number(typeForm.durationMinutes) });
+    setTypes(prev => [...prev.filter(t => t.id !== data.id), data].sort((a, b) => a.name.localeCompare(b.name)));
+    setTypeForm({ name: '', durationMinutes: 30 });
+  });
+
+  const removeType = (id: string) => run(async () => {
+    await ScheduleService.removeType(id);
+    setTypes(prev => prev.filter(t => t.id !== id));
+  });
+
+  const setRow = (index: number, changes: Partial<DayRow>) => setRows(prev => prev.map((row, i) => i === index ? { ...row, ...changes } : row));
+
+  return (
+    <div className="animate-fade-in space-y-8">
+      <div>
+        <h2 className="text-xl font-bold text-slate-800">Schedules</h2>
+        <p className="text-sm text-slate-500">Working hours and leave decide which appointment slots are offered, at the desk and in the client portal.</p>
+      </div>
+
+      {message && (
+        <p className={`p-3 text-xs font-medium rounded-xl border flex items-center ${message.type === 'error' ? 'bg-rose-50 text-rose-700 border-rose-100' : 'bg-teal-50 text-teal-700 border-teal-100'}`}>
+          {message.type === 'error' && <AlertTriangle className="w-4 h-4 mr-2 shrink-0" />}{message.text}
+        </p>
+      )}
+
+      <section className="space-y-4">
+        <div className="flex items-center justify-between gap-4">
+          <h3 className="text-xs font-bold text-slate-400 uppercase tracking-widest flex items-center"><Clock className="w-4 h-4 mr-2" /> Working Hours</h3>
+          <select value={selectedId} onChange={e => setSelectedId(e.target.value)} className="px-3 py-2 bg-white border border-slate-200 rounded-xl text-sm font-semibold text-slate-700 outline-none">
+            {schedules.map(s => <option key={s.userId} value={s.userId}>{s.name}{s.hours.length ? '' : ' (not bookable)'}</option>)}
+          </select>
+        </div>
+
+        {selected && (
+          <div className="border border-slate-200 rounded-2xl overflow-hidden shadow-sm">
+            <table className="w-full text-left">
+              <thead className="bg-slate-50/50 border-b border-slate-200">
+                <tr>
+                  <th className="px-4 py-3 text-xs font-bold text-slate-500 uppercase">Day</th>
+                  <th className="px-4 py-3 text-xs font-bold text-slate-500 uppercase">Hours</th>
+                  <th className="px-4 py-3 text-xs font-bold text-slate-500 uppercase">Break</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {rows.map((row, index) => (
+                  <tr key={DAYS[index]} className={row.works ? '' : 'opacity-50'}>
+                    <td className="px-4 py-2.5">
+                      <label className="flex items-center text-sm font-semibold text-slate-700">
+                        <input type="checkbox" className="mr-2 accent-teal-600" checked={row.works} onChange={e => setRow(index, { works: e.target.checked })} />
+                        {DAYS[index]}
+                      </label>
+                    </td>
+                    <td className="px-4 py-2.5 space-x-1">
+                      <input type="time" disabled={!row.works} value={row.startTime} onChange={e => setRow(index, { startTime: e.target.value })} className={inputClass} />
+                      <span className="text-slate-400 text-xs">to</span>
+                      <input type="time" disabled={!row.works} value={row.endTime} onChange={e => setRow(index, { endTime: e.target.value })} className={inputClass} />
+                    </td>
+                    <td className="px-4 py-2.5 space-x-1">
+                      <input type="time" disabled={!row.works} value={row.breakStart} onChange={e => setRow(index, { breakStart: e.target.value })} className={inputClass} />
+                      <span className="text-slate-400 text-xs">to</span>
+                      <input type="time" disabled={!row.works} value={row.breakEnd} onChange={e => setRow(index, { breakEnd: e.target.value })} className={inputClass} />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <div className="p-3 bg-slate-50/50 border-t border-slate-200 flex justify-end">
+              <button onClick={saveHours} disabled={isBusy} className="bg-teal-600 text-white px-4 py-2 rounded-xl text-sm font-bold flex items-center hover:bg-teal-700 disabled:opacity-50 btn-press">
+                <Save className="w-4 h-4 mr-2" /> Save Hours
+              </button>
+            </div>
+          </div>
+        )}
+      </section>
+
+      {selected && (
+        <section className="space-y-3">
+          <h3 className="text-xs font-bold text-slate-400 uppercase tracking-widest flex items-center"><CalendarOff className="w-4 h-4 mr-2" /> Leave · {selected.name}</h3>
+          <div className="flex flex-wrap gap-2 items-center">
+            <input type="date" value={leaveForm.from} onChange={e => setLeaveForm({ ...leaveForm, from: e.target.value })} className={inputClass} />
+            <span className="text-slate-400 text-xs">to</span>
+            <input type="date" value={leaveForm.to} min={leaveForm.from} onChange={e => setLeaveForm({ ...leaveForm, to: e.target.value })} className={inputClass} />
+            <input value={leaveForm.reason} onChange={e => setLeaveForm({ ...leaveForm, reason: e.target.value })} placeholder="Reason (optional)" className={`${inputClass} flex-1 min-w-[10rem]`} />
+            <button onClick={addLeave} disabled={isBusy || !leaveForm.from} className="px-3 py-1.5 bg-slate-800 text-white rounded-lg text-xs font-bold flex items-center disabled:opacity-50">
+              <Plus className="w-3.5 h-3.5 mr-1" /> Add Leave
+            </button>
+          </div>
+          {selected.leave.length > 0 ? (
+            <ul className="divide-y divide-slate-100 border border-slate-200 rounded-2xl">
+              {selected.leave.map(leave => (
+                <li key={leave.id} className="px-4 py-2.5 flex items-center justify-between text-sm">
+                  <span className="text-slate-700">
+                    <span className="font-semibold">{new Date(leave.startAt).toLocaleDateString()} – {new Date(new Date(leave.endAt).getTime() - 1).toLocaleDateString()}</span>
+                    {leave.reason && <span className="text-slate-500"> · {leave.reason}</span>}
+                  </span>
+                  <button onClick={() => removeLeave(leave.id)} disabled={isBusy} className="text-red-500 hover:bg-red-50 p-1.5 rounded-lg transition-colors"><Trash2 className="w-4 h-4" /></button>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-xs text-slate-400">No upcoming leave.</p>
+          )}
+        </section>
+      )}
+
+      <section className="space-y-3">
+        <h3 className="text-xs font-bold text-slate-400 uppercase tracking-widest">Visit Length by Reason</h3>
+        <p className="text-xs text-slate-500">Reasons without a type take 30 minutes.</p>
+        <div className="flex flex-wrap gap-2 items-center">
+          <input value={typeForm.name} onChange={e => setTypeForm({ ...typeForm, name: e.target.value })} placeholder="e.g. Vaccination" className={`${inputClass} flex-1 min-w-[10rem]`} />
+          <input type="number" min={5} step={5} value={typeForm.durationMinutes} onChange={e => setTypeForm({ ...typeForm, durationMinutes: Number(e.target.value) })} className={`${inputClass} w-20`} />
+          <span className="text-slate-400 text-xs">min</span>
+          <button onClick={saveType} disabled={isBusy || !typeForm.name.trim()} className="px-3 py-1.5 bg-slate-800 text-white rounded-lg text-xs font-bold flex items-center disabled:opacity-50">
+            <Plus className="w-3.5 h-3.5 mr-1" /> Save Type
+          </button>
+        </div>
+        {types.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {types.map(type => (
+              <span key={type.id} className="pl-3 pr-1 py-1 bg-white border border-slate-200 rounded-lg text-xs font-semibold text-slate-700 flex items-center shadow-sm">
+                {type.name} · {type.durationMinutes} min
+                <button onClick={() => removeType(type.id)} disabled={isBusy} className="ml-1 text-slate-400 hover:text-red-500 p-1"><Trash2 className="w-3 h-3" /></button>
+              </span>
+            ))}
+          </div>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default StaffSchedules;
@@ -3,9 +3,10 @@ import { AppState, SubscriptionPlan, SupportTicket, Tenant, UserProfile, Subscri
 import { 
     LayoutDashboard, Building, CreditCard, LogOut, 
     Plus, Cpu, HardDrive, ShieldCheck, X, Edit,
-    Search, ChevronRight, TrendingUp, Server, Lock // <--- Added Lock to imports
+    Search, ChevronRight, TrendingUp, Server, Lock, LifeBuoy // <--- Added Lock to imports
 } from 'lucide-react';
 import { SuperAdminService, PlanService } from '../services/api';
+import SupportTickets from './SupportTickets';
 
 interface SuperAdminProps {
     appState: AppState;
@@ -17,7 +18,9 @@ interface SuperAdminProps {
 }
 
 const SuperAdminDashboard: React.FC<SuperAdminProps> = ({ appState, onUpdateTenant, onCreateTenant, onUpdatePlan, onLogout }) => {
-    const [activeView, setActiveView] = useState<'overview' | 'clinics' | 'subscriptions' | 'tickets' | 'system'>('overview');
+    // Support staff only work the ticket queue; tenant, plan and revenue views are SuperAdmin only
+    const isSupportOnly = !appState.currentUser?.roles.includes('SuperAdmin');
+    const [activeView, setActiveView] = useState<'overview' | 'clinics' | 'subscriptions' | 'tickets' | 'system'>(isSupportOnly ? 'tickets' : 'overview');
     const [tenants, setTenants] = useState<Tenant[]>([]);
     const [plans, setPlans] = useState<SubscriptionPlan[]>([]);
     const [isLoading, setIsLoading] = useState(true);
@@ -27,7 +30,9 @@ const SuperAdminDashboard: React.FC<SuperAdminProps> = ({ appState, onUpdateTena
         totalClinics: 0,
         activeClinics: 0,
         suspendedClinics: 0,
+        expiredClinics: 0,
         totalRevenue: 0,
+        mrrByTier: {} as Record<string, number>,
         systemLoad: { cpuUsage: 0, memoryUsage: 0 }
     });
 
@@ -56,6 +61,10 @@ const SuperAdminDashboard: React.FC<SuperAdminProps> = ({ appState, onUpdateTena
     // Fetch Data on Mount
     useEffect(() => {
         const loadData = async () => {
+            if (isSupportOnly) {
+                setIsLoading(false);
+                return;
+            }
             try {
                 const [tenantsRes, statsRes, plansRes] = await Promise.all([
                     SuperAdminService.getTenants(),
@@ -70,8 +79,10 @@ const SuperAdminDashboard: React.FC<SuperAdminProps> = ({ appState, onUpdateTena
                 setStats({
                     totalClinics: backendStats.totalClinics || 0,
                     activeClinics: backendStats.activeSubscriptions || 0,
-                    suspendedClinics: (backendStats.totalClinics || 0) - (backendStats.activeSubscriptions || 0),
+                    suspendedClinics: backendStats.suspendedClinics || 0,
+                    expiredClinics: backendStats.expiredClinics || 0,
                     totalRevenue: backendStats.monthlyRevenue || 0,
+                    mrrByTier: backendStats.mrrByTier || {},
                     systemLoad: backendStats.systemLoad || { cpuUsage: 0, memoryUsage: 0 } 
                 });
 
@@ -219,11 +230,22 @@ const SuperAdminDashboard: React.FC<SuperAdminProps> = ({ appState, onUpdateTena
                 </div>
             </div>
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
-                <StatCard label="Total Tenants" value={stats.totalClinics} subValue={`${stats.activeClinics} Active`} icon={Building} colorClass="bg-indigo-600" delay={0.1}/>
-                <StatCard label="Monthly Revenue" value={`₦${(stats.totalRevenue || 0).toLocaleString()}`} subValue="Gross Income" icon={CreditCard} colorClass="bg-emerald-500" delay={0.2}/>
+                <StatCard label="Total Tenants" value={stats.totalClinics} subValue={`${stats.activeClinics} Active • ${stats.expiredClinics} Expired`} icon={Building} colorClass="bg-indigo-600" delay={0.1}/>
+                <StatCard label="Monthly Revenue" value={`₦${(stats.totalRevenue || 0).toLocaleString()}`} subValue="MRR" icon={CreditCard} colorClass="bg-emerald-500" delay={0.2}/>
                 <StatCard label="CPU Load" value={`${stats.systemLoad.cpuUsage.toFixed(1)}%`} subValue="Live Metric" icon={Cpu} colorClass="bg-violet-500" delay={0.3}/>
                 <StatCard label="Memory Usage" value={`${stats.systemLoad.memoryUsage}%`} subValue="System RAM" icon={Server} colorClass="bg-rose-500" delay={0.4}/>
             </div>
+            <div className="bg-white/70 backdrop-blur-xl p-6 rounded-3xl border border-white/50 shadow-sm">
+                <h3 className="text-sm font-bold text-slate-500 uppercase tracking-wider mb-4">MRR by Tier</h3>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                    {Object.keys(stats.mrrByTier).length > 0 ? Object.entries(stats.mrrByTier).map(([tier, amount]) => (
+                        <div key={tier} className="bg-slate-50 p-4 rounded-2xl border border-slate-100">
+                            <span className="block text-xs font-bold text-slate-400 uppercase mb-1">{tier}</span>
+                            <b className="text-xl text-slate-800">₦{amount.toLocaleString()}</b>
+                        </div>
+                    )) : <p className="text-sm text-slate-400 col-span-4">No active subscriptions yet.</p>}
+                </div>
+            </div>
         </div>
     );
 
@@ -522,18 +544,25 @@ const SuperAdminDashboard: React.FC<SuperAdminProps> = ({ appState, onUpdateTena
                 
                 <div className="p-10 relative z-10">
                     <h1 className="font-black text-2xl tracking-tight bg-gradient-to-r from-white to-slate-400 bg-clip-text text-transparent">Vet Nexus</h1>
-                    <span className="text-[11px] text-indigo-200 uppercase tracking-[0.2em] font-bold mt-1 block">Super Admin</span>
+                    <span className="text-[11px] text-indigo-200 uppercase tracking-[0.2em] font-bold mt-1 block">{isSupportOnly ? 'Support Desk' : 'Super Admin'}</span>
                 </div>
                 
                 <nav className="flex-1 px-6 space-y-2 relative z-10">
-                    <button onClick={() => setActiveView('overview')} className={`w-full flex items-center px-4 py-3.5 rounded-2xl transition-all duration-300 font-medium ${activeView === 'overview' ? 'bg-indigo-600 text-white shadow-lg shadow-indigo-900/50 translate-x-1' : 'text-slate-400 hover:bg-white/5 hover:text-white'}`}>
-                        <LayoutDashboard className="w-5 h-5 mr-3" /> Dashboard
-                    </button>
-                    <button onClick={() => setActiveView('clinics')} className={`w-full flex items-center px-4 py-3.5 rounded-2xl transition-all duration-300 font-medium ${activeView === 'clinics' ? 'bg-indigo-600 text-white shadow-lg shadow-indigo-900/50 translate-x-1' : 'text-slate-400 hover:bg-white/5 hover:text-white'}`}>
-                        <Building className="w-5 h-5 mr-3" /> Clinics
-                    </button>
-                    <button onClick={() => setActiveView('subscriptions')} className={`w-full flex items-center px-4 py-3.5 rounded-2xl transition-all duration-300 font-medium ${activeView === 'subscriptions' ? 'bg-indigo-600 text-white shadow-lg shadow-indigo-900/50 translate-x-1' : 'text-slate-400 hover:bg-white/5 hover:text-white'}`}>
-                        <CreditCard className="w-5 h-5 mr-3" /> Plans & Revenue
+                    {!isSupportOnly && (
+                        <>
+                            <button onClick={() => setActiveView('overview')} className={`w-full flex items-center px-4 py-3.5 rounded-2xl transition-all duration-300 font-medium ${activeView === 'overview' ? 'bg-indigo-600 text-white shadow-lg shadow-indigo-900/50 translate-x-1' : 'text-slate-400 hover:bg-white/5 hover:text-white'}`}>
+                                <LayoutDashboard className="w-5 h-5 mr-3" /> Dashboard
+                            </button>
+                            <button onClick={() => setActiveView('clinics')} className={`w-full flex items-center px-4 py-3.5 rounded-2xl transition-all duration-300 font-medium ${activeView === 'clinics' ? 'bg-indigo-600 text-white shadow-lg shadow-indigo-900/50 translate-x-1' : 'text-slate-400 hover:bg-white/5 hover:text-white'}`}>
+                                <Building className="w-5 h-5 mr-3" /> Clinics
+                            </button>
+                            <button onClick={() => setActiveView('subscriptions')} className={`w-full flex items-center px-4 py-3.5 rounded-2xl transition-all duration-300 font-medium ${activeView === 'subscriptions' ? 'bg-indigo-600 text-white shadow-lg shadow-indigo-900/50 translate-x-1' : 'text-slate-400 hover:bg-white/5 hover:text-white'}`}>
+                                <CreditCard className="w-5 h-5 mr-3" /> Plans & Revenue
+                            </button>
+                        </>
+                    )}
+                    <button onClick={() => setActiveView('tickets')} className={`w-full flex items-center px-4 py-3.5 rounded-2xl transition-all duration-300 font-medium ${activeView === 'tickets' ? 'bg-indigo-600 text-white shadow-lg shadow-indigo-900/50 translate-x-1' : 'text-slate-400 hover:bg-white/5 hover:text-white'}`}>
+                        <LifeBuoy className="w-5 h-5 mr-3" /> Support Tickets
                     </button>
                 </nav>
                 
@@ -552,6 +581,7 @@ const SuperAdminDashboard: React.FC<SuperAdminProps> = ({ appState, onUpdateTena
                     {activeView === 'overview' && renderOverview()}
                     {activeView === 'clinics' && renderClinics()}
                     {activeView === 'subscriptions' && renderPlans()}
+                    {activeView === 'tickets' && <SupportTickets mode="platform" />}
                 </div>
             </main>
 
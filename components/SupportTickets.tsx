@@ -0,0 +1,287 @@
+import React, { useState, useEffect } from 'react';
+import { SupportTicket } from '../types';
+import { LifeBuoy, Plus, Send, X, MessageSquare, Building, UserCheck } from 'lucide-react';
+import { SupportService, SuperAdminService } from '../services/api';
+
+interface SupportTicketsProps {
+    // 'clinic' lists the tenant's own tickets; 'platform' is the SuperAdmin/Support triage view
+    mode: 'clinic' | 'platform';
+}
+
+const STATUS_STYLES: Record<SupportTicket['status'], string> = {
+    'Open': 'bg-amber-50 text-amber-700 border-amber-100',
+    'In Progress': 'bg-blue-50 text-blue-700 border-blue-100',
+    'Resolved': 'bg-green-50 text-green-700 border-green-100'
+};
+
+const PRIORITY_STYLES: Record<SupportTicket['priority'], string> = {
+    'Low': 'text-slate-500',
+    'Medium': 'text-amber-600',
+    'High': 'text-rose-600'
+};
+
+const SupportTickets: React.FC<SupportTicketsProps> = ({ mode }) => {
+    const isPlatform = mode === 'platform';
+    const accent = isPlatform
+        ? { bubble: 'bg-indigo-600', selected: 'border-indigo-300 ring-2 ring-indigo-100' }
+        : { bubble: 'bg-teal-600', selected: 'border-teal-300 ring-2 ring-teal-100' };
+
+    const [tickets, setTickets] = useState<SupportTicket[]>([]);
+    const [selected, setSelected] = useState<SupportTicket | null>(null);
+    const [statusFilter, setStatusFilter] = useState<'All' | SupportTicket['status']>('All');
+    const [supportStaff, setSupportStaff] = useState<{ id: string; name: string }[]>([]);
+    const [reply, setReply] = useState('');
+    const [isLoading, setIsLoading] = useState(true);
+    const [isSending, setIsSending] = useState(false);
+
+    const [isCreateOpen, setIsCreateOpen] = useState(false);
+    const [form, setForm] = useState({ subject: '', message: '', priority: 'Medium' as SupportTicket['priority'] });
+
+    const loadTickets = async () => {
+        try {
+            const res = isPlatform
+                ? await SuperAdminService.getTickets(statusFilter === 'All' ? undefined : statusFilter)
+                : await SupportService.getAll();
+            setTickets(res.data);
+        } catch (e) {
+            console.error('Failed to load tickets', e);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    useEffect(() => { loadTickets(); }, [statusFilter]);
+
+    useEffect(() => {
+        if (isPlatform) {
+            SuperAdminService.getSupportStaff().then(res => setSupportStaff(res.data)).catch(() => setSupportStaff([]));
+        }
+    }, [isPlatform]);
+
+    // Keep the list in step with the ticket open in the conversation panel
+    const applyUpdate = (ticket: SupportTicket) => {
+        setSelected(ticket);
+        setTickets(prev => [ticket, ...prev.filter(t => t.id !== ticket.id)]);
+    };
+
+    const openTicket = async (id: string) => {
+        try {
+            const res = await SupportService.getOne(id);
+            setSelected(res.data);
+            setReply('');
+        } catch (e) {
+            console.error('Failed to open ticket', e);
+        }
+    };
+
+    const handleCreate = async () => {
+        if (!form.subject || !form.message) return;
+        try {
+            const res = await SupportService.create(form);
+            applyUpdate(res.data);
+            setIsCreateOpen(false);
+            setForm({ subject: '', message: '', priority: 'Medium' });
+        } catch (e) {
+            console.error('Failed to open ticket', e);
+        }
+    };
+
+    const handleReply = async () => {
+        if (!selected || !reply.trim()) return;
+        setIsSending(true);
+        try {
+            const res = await SupportService.reply(selected.id, reply.trim());
+            applyUpdate(res.data);
+            setReply('');
+        } catch (e) {
+            console.error('Failed to send reply', e);
+        } finally {
+            setIsSending(false);
+        }
+    };
+
+    const handleTriage = async (changes: Partial<Pick<SupportTicket, 'status' | 'priority' | 'assignedTo'>>) => {
+        if (!selected) return;
+        try {
+            const res = await SuperAdminService.updateTicket(selected.id, changes);
+            applyUpdate(res.data);
+        } catch (e) {
+            console.error('Failed to update ticket', e);
+        }
+    };
+
+    return (
+        <div className="animate-fade-in">
+            <div className="flex justify-between items-center mb-6">
+                <div>
+                    <h2 className={isPlatform ? 'text-3xl font-black text-slate-800 tracking-tight' : 'text-xl font-bold text-slate-800'}>Support Tickets</h2>
+                    <p className="text-sm text-slate-500">
+                        {isPlatform ? 'Triage, assign and resolve clinic requests.' : 'Contact the Vet Nexus support team.'}
+                    </p>
+                </div>
+                <div className="flex items-center gap-2">
+                    {isPlatform && (
+                        <select
+                            value={statusFilter}
+                            onChange={e => setStatusFilter(e.target.value as any)}
+                            className="px-3 py-2 bg-white border border-slate-200 rounded-xl text-sm font-medium text-slate-600 outline-none"
+                        >
+                            <option value="All">All statuses</option>
+                            <option value="Open">Open</option>
+                            <option value="In Progress">In Progress</option>
+                            <option value="Resolved">Resolved</option>
+                        </select>
+                    )}
+                    {!isPlatform && (
+                        <button onClick={() => setIsCreateOpen(true)} className="bg-teal-600 text-white px-4 py-2 rounded-xl text-sm font-bold flex items-center shadow-lg shadow-teal-200 hover:bg-teal-700 btn-press">
+                            <Plus className="w-4 h-4 mr-2" /> New Ticket
+                        </button>
+                    )}
+                </div>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-5 gap-6">
+                {/* Ticket List */}
+                <div className="lg:col-span-2 space-y-3">
+                    {isLoading && <div className="text-sm text-slate-400 text-center py-10">Loading tickets...</div>}
+                    {!isLoading && tickets.length === 0 && (
+                        <div className="py-16 text-center border-2 border-dashed border-slate-200 rounded-3xl text-slate-400 bg-slate-50/50">
+                            <LifeBuoy className="w-8 h-8 mx-auto mb-2 opacity-50" /> No tickets yet.
+                        </div>
+                    )}
+                    {tickets.map(ticket => (
+                        <button
+                            key={ticket.id}
+                            onClick={() => openTicket(ticket.id)}
+                            className={`w-full text-left bg-white p-4 rounded-2xl border shadow-sm transition-all hover:shadow-md ${selected?.id === ticket.id ? accent.selected : 'border-slate-200'}`}
+                        >
+                            <div className="flex justify-between items-start gap-2">
+                                <h3 className="font-bold text-slate-800 text-sm line-clamp-1">{ticket.subject}</h3>
+                                <span className={`text-[10px] font-bold px-2 py-0.5 rounded-full border whitespace-nowrap ${STATUS_STYLES[ticket.status]}`}>{ticket.status}</span>
+                            </div>
+                            {isPlatform && (
+                                <p className="text-xs text-slate-500 mt-1 flex items-center"><Building className="w-3 h-3 mr-1" /> {ticket.tenantName}</p>
+                            )}
+                            <div className="flex justify-between items-center mt-2 text-xs">
+                                <span className={`font-bold ${PRIORITY_STYLES[ticket.priority]}`}>{ticket.priority} priority</span>
+                                <span className="text-slate-400">{new Date(ticket.date).toLocaleDateString()}</span>
+                            </div>
+                        </button>
+                    ))}
+                </div>
+
+                {/* Conversation */}
+                <div className="lg:col-span-3 bg-white rounded-3xl border border-slate-200 shadow-sm flex flex-col min-h-[28rem]">
+                    {!selected ? (
+                        <div className="flex-1 flex flex-col items-center justify-center text-slate-400 text-sm">
+                            <MessageSquare className="w-8 h-8 mb-2 opacity-50" /> Select a ticket to view the conversation.
+                        </div>
+                    ) : (
+                        <>
+                            <div className="p-5 border-b border-slate-100">
+                                <div className="flex justify-between items-start gap-3">
+                                    <div>
+                                        <h3 className="font-bold text-slate-800">{selected.subject}</h3>
+                                        <p className="text-xs text-slate-500 mt-0.5">
+                                            {isPlatform && `${selected.tenantName} · `}Opened {new Date(selected.date).toLocaleString()}
+                                            {selected.assignedTo && ` · Assigned to ${selected.assignedTo}`}
+                                        </p>
+                                    </div>
+                                    <span className={`text-[10px] font-bold px-2 py-1 rounded-full border whitespace-nowrap ${STATUS_STYLES[selected.status]}`}>{selected.status}</span>
+                                </div>
+
+                                {isPlatform && (
+                                    <div className="grid grid-cols-3 gap-2 mt-4">
+                                        <select value={selected.status} onChange={e => handleTriage({ status: e.target.value as SupportTicket['status'] })} className="px-3 py-2 bg-slate-50 border border-slate-200 rounded-xl text-xs font-bold outline-none">
+                                            <option value="Open">Open</option>
+                                            <option value="In Progress">In Progress</option>
+                                            <option value="Resolved">Resolved</option>
+                                        </select>
+                                        <select value={selected.priority} onChange={e => handleTriage({ priority: e.target.value as SupportTicket['priority'] })} className="px-3 py-2 bg-slate-50 border border-slate-200 rounded-xl text-xs font-bold outline-none">
+                                            <option value="Low">Low</option>
+                                            <option value="Medium">Medium</option>
+                                            <option value="High">High</option>
+                                        </select>
+                                        <div className="relative">
+                                            <UserCheck className="w-3.5 h-3.5 absolute left-2.5 top-2.5 text-slate-400" />
+                                            <select value={selected.assignedTo || ''} onChange={e => handleTriage({ assignedTo: e.target.value })} className="w-full pl-7 pr-2 py-2 bg-slate-50 border border-slate-200 rounded-xl text-xs font-bold outline-none">
+                                                <option value="">Unassigned</option>
+                                                {supportStaff.map(s => <option key={s.id} value={s.name}>{s.name}</option>)}
+                                            </select>
+                                        </div>
+                                    </div>
+                                )}
+                            </div>
+
+                            <div className="flex-1 p-5 space-y-3 overflow-y-auto custom-scrollbar max-h-[26rem]">
+                                {(selected.messages || []).map(msg => {
+                                    // Messages from "our side" sit on the right
+                                    const own = (msg.authorType === 'Platform') === isPlatform;
+                                    return (
+                                        <div key={msg.id} className={`flex ${own ? 'justify-end' : 'justify-start'}`}>
+                                            <div className={`max-w-[80%] rounded-2xl px-4 py-3 text-sm ${own ? `${accent.bubble} text-white` : 'bg-slate-100 text-slate-700'}`}>
+                                                <p className={`text-[10px] font-bold mb-1 ${own ? 'text-white/70' : 'text-slate-400'}`}>
+                                                    {msg.authorName}{msg.authorType === 'Platform' && ' (Support)'} · {new Date(msg.createdAt).toLocaleString()}
+                                                </p>
+                                                <p className="whitespace-pre-wrap">{msg.content}</p>
+                                            </div>
+                                        </div>
+                                    );
+                                })}
+                            </div>
+
+                            <div className="p-4 border-t border-slate-100 flex gap-2">
+                                <textarea
+                                    value={reply}
+                                    onChange={e => setReply(e.target.value)}
+                                    rows={2}
+                                    placeholder={selected.status === 'Resolved' && !isPlatform ? 'Reply to reopen this ticket...' : 'Write a reply...'}
+                                    className="flex-1 px-4 py-2.5 bg-slate-50 border border-slate-200 rounded-xl text-sm outline-none resize-none"
+                                />
+                                <button onClick={handleReply} disabled={isSending || !reply.trim()} className={`${accent.bubble} text-white px-4 rounded-xl font-bold disabled:opacity-50 btn-press`}>
+                                    <Send className="w-4 h-4" />
+                                </button>
+                            </div>
+                        </>
+                    )}
+                </div>
+            </div>
+
+            {/* New Ticket Modal */}
+            {isCreateOpen && (
+                <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+                    <div className="bg-white rounded-3xl shadow-2xl w-full max-w-lg animate-scale-up">
+                        <div className="p-6 border-b border-slate-100 flex justify-between items-center">
+                            <h3 className="text-lg font-bold text-slate-800">New Support Ticket</h3>
+                            <button onClick={() => setIsCreateOpen(false)}><X className="w-5 h-5 text-slate-400 hover:text-slate-600" /></button>
+                        </div>
+                        <div className="p-6 space-y-4">
+                            <div>
+                                <label className="block text-sm font-bold text-slate-700 mb-1.5 ml-1">Subject</label>
+                                <input value={form.subject} onChange={e => setForm({ ...form, subject: e.target.value })} className="w-full px-4 py-2.5 bg-slate-50 border border-slate-200 rounded-xl text-sm outline-none" />
+                            </div>
+                            <div>
+                                <label className="block text-sm font-bold text-slate-700 mb-1.5 ml-1">Priority</label>
+                                <select value={form.priority} onChange={e => setForm({ ...form, priority: e.target.value as SupportTicket['priority'] })} className="w-full px-4 py-2.5 bg-slate-50 border border-slate-200 rounded-xl text-sm outline-none">
+                                    <option value="Low">Low</option>
+                                    <option value="Medium">Medium</option>
+                                    <option value="High">High</option>
+                                </select>
+                            </div>
+                            <div>
+                                <label className="block text-sm font-bold text-slate-700 mb-1.5 ml-1">Describe the issue</label>
+                                <textarea value={form.message} onChange={e => setForm({ ...form, message: e.target.value })} rows={5} className="w-full px-4 py-2.5 bg-slate-50 border border-slate-200 rounded-xl text-sm outline-none resize-none" />
+                            </div>
+                        </div>
+                        <div className="p-6 border-t border-slate-100 flex justify-end gap-2">
+                            <button onClick={() => setIsCreateOpen(false)} className="px-4 py-2 rounded-xl text-sm font-bold text-slate-500 hover:bg-slate-100">Cancel</button>
+                            <button onClick={handleCreate} disabled={!form.subject || !form.message} className="bg-teal-600 text-white px-4 py-2 rounded-xl text-sm font-bold hover:bg-teal-700 disabled:opacity-50 btn-press">Submit Ticket</button>
+                        </div>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default SupportTickets;
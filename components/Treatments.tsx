@@ -1,10 +1,10 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Pet, Appointment, Consultation, Owner, PrescriptionItem, Attachment, LabResult, ClinicSettings, SubscriptionTier, Species, Reminder } from '../types';
+import { Pet, Appointment, Consultation, Owner, PrescriptionItem, Attachment, LabResult, ClinicSettings, SubscriptionTier, Species, Reminder, InventoryItem } from '../types';
 import { 
   Stethoscope, Activity, FileText, Plus, Search, ChevronRight, 
   Brain, Sparkles, DollarSign, Calendar, 
   Thermometer, Heart, Wind, Weight,
-  Pill, Clock, Printer, Trash2, Eye, ChevronLeft, CreditCard, Banknote, Smartphone, AlertCircle, User, ArrowLeft
+  Pill, Clock, Printer, Trash2, Eye, ChevronLeft, CreditCard, Banknote, Smartphone, AlertCircle, User, ArrowLeft, Lock, PenLine
 } from 'lucide-react';
 import SearchableSelect from './SearchableSelect';
 import { suggestDiagnosis } from '../services/geminiService';
@@ -16,12 +16,15 @@ interface TreatmentsProps {
   appointments: Appointment[];
   consultations: Consultation[];
   owners: Owner[];
+  inventory?: InventoryItem[];
   settings: ClinicSettings;
   plan?: SubscriptionTier;
   onSelectPatient: (id: string) => void;
   onAddConsultation: (consultation: Consultation) => void;
+  onAddAddendum: (consultationId: string, content: string, section?: string) => void;
   onAddLabRequest: (result: LabResult) => void;
   onAddPatient: (pet: any) => void;
+  onAskAssistant?: (pet: Pet) => void;
 }
 
 // --- HELPER: Safely parse JSON strings or return arrays ---
@@ -46,13 +49,23 @@ const TreatmentDetail: React.FC<{
     owner: Owner | undefined;
     settings: ClinicSettings;
     onBack: () => void;
-}> = ({ consult, pet, owner, settings, onBack }) => {
+    onAddAddendum: (consultationId: string, content: string, section?: string) => void;
+}> = ({ consult, pet, owner, settings, onBack, onAddAddendum }) => {
     const printRef = useRef<HTMLDivElement>(null);
+    const [addendumText, setAddendumText] = useState('');
+    const [addendumSection, setAddendumSection] = useState('');
     const handlePrint = useReactToPrint({
         contentRef: printRef,
         documentTitle: `Medical_Receipt_${pet?.name || 'Patient'}_${new Date().toISOString().split('T')[0]}`,
     });
 
+    const handleSignAddendum = () => {
+        if (!addendumText.trim()) return;
+        onAddAddendum(consult.id, addendumText.trim(), addendumSection || undefined);
+        setAddendumText('');
+        setAddendumSection('');
+    };
+
     return (
         <div className="bg-slate-50 h-[calc(100dvh-5rem)] md:h-[calc(100vh-6rem)] flex flex-col md:rounded-3xl overflow-hidden relative border-t md:border border-slate-200">
              <div className="px-4 py-3 md:px-6 md:py-4 border-b border-slate-200 bg-white flex justify-between items-center sticky top-0 z-30 shadow-sm">
@@ -65,8 +78,32 @@ const TreatmentDetail: React.FC<{
             </div>
 
             <div className="flex-1 overflow-y-auto p-2 md:p-8 flex justify-center bg-slate-100">
-                <div className="bg-white w-full max-w-3xl rounded-xl shadow-lg p-4 md:p-12 h-fit">
-                    <PrintableContent pet={pet || null} owner={owner || null} consult={consult} settings={settings} />
+                <div className="w-full max-w-3xl space-y-4">
+                    <div className="bg-white rounded-xl shadow-lg p-4 md:p-12 h-fit">
+                        <PrintableContent pet={pet || null} owner={owner || null} consult={consult} settings={settings} />
+                    </div>
+
+                    {consult.status === 'Finalized' && (
+                        <div className="bg-white rounded-xl shadow-lg p-4 md:p-6">
+                            <div className="flex items-center text-xs text-slate-500 mb-4">
+                                <Lock className="w-3.5 h-3.5 mr-1.5" />
+                                Finalized{consult.finalizedBy && ` by ${consult.finalizedBy}`}{consult.finalizedAt && ` on ${new Date(consult.finalizedAt).toLocaleString()}`}. Changes are recorded as signed addenda.
+                            </div>
+                            <h4 className="text-xs font-extrabold text-slate-400 uppercase tracking-widest mb-2 flex items-center"><PenLine className="w-3 h-3 mr-2"/> Add Addendum</h4>
+                            <div className="flex flex-col md:flex-row gap-2">
+                                <select value={addendumSection} onChange={e => setAddendumSection(e.target.value)} className="p-2.5 bg-slate-50 border border-slate-200 rounded-xl text-sm outline-none md:w-44">
+                                    <option value="">General</option>
+                                    <option value="history">History</option>
+                                    <option value="exam">Examination</option>
+                                    <option value="diagnosis">Diagnosis</option>
+                                    <option value="plan">Plan</option>
+                                    <option value="prescription">Prescription</option>
+                                </select>
+                                <textarea value={addendumText} onChange={e => setAddendumText(e.target.value)} rows={2} placeholder="Correction or additional findings..." className="flex-1 p-2.5 bg-slate-50 border border-slate-200 rounded-xl text-sm outline-none resize-none" />
+                                <button onClick={handleSignAddendum} disabled={!addendumText.trim()} className="px-4 py-2 bg-blue-600 text-white rounded-xl text-sm font-bold hover:bg-blue-700 disabled:opacity-50">Sign & Add</button>
+                            </div>
+                        </div>
+                    )}
                 </div>
             </div>
 
@@ -80,7 +117,7 @@ const TreatmentDetail: React.FC<{
 };
 
 // --- MAIN COMPONENT ---
-const Treatments: React.FC<TreatmentsProps> = ({ activePatients, appointments, consultations, owners, settings, plan, onSelectPatient, onAddConsultation, onAddLabRequest, onAddPatient }) => {
+const Treatments: React.FC<TreatmentsProps> = ({ activePatients, appointments, consultations, owners, inventory = [], settings, plan, onSelectPatient, onAddConsultation, onAddAddendum, onAddLabRequest, onAddPatient, onAskAssistant }) => {
   const [view, setView] = useState<'list' | 'new' | 'detail'>('list');
   const [selectedConsultation, setSelectedConsultation] = useState<Consultation | null>(null);
   
@@ -99,7 +136,7 @@ const Treatments: React.FC<TreatmentsProps> = ({ activePatients, appointments, c
   const [labRequests, setLabRequests] = useState<string[]>([]);
   const [attachments, setAttachments] = useState<Attachment[]>([]);
   const [prescriptions, setPrescriptions] = useState<PrescriptionItem[]>([]);
-  const [newRx, setNewRx] = useState({ name: '', dosage: '', frequency: '', duration: '' });
+  const [newRx, setNewRx] = useState({ name: '', dosage: '', frequency: '', duration: '', quantity: '' });
 
   // Reminder State
   const [createReminder, setCreateReminder] = useState(false);
@@ -130,17 +167,28 @@ const Treatments: React.FC<TreatmentsProps> = ({ activePatients, appointments, c
     }
   }, [selectedPet, consultations]);
 
+  // Products that can be dispensed from stock; a matched Rx with a quantity is billed and decremented on finalize
+  const dispensable = inventory.filter(i => i.type === 'Product');
+  const findDispensable = (name: string) => dispensable.find(i => i.name.toLowerCase() === name.trim().toLowerCase());
+  const dispensedTotal = prescriptions.reduce((sum, rx) => {
+      const item = rx.inventoryItemId ? dispensable.find(i => i.id === rx.inventoryItemId) : undefined;
+      return sum + (item ? item.retailPrice * (rx.quantity || 0) : 0);
+  }, 0);
+
   const handleAddPrescription = () => {
     if (!newRx.name) return;
+    const stocked = findDispensable(newRx.name);
     const item: PrescriptionItem = {
         id: Math.random().toString(36).substr(2, 9),
         name: newRx.name,
         dosage: newRx.dosage,
         frequency: newRx.frequency,
-        duration: newRx.duration
+        duration: newRx.duration,
+        quantity: Number(newRx.quantity) || undefined,
+        inventoryItemId: stocked?.id
     };
     setPrescriptions([...prescriptions, item]);
-    setNewRx({ name: '', dosage: '', frequency: '', duration: '' });
+    setNewRx({ name: '', dosage: '', frequency: '', duration: '', quantity: '' });
   };
 
   const removePrescription = (id: string) => {
@@ -180,7 +228,7 @@ const Treatments: React.FC<TreatmentsProps> = ({ activePatients, appointments, c
       const discount = parseFloat(String(formData.discount || 0));
       const amountPaid = parseFloat(String(formData.amountPaid || 0));
       
-      const total = Math.max(0, fee - discount);
+      const total = Math.max(0, fee + dispensedTotal - discount);
       const balance = Math.max(0, total - amountPaid);
       
       let paymentStatus: 'Paid' | 'Pending' | 'Partially Paid' = 'Pending';
@@ -248,7 +296,8 @@ const Treatments: React.FC<TreatmentsProps> = ({ activePatients, appointments, c
               amountPaid: amountPaid,
               paymentMethod: formData.paymentMethod,
               paymentStatus: paymentStatus,
-              invoiceId: status === 'Finalized' ? `${settings.invoicePrefix}${Date.now().toString().slice(-6)}` : undefined,
+              // The server raises the invoice on finalize and links it back here
+              invoiceId: undefined,
               receiptId: undefined
           }
       };
@@ -292,7 +341,39 @@ const Treatments: React.FC<TreatmentsProps> = ({ activePatients, appointments, c
       setEditingId(null);
   };
 
+  // Drafts reopen in the editor; finalized records are read-only
+  const handleEditDraft = (consult: Consultation) => {
+      const pet = activePatients.find(p => p.id === consult.petId);
+      setFormData({
+          weightKg: String(consult.vitals?.weightKg || ''),
+          temperatureC: String(consult.vitals?.temperatureC || ''),
+          heartRateBpm: String(consult.vitals?.heartRateBpm || ''),
+          respiratoryRate: String(consult.vitals?.respiratoryRate || ''),
+          chiefComplaint: consult.chiefComplaint || '',
+          history: consult.history || '',
+          exam: { general: '', respiratory: '', cardiovascular: '', digestive: '', musculoskeletal: '', nervous: '', integumentary: '', eyes: '', ears: '', lymphNodes: '', ...consult.exam },
+          diagnosis: {
+              tentative: consult.diagnosis?.tentative || '',
+              differentials: (consult.diagnosis?.differentials || []).join(', '),
+              confirmatory: consult.diagnosis?.confirmatory || ''
+          },
+          plan: consult.plan || '',
+          serviceFee: String(consult.financials?.serviceFee || ''),
+          discount: String(consult.financials?.discount || ''),
+          amountPaid: String(consult.financials?.amountPaid || ''),
+          paymentMethod: 'Cash'
+      });
+      setLabRequests(safeArray(consult.labRequests));
+      setPrescriptions(safeArray(consult.prescription));
+      setAttachments(safeArray(consult.attachments));
+      setSelectedOwnerId(consult.ownerId);
+      setSelectedPet(pet || null);
+      setEditingId(consult.id);
+      setView('new');
+  };
+
   const handleViewDetail = (consult: Consultation) => {
+      if (consult.status === 'Draft') return handleEditDraft(consult);
       setSelectedConsultation(consult);
       const pet = activePatients.find(p => p.id === consult.petId);
       if(pet) setSelectedPet(pet);
@@ -302,7 +383,7 @@ const Treatments: React.FC<TreatmentsProps> = ({ activePatients, appointments, c
   const currentServiceFee = parseFloat(String(formData.serviceFee || 0));
   const currentDiscount = parseFloat(String(formData.discount || 0));
   const currentAmountPaid = parseFloat(String(formData.amountPaid || 0));
-  const currentTotal = Math.max(0, currentServiceFee - currentDiscount);
+  const currentTotal = Math.max(0, currentServiceFee + dispensedTotal - currentDiscount);
   const currentBalance = Math.max(0, currentTotal - currentAmountPaid);
 
   // --- RENDER ---
@@ -310,7 +391,9 @@ const Treatments: React.FC<TreatmentsProps> = ({ activePatients, appointments, c
   if (view === 'detail' && selectedConsultation) {
       const pet = activePatients.find(p => p.id === selectedConsultation!.petId);
       const owner = owners.find(o => o.id === selectedConsultation!.ownerId);
-      return <TreatmentDetail consult={selectedConsultation} pet={pet} owner={owner} settings={settings} onBack={() => setView('list')} />;
+      // Keep the open record in step with state so a new addendum shows up straight away
+      const current = consultations.find(c => c.id === selectedConsultation.id) || selectedConsultation;
+      return <TreatmentDetail consult={current} pet={pet} owner={owner} settings={settings} onBack={() => setView('list')} onAddAddendum={onAddAddendum} />;
   }
 
   // LIST VIEW (Mobile Optimized)
@@ -348,6 +431,9 @@ const Treatments: React.FC<TreatmentsProps> = ({ activePatients, appointments, c
                                               <span className="flex items-center"><Calendar className="w-3 h-3 mr-1" />{new Date(consult.date).toLocaleDateString()}</span>
                                               <span className="w-1 h-1 bg-slate-300 rounded-full"></span>
                                               <span className="truncate max-w-[80px] md:max-w-none">{consult.vetName}</span>
+                                              {consult.status === 'Draft' && (
+                                                  <span className="px-1.5 py-0.5 rounded bg-amber-50 text-amber-700 border border-amber-100 text-[10px] font-bold">Draft</span>
+                                              )}
                                           </div>
                                       </div>
                                   </div>
@@ -382,7 +468,7 @@ const Treatments: React.FC<TreatmentsProps> = ({ activePatients, appointments, c
                <button onClick={() => setView('list')} className="p-2 bg-slate-100 rounded-lg text-slate-600">
                   <ArrowLeft className="w-5 h-5" />
                </button>
-               <h3 className="font-bold text-slate-800">New Consultation</h3>
+               <h3 className="font-bold text-slate-800">{editingId ? 'Edit Draft' : 'New Consultation'}</h3>
                <button onClick={() => handleCreateConsultation('Finalized')} className="px-3 py-2 bg-blue-600 text-white rounded-lg text-xs font-bold shadow-md">
                    Save
                </button>
@@ -467,7 +553,7 @@ const Treatments: React.FC<TreatmentsProps> = ({ activePatients, appointments, c
                       <button onClick={() => setView('list')} className="mr-4 w-8 h-8 rounded-full bg-slate-100 hover:bg-slate-200 flex items-center justify-center text-slate-600 transition-all">
                           <ChevronLeft className="w-5 h-5" />
                       </button>
-                      <h2 className="text-xl font-bold text-slate-900">New Consultation</h2>
+                      <h2 className="text-xl font-bold text-slate-900">{editingId ? 'Edit Draft' : 'New Consultation'}</h2>
                   </div>
                   <div className="flex space-x-3">
                       <button onClick={() => handleCreateConsultation('Draft')} className="px-5 py-2 text-slate-600 hover:bg-slate-50 rounded-xl font-bold border border-slate-300 text-sm transition-all">Draft</button>
@@ -544,13 +630,23 @@ const Treatments: React.FC<TreatmentsProps> = ({ activePatients, appointments, c
                           <h3 className="text-xs font-extrabold text-purple-700 uppercase tracking-widest flex items-center">
                               <Brain className="w-4 h-4 mr-2"/> Diagnosis
                           </h3>
-                          <button 
-                              onClick={handleAiDiagnose} 
-                              disabled={isAiLoading || !formData.chiefComplaint}
-                              className="px-3 py-1.5 bg-purple-600 text-white rounded-lg text-xs font-bold shadow-md active:scale-95 disabled:opacity-50"
-                          >
-                              {isAiLoading ? 'Thinking...' : 'AI Suggest'}
-                          </button>
+                          <div className="flex gap-2">
+                              {onAskAssistant && selectedPet && (
+                                  <button 
+                                      onClick={() => onAskAssistant(selectedPet)} 
+                                      className="px-3 py-1.5 bg-white text-purple-700 border border-purple-200 rounded-lg text-xs font-bold shadow-sm active:scale-95"
+                                  >
+                                      Ask AI
+                                  </button>
+                              )}
+                              <button 
+                                  onClick={handleAiDiagnose} 
+                                  disabled={isAiLoading || !formData.chiefComplaint}
+                                  className="px-3 py-1.5 bg-purple-600 text-white rounded-lg text-xs font-bold shadow-md active:scale-95 disabled:opacity-50"
+                              >
+                                  {isAiLoading ? 'Thinking...' : 'AI Suggest'}
+                              </button>
+                          </div>
                       </div>
                       <div className="space-y-4 relative z-10">
                           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -610,18 +706,22 @@ const Treatments: React.FC<TreatmentsProps> = ({ activePatients, appointments, c
                               <Pill className="w-4 h-4 mr-2"/> Prescription
                           </h3>
                           <div className="bg-rose-50 p-3 rounded-xl border border-rose-100 mb-4 space-y-2">
-                              <input type="text" placeholder="Drug Name" className="w-full p-2 text-xs border rounded-lg" value={newRx.name} onChange={e => setNewRx({...newRx, name: e.target.value})} />
+                              <input type="text" list="rx-inventory" placeholder="Drug Name" className="w-full p-2 text-xs border rounded-lg" value={newRx.name} onChange={e => setNewRx({...newRx, name: e.target.value})} />
+                              <datalist id="rx-inventory">
+                                  {dispensable.map(i => <option key={i.id} value={i.name}>{`${i.stock} in stock`}</option>)}
+                              </datalist>
                               <div className="flex space-x-2">
-                                  <input type="text" placeholder="Dose" className="w-1/3 p-2 text-xs border rounded-lg" value={newRx.dosage} onChange={e => setNewRx({...newRx, dosage: e.target.value})} />
-                                  <input type="text" placeholder="Freq" className="w-1/3 p-2 text-xs border rounded-lg" value={newRx.frequency} onChange={e => setNewRx({...newRx, frequency: e.target.value})} />
-                                  <input type="text" placeholder="Dur." className="w-1/3 p-2 text-xs border rounded-lg" value={newRx.duration} onChange={e => setNewRx({...newRx, duration: e.target.value})} />
+                                  <input type="text" placeholder="Dose" className="w-1/4 p-2 text-xs border rounded-lg" value={newRx.dosage} onChange={e => setNewRx({...newRx, dosage: e.target.value})} />
+                                  <input type="text" placeholder="Freq" className="w-1/4 p-2 text-xs border rounded-lg" value={newRx.frequency} onChange={e => setNewRx({...newRx, frequency: e.target.value})} />
+                                  <input type="text" placeholder="Dur." className="w-1/4 p-2 text-xs border rounded-lg" value={newRx.duration} onChange={e => setNewRx({...newRx, duration: e.target.value})} />
+                                  <input type="number" min="0" placeholder="Qty" title="Units dispensed from stock" className="w-1/4 p-2 text-xs border rounded-lg" value={newRx.quantity} onChange={e => setNewRx({...newRx, quantity: e.target.value})} />
                               </div>
                               <button onClick={handleAddPrescription} className="w-full py-2 bg-rose-500 text-white rounded-lg text-xs font-bold hover:bg-rose-600 transition-colors shadow-sm">Add</button>
                           </div>
                           <div className="space-y-2 max-h-40 overflow-y-auto custom-scrollbar">
                               {prescriptions.map((rx) => (
                                   <div key={rx.id} className="flex justify-between items-center p-2 bg-white border border-slate-100 rounded-lg shadow-sm text-xs">
-                                      <span className="font-bold text-slate-700">{rx.name}</span>
+                                      <span className="font-bold text-slate-700">{rx.name}{rx.quantity ? <span className="ml-1 font-normal text-slate-400">× {rx.quantity}{rx.inventoryItemId ? '' : ' (not stocked)'}</span> : null}</span>
                                       <button onClick={() => removePrescription(rx.id)} className="text-rose-400"><Trash2 className="w-3 h-3"/></button>
                                   </div>
                               ))}
@@ -682,7 +782,7 @@ const PrintableContent = ({ pet, owner, consult, settings, isPrint = false }: {
                 </div>
                 <div className="text-right">
                     <h2 className="text-lg md:text-xl font-bold text-slate-400 uppercase">Invoice</h2>
-                    <p className="text-xs md:text-sm font-mono mt-2">#{consult.financials?.invoiceId || 'N/A'}</p>
+                    <p className="text-xs md:text-sm font-mono mt-2">#{consult.financials?.invoiceNumber || consult.financials?.invoiceId || 'N/A'}</p>
                     <p className="text-xs md:text-sm font-mono">{new Date(consult.date).toLocaleDateString()}</p>
                 </div>
             </div>
@@ -715,7 +815,7 @@ const PrintableContent = ({ pet, owner, consult, settings, isPrint = false }: {
                         </tr>
                         {prescriptionList.map((rx: any, i: number) => (
                             <tr key={i} className="border-b border-slate-100 text-slate-500">
-                                <td className="py-2 px-4 italic pl-8">Rx: {rx.name} - {rx.dosage}</td>
+                                <td className="py-2 px-4 italic pl-8">Rx: {rx.name} - {rx.dosage}{rx.quantity ? ` (× ${rx.quantity} dispensed)` : ''}</td>
                                 <td className="py-2 px-4 text-right">-</td>
                             </tr>
                         ))}
@@ -734,6 +834,22 @@ const PrintableContent = ({ pet, owner, consult, settings, isPrint = false }: {
                 <p><span className="font-bold">Diagnosis:</span> {consult.diagnosis.tentative}</p>
                 <p className="mt-2 whitespace-pre-wrap">{consult.plan}</p>
             </div>
+
+            {consult.addenda && consult.addenda.length > 0 && (
+                <div className="border-t border-slate-200 pt-6 mt-6 text-xs md:text-sm">
+                    <h3 className="font-bold uppercase tracking-widest mb-4 text-slate-500 border-b border-slate-200 pb-2">Addenda</h3>
+                    <div className="space-y-3">
+                        {consult.addenda.map(a => (
+                            <div key={a.id} className="border-l-2 border-slate-300 pl-3">
+                                <p className="text-[11px] text-slate-500">
+                                    {new Date(a.createdAt).toLocaleString()} · Signed by <span className="font-bold">{a.authorName}</span>{a.section && ` · ${a.section}`}
+                                </p>
+                                <p className="whitespace-pre-wrap">{a.content}</p>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
         </div>
     );
 };
@@ -0,0 +1,308 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Pet, Owner, ClinicSettings, InventoryItem, VaccinationRecord, VaccineProtocol } from '../types';
+import { Syringe, Plus, Printer, Trash2, AlertTriangle, CalendarClock, X } from 'lucide-react';
+import { useReactToPrint } from 'react-to-print';
+import { VaccinationService } from '../services/api';
+
+interface VaccinationsProps {
+  pet: Pet;
+  owner?: Owner;
+  settings: ClinicSettings;
+  inventory: InventoryItem[];
+  onVaccinationsChange: (petId: string, vaccinations: VaccinationRecord[]) => void;
+}
+
+const EMPTY_FORM = { protocolCode: '', inventoryItemId: '', vaccineName: '', dateAdministered: new Date().toISOString().split('T')[0], dueDate: '', route: '', site: '', notes: '' };
+
+const day = (value?: string | null) => value ? new Date(value).toLocaleDateString() : '—';
+
+// Same matching as the server: whole words, or the full phrase for multi-word keywords
+const matchesProtocol = (name: string, protocol: VaccineProtocol) => {
+  const words = name.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+  const text = words.join(' ');
+  return protocol.keywords.some(keyword => keyword.includes(' ') ? text.includes(keyword) : words.includes(keyword));
+};
+
+const Certificate = ({ pet, owner, settings, vaccinations }: { pet: Pet; owner?: Owner; settings: ClinicSettings; vaccinations: VaccinationRecord[] }) => (
+  <div className="font-serif text-slate-900 w-full max-w-[210mm]">
+    <div className="flex justify-between items-start border-b-2 border-slate-800 pb-6 mb-8">
+      <div>
+        <h1 className="text-2xl font-bold uppercase tracking-widest text-slate-800">{settings.name}</h1>
+        <p className="text-sm mt-2 text-slate-600">{settings.address}</p>
+        <p className="text-sm text-slate-600">{settings.phone}</p>
+      </div>
+      <div className="text-right">
+        <h2 className="text-xl font-bold text-slate-400 uppercase">Vaccination Certificate</h2>
+        <p className="text-sm font-mono mt-2">{new Date().toLocaleDateString()}</p>
+      </div>
+    </div>
+
+    <div className="flex justify-between mb-8 text-sm">
+      <div>
+        <h3 className="font-bold text-slate-400 uppercase mb-1">Owner</h3>
+        <p className="font-bold text-lg">{owner?.name || '—'}</p>
+        {owner?.phone && <p>{owner.phone}</p>}
+        {owner?.address && <p>{owner.address}</p>}
+      </div>
+      <div className="text-right">
+        <h3 className="font-bold text-slate-400 uppercase mb-1">Patient</h3>
+        <p className="font-bold text-lg">{pet.name}</p>
+        <p>{pet.species}{pet.breed ? `, ${pet.breed}` : ''} ({pet.gender})</p>
+        {pet.patientNumber && <p className="font-mono">{pet.patientNumber}</p>}
+      </div>
+    </div>
+
+    <table className="w-full text-sm border-collapse mb-12">
+      <thead>
+        <tr className="bg-slate-100 border-b border-slate-200">
+          <th className="py-2 px-3 text-left font-bold text-slate-600">Vaccine</th>
+          <th className="py-2 px-3 text-center font-bold text-slate-600">Dose</th>
+          <th className="py-2 px-3 text-left font-bold text-slate-600">Given</th>
+          <th className="py-2 px-3 text-left font-bold text-slate-600">Lot / Manufacturer</th>
+          <th className="py-2 px-3 text-left font-bold text-slate-600">Next Due</th>
+          <th className="py-2 px-3 text-left font-bold text-slate-600">Vet</th>
+        </tr>
+      </thead>
+      <tbody>
+        {vaccinations.map(v => (
+          <tr key={v.id} className="border-b border-slate-100">
+            <td className="py-2 px-3 font-bold">{v.vaccineName}</td>
+            <td className="py-2 px-3 text-center">{v.doseNumber}</td>
+            <td className="py-2 px-3">{day(v.dateAdministered)}</td>
+            <td className="py-2 px-3 font-mono text-xs">{[v.lotNumber, v.manufacturer].filter(Boolean).join(' / ') || '—'}</td>
+            <td className="py-2 px-3">{day(v.dueDate)}</td>
+            <td className="py-2 px-3">{v.administeredBy}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+
+    <div className="flex justify-end">
+      <div className="w-64 border-t border-slate-800 pt-2 text-center text-xs text-slate-600">Veterinarian's signature & stamp</div>
+    </div>
+  </div>
+);
+
+const Vaccinations: React.FC<VaccinationsProps> = ({ pet, owner, settings, inventory, onVaccinationsChange }) => {
+  const [protocols, setProtocols] = useState<VaccineProtocol[]>([]);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+  const printRef = useRef<HTMLDivElement>(null);
+  const handlePrint = useReactToPrint({
+    contentRef: printRef,
+    documentTitle: `Vaccination_Certificate_${pet.name}_${new Date().toISOString().split('T')[0]}`,
+  });
+
+  useEffect(() => {
+    VaccinationService.getProtocols(pet.species).then(res => setProtocols(res.data)).catch(() => setProtocols([]));
+  }, [pet.species]);
+
+  const vaccinations = [...(pet.vaccinations || [])].sort((a, b) => new Date(a.dateAdministered).getTime() - new Date(b.dateAdministered).getTime());
+  const protocol = protocols.find(p => p.code === form.protocolCode);
+
+  // Batches in stock that look like one of this species' vaccines (or the chosen protocol)
+  const batches = inventory.filter(item =>
+    item.type === 'Product' && item.stock > 0 &&
+    (protocol ? matchesProtocol(item.name, protocol) : protocols.some(p => matchesProtocol(item.name, p)) || /vacc/i.test(item.name))
+  );
+  const selectedBatch = inventory.find(item => item.id === form.inventoryItemId);
+  const batchExpired = !!selectedBatch?.expiryDate && new Date(selectedBatch.expiryDate) < new Date(form.dateAdministered);
+
+  // Only the latest dose of each vaccine decides what is due next
+  const latestByVaccine = Array.from(vaccinations.reduce((map, v) => map.set(v.vaccineName, v), new Map<string, VaccinationRecord>()).values());
+  const now = new Date();
+  const dueSoon = latestByVaccine
+    .filter(v => v.dueDate && new Date(v.dueDate).getTime() - now.getTime() < 30 * 86400000)
+    .sort((a, b) => new Date(a.dueDate!).getTime() - new Date(b.dueDate!).getTime());
+
+  const handleSave = async () => {
+    if (!form.protocolCode && !form.inventoryItemId && !form.vaccineName.trim()) return;
+    setIsSaving(true);
+    setError('');
+    try {
+      const res = await VaccinationService.record(pet.id, {
+        ...form,
+        protocolCode: form.protocolCode || undefined,
+        inventoryItemId: form.inventoryItemId || undefined,
+        dueDate: form.dueDate || undefined,
+        route: form.route || undefined
+      });
+      onVaccinationsChange(pet.id, [...vaccinations, res.data]);
+      setForm(EMPTY_FORM);
+      setIsFormOpen(false);
+    } catch (e: any) {
+      setError(e?.message || 'Could not record vaccination');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (vaccination: VaccinationRecord) => {
+    if (!window.confirm(`Remove ${vaccination.vaccineName} given ${day(vaccination.dateAdministered)}? The dose is returned to stock.`)) return;
+    try {
+      await VaccinationService.remove(vaccination.id);
+      onVaccinationsChange(pet.id, vaccinations.filter(v => v.id !== vaccination.id));
+    } catch (e: any) {
+      setError(e?.message || 'Could not remove vaccination');
+    }
+  };
+
+  return (
+    <div className="space-y-4 md:space-y-6">
+      {dueSoon.length > 0 && (
+        <div className="bg-white p-4 md:p-6 rounded-3xl shadow-sm border border-gray-100">
+          <h3 className="font-bold text-gray-800 mb-3 flex items-center">
+            <CalendarClock className="w-5 h-5 mr-2 text-[rgb(var(--ios-primary))]" />
+            Due Soon
+          </h3>
+          <div className="flex flex-wrap gap-2">
+            {dueSoon.map(v => {
+              const overdue = new Date(v.dueDate!) < now;
+              return (
+                <span key={v.id} className={`px-3 py-1.5 rounded-xl text-xs font-bold border ${overdue ? 'bg-rose-50 text-rose-700 border-rose-100' : 'bg-amber-50 text-amber-700 border-amber-100'}`}>
+                  {overdue && <AlertTriangle className="w-3 h-3 inline mr-1 -mt-0.5" />}
+                  {v.vaccineName} · {overdue ? 'overdue since' : 'due'} {day(v.dueDate)}
+                </span>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      <div className="bg-white p-4 md:p-6 rounded-3xl shadow-sm border border-gray-100">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="font-bold text-gray-800 flex items-center">
+            <Syringe className="w-5 h-5 mr-2 text-[rgb(var(--ios-primary))]" />
+            Vaccinations
+          </h3>
+          <div className="flex gap-2">
+            {vaccinations.length > 0 && (
+              <button onClick={() => handlePrint()} className="px-3 py-2 bg-gray-100 text-gray-700 rounded-xl text-xs font-bold flex items-center hover:bg-gray-200">
+                <Printer className="w-4 h-4 mr-1.5" /> Certificate
+              </button>
+            )}
+            <button onClick={() => setIsFormOpen(!isFormOpen)} className="px-3 py-2 bg-[rgb(var(--ios-primary))] text-white rounded-xl text-xs font-bold flex items-center active:scale-95 transition-transform">
+              {isFormOpen ? <X className="w-4 h-4 mr-1.5" /> : <Plus className="w-4 h-4 mr-1.5" />} {isFormOpen ? 'Cancel' : 'Record Dose'}
+            </button>
+          </div>
+        </div>
+
+        {error && <p className="mb-4 p-3 bg-rose-50 text-rose-700 text-xs font-medium rounded-xl border border-rose-100">{error}</p>}
+
+        {isFormOpen && (
+          <div className="mb-6 p-4 bg-gray-50 rounded-2xl border border-gray-100 grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div>
+              <label className="block text-[10px] font-bold text-gray-400 uppercase tracking-wider mb-1">Protocol</label>
+              <select value={form.protocolCode} onChange={e => setForm({ ...form, protocolCode: e.target.value, inventoryItemId: '' })} className="w-full p-2.5 bg-white border border-gray-200 rounded-xl text-sm outline-none focus:ring-2 focus:ring-blue-500/20">
+                <option value="">Detect from batch / other vaccine</option>
+                {protocols.map(p => <option key={p.code} value={p.code}>{p.name}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-[10px] font-bold text-gray-400 uppercase tracking-wider mb-1">Batch (from stock)</label>
+              <select value={form.inventoryItemId} onChange={e => setForm({ ...form, inventoryItemId: e.target.value })} className="w-full p-2.5 bg-white border border-gray-200 rounded-xl text-sm outline-none focus:ring-2 focus:ring-blue-500/20">
+                <option value="">No stock item</option>
+                {batches.map(item => (
+                  <option key={item.id} value={item.id}>
+                    {item.name}{item.batchNumber ? ` · lot ${item.batchNumber}` : ''}{item.expiryDate ? ` · exp ${day(item.expiryDate)}` : ''} ({item.stock} left)
+                  </option>
+                ))}
+              </select>
+              {batchExpired && <p className="mt-1 text-[11px] font-bold text-rose-600">This batch has expired.</p>}
+            </div>
+            {!form.protocolCode && !form.inventoryItemId && (
+              <div className="md:col-span-2">
+                <label className="block text-[10px] font-bold text-gray-400 uppercase tracking-wider mb-1">Vaccine Name</label>
+                <input value={form.vaccineName} onChange={e => setForm({ ...form, vaccineName: e.target.value })} placeholder="e.g. Canine Coronavirus" className="w-full p-2.5 bg-white border border-gray-200 rounded-xl text-sm outline-none focus:ring-2 focus:ring-blue-500/20" />
+              </div>
+            )}
+            <div>
+              <label className="block text-[10px] font-bold text-gray-400 uppercase tracking-wider mb-1">Date Given</label>
+              <input type="date" value={form.dateAdministered} onChange={e => setForm({ ...form, dateAdministered: e.target.value })} className="w-full p-2.5 bg-white border border-gray-200 rounded-xl text-sm outline-none focus:ring-2 focus:ring-blue-500/20" />
+            </div>
+            <div>
+              <label className="block text-[10px] font-bold text-gray-400 uppercase tracking-wider mb-1">Next Due (blank = per protocol)</label>
+              <input type="date" value={form.dueDate} onChange={e => setForm({ ...form, dueDate: e.target.value })} className="w-full p-2.5 bg-white border border-gray-200 rounded-xl text-sm outline-none focus:ring-2 focus:ring-blue-500/20" />
+            </div>
+            <div>
+              <label className="block text-[10px] font-bold text-gray-400 uppercase tracking-wider mb-1">Route</label>
+              <select value={form.route} onChange={e => setForm({ ...form, route: e.target.value })} className="w-full p-2.5 bg-white border border-gray-200 rounded-xl text-sm outline-none focus:ring-2 focus:ring-blue-500/20">
+                <option value="">—</option>
+                <option value="SC">Subcutaneous (SC)</option>
+                <option value="IM">Intramuscular (IM)</option>
+                <option value="IN">Intranasal (IN)</option>
+                <option value="Oral">Oral</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-[10px] font-bold text-gray-400 uppercase tracking-wider mb-1">Site</label>
+              <input value={form.site} onChange={e => setForm({ ...form, site: e.target.value })} placeholder="e.g. Right shoulder" className="w-full p-2.5 bg-white border border-gray-200 rounded-xl text-sm outline-none focus:ring-2 focus:ring-blue-500/20" />
+            </div>
+            <div className="md:col-span-2">
+              <label className="block text-[10px] font-bold text-gray-400 uppercase tracking-wider mb-1">Notes</label>
+              <input value={form.notes} onChange={e => setForm({ ...form, notes: e.target.value })} placeholder="Reactions, observations..." className="w-full p-2.5 bg-white border border-gray-200 rounded-xl text-sm outline-none focus:ring-2 focus:ring-blue-500/20" />
+            </div>
+            <div className="md:col-span-2 flex justify-end">
+              <button
+                onClick={handleSave}
+                disabled={isSaving || batchExpired || (!form.protocolCode && !form.inventoryItemId && !form.vaccineName.trim())}
+                className="px-5 py-2.5 bg-gray-900 text-white rounded-xl text-sm font-bold disabled:opacity-50"
+              >
+                {isSaving ? 'Saving...' : 'Save Dose'}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {vaccinations.length === 0 ? (
+          <div className="py-10 flex flex-col items-center text-center text-gray-400">
+            <Syringe className="w-12 h-12 mb-3 stroke-1" />
+            <p className="text-sm font-medium">No vaccinations on record</p>
+          </div>
+        ) : (
+          <div className="divide-y divide-gray-50">
+            {[...vaccinations].reverse().map(v => {
+              const isLatest = latestByVaccine.includes(v);
+              const overdue = isLatest && !!v.dueDate && new Date(v.dueDate) < now;
+              return (
+                <div key={v.id} className="py-3 flex items-center justify-between gap-3">
+                  <div className="min-w-0">
+                    <p className="text-sm font-bold text-gray-800 truncate">
+                      {v.vaccineName}
+                      <span className="ml-2 text-[10px] font-bold text-gray-400 uppercase">Dose {v.doseNumber}</span>
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {day(v.dateAdministered)} · {v.administeredBy}
+                      {v.lotNumber && <span className="font-mono"> · lot {v.lotNumber}</span>}
+                      {v.route && ` · ${v.route}`}{v.site && ` ${v.site}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    {v.dueDate && (
+                      <span className={`text-[11px] font-bold px-2 py-1 rounded-lg ${overdue ? 'bg-rose-50 text-rose-600' : isLatest ? 'bg-emerald-50 text-emerald-600' : 'bg-gray-50 text-gray-400'}`}>
+                        {overdue ? 'Overdue' : 'Due'} {day(v.dueDate)}
+                      </span>
+                    )}
+                    <button onClick={() => handleDelete(v)} className="p-1.5 text-gray-300 hover:text-rose-500" title="Entered in error">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <div style={{ display: 'none' }}>
+        <div ref={printRef} className="print-container p-8">
+          <Certificate pet={pet} owner={owner} settings={settings} vaccinations={vaccinations} />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Vaccinations;
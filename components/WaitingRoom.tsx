@@ -0,0 +1,272 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Owner, Pet, QueueChanges, QueueEntry, QueueMetrics, QueueStatus, StaffSchedule, TriageLevel } from '../types';
+import { AlertTriangle, Clock, CreditCard, DoorOpen, LogOut, Plus, RefreshCw, Stethoscope, Timer, User, Users } from 'lucide-react';
+import { QueueService, ScheduleService } from '../services/api';
+
+interface WaitingRoomProps {
+  pets: Pet[];
+  owners: Owner[];
+  // Moving a booked patient through the board completes or cancels their appointment
+  onAppointmentsChanged: () => void;
+}
+
+// Mirrors the server's order (services/queue.service): most urgent first
+const TRIAGE_LEVELS: TriageLevel[] = ['Emergency', 'Urgent', 'Standard', 'Routine'];
+const COLUMNS: { status: QueueStatus; icon: React.FC<any> }[] = [
+  { status: 'Waiting', icon: Clock },
+  { status: 'In Consult', icon: Stethoscope },
+  { status: 'Awaiting Payment', icon: CreditCard }
+];
+const REFRESH_MS = 15000;
+
+const TRIAGE_STYLES: Record<TriageLevel, string> = {
+  Emergency: 'bg-rose-600 text-white border-rose-600',
+  Urgent: 'bg-amber-500 text-white border-amber-500',
+  Standard: 'bg-sky-50 text-sky-700 border-sky-200',
+  Routine: 'bg-slate-50 text-slate-600 border-slate-200'
+};
+
+const inputClass = 'px-2 py-1.5 bg-white border border-slate-200 rounded-lg text-xs font-medium text-slate-700 outline-none focus:ring-2 focus:ring-teal-500';
+
+const minutesSince = (iso: string, until?: string | null) => Math.max(0, Math.round(((until ? new Date(until).getTime() : Date.now()) - new Date(iso).getTime()) / 60000));
+
+const formatMinutes = (minutes: number | null | undefined) => {
+  if (minutes === null || minutes === undefined) return '—';
+  return minutes < 60 ? `${minutes} min` : `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+};
+
+const QueueCard: React.FC<{
+  entry: QueueEntry;
+  vets: StaffSchedule[];
+  isBusy: boolean;
+  onChange: (changes: QueueChanges) => void;
+}> = ({ entry, vets, isBusy, onChange }) => {
+  const [room, setRoom] = useState(entry.room || '');
+  useEffect(() => { setRoom(entry.room || ''); }, [entry.room]);
+
+  const name = entry.pet?.name || entry.walkInName || 'Walk-in';
+  const waited = entry.status === 'Waiting' ? minutesSince(entry.arrivedAt) : minutesSince(entry.arrivedAt, entry.consultStartedAt);
+
+  const leave = () => {
+    const outcome = window.prompt(`Why is ${name} leaving without being seen?`, 'Left before being seen');
+    if (outcome !== null) onChange({ status: 'Discharged', outcome });
+  };
+
+  return (
+    <div className={`p-3 rounded-2xl bg-white border shadow-sm space-y-2 ${entry.triageLevel === 'Emergency' ? 'border-rose-300 ring-2 ring-rose-100' : 'border-slate-200'}`}>
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <p className="text-sm font-bold text-slate-800 truncate">{name}{entry.pet && <span className="font-medium text-slate-400"> · {entry.pet.species}</span>}</p>
+          <p className="text-xs text-slate-500 truncate">{entry.owner ? `${entry.owner.name}${entry.owner.phone ? ` · ${entry.owner.phone}` : ''}` : 'Walk-in'}</p>
+        </div>
+        {entry.status === 'Discharged' ? (
+          <span className={`text-[10px] font-extrabold uppercase tracking-wider px-2 py-1 rounded-md border ${TRIAGE_STYLES[entry.triageLevel]}`}>{entry.triageLevel}</span>
+        ) : (
+          <select
+            value={entry.triageLevel}
+            disabled={isBusy}
+            onChange={e => onChange({ triageLevel: e.target.value as TriageLevel })}
+            className={`text-[10px] font-extrabold uppercase tracking-wider px-1.5 py-1 rounded-md border outline-none ${TRIAGE_STYLES[entry.triageLevel]}`}
+          >
+            {TRIAGE_LEVELS.map(level => <option key={level} value={level}>{level}</option>)}
+          </select>
+        )}
+      </div>
+
+      <p className="text-xs font-semibold text-slate-700">{entry.reason}</p>
+      {entry.triageNotes && <p className="text-xs text-slate-500 italic">{entry.triageNotes}</p>}
+
+      <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-[11px] font-medium text-slate-500">
+        <span className="flex items-center"><Clock className="w-3 h-3 mr-1" />{new Date(entry.arrivedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
+        <span className={`flex items-center ${entry.status === 'Waiting' && waited >= 30 ? 'text-rose-600 font-bold' : ''}`}><Timer className="w-3 h-3 mr-1" />waited {formatMinutes(waited)}</span>
+        {entry.room && entry.status !== 'Waiting' && <span className="flex items-center"><DoorOpen className="w-3 h-3 mr-1" />{entry.room}</span>}
+        {entry.outcome && <span className="text-rose-600">{entry.outcome}</span>}
+      </div>
+
+      {entry.status !== 'Discharged' && (
+        <div className="flex items-center gap-2">
+          <User className="w-3.5 h-3.5 text-teal-500 shrink-0" />
+          <select value={entry.doctorId || ''} disabled={isBusy} onChange={e => onChange({ doctorId: e.target.value || null })} className={`${inputClass} flex-1`}>
+            <option value="">{entry.doctorName && !entry.doctorId ? entry.doctorName : 'Any vet'}</option>
+            {vets.map(v => <option key={v.userId} value={v.userId}>{v.name}</option>)}
+          </select>
+        </div>
+      )}
+
+      {entry.status === 'Waiting' && (
+        <div className="flex items-center gap-2 pt-1">
+          <input list="queue-rooms" value={room} onChange={e => setRoom(e.target.value)} placeholder="Room" className={`${inputClass} w-24`} />
+          <button disabled={isBusy} onClick={() => onChange({ status: 'In Consult', room })} className="flex-1 px-3 py-1.5 text-xs font-bold text-white bg-teal-600 hover:bg-teal-700 rounded-lg disabled:opacity-50">Call In</button>
+          <button disabled={isBusy} onClick={leave} className="p-1.5 rounded-lg text-slate-400 hover:text-rose-600 hover:bg-rose-50" title="Left without being seen"><LogOut className="w-4 h-4" /></button>
+        </div>
+      )}
+      {entry.status === 'In Consult' && (
+        <div className="flex gap-2 pt-1">
+          <button disabled={isBusy} onClick={() => onChange({ status: 'Awaiting Payment' })} className="flex-1 px-3 py-1.5 text-xs font-bold text-white bg-teal-600 hover:bg-teal-700 rounded-lg disabled:opacity-50">To Payment</button>
+          <button disabled={isBusy} onClick={() => onChange({ status: 'Discharged' })} className="px-3 py-1.5 text-xs font-bold text-slate-600 bg-slate-100 hover:bg-slate-200 rounded-lg disabled:opacity-50">Discharge</button>
+        </div>
+      )}
+      {entry.status === 'Awaiting Payment' && (
+        <button disabled={isBusy} onClick={() => onChange({ status: 'Discharged' })} className="w-full px-3 py-1.5 text-xs font-bold text-white bg-teal-600 hover:bg-teal-700 rounded-lg disabled:opacity-50">Paid · Discharge</button>
+      )}
+    </div>
+  );
+};
+
+// Live waiting-room board. Polls the server so every screen in the clinic stays in step.
+const WaitingRoom: React.FC<WaitingRoomProps> = ({ pets, owners, onAppointmentsChanged }) => {
+  const [entries, setEntries] = useState<QueueEntry[]>([]);
+  const [metrics, setMetrics] = useState<QueueMetrics | null>(null);
+  const [vets, setVets] = useState<StaffSchedule[]>([]);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [form, setForm] = useState({ petId: '', walkInName: '', reason: '', triageLevel: 'Routine' as TriageLevel, triageNotes: '', doctorId: '' });
+  const [showDischarged, setShowDischarged] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const [board, stats] = await Promise.all([QueueService.getBoard(), QueueService.getMetrics()]);
+      setEntries(board.data);
+      setMetrics(stats.data);
+      setLastUpdated(new Date());
+    } catch (error: any) {
+      setMessage(error?.message || 'Could not load the waiting room');
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+    ScheduleService.getAll().then(res => setVets(res.data)).catch(() => setVets([]));
+    const timer = setInterval(() => { if (!document.hidden) load(); }, REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [load]);
+
+  const update = async (entry: QueueEntry, changes: QueueChanges) => {
+    setBusyId(entry.id);
+    setMessage(null);
+    try {
+      await QueueService.update(entry.id, changes);
+      if (entry.appointmentId && changes.status) onAppointmentsChanged();
+    } catch (error: any) {
+      setMessage(error?.message || 'Could not update the patient');
+    } finally {
+      setBusyId(null);
+      load();
+    }
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setMessage(null);
+    try {
+      await QueueService.addWalkIn({ ...form, petId: form.petId || undefined, doctorId: form.doctorId || undefined });
+      setForm({ petId: '', walkInName: '', reason: '', triageLevel: 'Routine', triageNotes: '', doctorId: '' });
+      setIsFormOpen(false);
+      load();
+    } catch (error: any) {
+      setMessage(error?.message || 'Could not add the walk-in');
+    }
+  };
+
+  const rooms = [...new Set(entries.map(e => e.room).filter((r): r is string => !!r))].sort();
+  const discharged = entries.filter(e => e.status === 'Discharged');
+  const waitTrend = metrics?.averageWaitMinutes != null && metrics.previousAverageWaitMinutes != null
+    ? metrics.averageWaitMinutes - metrics.previousAverageWaitMinutes
+    : null;
+
+  const stats = [
+    { label: 'Waiting now', value: String(metrics?.now.waiting ?? 0), icon: Users },
+    { label: 'Longest wait', value: formatMinutes(metrics?.now.longestWaitMinutes), icon: AlertTriangle },
+    { label: 'Avg wait today', value: formatMinutes(metrics?.averageWaitMinutes), hint: waitTrend === null ? undefined : `${waitTrend > 0 ? '+' : ''}${waitTrend} min vs yesterday`, icon: Timer },
+    { label: 'Avg consult', value: formatMinutes(metrics?.averageConsultMinutes), icon: Stethoscope },
+    { label: 'Seen today', value: `${metrics?.seen ?? 0}${metrics?.leftUnseen ? ` (+${metrics.leftUnseen} left)` : ''}`, icon: DoorOpen }
+  ];
+
+  return (
+    <div className="bg-[#F8FAFC] h-full flex flex-col rounded-xl md:rounded-3xl overflow-hidden font-sans border border-slate-300 shadow-xl">
+      <div className="px-4 py-4 md:px-6 md:py-5 border-b border-slate-300 flex flex-col md:flex-row justify-between items-start md:items-center bg-white/80 backdrop-blur-xl gap-4">
+        <div>
+          <h2 className="text-xl md:text-2xl font-bold text-slate-800 tracking-tight">Waiting Room</h2>
+          <p className="text-slate-500 text-xs font-semibold mt-1 flex items-center">
+            <RefreshCw className="w-3 h-3 mr-1.5" /> Updates every {REFRESH_MS / 1000}s{lastUpdated ? ` · last ${lastUpdated.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' })}` : ''}
+          </p>
+        </div>
+        <button onClick={() => setIsFormOpen(!isFormOpen)} className="px-5 py-2 text-sm font-bold text-white bg-gradient-to-r from-teal-600 to-teal-700 hover:from-teal-500 hover:to-teal-600 rounded-xl shadow-lg shadow-teal-700/20 flex items-center">
+          <Plus className="w-4 h-4 mr-2" /> Walk-in
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar p-4 md:p-6 space-y-5">
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+          {stats.map(({ label, value, hint, icon: Icon }) => (
+            <div key={label} className="p-3 rounded-2xl bg-white border border-slate-200 shadow-sm">
+              <p className="text-[10px] uppercase tracking-widest font-extrabold text-slate-400 flex items-center"><Icon className="w-3 h-3 mr-1.5 text-teal-500" />{label}</p>
+              <p className="text-lg font-black text-slate-800 mt-1">{value}</p>
+              {hint && <p className="text-[10px] font-semibold text-slate-400">{hint}</p>}
+            </div>
+          ))}
+        </div>
+
+        <datalist id="queue-rooms">{rooms.map(r => <option key={r} value={r} />)}</datalist>
+
+        {message && <p className="text-xs font-semibold text-rose-600 p-3 bg-rose-50 border border-rose-100 rounded-xl">{message}</p>}
+
+        {isFormOpen && (
+          <form onSubmit={handleAdd} className="p-4 rounded-2xl bg-white border border-teal-100 shadow-sm grid grid-cols-1 md:grid-cols-3 gap-3">
+            <select value={form.petId} onChange={e => setForm({ ...form, petId: e.target.value })} className={inputClass}>
+              <option value="">Unregistered walk-in</option>
+              {pets.map(p => <option key={p.id} value={p.id}>{p.name} ({owners.find(o => o.id === p.ownerId)?.name || 'No owner'})</option>)}
+            </select>
+            {!form.petId && <input required value={form.walkInName} onChange={e => setForm({ ...form, walkInName: e.target.value })} placeholder="Walk-in name" className={inputClass} />}
+            <input required value={form.reason} onChange={e => setForm({ ...form, reason: e.target.value })} placeholder="Presenting complaint" className={inputClass} />
+            <select value={form.triageLevel} onChange={e => setForm({ ...form, triageLevel: e.target.value as TriageLevel })} className={inputClass}>
+              {TRIAGE_LEVELS.map(level => <option key={level} value={level}>{level}</option>)}
+            </select>
+            <select value={form.doctorId} onChange={e => setForm({ ...form, doctorId: e.target.value })} className={inputClass}>
+              <option value="">Any vet</option>
+              {vets.map(v => <option key={v.userId} value={v.userId}>{v.name}</option>)}
+            </select>
+            <input value={form.triageNotes} onChange={e => setForm({ ...form, triageNotes: e.target.value })} placeholder="Triage notes (optional)" className={`${inputClass} md:col-span-2`} />
+            <button type="submit" className="px-4 py-2 text-xs font-bold text-white bg-teal-600 hover:bg-teal-700 rounded-lg">Add to Queue</button>
+          </form>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+          {COLUMNS.map(({ status, icon: Icon }) => {
+            const column = entries.filter(e => e.status === status);
+            return (
+              <div key={status} className="bg-slate-100/70 rounded-2xl border border-slate-200 p-3 space-y-3 min-h-[200px]">
+                <p className="text-xs font-extrabold uppercase tracking-widest text-slate-500 flex items-center justify-between">
+                  <span className="flex items-center"><Icon className="w-4 h-4 mr-2 text-teal-500" />{status}</span>
+                  <span className="px-2 py-0.5 rounded-full bg-white border border-slate-200 text-slate-600">{column.length}</span>
+                </p>
+                {column.length === 0 ? (
+                  <p className="text-xs text-slate-400 text-center py-6">Nobody here</p>
+                ) : column.map(entry => (
+                  <QueueCard key={entry.id} entry={entry} vets={vets} isBusy={busyId === entry.id} onChange={changes => update(entry, changes)} />
+                ))}
+              </div>
+            );
+          })}
+        </div>
+
+        {discharged.length > 0 && (
+          <div>
+            <button onClick={() => setShowDischarged(!showDischarged)} className="text-xs font-bold text-slate-500 hover:text-teal-700">
+              {showDischarged ? 'Hide' : 'Show'} discharged ({discharged.length})
+            </button>
+            {showDischarged && (
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mt-3">
+                {discharged.map(entry => <QueueCard key={entry.id} entry={entry} vets={vets} isBusy onChange={() => {}} />)}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default WaitingRoom;
@@ -83,7 +83,10 @@ api.interceptors.response.use(
     }
 
     const message = error.response?.data?.error || error.message || 'An unexpected error occurred';
-    return Promise.reject({ ...error, message });
+
+    // 4. Plan quota / module errors carry details for an upgrade prompt
+    const planLimit = error.response?.data?.code === 'PLAN_LIMIT' ? error.response.data : undefined;
+    return Promise.reject({ ...error, message, planLimit });
   }
 );
 
@@ -101,6 +104,10 @@ export const AuthService = {
     }
   },
   getMe: () => api.get('/auth/me'),
+  requestVerification: (email: string) => api.post('/auth/verify-email/request', { email }),
+  confirmEmail: (token: string) => api.post('/auth/verify-email/confirm', { token }),
+  forgotPassword: (email: string) => api.post('/auth/password/forgot', { email }),
+  resetPassword: (token: string, password: string) => api.post('/auth/password/reset', { token, password }),
 };
 
 export const UserService = {
@@ -112,7 +119,16 @@ export const UserService = {
 
 export const BranchService = {
     getAll: () => api.get('/branches'),
-    create: (data: any) => api.post('/branches', data)
+    create: (data: any) => api.post('/branches', data),
+    update: (id: string, data: any) => api.patch(`/branches/${id}`, data),
+    delete: (id: string) => api.delete(`/branches/${id}`),
+    getSummary: (branchId?: string) => api.get('/branches/summary', { params: branchId ? { branchId } : {} }),
+    transferStaff: (userId: string, branchId: string | null) => api.patch(`/users/${userId}/branch`, { branchId }),
+    transferStock: (itemId: string, data: { fromBranchId?: string | null; toBranchId?: string | null; quantity: number }) =>
+        api.post(`/inventory/${itemId}/transfer`, data),
+    // Controlled drugs need a witness and a reason when the count changes the level
+    countStock: (itemId: string, branchId: string, quantity: number, witness?: { witnessId: string; notes: string }) =>
+        api.put(`/inventory/${itemId}/branch-stock`, { branchId, quantity, ...witness })
 };
 
 export const SettingsService = {
@@ -123,7 +139,8 @@ export const PatientService = {
   getAll: () => api.get('/patients'),
   create: (data: any) => api.post('/patients', data),
   getOne: (id: string) => api.get(`/patients/${id}`),
-  updateMedical: (id: string, data: any) => api.put(`/patients/${id}/medical`, data),
+  getMedical: (id: string) => api.get(`/patients/${id}/medical`),
+  updateMedical: (id: string, changes: any) => api.patch(`/patients/${id}/medical`, changes),
 };
 
 export const OwnerService = {
@@ -146,6 +163,60 @@ export const InventoryService = {
 export const AppointmentService = {
   getAll: (date?: string) => api.get(date ? `/appointments?date=${date}` : '/appointments'),
   create: (data: any) => api.post('/appointments', data),
+  createSeries: (data: any) => api.post('/appointments/series', data),
+  update: (id: string, changes: any) => api.patch(`/appointments/${id}`, changes),
+  cancel: (id: string, reason?: string) => api.delete(`/appointments/${id}`, { params: { reason } }),
+  getHistory: (id: string) => api.get(`/appointments/${id}/history`),
+  getAvailability: (params: { date: string; reason?: string; doctorId?: string; durationMinutes?: number; excludeId?: string; pets?: number }) => api.get('/appointments/availability', { params }),
+};
+
+export const ScheduleService = {
+  getAll: () => api.get('/schedules'),
+  saveHours: (userId: string, hours: any[]) => api.put(`/schedules/${userId}`, { hours }),
+  addLeave: (userId: string, leave: { from: string; to: string; reason?: string }) => api.post(`/schedules/${userId}/leave`, leave),
+  removeLeave: (id: string) => api.delete(`/schedules/leave/${id}`),
+  getTypes: () => api.get('/appointment-types'),
+  saveType: (type: { name: string; durationMinutes: number }) => api.post('/appointment-types', type),
+  removeType: (id: string) => api.delete(`/appointment-types/${id}`),
+};
+
+export const QueueService = {
+  getBoard: (branchId?: string) => api.get('/queue', { params: { branchId } }),
+  getMetrics: (date?: string) => api.get('/queue/metrics', { params: { date } }),
+  addWalkIn: (data: any) => api.post('/queue', data),
+  update: (id: string, changes: any) => api.patch(`/queue/${id}`, changes),
+};
+
+export const AdmissionService = {
+  getAll: (status: 'Admitted' | 'Discharged' = 'Admitted') => api.get('/admissions', { params: { status } }),
+  get: (id: string) => api.get(`/admissions/${id}`),
+  admit: (data: any) => api.post('/admissions', data),
+  update: (id: string, changes: any) => api.patch(`/admissions/${id}`, changes),
+  addTreatment: (id: string, order: any) => api.post(`/admissions/${id}/treatments`, order),
+  stopTreatment: (id: string, orderId: string) => api.delete(`/admissions/${id}/treatments/${orderId}`),
+  getSheet: (id: string, date?: string) => api.get(`/admissions/${id}/sheet`, { params: { date } }),
+  recordDose: (id: string, orderId: string, dose: { dueAt: string; status: 'Done' | 'Skipped'; notes?: string }) =>
+    api.post(`/admissions/${id}/treatments/${orderId}/tasks`, dose),
+  addVitals: (id: string, vitals: any) => api.post(`/admissions/${id}/vitals`, vitals),
+  discharge: (id: string, notes?: string) => api.post(`/admissions/${id}/discharge`, { notes }),
+};
+
+export const ControlledDrugService = {
+  getAll: () => api.get('/controlled-drugs'),
+  setFlag: (itemId: string, flag: { isControlled: boolean; schedule?: string }) => api.put(`/controlled-drugs/items/${itemId}`, flag),
+  getRegister: (itemId: string, range?: { from?: string; to?: string }) => api.get(`/controlled-drugs/${itemId}/register`, { params: range }),
+  addEntry: (itemId: string, entry: any) => api.post(`/controlled-drugs/${itemId}/entries`, entry),
+  recordCounts: (data: { witnessId: string; counts: { itemId: string; quantity: number }[]; adjust?: boolean; notes?: string }) =>
+    api.post('/controlled-drugs/counts', data),
+  getReconciliation: (from?: string, to?: string) => api.get('/controlled-drugs/reconciliation', { params: { from, to } }),
+};
+
+export const CalendarService = {
+  getFeeds: () => api.get('/calendar/feeds'),
+  createFeed: (target: { clinic?: boolean; userId?: string }) => api.post('/calendar/feeds', target),
+  revokeFeed: (id: string) => api.delete(`/calendar/feeds/${id}`),
+  // Calendar apps fetch the feed themselves, so it needs the absolute API address
+  feedUrl: (path: string) => `${api.defaults.baseURL}${path}`,
 };
 
 export const SaleService = {
@@ -156,13 +227,41 @@ export const SaleService = {
 
 export const ConsultationService = {
   getAll: () => api.get('/consultations'),
+  getOne: (id: string) => api.get(`/consultations/${id}`),
   create: (data: any) => api.post('/consultations', data),
+  update: (id: string, data: any) => api.patch(`/consultations/${id}`, data),
+  finalize: (id: string) => api.post(`/consultations/${id}/finalize`),
+  addAddendum: (id: string, content: string, section?: string) => api.post(`/consultations/${id}/addenda`, { content, section }),
 };
 
 export const LabService = {
   getAll: () => api.get('/labs'),
+  getCatalogue: () => api.get('/labs/catalogue'),
+  getCompletedForPet: (petId: string) => api.get('/labs', { params: { petId, status: 'Completed' } }),
+  getTrendAnalytes: (petId: string) => api.get('/labs/trends', { params: { petId } }),
+  getTrend: (petId: string, analyte: string) => api.get(`/labs/trends/${encodeURIComponent(analyte)}`, { params: { petId } }),
   create: (data: any) => api.post('/labs', data),
   update: (id: string, data: any) => api.patch(`/labs/${id}`, data),
+  importFile: (fileName: string, content: string) => api.post('/labs/import', { fileName, content }),
+  getImports: () => api.get('/labs/imports'),
+  resolveImport: (id: string, labResultId: string) => api.post(`/labs/imports/${id}/resolve`, { labResultId }),
+  discardImport: (id: string) => api.post(`/labs/imports/${id}/discard`),
+};
+
+export const VaccinationService = {
+  getProtocols: (species?: string) => api.get('/vaccinations/protocols', { params: { species } }),
+  getForPet: (petId: string) => api.get(`/patients/${petId}/vaccinations`),
+  record: (petId: string, data: any) => api.post(`/patients/${petId}/vaccinations`, data),
+  remove: (id: string) => api.delete(`/vaccinations/${id}`),
+  getDue: (days?: number) => api.get('/vaccinations/due', { params: { days } }),
+};
+
+export const ReminderService = {
+  getAll: (params?: { status?: string; petId?: string; from?: string; to?: string }) => api.get('/reminders', { params }),
+  create: (data: any) => api.post('/reminders', data),
+  update: (id: string, data: any) => api.patch(`/reminders/${id}`, data),
+  sendNow: (id: string) => api.post(`/reminders/${id}/send`),
+  run: () => api.post('/reminders/run'),
 };
 
 export const ExpenseService = {
@@ -184,6 +283,16 @@ export const SuperAdminService = {
   getTenants: () => api.get('/admin/tenants'),
   updateTenant: (id: string, data: any) => api.patch(`/admin/tenants/${id}`, data),
   getStats: () => api.get('/admin/stats'),
+  getTickets: (status?: string) => api.get('/admin/tickets', { params: status ? { status } : {} }),
+  updateTicket: (id: string, data: any) => api.patch(`/admin/tickets/${id}`, data),
+  getSupportStaff: () => api.get('/admin/support-staff'),
+};
+
+export const SupportService = {
+    getAll: () => api.get('/support/tickets'),
+    create: (data: { subject: string; message: string; priority?: string }) => api.post('/support/tickets', data),
+    getOne: (id: string) => api.get(`/support/tickets/${id}`),
+    reply: (id: string, content: string) => api.post(`/support/tickets/${id}/messages`, { content })
 };
 
 export const ClientPortalService = {
@@ -191,9 +300,16 @@ export const ClientPortalService = {
   getDashboard: () => api.get('/portal/dashboard'),
   getPets: () => api.get('/portal/pets'), 
   bookAppointment: (data: any) => api.post('/portal/appointments', data),
+  getAppointmentTypes: () => api.get('/portal/appointment-types'),
+  getAvailability: (date: string, reason?: string) => api.get('/portal/availability', { params: { date, reason } }),
+  downloadCalendar: () => api.get('/portal/appointments.ics', { responseType: 'blob' }),
   getInvoices: () => api.get('/portal/invoices'),
   getMessages: () => api.get('/portal/messages'),
   sendMessage: (content: string) => api.post('/portal/messages', { content }),
+  requestVerification: (email: string) => api.post('/portal/verify-email/request', { email }),
+  confirmEmail: (token: string) => api.post('/portal/verify-email/confirm', { token }),
+  forgotPassword: (email: string) => api.post('/portal/password/forgot', { email }),
+  resetPassword: (token: string, password: string) => api.post('/portal/password/reset', { token, password }),
 };
 
 export default api;
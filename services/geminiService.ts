@@ -1,4 +1,5 @@
 import api from './api';
+import { PatientAssistantAnswer } from '../types';
 
 // --- 1. SOAP Note Generator ---
 export const generateSOAPNote = async (
@@ -13,8 +14,9 @@ export const generateSOAPNote = async (
       species
     });
     return response.data.content;
-  } catch (error) {
+  } catch (error: any) {
     console.error("SOAP Note Error:", error);
+    if (error?.planLimit) return `Error: ${error.message}`;
     return "Error: Unable to connect to AI service. Please ensure the backend is running.";
   }
 };
@@ -42,12 +44,12 @@ export const suggestDiagnosis = async (
             ? response.data 
             : JSON.stringify(response.data);
 
-    } catch (error) {
+    } catch (error: any) {
         console.error("Diagnosis Error:", error);
         return JSON.stringify({ 
-            tentative: "AI Service Unavailable", 
+            tentative: error?.planLimit ? "AI Limit Reached" : "AI Service Unavailable", 
             differentials: [], 
-            tests: "Check backend connection" 
+            tests: error?.planLimit ? error.message : "Check backend connection" 
         });
     }
 }
@@ -63,8 +65,26 @@ export const askVetAssistant = async (
       context 
     });
     return response.data.answer;
-  } catch (error) {
+  } catch (error: any) {
     console.error("Chat Error:", error);
+    if (error?.planLimit) return error.message;
     return "I'm having trouble connecting to the AI service right now. Please try again later.";
   }
-};
\ No newline at end of file
+};
+
+// --- 4. Patient-Context Assistant ---
+export const askAboutPatient = async (
+  petId: string,
+  query: string
+): Promise<PatientAssistantAnswer> => {
+  try {
+    const response = await api.post('/ai/patient-chat', { petId, query });
+    return response.data;
+  } catch (error: any) {
+    console.error("Patient Assistant Error:", error);
+    const answer = error?.planLimit
+      ? error.message
+      : (error?.response?.data?.error || "I'm having trouble connecting to the AI service right now. Please try again later.");
+    return { answer, citations: [], warnings: { recordedAllergies: [], allergies: [], interactions: [] } };
+  }
+};
@@ -13,7 +13,8 @@ export enum AppointmentStatus {
   Scheduled = 'Scheduled',
   CheckedIn = 'Checked In',
   Completed = 'Completed',
-  Cancelled = 'Cancelled'
+  Cancelled = 'Cancelled',
+  NoShow = 'No-Show'
 }
 
 export type SubscriptionTier = 'Trial' | 'Starter' | 'Standard' | 'Premium' | 'Enterprise';
@@ -41,6 +42,12 @@ export interface ClinicSettings {
   invoicePrefix: string;
   receiptPrefix: string;
   patientPrefix: string;
+  accessionPrefix?: string;
+  // Client reminders: days before the due date to send, and message templates with {owner}, {pet}, {type}, {description}, {date}, {clinic}, {phone}
+  reminderLeadDays?: number;
+  reminderSmsTemplate?: string;
+  reminderEmailSubject?: string;
+  reminderEmailTemplate?: string;
   clinicName?: string;
 }
 
@@ -59,6 +66,34 @@ export interface Tenant {
   patientCount?: number;
 }
 
+// A location inside a tenant. Records without a branchId belong to the main clinic.
+export interface Branch {
+  id: string;
+  tenantId: string;
+  name: string;
+  address?: string;
+  phone?: string;
+  staffCount?: number;
+  createdAt?: string;
+}
+
+export interface BranchSummaryRow {
+  id: string; // branch id, or 'main' for the main clinic
+  name: string;
+  staff: number;
+  upcomingAppointments: number;
+  salesCount: number;
+  revenue: number;
+  expenses: number;
+  stockUnits: number;
+  stockValue: number;
+}
+
+export interface BranchSummary {
+  branches: BranchSummaryRow[];
+  totals: Omit<BranchSummaryRow, 'id' | 'name'>;
+}
+
 export interface PlanLimits {
     maxUsers: number;
     maxClients: number;
@@ -69,6 +104,8 @@ export interface PlanLimits {
         ai: boolean;
         reports: boolean;
         multiBranch: boolean;
+        print?: boolean;
+        aiLimit?: number;
     };
 }
 
@@ -90,6 +127,18 @@ export interface SupportTicket {
     priority: 'Low' | 'Medium' | 'High';
     date: string;
     assignedTo?: string;
+    createdBy?: string;
+    messages?: TicketMessage[];
+}
+
+export interface TicketMessage {
+    id: string;
+    ticketId: string;
+    authorId: string;
+    authorName: string;
+    authorType: 'Clinic' | 'Platform';
+    content: string;
+    createdAt: string;
 }
 
 export interface Owner {
@@ -110,6 +159,7 @@ export interface Owner {
 
 export interface MedicalNote {
   id: string;
+  version?: number;
   date: string;
   vetName: string;
   content: string;
@@ -117,11 +167,40 @@ export interface MedicalNote {
 }
 
 export interface Vitals {
+  id?: string;
+  version?: number;
   date: string;
-  weightKg: number;
-  temperatureC: number;
-  heartRateBpm: number;
-  respiratoryRate?: number;
+  weightKg: number | null;
+  temperatureC: number | null;
+  heartRateBpm: number | null;
+  respiratoryRate?: number | null;
+  recordedBy?: string;
+}
+
+export interface AllergyRecord {
+  id: string;
+  version: number;
+  name: string;
+  severity?: 'Mild' | 'Moderate' | 'Severe' | null;
+  reaction?: string | null;
+}
+
+export interface ConditionRecord {
+  id: string;
+  version: number;
+  name: string;
+  status: 'Active' | 'Resolved';
+  diagnosedAt?: string | null;
+  notes?: string | null;
+}
+
+export type MedicalRecordKind = 'vitals' | 'notes' | 'allergies' | 'conditions';
+
+// Body of PATCH /patients/:id/medical; updates and deletes carry the version last read
+export interface MedicalChanges {
+  create?: Partial<Record<MedicalRecordKind, any[]>>;
+  update?: Partial<Record<MedicalRecordKind, ({ id: string; version: number } & Record<string, any>)[]>>;
+  delete?: Partial<Record<MedicalRecordKind, { id: string; version: number }[]>>;
 }
 
 export interface PrescriptionItem {
@@ -132,6 +211,7 @@ export interface PrescriptionItem {
   duration: string;
   instructions?: string;
   quantity?: number;
+  inventoryItemId?: string;
 }
 
 export interface Attachment {
@@ -145,14 +225,32 @@ export interface VaccinationRecord {
   id: string;
   tenantId: string;
   petId: string;
+  protocolCode?: string | null;
   vaccineName: string;
+  doseNumber: number;
   dateAdministered: string;
-  dueDate: string;
-  lotNumber?: string;
-  manufacturer?: string;
+  dueDate: string | null;
+  inventoryItemId?: string | null;
+  lotNumber?: string | null;
+  manufacturer?: string | null;
+  batchExpiry?: string | null;
+  route?: 'SC' | 'IM' | 'IN' | 'Oral' | null;
+  site?: string | null;
+  notes?: string | null;
   administeredBy: string;
 }
 
+export interface VaccineProtocol {
+  code: string;
+  name: string;
+  species: Species[];
+  primaryDoses: number;
+  primaryIntervalDays: number;
+  firstBoosterDays: number;
+  boosterDays: number;
+  keywords: string[];
+}
+
 export interface Reminder {
   id: string;
   tenantId: string;
@@ -162,8 +260,14 @@ export interface Reminder {
   type: 'Vaccination' | 'Follow-up' | 'Deworming' | 'Lab Work' | 'Other';
   description: string;
   dueDate: string;
-  status: 'Pending' | 'Sent' | 'Completed' | 'Cancelled';
+  status: 'Pending' | 'Sent' | 'Failed' | 'Completed' | 'Cancelled';
   method?: 'SMS' | 'Email' | 'Both';
+  vaccinationId?: string | null;
+  // Delivery state kept by the reminder scheduler
+  attempts?: number;
+  nextAttemptAt?: string | null;
+  lastError?: string | null;
+  sentAt?: string | null;
 }
 
 export interface Consultation {
@@ -218,13 +322,49 @@ export interface Consultation {
     paymentMethod?: 'Cash' | 'Card' | 'Bank Transfer' | 'Part Payment' | 'Not Paid';
     paymentStatus: 'Pending' | 'Paid' | 'Partially Paid';
     invoiceId?: string;
+    invoiceNumber?: string;
     receiptId?: string;
   };
+
+  finalizedAt?: string;
+  finalizedBy?: string;
+  addenda?: ConsultationAddendum[];
+}
+
+// Signed amendment to a finalized consultation; the original note is never changed
+export interface ConsultationAddendum {
+  id: string;
+  consultationId: string;
+  section?: string;
+  content: string;
+  authorId: string;
+  authorName: string;
+  createdAt: string;
+}
+
+// Answer from the patient-context assistant; citations point back at the records it used
+export interface AssistantCitation {
+  ref: string;
+  type: 'patient' | 'vitals' | 'allergy' | 'condition' | 'note' | 'vaccination' | 'consultation' | 'lab';
+  recordId?: string;
+  label: string;
+  date?: string;
+}
+
+export interface PatientAssistantAnswer {
+  answer: string;
+  citations: AssistantCitation[];
+  warnings: {
+    recordedAllergies: string[];
+    allergies: string[];
+    interactions: string[];
+  };
 }
 
 export interface Pet {
   id: string;
   tenantId: string;
+  patientNumber?: string;
   name: string;
   species: Species;
   breed: string;
@@ -238,6 +378,8 @@ export interface Pet {
   type: 'Single' | 'Herd';
   color: string;
   medicalConditions: string[];
+  allergyRecords?: AllergyRecord[];
+  conditionRecords?: ConditionRecord[];
   initialWeight?: number; 
   vaccinations?: VaccinationRecord[]; 
   reminders?: Reminder[]; 
@@ -253,6 +395,294 @@ export interface Appointment {
   reason: string;
   status: AppointmentStatus;
   doctorName: string;
+  doctorId?: string | null; // Set when booked against a staff schedule
+  durationMinutes?: number;
+  seriesId?: string | null; // Recurring or multi-pet booking this visit belongs to
+  occurrence?: number | null;
+  branchId?: string | null;
+  checkedInAt?: string | null;
+  cancelReason?: string | null;
+  consultationId?: string | null; // Draft opened at check-in
+}
+
+export interface AppointmentEvent {
+  id: string;
+  appointmentId: string;
+  action: string;
+  fromStatus?: string | null;
+  toStatus?: string | null;
+  details?: string | null;
+  actorName: string;
+  createdAt: string;
+}
+
+export interface RecurrenceRule {
+  frequency: 'Weekly' | 'Monthly';
+  interval?: number; // every N weeks / months
+  until?: string;    // YYYY-MM-DD, inclusive
+  count?: number;
+}
+
+// A new booking; several petIds or a recurrence make it a series (POST /appointments/series)
+export type AppointmentBooking = Omit<Appointment, 'id' | 'tenantId'> & {
+  petIds?: string[];
+  recurrence?: RecurrenceRule;
+};
+
+// How far an edit to a series visit reaches
+export type AppointmentScope = 'this' | 'following' | 'all';
+
+// Fields staff can change on an existing appointment (PATCH /appointments/:id)
+export interface AppointmentChanges {
+  date?: string;
+  reason?: string;
+  doctorId?: string | null;
+  doctorName?: string;
+  durationMinutes?: number;
+  status?: AppointmentStatus;
+  cancelReason?: string;
+  openConsultation?: boolean;
+  scope?: AppointmentScope;
+}
+
+// --- SCHEDULING ---
+
+// Weekly hours for one weekday (0 = Sunday); times are HH:MM in the clinic's timezone
+export interface WorkingHours {
+  dayOfWeek: number;
+  startTime: string;
+  endTime: string;
+  breakStart?: string | null;
+  breakEnd?: string | null;
+}
+
+export interface StaffLeave {
+  id: string;
+  userId: string;
+  startAt: string;
+  endAt: string;
+  reason?: string | null;
+  createdBy: string;
+}
+
+export interface StaffSchedule {
+  userId: string;
+  name: string;
+  roles: string[];
+  hours: WorkingHours[];
+  leave: StaffLeave[];
+}
+
+export interface AppointmentType {
+  id: string;
+  name: string;
+  durationMinutes: number;
+}
+
+export interface DoctorAvailability {
+  doctorId: string;
+  doctorName: string;
+  durationMinutes: number;
+  slots: { start: string; end: string }[];
+}
+
+// GET /appointments/availability; without any schedules set up, booking falls back to a free time entry
+export interface Availability {
+  date: string;
+  durationMinutes: number;
+  schedulesConfigured: boolean;
+  doctors: DoctorAvailability[];
+}
+
+export type QueueStatus = 'Waiting' | 'In Consult' | 'Awaiting Payment' | 'Discharged';
+export type TriageLevel = 'Emergency' | 'Urgent' | 'Standard' | 'Routine';
+
+export interface QueueEntry {
+  id: string;
+  branchId?: string | null;
+  appointmentId?: string | null; // Set when the patient arrived for a booking
+  petId?: string | null;
+  ownerId?: string | null;
+  walkInName?: string | null;
+  pet?: { name: string; species: string; breed?: string | null } | null;
+  owner?: { name: string; phone: string } | null;
+  reason: string;
+  triageLevel: TriageLevel;
+  triageNotes?: string | null;
+  status: QueueStatus;
+  doctorId?: string | null;
+  doctorName?: string | null;
+  room?: string | null;
+  outcome?: string | null;
+  arrivedAt: string;
+  consultStartedAt?: string | null;
+  consultEndedAt?: string | null;
+  dischargedAt?: string | null;
+  createdBy: string;
+}
+
+export interface QueueChanges {
+  status?: QueueStatus;
+  triageLevel?: TriageLevel;
+  triageNotes?: string;
+  doctorId?: string | null;
+  room?: string;
+  outcome?: string;
+}
+
+export interface QueueMetrics {
+  date: string;
+  arrivals: number;
+  seen: number;
+  leftUnseen: number;
+  averageWaitMinutes: number | null;
+  previousAverageWaitMinutes: number | null;
+  averageConsultMinutes: number | null;
+  byTriage: { triageLevel: TriageLevel; seen: number; averageWaitMinutes: number | null }[];
+  now: { waiting: number; inConsult: number; awaitingPayment: number; longestWaitMinutes: number | null };
+}
+
+export type AdmissionStatus = 'Admitted' | 'Discharged';
+export type TreatmentRoute = 'PO' | 'IV' | 'IM' | 'SC' | 'Topical' | 'Inhaled' | 'Other';
+
+export interface Admission {
+  id: string;
+  branchId?: string | null;
+  petId: string;
+  ownerId: string;
+  pet: { name: string; species: string; breed?: string | null; patientNumber?: string | null };
+  owner: { name: string; phone: string };
+  kennel: string;
+  reason: string;
+  status: AdmissionStatus;
+  dailyRate: number;
+  rateItemId?: string | null;
+  admittedAt: string;
+  expectedDischargeAt?: string | null;
+  dischargedAt?: string | null;
+  dischargeNotes?: string | null;
+  admittedBy: string;
+  dischargedBy?: string | null;
+  stayDays?: number | null; // Billed days, set at discharge
+  saleId?: string | null;
+  treatments?: TreatmentOrder[]; // Detail only
+  vitals?: Vitals[]; // Detail only, newest first
+}
+
+export interface TreatmentOrder {
+  id: string;
+  admissionId: string;
+  drug: string;
+  dose: string;
+  route: TreatmentRoute;
+  times: string[]; // HH:MM, clinic time
+  notes?: string | null;
+  startAt: string;
+  endAt?: string | null;
+  stoppedAt?: string | null;
+  prescribedBy: string;
+}
+
+export interface TreatmentTask {
+  id: string;
+  orderId: string;
+  dueAt: string;
+  status: 'Done' | 'Skipped';
+  notes?: string | null;
+  doneById: string;
+  doneByName: string;
+  doneAt: string;
+}
+
+export interface TreatmentSheet {
+  date: string;
+  rows: { order: TreatmentOrder; doses: { dueAt: string; task: TreatmentTask | null }[] }[];
+}
+
+export type ControlledSchedule = 'Schedule I' | 'Schedule II' | 'Schedule III' | 'Schedule IV' | 'Schedule V';
+export type ControlledEntryType = 'Receipt' | 'Dispense' | 'Administration' | 'Wastage' | 'Adjustment' | 'Transfer Out' | 'Transfer In';
+
+export interface ControlledDrugEntry {
+  id: string;
+  branchId?: string | null;
+  itemId: string;
+  sequence: number; // Line number within the register
+  type: ControlledEntryType;
+  quantity: number;
+  change: number; // Signed effect on the balance
+  balance: number; // Running balance after this line
+  petId?: string | null;
+  petName?: string | null;
+  ownerName?: string | null;
+  prescriberId?: string | null;
+  prescriberName?: string | null;
+  witnessId?: string | null;
+  witnessName?: string | null;
+  batchNumber?: string | null;
+  reference?: string | null;
+  notes?: string | null;
+  recordedById: string;
+  recordedByName: string;
+  occurredAt: string;
+  createdAt: string;
+}
+
+export interface ControlledDrugCount {
+  id: string;
+  itemId: string;
+  countedQuantity: number;
+  registerBalance: number;
+  discrepancy: number; // counted − register
+  adjustmentId?: string | null;
+  notes?: string | null;
+  countedByName: string;
+  witnessName: string;
+  countedAt: string;
+}
+
+export interface ControlledDrug {
+  id: string;
+  name: string;
+  sku: string;
+  unit?: string | null;
+  batchNumber?: string | null;
+  isControlled: boolean;
+  controlledSchedule: ControlledSchedule | null;
+  balance: number; // At the location asked for
+  lastEntryAt: string | null;
+  lastCount: ControlledDrugCount | null;
+}
+
+export interface ControlledReconciliation {
+  from: string;
+  to: string;
+  branchId: string | null;
+  items: {
+    item: { id: string; name: string; unit?: string | null; controlledSchedule: ControlledSchedule | null };
+    openingBalance: number;
+    received: number;
+    dispensed: number;
+    administered: number;
+    wasted: number;
+    adjusted: number;
+    transferredIn: number;
+    transferredOut: number;
+    closingBalance: number;
+    entries: number;
+    consistent: boolean; // false when a line is missing or a balance doesn't add up
+    counts: ControlledDrugCount[];
+    discrepancies: number;
+  }[];
+}
+
+export interface CalendarFeed {
+  id: string;
+  userId: string | null; // null = whole clinic
+  userName: string | null;
+  createdBy: string;
+  createdAt: string;
+  lastAccessedAt?: string | null;
+  path?: string; // Only returned when the feed is created
 }
 
 export interface InventoryItem {
@@ -275,6 +705,14 @@ export interface InventoryItem {
   batchNumber?: string;
   supplier?: string;
   lastUpdated?: string;
+
+  // Per-branch share of `stock`; when fetched for one branch, `stock` is that branch's level
+  branchStock?: { branchId: string; quantity: number }[];
+
+  // Controlled substances are tracked in the controlled drug register
+  isControlled?: boolean;
+  controlledSchedule?: ControlledSchedule | null;
+  totalStock?: number;
 }
 
 export interface LabResult {
@@ -294,6 +732,93 @@ export interface LabResult {
   requestedBy: string;
   conductedBy?: string;
   cost?: number;
+  testCode?: string;
+  accessionNumber?: string;
+  values?: LabResultValue[];
+}
+
+// N normal, L/H outside the reference range, LL/HH past critical limits, A abnormal qualitative result
+export type LabFlag = 'N' | 'L' | 'H' | 'LL' | 'HH' | 'A';
+
+export interface LabResultValue {
+  id?: string;
+  analyte: string;
+  name: string;
+  unit?: string | null;
+  value?: number | null;
+  textValue?: string | null;
+  refLow?: number | null;
+  refHigh?: number | null;
+  flag?: LabFlag | null;
+}
+
+export interface LabAnalyteDefinition {
+  code: string;
+  name: string;
+  unit?: string;
+  ranges?: Record<string, [number, number]>;
+  critical?: [number | null, number | null];
+  options?: string[];
+  normal?: string[];
+}
+
+export interface LabTestDefinition {
+  code: string;
+  name: string;
+  category: string;
+  analytes: LabAnalyteDefinition[];
+}
+
+// Per-pet lab history: analytes with numeric results, and one analyte's series over time
+export interface LabTrendAnalyte {
+  analyte: string;
+  name: string;
+  unit?: string | null;
+  count: number;
+  lastDate: string;
+  lastFlag?: LabFlag | null;
+}
+
+export interface LabTrendPoint {
+  labResultId: string;
+  testName: string;
+  date: string;
+  value: number;
+  flag?: LabFlag | null;
+}
+
+export interface LabTrendSeries {
+  analyte: string;
+  name: string;
+  unit?: string | null;
+  refLow?: number | null;
+  refHigh?: number | null;
+  critical?: [number | null, number | null] | null;
+  points: LabTrendPoint[];
+}
+
+// Analyzer result (HL7 / ASTM) waiting to be matched to a lab request
+export interface LabImport {
+  id: string;
+  source: 'upload' | 'folder';
+  format: 'HL7' | 'ASTM';
+  fileName?: string | null;
+  accession?: string | null;
+  patientRef?: string | null;
+  patientName?: string | null;
+  testCode?: string | null;
+  testName?: string | null;
+  observedAt?: string | null;
+  values: { code: string; name?: string; value: string; unit?: string; refRange?: string; flag?: string }[];
+  status: 'Unmatched' | 'Matched' | 'Discarded';
+  labResultId?: string | null;
+  createdAt: string;
+}
+
+export interface LabImportSummary {
+  groups: number;
+  matched: { labResultId: string; testName: string; patientName: string | null }[];
+  queued: number;
 }
 
 export interface Transaction {
@@ -348,6 +873,7 @@ export interface SaleRecord {
   receiptNumber?: string;
   payments: Payment[];
   notes?: string;
+  branchId?: string | null;
 }
 
 export interface Expense {
@@ -359,6 +885,7 @@ export interface Expense {
     amount: number;
     paymentMethod: string;
     notes?: string;
+    branchId?: string | null;
 }
 
 export interface LogEntry {
@@ -382,6 +909,7 @@ export interface StaffMember {
     roles: UserRole[];
     avatarUrl?: string;
     isSuspended: boolean;
+    branchId?: string | null;
 }
 
 export type ViewType = 
@@ -390,6 +918,9 @@ export type ViewType =
   | 'patients' 
   | 'treatments' 
   | 'appointments' 
+  | 'queue'
+  | 'hospital'
+  | 'controlled'
   | 'inventory' 
   | 'pos' 
   | 'lab' 
@@ -415,6 +946,6 @@ export interface AppState {
   subscriptionPlans: SubscriptionPlan[];
   supportTickets: SupportTicket[];
   expenses: Expense[];
-  branches?: Tenant[];
+  branches?: Branch[];
   currency?: string; 
 }